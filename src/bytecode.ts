@@ -0,0 +1,1412 @@
+// ========================================
+// Intrear Bytecode Backend
+// ========================================
+//
+// A compiler from the AST to compact bytecode and a stack VM running it,
+// selected with `new Interpreter(nodes, { backend: "vm" })`:
+//
+//   const chunk = compile(parse(source));
+//   console.log(disassemble(chunk));
+//   new VM(new ExecutionContext()).run(chunk);
+//
+// Variables are resolved while compiling, so locals live in numbered slots
+// of an Env instead of a chain of ExecutionContexts. Nodes without
+// instructions of their own (classes, match, pointers, modules, async
+// functions...) are run by the tree-walker through Op.EXEC, against a
+// context whose variables are the slots they can see.
+
+import {
+  ArrayLiteralNode,
+  ArrowFunctionNode,
+  AsNode,
+  AssignmentNode,
+  ASTNode,
+  BlockNode,
+  BreakNode,
+  BreakSignal,
+  ClassDeclarationNode,
+  conditionError,
+  ContinueNode,
+  ContinueSignal,
+  DoWhileNode,
+  ErrorNode,
+  ExportNode,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  ImportNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  isOfType,
+  LiteralNode,
+  memoize,
+  MethodCallNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  PropertyAccessNode,
+  ReturnNode,
+  ReturnSignal,
+  SwitchNode,
+  TryCatchNode,
+  typeToString,
+  unboxed,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+  withArity,
+} from "./interpreter";
+import type { ExecutionContext, VariableStore } from "./interpreter";
+import { IntrearReferenceError, IntrearRuntimeError } from "./errors";
+import type { SourceSpan } from "./errors";
+
+// ---------------------------------------------------
+// Instruction set - an opcode followed by its integer operands
+// ---------------------------------------------------
+export const Op = {
+  CONST: 0, // constant
+  POP: 1,
+  DUP: 2,
+  LOAD: 3, // slot
+  STORE: 4, // slot
+  LOAD_OUTER: 5, // depth, slot
+  STORE_OUTER: 6, // depth, slot
+  LOAD_GLOBAL: 7, // name
+  STORE_GLOBAL: 8, // name
+  DECLARE: 9, // declaration; checks the value about to be stored
+  ADD: 10,
+  SUBTRACT: 11,
+  MULTIPLY: 12,
+  DIVIDE: 13,
+  EQUAL: 14,
+  NOT_EQUAL: 15,
+  LESS: 16,
+  LESS_EQUAL: 17,
+  GREATER: 18,
+  GREATER_EQUAL: 19,
+  AND: 20,
+  OR: 21,
+  CONCAT: 22,
+  BINARY: 23, // operator node, for the operators above that check operands
+  JUMP: 24, // address
+  JUMP_IF_FALSE: 25, // address, condition; the condition must be boolean
+  JUMP_IF_TRUTHY: 26, // address
+  CALLABLE: 27, // call node; checks the callee before the arguments run
+  CALL: 28, // call node, argument count
+  RECEIVER: 29, // method call node
+  CALL_METHOD: 30, // method call node, argument count
+  ARRAY: 31, // element count
+  OBJECT: 32, // keys
+  INDEX: 33, // index access node
+  SET_INDEX: 34, // index assignment node
+  PROPERTY: 35, // property access node with a static key
+  PROPERTY_KEY: 36, // property access node with a computed key
+  CAST: 37, // as node
+  TEST: 38, // is node
+  CLOSURE: 39, // chunk
+  RETURN: 40,
+  THROW: 41, // throw node
+  TRY: 42, // catch address
+  END_TRY: 43,
+  ENTER_SCOPE: 44, // slot names of the block's own Env
+  LEAVE_SCOPE: 45,
+  ITERABLE: 46, // for-each node
+  NEXT: 47, // slot of the array (the index is the next one), exit address
+  // node, visible slots (-1: the VM's context), break and continue
+  // addresses (-1 outside loops), try blocks and scopes open at the loop
+  EXEC: 48,
+} as const;
+
+export type Op = (typeof Op)[keyof typeof Op];
+
+const OP_NAMES = Object.keys(Op) as (keyof typeof Op)[];
+
+const OPERANDS: Record<keyof typeof Op, number> = {
+  CONST: 1,
+  POP: 0,
+  DUP: 0,
+  LOAD: 1,
+  STORE: 1,
+  LOAD_OUTER: 2,
+  STORE_OUTER: 2,
+  LOAD_GLOBAL: 1,
+  STORE_GLOBAL: 1,
+  DECLARE: 1,
+  ADD: 0,
+  SUBTRACT: 0,
+  MULTIPLY: 0,
+  DIVIDE: 0,
+  EQUAL: 0,
+  NOT_EQUAL: 0,
+  LESS: 0,
+  LESS_EQUAL: 0,
+  GREATER: 0,
+  GREATER_EQUAL: 0,
+  AND: 0,
+  OR: 0,
+  CONCAT: 0,
+  BINARY: 1,
+  JUMP: 1,
+  JUMP_IF_FALSE: 2,
+  JUMP_IF_TRUTHY: 1,
+  CALLABLE: 1,
+  CALL: 2,
+  RECEIVER: 1,
+  CALL_METHOD: 2,
+  ARRAY: 1,
+  OBJECT: 1,
+  INDEX: 1,
+  SET_INDEX: 1,
+  PROPERTY: 1,
+  PROPERTY_KEY: 1,
+  CAST: 1,
+  TEST: 1,
+  CLOSURE: 1,
+  RETURN: 0,
+  THROW: 1,
+  TRY: 1,
+  END_TRY: 0,
+  ENTER_SCOPE: 1,
+  LEAVE_SCOPE: 0,
+  ITERABLE: 1,
+  NEXT: 2,
+  EXEC: 6,
+};
+
+const BINARY_OPS: Record<string, Op> = {
+  "+": Op.ADD,
+  "-": Op.SUBTRACT,
+  "*": Op.MULTIPLY,
+  "/": Op.DIVIDE,
+  "==": Op.EQUAL,
+  "!==": Op.NOT_EQUAL,
+  "<": Op.LESS,
+  "<=": Op.LESS_EQUAL,
+  ">": Op.GREATER,
+  ">=": Op.GREATER_EQUAL,
+  "&&": Op.AND,
+  "||": Op.OR,
+  "><": Op.CONCAT,
+};
+
+// Where a variable lives: `depth` Envs out from the current one.
+type Visible = Map<string, [depth: number, slot: number]>;
+
+// ---------------------------------------------------
+// Chunk - The compiled body of one function or of the program
+// ---------------------------------------------------
+export class Chunk {
+  public code: number[] = [];
+  public constants: any[] = [];
+  // Source span and operand description of each instruction, by offset.
+  public spans: (SourceSpan | undefined)[] = [];
+  public notes: (string | undefined)[] = [];
+  // Names of the slots of the Env each call gets; parameters come first.
+  public slotNames: string[] = [];
+  // Offset of the final RETURN, which a `return` run by EXEC jumps to.
+  public returnAt = 0;
+  // Top-level variables of a program, which its context exposes.
+  public topLevel: Visible = new Map();
+
+  constructor(
+    public name: string,
+    public arity: number,
+    public fn?: FunctionLiteralNode | ArrowFunctionNode
+  ) {}
+}
+
+// ---------------------------------------------------
+// Compiler - Resolves variables to slots and emits instructions
+// ---------------------------------------------------
+interface Scope {
+  names: Map<string, number>;
+  parent?: Scope;
+  // Function bodies, and blocks a closure may capture, get an Env of their
+  // own at run time; other blocks allocate slots in the enclosing one.
+  fresh: boolean;
+  slots: string[];
+}
+
+interface Loop {
+  // Operands to patch with the loop's exit and continue addresses.
+  breaks: number[];
+  continues: number[];
+  tries: number;
+  scope: Scope;
+}
+
+export function compile(nodes: ASTNode[]): Chunk {
+  const chunk = new Chunk("<main>", 0);
+  const compiler = new Compiler(chunk);
+  compiler.body(nodes);
+  for (const [name, slot] of compiler.scope.names) {
+    chunk.topLevel.set(name, [0, slot]);
+  }
+  return chunk;
+}
+
+class Compiler {
+  public scope: Scope;
+  private loops: Loop[] = [];
+  private tries = 0;
+  private visibleAt = new Map<Scope, number>();
+
+  constructor(public chunk: Chunk, enclosing?: Scope) {
+    this.scope = {
+      names: new Map(),
+      parent: enclosing,
+      fresh: true,
+      slots: chunk.slotNames,
+    };
+  }
+
+  // Compiles a function or program body, which returns undefined when it
+  // runs off the end.
+  body(statements: ASTNode[]) {
+    this.declareAll(statements);
+    for (const stmt of statements) this.statement(stmt);
+    this.emit(Op.CONST, undefined, this.constant(undefined));
+    this.chunk.returnAt = this.emit(Op.RETURN, undefined);
+  }
+
+  private emit(op: Op, node: ASTNode | undefined, ...operands: number[]) {
+    const offset = this.chunk.code.length;
+    this.chunk.code.push(op, ...operands);
+    this.chunk.spans[offset] = node?.span;
+    return offset;
+  }
+
+  private constant(value: any): number {
+    const { constants } = this.chunk;
+    const primitive = value === null || typeof value !== "object";
+    // Object.is keeps 0 and -0 apart, and finds NaN.
+    const found = primitive
+      ? constants.findIndex((c) => Object.is(c, value))
+      : -1;
+    return found >= 0 ? found : constants.push(value) - 1;
+  }
+
+  private get here(): number {
+    return this.chunk.code.length;
+  }
+
+  private patch(operand: number, target = this.here) {
+    this.chunk.code[operand] = target;
+  }
+
+  // ------------------------------------------
+  // Scopes and variables
+  // ------------------------------------------
+
+  // Allocates the names declared directly in a block up front, so that
+  // closures referring to a later declaration resolve it to its slot.
+  private declareAll(statements: ASTNode[]) {
+    for (const stmt of statements) {
+      for (const name of declaredNames(stmt)) this.declare(name);
+    }
+  }
+
+  private declare(name: string): number {
+    const existing = this.scope.names.get(name);
+    if (existing !== undefined) return existing;
+    const slot = this.scope.slots.push(name) - 1;
+    this.scope.names.set(name, slot);
+    return slot;
+  }
+
+  // A slot no variable name resolves to.
+  private temporary(purpose: string): number {
+    return this.scope.slots.push(`(${purpose})`) - 1;
+  }
+
+  private enterScope(statements: ASTNode[]) {
+    const fresh = containsFunction(statements);
+    this.scope = {
+      names: new Map(),
+      parent: this.scope,
+      fresh,
+      slots: fresh ? [] : this.scope.slots,
+    };
+    if (fresh) {
+      this.emit(Op.ENTER_SCOPE, undefined, this.constant(this.scope.slots));
+    }
+  }
+
+  private leaveScope() {
+    if (this.scope.fresh) this.emit(Op.LEAVE_SCOPE, undefined);
+    this.scope = this.scope.parent!;
+  }
+
+  private block(statements: ASTNode[]) {
+    this.enterScope(statements);
+    this.declareAll(statements);
+    for (const stmt of statements) this.statement(stmt);
+    this.leaveScope();
+  }
+
+  private resolve(name: string): [number, number] | undefined {
+    let depth = 0;
+    for (let s: Scope | undefined = this.scope; s; s = s.parent) {
+      const slot = s.names.get(name);
+      if (slot !== undefined) return [depth, slot];
+      if (s.fresh) depth++;
+    }
+    return undefined;
+  }
+
+  private load(name: string, node: ASTNode) {
+    const ref = this.resolve(name);
+    let offset: number;
+    if (!ref) offset = this.emit(Op.LOAD_GLOBAL, node, this.constant(name));
+    else if (ref[0] === 0) offset = this.emit(Op.LOAD, node, ref[1]);
+    else offset = this.emit(Op.LOAD_OUTER, node, ...ref);
+    this.chunk.notes[offset] = name;
+  }
+
+  private store(name: string, node: ASTNode) {
+    const ref = this.resolve(name);
+    let offset: number;
+    if (!ref) offset = this.emit(Op.STORE_GLOBAL, node, this.constant(name));
+    else if (ref[0] === 0) offset = this.emit(Op.STORE, node, ref[1]);
+    else offset = this.emit(Op.STORE_OUTER, node, ...ref);
+    this.chunk.notes[offset] = name;
+  }
+
+  // The constant listing every slot visible from the current scope, for
+  // EXEC; -1 at the top level of the program, whose context has them all.
+  private visible(): number {
+    if (!this.scope.parent) return -1;
+    let index = this.visibleAt.get(this.scope);
+    if (index === undefined) {
+      const names: Visible = new Map();
+      let depth = 0;
+      for (let s: Scope | undefined = this.scope; s; s = s.parent) {
+        for (const [name, slot] of s.names) {
+          if (!names.has(name)) names.set(name, [depth, slot]);
+        }
+        if (s.fresh) depth++;
+      }
+      index = this.constant(names);
+      this.visibleAt.set(this.scope, index);
+    }
+    return index;
+  }
+
+  // Fresh scopes between the current one and `scope`.
+  private scopesSince(scope: Scope): number {
+    let count = 0;
+    for (let s = this.scope; s !== scope; s = s.parent!) {
+      if (s.fresh) count++;
+    }
+    return count;
+  }
+
+  // ------------------------------------------
+  // Statements
+  // ------------------------------------------
+  private statement(node: ASTNode) {
+    if (node instanceof VariableDeclarationNode) {
+      this.declaration(node);
+    } else if (node instanceof AssignmentNode) {
+      this.expression(node.expression);
+      this.store(node.name, node);
+    } else if (node instanceof BlockNode) {
+      this.block(node.statements);
+    } else if (node instanceof IfNode) {
+      this.ifStatement(node);
+    } else if (node instanceof WhileNode) {
+      this.whileLoop(node);
+    } else if (node instanceof ForNode) {
+      this.forLoop(node);
+    } else if (node instanceof DoWhileNode) {
+      this.doWhileLoop(node);
+    } else if (node instanceof ForEachNode) {
+      this.forEachLoop(node);
+    } else if (node instanceof SwitchNode) {
+      this.switchStatement(node);
+    } else if (node instanceof TryCatchNode) {
+      this.tryCatch(node);
+    } else if (node instanceof ReturnNode && this.chunk.fn) {
+      this.expression(node.expression);
+      this.emit(Op.RETURN, node);
+    } else if (node instanceof BreakNode && this.loops.length > 0) {
+      this.jumpOut(node, this.loops.at(-1)!.breaks);
+    } else if (node instanceof ContinueNode && this.loops.length > 0) {
+      this.jumpOut(node, this.loops.at(-1)!.continues);
+    } else {
+      this.expression(node);
+      this.emit(Op.POP, undefined);
+    }
+  }
+
+  private declaration(node: VariableDeclarationNode) {
+    this.expression(node.expression);
+    if (node.varType !== "any" || node.declaredType) {
+      this.emit(Op.DECLARE, node, this.constant(node));
+    }
+    this.declare(node.name);
+    this.store(node.name, node);
+  }
+
+  private jumpOut(node: ASTNode, targets: number[]) {
+    const loop = this.loops.at(-1)!;
+    for (let i = loop.tries; i < this.tries; i++) {
+      this.emit(Op.END_TRY, node);
+    }
+    for (let i = this.scopesSince(loop.scope); i > 0; i--) {
+      this.emit(Op.LEAVE_SCOPE, node);
+    }
+    targets.push(this.emit(Op.JUMP, node, -1) + 1);
+  }
+
+  private ifStatement(node: IfNode) {
+    this.expression(node.condition);
+    const condition = this.constant(node.condition);
+    const skip = this.emit(Op.JUMP_IF_FALSE, node, -1, condition);
+    this.block(node.thenBranch);
+    if (node.elseBranch) {
+      const end = this.emit(Op.JUMP, undefined, -1);
+      this.patch(skip + 1);
+      this.block(node.elseBranch);
+      this.patch(end + 1);
+    } else {
+      this.patch(skip + 1);
+    }
+  }
+
+  private beginLoop(): Loop {
+    const loop = {
+      breaks: [],
+      continues: [],
+      tries: this.tries,
+      scope: this.scope,
+    };
+    this.loops.push(loop);
+    return loop;
+  }
+
+  private endLoop(loop: Loop, continueAt: number) {
+    this.loops.pop();
+    for (const operand of loop.continues) this.patch(operand, continueAt);
+    for (const operand of loop.breaks) this.patch(operand);
+  }
+
+  // The body runs in the loop's own scope, as WhileNode does.
+  private whileLoop(node: WhileNode) {
+    const start = this.here;
+    this.expression(node.condition);
+    const condition = this.constant(node.condition);
+    const exit = this.emit(Op.JUMP_IF_FALSE, node, -1, condition);
+    const loop = this.beginLoop();
+    this.declareAll(node.body);
+    for (const stmt of node.body) this.statement(stmt);
+    this.emit(Op.JUMP, undefined, start);
+    this.patch(exit + 1);
+    this.endLoop(loop, start);
+  }
+
+  private forLoop(node: ForNode) {
+    this.statement(node.init);
+    const start = this.here;
+    this.expression(node.condition);
+    const condition = this.constant(node.condition);
+    const exit = this.emit(Op.JUMP_IF_FALSE, node, -1, condition);
+    const loop = this.beginLoop();
+    this.block(node.body);
+    const update = this.here;
+    this.statement(node.update);
+    this.emit(Op.JUMP, undefined, start);
+    this.patch(exit + 1);
+    this.endLoop(loop, update);
+  }
+
+  // The condition is tested for truthiness, as DoWhileNode does.
+  private doWhileLoop(node: DoWhileNode) {
+    const start = this.here;
+    const loop = this.beginLoop();
+    this.block(node.body);
+    const test = this.here;
+    this.expression(node.condition);
+    this.emit(Op.JUMP_IF_TRUTHY, node, start);
+    this.endLoop(loop, test);
+  }
+
+  private forEachLoop(node: ForEachNode) {
+    this.expression(node.iterable);
+    this.emit(Op.ITERABLE, node, this.constant(node));
+    const array = this.temporary("array");
+    const index = this.temporary("index");
+    this.emit(Op.STORE, undefined, array);
+    this.emit(Op.CONST, undefined, this.constant(0));
+    this.emit(Op.STORE, undefined, index);
+    const start = this.here;
+    const next = this.emit(Op.NEXT, node, array, -1);
+    const loop = this.beginLoop();
+    this.enterScope(node.body);
+    this.declare(node.itemName);
+    this.store(node.itemName, node);
+    this.declareAll(node.body);
+    for (const stmt of node.body) this.statement(stmt);
+    this.leaveScope();
+    this.emit(Op.JUMP, undefined, start);
+    this.patch(next + 2);
+    this.endLoop(loop, start);
+  }
+
+  private switchStatement(node: SwitchNode) {
+    this.expression(node.expression);
+    const value = this.temporary("switch");
+    this.emit(Op.STORE, undefined, value);
+    const ends: number[] = [];
+    for (const { match, body } of node.cases) {
+      this.emit(Op.LOAD, undefined, value);
+      this.expression(match);
+      this.emit(Op.EQUAL, match);
+      const skip = this.emit(Op.JUMP_IF_FALSE, match, -1, this.constant(match));
+      this.block(body);
+      ends.push(this.emit(Op.JUMP, undefined, -1) + 1);
+      this.patch(skip + 1);
+    }
+    if (node.defaultCase) this.block(node.defaultCase);
+    for (const operand of ends) this.patch(operand);
+  }
+
+  private tryCatch(node: TryCatchNode) {
+    const handler = this.emit(Op.TRY, node, -1);
+    this.tries++;
+    this.block(node.tryBlock);
+    this.tries--;
+    this.emit(Op.END_TRY, undefined);
+    const end = this.emit(Op.JUMP, undefined, -1);
+    this.patch(handler + 1);
+    // The VM pushes the caught error.
+    this.enterScope(node.catchBlock);
+    this.declare(node.catchVar);
+    this.store(node.catchVar, node);
+    this.declareAll(node.catchBlock);
+    for (const stmt of node.catchBlock) this.statement(stmt);
+    this.leaveScope();
+    this.patch(end + 1);
+  }
+
+  // ------------------------------------------
+  // Expressions - each leaves one value on the stack
+  // ------------------------------------------
+  private expression(node: ASTNode) {
+    if (node instanceof LiteralNode) {
+      this.emit(Op.CONST, node, this.constant(node.value));
+    } else if (node instanceof VariableReferenceNode) {
+      this.load(node.name, node);
+    } else if (node instanceof VariableDeclarationNode) {
+      this.declaration(node);
+      this.load(node.name, node);
+    } else if (node instanceof AssignmentNode) {
+      this.expression(node.expression);
+      this.emit(Op.DUP, undefined);
+      this.store(node.name, node);
+    } else if (node instanceof OperatorNode) {
+      this.expression(node.operands[0]);
+      this.expression(node.operands[1]);
+      const op = BINARY_OPS[node.operator];
+      if (op !== undefined) this.emit(op, node);
+      else this.emit(Op.BINARY, node, this.constant(node));
+    } else if (node instanceof FunctionCallNode) {
+      this.load(node.functionName, node);
+      const call = this.constant(node);
+      this.emit(Op.CALLABLE, node, call);
+      for (const arg of node.args) this.expression(arg);
+      this.emit(Op.CALL, node, call, node.args.length);
+    } else if (node instanceof MethodCallNode) {
+      this.expression(node.target);
+      const call = this.constant(node);
+      this.emit(Op.RECEIVER, node, call);
+      for (const arg of node.args) this.expression(arg);
+      this.emit(Op.CALL_METHOD, node, call, node.args.length);
+    } else if (node instanceof ArrayLiteralNode) {
+      for (const element of node.elements) this.expression(element);
+      this.emit(Op.ARRAY, node, node.elements.length);
+    } else if (node instanceof ObjectLiteralNode) {
+      const keys = Object.keys(node.properties);
+      for (const key of keys) this.expression(node.properties[key]!);
+      this.emit(Op.OBJECT, node, this.constant(keys));
+    } else if (node instanceof IndexAccessNode) {
+      this.expression(node.array);
+      this.expression(node.index);
+      this.emit(Op.INDEX, node, this.constant(node));
+    } else if (node instanceof IndexAssignmentNode) {
+      this.expression(node.target);
+      this.expression(node.index);
+      this.expression(node.value);
+      this.emit(Op.SET_INDEX, node, this.constant(node));
+    } else if (node instanceof PropertyAccessNode) {
+      this.expression(node.object);
+      if (typeof node.property === "string") {
+        this.emit(Op.PROPERTY, node, this.constant(node));
+      } else {
+        this.expression(node.property);
+        this.emit(Op.PROPERTY_KEY, node, this.constant(node));
+      }
+    } else if (node instanceof AsNode) {
+      this.expression(node.expression);
+      this.emit(Op.CAST, node, this.constant(node));
+    } else if (node instanceof IsNode) {
+      this.expression(node.expression);
+      this.emit(Op.TEST, node, this.constant(node));
+    } else if (node instanceof ErrorNode) {
+      this.expression(node.message);
+      this.emit(Op.THROW, node, this.constant(node));
+    } else if (
+      (node instanceof FunctionLiteralNode ||
+        node instanceof ArrowFunctionNode) &&
+      !node.isAsync
+    ) {
+      this.emit(Op.CLOSURE, node, this.constant(this.function(node)));
+    } else {
+      this.exec(node);
+    }
+  }
+
+  private function(node: FunctionLiteralNode | ArrowFunctionNode): Chunk {
+    const params =
+      node instanceof FunctionLiteralNode ? node.params : node.paramNames;
+    const name =
+      (node instanceof FunctionLiteralNode && node.name) || "<anonymous>";
+    const chunk = new Chunk(name, params.length, node);
+    const compiler = new Compiler(chunk, this.scope);
+    // A repeated parameter name refers to the last one, as in the
+    // tree-walker; each still gets its own slot.
+    params.forEach((param, i) => {
+      chunk.slotNames.push(param);
+      compiler.scope.names.set(param, i);
+    });
+    if (node instanceof FunctionLiteralNode) {
+      compiler.body(node.body);
+    } else if (node.block) {
+      compiler.body(node.block);
+    } else {
+      compiler.expression(node.body);
+      chunk.returnAt = compiler.emit(Op.RETURN, node.body);
+    }
+    return chunk;
+  }
+
+  // Hands the node to the tree-walker.
+  private exec(node: ASTNode) {
+    const loop = this.loops.at(-1);
+    const at = this.emit(
+      Op.EXEC,
+      node,
+      this.constant(node),
+      this.visible(),
+      -1,
+      -1,
+      loop?.tries ?? 0,
+      loop ? this.scopesSince(loop.scope) : 0
+    );
+    if (loop) {
+      loop.breaks.push(at + 3);
+      loop.continues.push(at + 4);
+    }
+  }
+}
+
+// Names a statement defines in the scope it appears in.
+function declaredNames(node: ASTNode): string[] {
+  if (node instanceof VariableDeclarationNode) return [node.name];
+  if (node instanceof ClassDeclarationNode) return [node.name];
+  if (node instanceof ExportNode) return [node.declaration.name];
+  if (node instanceof ImportNode) {
+    const names = node.bindings.map(({ name, as }) => as ?? name);
+    return node.namespace ? [node.namespace, ...names] : names;
+  }
+  return [];
+}
+
+// Whether a function is defined anywhere in `value`, which could then
+// capture the variables of the scope it is in.
+export function containsFunction(
+  value: any,
+  seen = new Set<object>()
+): boolean {
+  if (value === null || typeof value !== "object" || seen.has(value)) {
+    return false;
+  }
+  seen.add(value);
+  if (value instanceof FunctionLiteralNode) return true;
+  if (value instanceof ArrowFunctionNode) return true;
+  return Object.values(value).some((child) => containsFunction(child, seen));
+}
+
+// ---------------------------------------------------
+// Disassembler - One instruction per line, then each nested function
+// ---------------------------------------------------
+export function disassemble(chunk: Chunk): string {
+  const { name, arity, slotNames } = chunk;
+  const lines = [
+    `== ${name} (${arity} params, ${slotNames.length} slots) ==`,
+  ];
+  const nested: Chunk[] = [];
+  let line: number | undefined;
+  for (let offset = 0; offset < chunk.code.length; ) {
+    const op = chunk.code[offset]!;
+    const count = OPERANDS[OP_NAMES[op]!];
+    const operands = chunk.code.slice(offset + 1, offset + 1 + count);
+    const start = chunk.spans[offset]?.start;
+    const where =
+      start && start.line !== line ? `${start.line}:${start.column}` : "";
+    if (start) line = start.line;
+    const note = describeOperands(chunk, offset, operands);
+    lines.push(
+      [
+        String(offset).padStart(4, "0"),
+        where.padEnd(6),
+        OP_NAMES[op]!.padEnd(14),
+        operands.join(" ").padEnd(10),
+        note && `; ${note}`,
+      ]
+        .join(" ")
+        .trimEnd()
+    );
+    if (op === Op.CLOSURE) nested.push(chunk.constants[operands[0]!]);
+    offset += 1 + operands.length;
+  }
+  return [lines.join("\n"), ...nested.map(disassemble)].join("\n\n");
+}
+
+function describeOperands(
+  chunk: Chunk,
+  offset: number,
+  operands: number[]
+): string | undefined {
+  const constant = chunk.constants[operands[0]!];
+  const address = (operand: number | undefined) =>
+    `-> ${String(operand).padStart(4, "0")}`;
+  switch (chunk.code[offset]) {
+    case Op.CONST:
+      return typeof constant === "string"
+        ? JSON.stringify(constant)
+        : String(constant);
+    case Op.LOAD:
+    case Op.STORE:
+    case Op.LOAD_OUTER:
+    case Op.STORE_OUTER:
+    case Op.LOAD_GLOBAL:
+    case Op.STORE_GLOBAL:
+      return chunk.notes[offset];
+    case Op.JUMP:
+    case Op.JUMP_IF_FALSE:
+    case Op.JUMP_IF_TRUTHY:
+    case Op.TRY:
+      return address(operands[0]);
+    case Op.NEXT:
+      return address(operands[1]);
+    case Op.DECLARE:
+      return `${constant.name}: ${constant.varType}`;
+    case Op.BINARY:
+      return constant.operator;
+    case Op.CALLABLE:
+    case Op.CALL:
+      return constant.functionName;
+    case Op.RECEIVER:
+    case Op.CALL_METHOD:
+      return `.${constant.methodName}`;
+    case Op.OBJECT:
+      return `{ ${constant.join(", ")} }`;
+    case Op.PROPERTY:
+      return `.${constant.property}`;
+    case Op.CAST:
+    case Op.TEST:
+      return typeToString(constant.type);
+    case Op.CLOSURE:
+      return `<function ${constant.name}>`;
+    case Op.ENTER_SCOPE:
+      return constant.join(", ");
+    case Op.EXEC:
+      return constant.constructor.name;
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------
+// VM - Runs chunks on one operand stack with a frame per active call
+// ---------------------------------------------------
+
+// The slots of one function call or fresh block.
+interface Env {
+  slots: any[];
+  parent?: Env;
+  // Contexts EXEC has run nodes in, by the slots they see.
+  bridges?: Map<Visible, ExecutionContext>;
+}
+
+interface Frame {
+  chunk: Chunk;
+  env: Env;
+  ip: number;
+  // Stack height before the call; statements start and end at it.
+  base: number;
+  handlers: { address: number; height: number; env: Env }[];
+  // Returning from an entry frame ends the run() that pushed it.
+  entry: boolean;
+  // Whether the call pushed an entry on the context's call stack.
+  traced: boolean;
+}
+
+interface Closure {
+  chunk: Chunk;
+  env: Env;
+}
+
+const CLOSURE = Symbol("closure");
+
+// A top-level EXEC waiting on `node.executeAsync()` in runAsync().
+class Suspension {
+  constructor(public at: number, public promise: Promise<any>) {}
+}
+
+// Exposes slots to the tree-walker as the variables of a context.
+export class SlotStore implements VariableStore {
+  constructor(private env: Env, private visible: Visible) {}
+
+  has(name: string): boolean {
+    return this.visible.has(name);
+  }
+
+  get(name: string): any {
+    const [depth, slot] = this.visible.get(name)!;
+    return envAt(this.env, depth).slots[slot];
+  }
+
+  set(name: string, value: any): void {
+    const [depth, slot] = this.visible.get(name)!;
+    envAt(this.env, depth).slots[slot] = value;
+  }
+
+  names(): string[] {
+    return [...this.visible.keys()];
+  }
+}
+
+export function envAt(env: Env, depth: number): Env {
+  while (depth-- > 0) env = env.parent!;
+  return env;
+}
+
+function newEnv(size: number, parent?: Env): Env {
+  return { slots: new Array(size).fill(undefined), parent };
+}
+
+export class VM {
+  private stack: any[] = [];
+  private frames: Frame[] = [];
+  private main?: Frame;
+  // Whether a top-level EXEC may suspend the program; see runAsync().
+  private suspending = false;
+
+  // Global variables, built-ins and modules come from `context`, which
+  // also exposes the program's top-level variables once it runs.
+  constructor(public context: ExecutionContext) {}
+
+  run(chunk: Chunk): any {
+    this.start(chunk);
+    return this.execute();
+  }
+
+  // Like run(), but top-level nodes run by EXEC may `await`: the program
+  // suspends until the promise settles, then resumes where it was.
+  async runAsync(chunk: Chunk): Promise<any> {
+    this.suspending = true;
+    this.start(chunk);
+    let result = this.execute();
+    while (result instanceof Suspension) {
+      const { at, promise } = result;
+      const resume = await promise.then(
+        (value) => () => this.stack.push(unboxed(value)),
+        (error) => () => {
+          if (!this.raise(error, this.main!, at)) this.unwind(error, 1);
+        }
+      );
+      resume();
+      result = this.execute();
+    }
+    return result;
+  }
+
+  private start(chunk: Chunk) {
+    const env = newEnv(chunk.slotNames.length);
+    this.context.store = new SlotStore(env, chunk.topLevel);
+    this.main = this.push(chunk, env, true, false);
+  }
+
+  private push(chunk: Chunk, env: Env, entry: boolean, traced: boolean) {
+    const frame: Frame = {
+      chunk,
+      env,
+      ip: 0,
+      base: this.stack.length,
+      handlers: [],
+      entry,
+      traced,
+    };
+    this.frames.push(frame);
+    return frame;
+  }
+
+  private popFrame(): Frame {
+    const frame = this.frames.pop()!;
+    this.stack.length = frame.base;
+    if (frame.traced) this.context.callStack.pop();
+    return frame;
+  }
+
+  // Runs until the innermost entry frame returns.
+  private execute(): any {
+    const depth = this.frames.length;
+    while (true) {
+      try {
+        return this.dispatch();
+      } catch (e) {
+        this.unwind(e, depth);
+      }
+    }
+  }
+
+  // Transfers control to the innermost try block of the frames this run
+  // owns, or discards them and rethrows.
+  private unwind(e: unknown, depth: number) {
+    const signal =
+      e instanceof ReturnSignal ||
+      e instanceof BreakSignal ||
+      e instanceof ContinueSignal;
+    while (this.frames.length >= depth) {
+      const frame = this.frames.at(-1)!;
+      const handler = signal ? undefined : frame.handlers.pop();
+      if (handler) {
+        this.stack.length = handler.height;
+        this.stack.push(e);
+        frame.env = handler.env;
+        frame.ip = handler.address;
+        return;
+      }
+      this.popFrame();
+    }
+    throw e;
+  }
+
+  // A VM function as a host function; calls from bytecode skip the
+  // wrapper and push a frame instead.
+  private closure(chunk: Chunk, env: Env): (...args: any[]) => any {
+    const closure: Closure = { chunk, env };
+    let fn: any = (...args: any[]) => this.call(closure, args);
+    if (chunk.fn instanceof FunctionLiteralNode && chunk.fn.pure) {
+      fn = memoize(fn);
+    } else {
+      fn[CLOSURE] = closure;
+    }
+    return withArity(fn, chunk.arity);
+  }
+
+  private call({ chunk, env }: Closure, args: any[]): any {
+    chunk.fn?.checkArguments(args, this.context);
+    const frameEnv = newEnv(chunk.slotNames.length, env);
+    for (let i = 0; i < chunk.arity; i++) frameEnv.slots[i] = args[i];
+    this.push(chunk, frameEnv, true, false);
+    return this.execute();
+  }
+
+  private bridge(frame: Frame, visible: number): ExecutionContext {
+    if (visible < 0) return this.context;
+    const names: Visible = frame.chunk.constants[visible];
+    const bridges = (frame.env.bridges ??= new Map());
+    let context = bridges.get(names);
+    if (!context) {
+      context = this.context.createChildContext();
+      context.store = new SlotStore(frame.env, names);
+      bridges.set(names, context);
+    }
+    return context;
+  }
+
+  // Handles a signal thrown by the node of the EXEC at `at` in `frame`: a
+  // `return` returns from the frame's function, `break` and `continue`
+  // jump out of the enclosing loop. False for anything else.
+  private raise(e: unknown, frame: Frame, at: number): boolean {
+    const { code } = frame.chunk;
+    const fn = frame.chunk.fn;
+    let target = -1;
+    const returns = fn instanceof FunctionLiteralNode || !!fn?.block;
+    if (e instanceof ReturnSignal && returns) {
+      frame.handlers.length = 0;
+      this.stack.length = frame.base;
+      this.stack.push(e.value);
+      frame.ip = frame.chunk.returnAt;
+      return true;
+    }
+    if (e instanceof BreakSignal) target = code[at + 3]!;
+    if (e instanceof ContinueSignal) target = code[at + 4]!;
+    if (target < 0) return false;
+    frame.handlers.length = code[at + 5]!;
+    frame.env = envAt(frame.env, code[at + 6]!);
+    this.stack.length = frame.base;
+    frame.ip = target;
+    return true;
+  }
+
+  private dispatch(): any {
+    const stack = this.stack;
+    const context = this.context;
+    let frame = this.frames.at(-1)!;
+    let code = frame.chunk.code;
+    let constants = frame.chunk.constants;
+    let slots = frame.env.slots;
+    let ip = frame.ip;
+
+    while (true) {
+      const op = code[ip++]!;
+      switch (op) {
+        case Op.CONST:
+          stack.push(constants[code[ip++]!]);
+          break;
+        case Op.POP:
+          stack.pop();
+          break;
+        case Op.DUP:
+          stack.push(stack[stack.length - 1]);
+          break;
+        case Op.LOAD:
+          stack.push(slots[code[ip++]!]);
+          break;
+        case Op.STORE:
+          slots[code[ip++]!] = stack.pop();
+          break;
+        case Op.LOAD_OUTER: {
+          const env = envAt(frame.env, code[ip++]!);
+          stack.push(env.slots[code[ip++]!]);
+          break;
+        }
+        case Op.STORE_OUTER: {
+          const env = envAt(frame.env, code[ip++]!);
+          env.slots[code[ip++]!] = stack.pop();
+          break;
+        }
+        case Op.LOAD_GLOBAL:
+          stack.push(context.getVariable(constants[code[ip++]!]));
+          break;
+        case Op.STORE_GLOBAL:
+          context.assignVariable(constants[code[ip++]!], stack.pop());
+          break;
+        case Op.DECLARE: {
+          const node: VariableDeclarationNode = constants[code[ip++]!];
+          const top = stack.length - 1;
+          stack[top] = node.check(stack[top], context);
+          break;
+        }
+        case Op.ADD: {
+          const right = stack.pop();
+          stack[stack.length - 1] += right;
+          break;
+        }
+        case Op.SUBTRACT: {
+          const right = stack.pop();
+          stack[stack.length - 1] -= right;
+          break;
+        }
+        case Op.MULTIPLY: {
+          const right = stack.pop();
+          stack[stack.length - 1] *= right;
+          break;
+        }
+        case Op.DIVIDE: {
+          const right = stack.pop();
+          stack[stack.length - 1] /= right;
+          break;
+        }
+        case Op.EQUAL: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] === right;
+          break;
+        }
+        case Op.NOT_EQUAL: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] !== right;
+          break;
+        }
+        case Op.LESS: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] < right;
+          break;
+        }
+        case Op.LESS_EQUAL: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] <= right;
+          break;
+        }
+        case Op.GREATER: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] > right;
+          break;
+        }
+        case Op.GREATER_EQUAL: {
+          const right = stack.pop();
+          stack[stack.length - 1] = stack[stack.length - 1] >= right;
+          break;
+        }
+        case Op.AND: {
+          const right = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = Boolean(stack[top]) && Boolean(right);
+          break;
+        }
+        case Op.OR: {
+          const right = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = Boolean(stack[top]) || Boolean(right);
+          break;
+        }
+        case Op.CONCAT: {
+          const right = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = String(stack[top]) + String(right);
+          break;
+        }
+        case Op.BINARY: {
+          const node: OperatorNode = constants[code[ip++]!];
+          const right = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = node.apply(stack[top], right, context);
+          break;
+        }
+        case Op.JUMP:
+          ip = code[ip]!;
+          break;
+        case Op.JUMP_IF_FALSE: {
+          const cond = stack.pop();
+          if (typeof cond !== "boolean") {
+            throw conditionError(constants[code[ip + 1]!], cond, context);
+          }
+          ip = cond ? ip + 2 : code[ip]!;
+          break;
+        }
+        case Op.JUMP_IF_TRUTHY:
+          ip = stack.pop() ? code[ip]! : ip + 1;
+          break;
+        case Op.CALLABLE: {
+          const callee = stack[stack.length - 1];
+          if (typeof callee !== "function") {
+            const { functionName: name } = constants[code[ip]!];
+            if (callee === undefined && !context.hasVariable(name)) {
+              throw new IntrearReferenceError(
+                "UNDEFINED_VARIABLE",
+                `'${name}' is not defined`,
+                { node: constants[code[ip]!], context }
+              );
+            }
+            throw new IntrearRuntimeError(
+              "NOT_CALLABLE",
+              `'${name}' is not callable`,
+              { node: constants[code[ip]!], context }
+            );
+          }
+          ip++;
+          break;
+        }
+        case Op.CALL: {
+          const node: FunctionCallNode = constants[code[ip++]!];
+          const argc = code[ip++]!;
+          const at = stack.length - argc - 1;
+          const callee = stack[at];
+          const closure: Closure | undefined = callee[CLOSURE];
+          context.callStack.push({ name: node.functionName, span: node.span });
+          if (!closure) {
+            const args = stack.splice(at + 1, argc);
+            try {
+              stack[at] = callee(...args);
+            } finally {
+              context.callStack.pop();
+            }
+            break;
+          }
+          const { chunk } = closure;
+          const fn = chunk.fn;
+          const checked =
+            fn instanceof FunctionLiteralNode
+              ? argc !== chunk.arity || fn.declaredParamTypes
+              : fn?.paramTypes;
+          if (checked) {
+            try {
+              fn!.checkArguments(stack.slice(at + 1), context);
+            } catch (e) {
+              context.callStack.pop();
+              throw e;
+            }
+          }
+          const env = newEnv(chunk.slotNames.length, closure.env);
+          const count = Math.min(argc, chunk.arity);
+          for (let i = 0; i < count; i++) env.slots[i] = stack[at + 1 + i];
+          stack.length = at;
+          frame.ip = ip;
+          frame = this.push(chunk, env, false, true);
+          ({ code, constants } = chunk);
+          slots = env.slots;
+          ip = 0;
+          break;
+        }
+        case Op.RETURN: {
+          let value = stack.pop();
+          const fn = frame.chunk.fn;
+          if (fn instanceof FunctionLiteralNode && fn.declaredReturnType) {
+            value = fn.leave(value, context);
+          }
+          const done = this.popFrame();
+          if (done.entry) return value;
+          stack.push(value);
+          frame = this.frames.at(-1)!;
+          ({ code, constants } = frame.chunk);
+          slots = frame.env.slots;
+          ip = frame.ip;
+          break;
+        }
+        case Op.RECEIVER: {
+          const node: MethodCallNode = constants[code[ip++]!];
+          node.receiver(stack[stack.length - 1], context);
+          break;
+        }
+        case Op.CALL_METHOD: {
+          const node: MethodCallNode = constants[code[ip++]!];
+          const args = stack.splice(stack.length - code[ip++]!);
+          const top = stack.length - 1;
+          stack[top] = node.call(stack[top], args, context);
+          break;
+        }
+        case Op.ARRAY:
+          stack.push(stack.splice(stack.length - code[ip++]!));
+          break;
+        case Op.OBJECT: {
+          const keys: string[] = constants[code[ip++]!];
+          const values = stack.splice(stack.length - keys.length);
+          const result: any = {};
+          keys.forEach((key, i) => (result[key] = values[i]));
+          stack.push(result);
+          break;
+        }
+        case Op.INDEX: {
+          const node: IndexAccessNode = constants[code[ip++]!];
+          const index = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = node.read(stack[top], index, context);
+          break;
+        }
+        case Op.SET_INDEX: {
+          const node: IndexAssignmentNode = constants[code[ip++]!];
+          const value = stack.pop();
+          const index = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = node.assign(stack[top], index, value, context);
+          break;
+        }
+        case Op.PROPERTY: {
+          const node: PropertyAccessNode = constants[code[ip++]!];
+          const top = stack.length - 1;
+          const obj = node.checkObject(stack[top], context);
+          stack[top] = obj[node.property as string];
+          break;
+        }
+        case Op.PROPERTY_KEY: {
+          const node: PropertyAccessNode = constants[code[ip++]!];
+          const key = stack.pop();
+          const top = stack.length - 1;
+          stack[top] = node.checkObject(stack[top], context)[key];
+          break;
+        }
+        case Op.CAST: {
+          const node: AsNode = constants[code[ip++]!];
+          const top = stack.length - 1;
+          stack[top] = node.cast(stack[top], context);
+          break;
+        }
+        case Op.TEST: {
+          const node: IsNode = constants[code[ip++]!];
+          const top = stack.length - 1;
+          stack[top] = isOfType(stack[top], node.type, context);
+          break;
+        }
+        case Op.CLOSURE:
+          stack.push(this.closure(constants[code[ip++]!], frame.env));
+          break;
+        case Op.THROW: {
+          const node: ErrorNode = constants[code[ip++]!];
+          throw new IntrearRuntimeError("USER_ERROR", String(stack.pop()), {
+            node,
+            context,
+          });
+        }
+        case Op.TRY:
+          frame.handlers.push({
+            address: code[ip++]!,
+            height: stack.length,
+            env: frame.env,
+          });
+          break;
+        case Op.END_TRY:
+          frame.handlers.pop();
+          break;
+        case Op.ENTER_SCOPE: {
+          const names: string[] = constants[code[ip++]!];
+          frame.env = newEnv(names.length, frame.env);
+          slots = frame.env.slots;
+          break;
+        }
+        case Op.LEAVE_SCOPE:
+          frame.env = frame.env.parent!;
+          slots = frame.env.slots;
+          break;
+        case Op.ITERABLE: {
+          const node: ForEachNode = constants[code[ip++]!];
+          if (!Array.isArray(stack[stack.length - 1])) {
+            throw new IntrearRuntimeError(
+              "NOT_ITERABLE",
+              "Target is not iterable",
+              { node: node.iterable, context }
+            );
+          }
+          break;
+        }
+        case Op.NEXT: {
+          const slot = code[ip]!;
+          const array: any[] = slots[slot];
+          const index: number = slots[slot + 1];
+          if (index < array.length) {
+            slots[slot + 1] = index + 1;
+            stack.push(array[index]);
+            ip += 2;
+          } else {
+            ip = code[ip + 1]!;
+          }
+          break;
+        }
+        case Op.EXEC: {
+          const at = ip - 1;
+          const node: ASTNode = constants[code[ip]!];
+          const scope = this.bridge(frame, code[ip + 1]!);
+          frame.ip = ip + 6;
+          if (this.suspending && frame === this.main) {
+            return new Suspension(at, node.executeAsync(scope));
+          }
+          try {
+            stack.push(node.execute(scope));
+            ip += 6;
+          } catch (e) {
+            if (!this.raise(e, frame, at)) throw e;
+            slots = frame.env.slots;
+            ip = frame.ip;
+          }
+          break;
+        }
+        default:
+          throw new Error(`Unknown opcode ${op} at ${ip - 1}`);
+      }
+    }
+  }
+}
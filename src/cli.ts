@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+// ========================================
+// Intrear Command-Line Runner
+// ========================================
+//
+//   intrear run <file.inr | file.json>   Execute a program
+//   intrear disasm <file>                Print the program's bytecode
+//   intrear ast <file>                   Print the program as AST JSON
+//   intrear print <file>                 Print the program as source
+//   intrear transpile <file>             Print the program as JavaScript
+//   intrear dap                          Serve the Debug Adapter Protocol
+//   intrear [repl]                       Start the interactive REPL
+
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import { createInterface } from "node:readline";
+import { compile, disassemble } from "./bytecode";
+import { DebugSession, StdioTransport } from "./dap";
+import { Interpreter, ModuleRegistry } from "./interpreter";
+import { formatError, IntrearError } from "./errors";
+import { FileSystemResolver, loadProgram } from "./modules";
+import { ParseError } from "./parser";
+import { unparse } from "./printer";
+import { Repl } from "./repl";
+import { serializeAST } from "./serialize";
+import { StdlibResolver } from "./stdlib";
+import { checkTranspiled, transpile } from "./transpiler";
+
+const USAGE = `Usage:
+  intrear run <file>        Run a .inr source file or a .json AST file
+  intrear run --vm <file>   Run it on the bytecode VM
+  intrear disasm <file>     Print the bytecode the VM would run
+  intrear ast <file>        Print the program as versioned AST JSON
+  intrear print <file>      Print the program as formatted source
+  intrear transpile <file>  Print the program as a JavaScript module
+    --map                   with an inline source map
+    --check                 Compare its output with the interpreter's
+  intrear dap               Serve the Debug Adapter Protocol on stdio
+  intrear [repl]            Start the interactive REPL
+  intrear --help            Show this message`;
+
+const HISTORY_FILE = join(homedir(), ".intrear_history");
+
+// Prints every syntax error of a failed parse, or the single error with a
+// code frame when the offending node carries a span. Errors raised inside
+// an imported module are framed with that module's source.
+function reportError(e: unknown, source?: string, file?: string) {
+  const errors = e instanceof ParseError ? e.diagnostics : [e];
+  const sourceOf = (err: unknown) => {
+    const spanFile = err instanceof IntrearError ? err.span?.file : undefined;
+    if (!spanFile || spanFile === file) return source;
+    return existsSync(spanFile) ? readFileSync(spanFile, "utf8") : undefined;
+  };
+  console.error(
+    errors.map((err) => formatError(err, sourceOf(err))).join("\n\n")
+  );
+}
+
+// Files run asynchronously so that top-level `await` works.
+async function runFile(file: string, backend: "tree" | "vm") {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    await new Interpreter(loadProgram(file, source), {
+      modules: new ModuleRegistry([
+        new StdlibResolver(),
+        new FileSystemResolver(),
+      ]),
+      moduleId: resolve(file),
+      backend,
+    }).executeAsync();
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+function disassembleFile(file: string) {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    console.log(disassemble(compile(loadProgram(file, source))));
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+function printAST(file: string) {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    const program = loadProgram(file, source);
+    console.log(JSON.stringify(serializeAST(program), null, 2));
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+function printSource(file: string) {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    process.stdout.write(unparse(loadProgram(file, source)));
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+function transpileFile(file: string, withMap: boolean) {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    const { code, map } = transpile(loadProgram(file, source), {
+      sourceMap: withMap,
+      sourceFile: file,
+      sourceContent: source,
+    });
+    process.stdout.write(code);
+    if (map) {
+      const json = Buffer.from(JSON.stringify(map)).toString("base64");
+      console.log(
+        `//# sourceMappingURL=data:application/json;base64,${json}`
+      );
+    }
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+// Prints the lines where running the module differs from running the
+// program, if any.
+async function checkTranspiledFile(file: string) {
+  let source: string | undefined;
+  try {
+    source = readFileSync(file, "utf8");
+    const { interpreted, diff } = await checkTranspiled(
+      loadProgram(file, source)
+    );
+    if (diff.length === 0) {
+      console.log(`Same output (${interpreted.length} lines)`);
+      return;
+    }
+    console.log(diff.join("\n"));
+    process.exitCode = 1;
+  } catch (e) {
+    reportError(e, source, file);
+    process.exitCode = 1;
+  }
+}
+
+// ---------------------------------------------------
+// Interactive REPL
+// ---------------------------------------------------
+function loadHistory(): string[] {
+  if (!existsSync(HISTORY_FILE)) return [];
+  // readline expects the most recent entry first.
+  return readFileSync(HISTORY_FILE, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .reverse();
+}
+
+function saveHistory(line: string) {
+  try {
+    appendFileSync(HISTORY_FILE, line + "\n");
+  } catch {
+    // History is a convenience; an unwritable home directory is not fatal.
+  }
+}
+
+function startRepl() {
+  const repl = new Repl();
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "> ",
+    history: loadHistory(),
+    historySize: 1000,
+    completer: (line: string) => repl.complete(line),
+  });
+
+  let buffer = "";
+  console.log("Intrear REPL - type :help for commands, :quit to leave");
+  rl.prompt();
+  rl.on("line", (line) => {
+    if (line.trim()) saveHistory(line);
+    buffer = buffer ? `${buffer}\n${line}` : line;
+    const input = buffer.trim();
+    if (!input.startsWith(":") && repl.isIncomplete(input)) {
+      rl.setPrompt("... ");
+      rl.prompt();
+      return;
+    }
+    buffer = "";
+    rl.setPrompt("> ");
+    if (input === ":quit" || input === ":exit") {
+      rl.close();
+      return;
+    }
+    if (input) {
+      try {
+        const output = repl.evaluate(input);
+        if (output) console.log(output);
+      } catch (e) {
+        reportError(e, input);
+      }
+    }
+    rl.prompt();
+  });
+}
+
+function main(argv: string[]) {
+  const [command, ...rest] = argv;
+  switch (command) {
+    case undefined:
+    case "repl":
+      startRepl();
+      return;
+    case "run": {
+      const vm = rest[0] === "--vm";
+      const file = vm ? rest[1] : rest[0];
+      if (!file) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      runFile(file, vm ? "vm" : "tree");
+      return;
+    }
+    case "disasm":
+    case "ast":
+    case "print":
+      if (!rest[0]) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      if (command === "ast") printAST(rest[0]);
+      else if (command === "print") printSource(rest[0]);
+      else disassembleFile(rest[0]);
+      return;
+    case "transpile": {
+      const flags = rest.filter((arg) => arg.startsWith("--"));
+      const file = rest.find((arg) => !arg.startsWith("--"));
+      const unknown = flags.find((f) => f !== "--map" && f !== "--check");
+      if (!file || unknown) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      if (flags.includes("--check")) checkTranspiledFile(file);
+      else transpileFile(file, flags.includes("--map"));
+      return;
+    }
+    case "dap":
+      new DebugSession(new StdioTransport()).serve();
+      return;
+    case "help":
+    case "-h":
+    case "--help":
+      console.log(USAGE);
+      return;
+    default:
+      console.error(`Unknown command '${command}'\n\n${USAGE}`);
+      process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2));
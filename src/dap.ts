@@ -0,0 +1,461 @@
+// ========================================
+// Intrear Debug Adapter
+// ========================================
+//
+// Serves the Debug Adapter Protocol so editors can debug a program file:
+//
+//   intrear dap    (launched by the editor, speaks DAP over stdin/stdout)
+//
+// The Debugger pauses synchronously, so while the program is paused the
+// session waits for the editor's requests and answers them from the paused
+// state; a resuming request returns control to the program. While it runs,
+// requests that have arrived, such as `pause`, are handled between
+// statements. There is one thread, and lines and columns are 1-based.
+
+import { readFileSync, writeSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { format } from "node:util";
+import {
+  MessageChannel,
+  Worker,
+  receiveMessageOnPort,
+} from "node:worker_threads";
+import type { MessagePort } from "node:worker_threads";
+import { Debugger, TerminateSignal } from "./debugger";
+import type { PauseEvent, StepAction } from "./debugger";
+import { formatError } from "./errors";
+import {
+  ExecutionContext,
+  Interpreter,
+  ModuleRegistry,
+  describeValue,
+} from "./interpreter";
+import { FileSystemResolver, loadProgram } from "./modules";
+import { ParseError } from "./parser";
+import { formatValue } from "./repl";
+import { StdlibResolver } from "./stdlib";
+
+export interface DapMessage {
+  seq: number;
+  type: "request" | "response" | "event";
+  command?: string;
+  arguments?: any;
+  [key: string]: any;
+}
+
+// Where a session reads requests and writes responses and events. read()
+// blocks until a message arrives and returns undefined once input ends;
+// poll() returns a message only if one has already arrived.
+export interface DapTransport {
+  read(): DapMessage | undefined;
+  poll?(): DapMessage | undefined;
+  write(message: DapMessage): void;
+}
+
+// Runs in a worker: streams the input to `port` chunk by chunk, then null,
+// and counts the posts in `signal` so the session can sleep until one.
+// The stream is picked the way Node picks process.stdin's.
+const READER = `
+const { workerData } = require("node:worker_threads");
+const { createReadStream, fstatSync } = require("node:fs");
+const { Socket } = require("node:net");
+const { ReadStream, isatty } = require("node:tty");
+const { input, port, signal } = workerData;
+const stream = isatty(input)
+  ? new ReadStream(input)
+  : fstatSync(input).isFile()
+  ? createReadStream("", { fd: input })
+  : new Socket({ fd: input, readable: true, writable: false });
+const post = (chunk) => {
+  port.postMessage(chunk);
+  Atomics.add(signal, 0, 1);
+  Atomics.notify(signal, 0);
+};
+stream.on("data", post);
+stream.on("end", () => post(null));
+stream.on("error", () => post(null));
+`;
+
+// DAP's framing: a `Content-Length` header, a blank line, then JSON.
+export class StdioTransport implements DapTransport {
+  private buffer = Buffer.alloc(0);
+  private port: MessagePort;
+  // How many chunks the reader has posted, and how many were taken.
+  private signal = new Int32Array(new SharedArrayBuffer(4));
+  private taken = 0;
+  private ended = false;
+
+  constructor(input = 0, private output = 1) {
+    const { port1, port2 } = new MessageChannel();
+    const reader = new Worker(READER, {
+      eval: true,
+      workerData: { input, port: port2, signal: this.signal },
+      transferList: [port2],
+    });
+    // The session ends when the editor disconnects, whatever the input.
+    reader.unref();
+    this.port = port1;
+  }
+
+  read(): DapMessage | undefined {
+    for (;;) {
+      const message = this.poll();
+      if (message || this.ended) return message;
+      // Sleeps until the reader posts another chunk.
+      Atomics.wait(this.signal, 0, this.taken);
+    }
+  }
+
+  poll(): DapMessage | undefined {
+    for (;;) {
+      const end = this.buffer.indexOf("\r\n\r\n");
+      if (end >= 0) {
+        const header = this.buffer.subarray(0, end).toString("ascii");
+        const length = Number(/Content-Length:\s*(\d+)/i.exec(header)?.[1]);
+        const start = end + 4;
+        if (this.buffer.length >= start + length) {
+          const body = this.buffer.subarray(start, start + length);
+          this.buffer = this.buffer.subarray(start + length);
+          return JSON.parse(body.toString("utf8"));
+        }
+      }
+      if (this.ended || Atomics.load(this.signal, 0) === this.taken) {
+        return undefined;
+      }
+      const chunk: Uint8Array | null = receiveMessageOnPort(this.port)!.message;
+      this.taken++;
+      if (chunk === null) {
+        this.ended = true;
+        return undefined;
+      }
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+    }
+  }
+
+  write(message: DapMessage): void {
+    const body = JSON.stringify(message);
+    const header = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n`;
+    writeSync(this.output, header + body);
+  }
+}
+
+// What a variablesReference stands for while the program is paused.
+type Handle = { variables: Record<string, any> } | { value: any };
+
+const SCOPE_NAMES = {
+  local: "Local",
+  enclosing: "Enclosing",
+  global: "Global",
+};
+
+export class DebugSession {
+  private seq = 1;
+  private interpreter?: Interpreter;
+  private debugger?: Debugger;
+  private program?: string;
+  private source?: string;
+  private paused?: PauseEvent;
+  // Index + 1 is the variablesReference; cleared on every resume.
+  private handles: Handle[] = [];
+  private resume?: StepAction;
+  private startRequested = false;
+  private disconnected = false;
+
+  constructor(private transport: DapTransport) {}
+
+  // Answers requests until the editor disconnects or input ends.
+  public async serve(): Promise<void> {
+    while (!this.disconnected) {
+      const message = this.transport.read();
+      if (!message) return;
+      if (message.type !== "request") continue;
+      this.handle(message);
+      if (this.startRequested) {
+        this.startRequested = false;
+        await this.execute();
+      }
+    }
+  }
+
+  private async execute() {
+    const interpreter = this.interpreter!;
+    const log = console.log;
+    // `print` must not write into the protocol stream.
+    console.log = (...args: any[]) => this.output(format(...args) + "\n");
+    let exitCode = 0;
+    try {
+      await interpreter.executeAsync();
+    } catch (e) {
+      if (!(e instanceof TerminateSignal)) {
+        const errors = e instanceof ParseError ? e.diagnostics : [e];
+        const text = errors.map((err) => formatError(err, this.source));
+        this.output(text.join("\n\n") + "\n", "stderr");
+        exitCode = 1;
+      }
+    } finally {
+      console.log = log;
+    }
+    this.event("exited", { exitCode });
+    this.event("terminated");
+  }
+
+  // Called by the Debugger: reports the stop, then serves requests until
+  // one of them resumes the program.
+  private onPause(event: PauseEvent): StepAction {
+    this.paused = event;
+    this.resume = undefined;
+    this.event("stopped", {
+      reason: event.reason,
+      threadId: 1,
+      allThreadsStopped: true,
+    });
+    try {
+      while (!this.disconnected) {
+        const message = this.transport.read();
+        if (!message) break;
+        if (message.type !== "request") continue;
+        this.handle(message);
+        const action = this.resume;
+        if (action) {
+          this.resume = undefined;
+          return action;
+        }
+      }
+      this.debugger!.terminate();
+      return "continue";
+    } finally {
+      this.paused = undefined;
+      this.handles = [];
+    }
+  }
+
+  private handle(request: DapMessage) {
+    try {
+      const body = this.dispatch(request.command!, request.arguments ?? {});
+      this.respond(request, true, body);
+      // The editor sends breakpoints and configurationDone after this.
+      if (request.command === "launch") this.event("initialized");
+    } catch (e: any) {
+      this.respond(request, false, undefined, e?.message ?? String(e));
+    }
+  }
+
+  private dispatch(command: string, args: any): any {
+    switch (command) {
+      case "initialize":
+        return {
+          supportsConfigurationDoneRequest: true,
+          supportsEvaluateForHovers: true,
+          supportsTerminateRequest: true,
+        };
+      case "launch":
+        this.launch(args);
+        return undefined;
+      case "setBreakpoints":
+        return { breakpoints: this.setBreakpoints(args) };
+      case "configurationDone":
+        if (!this.interpreter) throw new Error("No program launched");
+        this.startRequested = true;
+        return undefined;
+      case "threads":
+        return { threads: [{ id: 1, name: "main" }] };
+      case "stackTrace":
+        return this.stackTrace();
+      case "scopes":
+        return { scopes: this.scopes(args.frameId) };
+      case "variables":
+        return { variables: this.variables(args.variablesReference) };
+      case "evaluate":
+        return this.evaluate(args.expression, args.frameId);
+      case "continue":
+        this.resume = "continue";
+        return { allThreadsContinued: true };
+      case "next":
+        this.resume = "stepOver";
+        return undefined;
+      case "stepIn":
+        this.resume = "stepIn";
+        return undefined;
+      case "stepOut":
+        this.resume = "stepOut";
+        return undefined;
+      case "pause":
+        this.debugger?.pause();
+        return undefined;
+      case "terminate":
+      case "disconnect":
+        this.debugger?.terminate();
+        this.disconnected = command === "disconnect";
+        this.resume = "continue";
+        return undefined;
+      default:
+        throw new Error(`Unsupported request '${command}'`);
+    }
+  }
+
+  private launch(args: { program?: string; stopOnEntry?: boolean }) {
+    if (!args.program) throw new Error("launch needs a 'program' path");
+    const program = resolve(args.program);
+    const source = readFileSync(program, "utf8");
+    let nodes;
+    try {
+      nodes = loadProgram(program, source);
+    } catch (e) {
+      const errors = e instanceof ParseError ? e.diagnostics : [e];
+      throw new Error(errors.map((err) => formatError(err, source)).join("\n"));
+    }
+    this.program = program;
+    this.source = source;
+    this.interpreter = new Interpreter(nodes, {
+      modules: new ModuleRegistry([
+        new StdlibResolver(),
+        new FileSystemResolver(),
+      ]),
+      moduleId: program,
+    });
+    this.debugger = new Debugger(this.interpreter, {
+      stopOnEntry: args.stopOnEntry,
+    });
+    this.debugger.onPause = (event) => this.onPause(event);
+    this.debugger.onStatement = () => this.poll();
+  }
+
+  // Handles the requests that arrived while the program runs; `pause`
+  // then stops it before the statement about to run.
+  private poll() {
+    for (;;) {
+      const message = this.transport.poll?.();
+      if (!message) return;
+      if (message.type === "request") this.handle(message);
+    }
+  }
+
+  private setBreakpoints(args: {
+    source: { path?: string };
+    breakpoints?: { line: number; column?: number }[];
+  }) {
+    const requested = args.breakpoints ?? [];
+    const dbg = this.debugger;
+    const path = args.source.path && resolve(args.source.path);
+    if (!dbg || path !== this.program) {
+      return requested.map((bp) => ({
+        verified: false,
+        line: bp.line,
+        message: "Only the launched program can have breakpoints",
+      }));
+    }
+    dbg.clearBreakpoints();
+    return requested.map((target) => {
+      const bp = dbg.setBreakpoint(target);
+      const start = bp.node?.span?.start;
+      return {
+        id: bp.id,
+        verified: bp.verified,
+        line: start?.line ?? target.line,
+        column: start?.column,
+      };
+    });
+  }
+
+  private stackTrace() {
+    const frames = this.pausedEvent().frames;
+    const source = { name: basename(this.program!), path: this.program };
+    return {
+      stackFrames: frames.map((frame, id) => ({
+        id,
+        name: frame.name,
+        source,
+        line: frame.span?.start.line ?? 0,
+        column: frame.span?.start.column ?? 0,
+      })),
+      totalFrames: frames.length,
+    };
+  }
+
+  private scopes(frameId: number) {
+    const context = this.frameContext(frameId);
+    return this.debugger!.scopes(context).map((scope) => ({
+      name: SCOPE_NAMES[scope.kind],
+      variablesReference: this.handleFor({ variables: scope.variables }),
+      expensive: false,
+    }));
+  }
+
+  private variables(reference: number) {
+    const handle = this.handles[reference - 1];
+    if (!handle) throw new Error(`Unknown variablesReference ${reference}`);
+    const entries =
+      "variables" in handle
+        ? Object.entries(handle.variables)
+        : childrenOf(handle.value);
+    return entries.map(([name, value]) => ({
+      name,
+      ...this.describe(value),
+    }));
+  }
+
+  private evaluate(expression: string, frameId?: number) {
+    const context =
+      frameId === undefined ? undefined : this.frameContext(frameId);
+    return this.describe(this.debugger!.evaluate(expression, context), true);
+  }
+
+  private describe(value: any, asResult = false) {
+    const expandable = childrenOf(value).length > 0;
+    return {
+      [asResult ? "result" : "value"]: formatValue(value),
+      type: describeValue(value, 1),
+      variablesReference: expandable ? this.handleFor({ value }) : 0,
+    };
+  }
+
+  private handleFor(handle: Handle): number {
+    this.handles.push(handle);
+    return this.handles.length;
+  }
+
+  private frameContext(frameId: number): ExecutionContext {
+    const context = this.pausedEvent().frames[frameId]?.context;
+    if (!context) throw new Error(`No scope for frame ${frameId}`);
+    return context;
+  }
+
+  private pausedEvent(): PauseEvent {
+    if (!this.paused) throw new Error("The program is not paused");
+    return this.paused;
+  }
+
+  private output(output: string, category = "stdout") {
+    this.event("output", { category, output });
+  }
+
+  private event(event: string, body?: any) {
+    this.transport.write({ seq: this.seq++, type: "event", event, body });
+  }
+
+  private respond(
+    request: DapMessage,
+    success: boolean,
+    body?: any,
+    message?: string
+  ) {
+    this.transport.write({
+      seq: this.seq++,
+      type: "response",
+      request_seq: request.seq,
+      command: request.command,
+      success,
+      message,
+      body,
+    });
+  }
+}
+
+// The expandable parts of a value: array elements, object properties and
+// the target of a pointer.
+function childrenOf(value: any): [string, any][] {
+  if (value === null || typeof value !== "object") return [];
+  if (value.__isPtr === true) return [["*", value.get()]];
+  if (Array.isArray(value)) return value.map((v, i) => [String(i), v]);
+  return Object.entries(value);
+}
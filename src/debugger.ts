@@ -0,0 +1,267 @@
+// ========================================
+// Intrear Debugger
+// ========================================
+//
+// Pauses a program run by the tree-walker before chosen nodes execute and
+// lets the host inspect it. Pausing is synchronous: the interpreter calls
+// `onPause` and carries on with the step action it returns, so tests can
+// drive a session without a terminal:
+//
+//   const dbg = new Debugger(interpreter);
+//   dbg.setBreakpoint({ line: 3 });
+//   dbg.onPause = (event) => {
+//     console.log(event.frames[0]!.name, dbg.evaluate("n * 2"));
+//     return "stepOver";
+//   };
+//   interpreter.execute();
+//
+// Stepping moves between statements; any node can carry a breakpoint.
+
+import { ASTNode, ExecutionContext } from "./interpreter";
+import type { Interpreter } from "./interpreter";
+import type { SourceSpan } from "./errors";
+import { forEachNode, hookNode } from "./instrument";
+import { parse } from "./parser";
+
+export type StepAction = "continue" | "stepIn" | "stepOver" | "stepOut";
+
+export interface Breakpoint {
+  id: number;
+  // The node it pauses before; unset when no statement matched the line.
+  node?: ASTNode;
+  line?: number;
+  column?: number;
+  verified: boolean;
+  hits: number;
+}
+
+// One active call, innermost first. `span` is where that frame currently
+// is: the paused node for the top frame, the call site for the others.
+export interface DebugFrame {
+  name: string;
+  span?: SourceSpan;
+  context?: ExecutionContext;
+}
+
+export interface DebugScope {
+  kind: "local" | "enclosing" | "global";
+  context: ExecutionContext;
+  // Own variables of the scope, without the built-ins.
+  variables: Record<string, any>;
+}
+
+export interface PauseEvent {
+  reason: "breakpoint" | "step" | "entry" | "pause";
+  node: ASTNode;
+  context: ExecutionContext;
+  frames: DebugFrame[];
+  breakpoint?: Breakpoint;
+}
+
+export interface DebuggerOptions {
+  // Pause before the first statement.
+  stopOnEntry?: boolean;
+}
+
+// Thrown before every statement once terminate() is called, until it
+// escapes any `try` in the program.
+export class TerminateSignal {}
+
+const BUILT_IN_NAMES = new Set(
+  Object.keys(new ExecutionContext().getOwnVariables())
+);
+
+export class Debugger {
+  public breakpoints: Breakpoint[] = [];
+  // Called whenever execution pauses; the program resumes with the
+  // returned action. Without a handler every pause continues at once.
+  public onPause?: (event: PauseEvent) => StepAction;
+  // Called before each statement runs, e.g. to take a host's requests; it
+  // may call pause() or terminate() to act on that statement.
+  public onStatement?: () => void;
+  // Set while onPause runs.
+  public paused?: PauseEvent;
+  private statements = new Set<ASTNode>();
+  // Instrumented nodes, with the function that removes their hook.
+  private instrumented = new Map<ASTNode, () => void>();
+  // The statement each call depth is running, for frames below the top.
+  private running: { node: ASTNode; context: ExecutionContext }[] = [];
+  private step?: { action: StepAction; depth: number };
+  // Why to pause before the next statement, whatever it is.
+  private requested?: "entry" | "pause";
+  private evaluating = false;
+  private terminated = false;
+  private nextId = 1;
+
+  // Attaching makes the interpreter walk the AST as written: the VM, JIT
+  // and optimizer would run code the debugger cannot see.
+  constructor(public interpreter: Interpreter, options: DebuggerOptions = {}) {
+    interpreter.options = {
+      ...interpreter.options,
+      backend: "tree",
+      jit: undefined,
+      optimizer: undefined,
+    };
+    if (options.stopOnEntry) this.requested = "entry";
+    forEachNode(interpreter.nodes, (node, isStatement) => {
+      if (isStatement) this.statements.add(node);
+    });
+    for (const node of this.statements) this.instrument(node);
+  }
+
+  // Pauses before `target`, or before the first statement starting on (or
+  // after) the given line, at the given column if one is set.
+  public setBreakpoint(
+    target: ASTNode | { line: number; column?: number }
+  ): Breakpoint {
+    const node = target instanceof ASTNode ? target : this.statementAt(target);
+    if (node) this.instrument(node);
+    const breakpoint: Breakpoint = {
+      id: this.nextId++,
+      node,
+      line: target instanceof ASTNode ? node?.span?.start.line : target.line,
+      column: target instanceof ASTNode ? undefined : target.column,
+      verified: node !== undefined,
+      hits: 0,
+    };
+    this.breakpoints.push(breakpoint);
+    return breakpoint;
+  }
+
+  public removeBreakpoint(id: number): void {
+    this.breakpoints = this.breakpoints.filter((bp) => bp.id !== id);
+  }
+
+  public clearBreakpoints(): void {
+    this.breakpoints = [];
+  }
+
+  // Pauses before the next statement, wherever it is.
+  public pause(): void {
+    this.requested = "pause";
+  }
+
+  // Stops the program at the next statement it reaches.
+  public terminate(): void {
+    this.terminated = true;
+  }
+
+  // Detaches from the program: its nodes run as they did before, and
+  // breakpoints no longer fire.
+  public dispose(): void {
+    for (const unhook of this.instrumented.values()) unhook();
+    this.instrumented.clear();
+  }
+
+  // Runs `source` in the paused scope, or in `context`, and returns the
+  // value of its last statement. Breakpoints do not fire meanwhile.
+  public evaluate(source: string, context = this.paused?.context): any {
+    if (!context) throw new Error("evaluate() needs a paused program");
+    const nodes = parse(source);
+    this.evaluating = true;
+    try {
+      let result: any;
+      for (const node of nodes) result = node.execute(context);
+      return result;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  // The scope chain of `context`, innermost first.
+  public scopes(context: ExecutionContext): DebugScope[] {
+    const scopes: DebugScope[] = [];
+    for (let ctx: ExecutionContext | undefined = context; ctx; ) {
+      const own = Object.entries(ctx.getOwnVariables()).filter(
+        ([name]) => !BUILT_IN_NAMES.has(name)
+      );
+      const kind =
+        ctx === context ? "local" : ctx.parent ? "enclosing" : "global";
+      scopes.push({ kind, context: ctx, variables: Object.fromEntries(own) });
+      ctx = ctx.parent;
+    }
+    return scopes;
+  }
+
+  private instrument(node: ASTNode) {
+    if (this.instrumented.has(node)) return;
+    const unhook = hookNode(node, {
+      enter: (n, context) => this.before(n, context),
+    });
+    this.instrumented.set(node, unhook);
+  }
+
+  private statementAt(target: { line: number; column?: number }) {
+    let best: ASTNode | undefined;
+    for (const node of this.statements) {
+      const start = node.span?.start;
+      if (!start || start.line < target.line) continue;
+      if (target.column !== undefined && start.line === target.line) {
+        if (start.column !== target.column) continue;
+      }
+      if (!best || start.offset < best.span!.start.offset) best = node;
+    }
+    return best;
+  }
+
+  private before(node: ASTNode, context: ExecutionContext) {
+    if (this.evaluating) return;
+    const isStatement = this.statements.has(node);
+    if (isStatement) this.onStatement?.();
+    if (this.terminated) throw new TerminateSignal();
+    const depth = context.callStack.length;
+    if (isStatement) {
+      this.running.length = depth;
+      this.running[depth] = { node, context };
+    }
+    const breakpoint = this.breakpoints.find((bp) => bp.node === node);
+    let reason: PauseEvent["reason"] | undefined;
+    if (breakpoint) {
+      breakpoint.hits++;
+      reason = "breakpoint";
+    } else if (isStatement && this.requested) {
+      reason = this.requested;
+    } else if (isStatement && this.step && this.stepDone(depth)) {
+      reason = "step";
+    }
+    if (!reason) return;
+    const event: PauseEvent = {
+      reason,
+      node,
+      context,
+      frames: this.frames(node, context),
+      breakpoint,
+    };
+    this.requested = undefined;
+    this.step = undefined;
+    this.paused = event;
+    let action: StepAction;
+    try {
+      action = this.onPause?.(event) ?? "continue";
+    } finally {
+      this.paused = undefined;
+    }
+    if (action !== "continue") this.step = { action, depth };
+  }
+
+  private stepDone(depth: number): boolean {
+    const step = this.step!;
+    if (step.action === "stepIn") return true;
+    if (step.action === "stepOver") return depth <= step.depth;
+    return depth < step.depth;
+  }
+
+  private frames(node: ASTNode, context: ExecutionContext): DebugFrame[] {
+    const stack = context.callStack;
+    const frames: DebugFrame[] = [];
+    for (let depth = stack.length; depth >= 0; depth--) {
+      frames.push({
+        name: depth > 0 ? stack[depth - 1]!.name : "<main>",
+        span: depth === stack.length ? node.span : stack[depth]!.span,
+        context:
+          depth === stack.length ? context : this.running[depth]?.context,
+      });
+    }
+    return frames;
+  }
+}
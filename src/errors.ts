@@ -0,0 +1,243 @@
+// ========================================
+// Intrear Diagnostics
+// ========================================
+//
+// Source spans, the structured error hierarchy thrown by the parser, the
+// type checker and the runtime, and a renderer that prints an error with a
+// code frame pointing at the offending source.
+
+import type { ASTNode, ExecutionContext } from "./interpreter";
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based index into the source text
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+  file?: string;
+}
+
+// One active Intrear function call, recorded at its call site.
+export interface CallFrame {
+  name: string;
+  span?: SourceSpan;
+}
+
+export type ErrorCode =
+  | "SYNTAX"
+  | "UNDEFINED_VARIABLE"
+  | "NOT_CALLABLE"
+  | "ARGUMENT_COUNT"
+  | "ARGUMENT_TYPE"
+  | "RETURN_TYPE"
+  | "MISSING_RETURN"
+  | "TYPE_MISMATCH"
+  | "TYPE_CHECK_FAILED"
+  | "UNSUPPORTED_TYPE"
+  | "CONDITION_NOT_BOOLEAN"
+  | "UNKNOWN_OPERATOR"
+  | "OPERAND_TYPE"
+  | "UNKNOWN_METHOD"
+  | "NULL_ACCESS"
+  | "NOT_AN_ARRAY"
+  | "INDEX_NOT_NUMBER"
+  | "NOT_ITERABLE"
+  | "NOT_A_POINTER"
+  | "NOT_ADDRESSABLE"
+  | "AWAIT_OUTSIDE_ASYNC"
+  | "MODULE_NOT_FOUND"
+  | "UNKNOWN_EXPORT"
+  | "INVALID_EXPORT"
+  | "CIRCULAR_IMPORT"
+  | "INVALID_ARGUMENT"
+  | "UNKNOWN_TYPE"
+  | "INVALID_CAST"
+  | "CIRCULAR_TYPE"
+  | "UNKNOWN_MEMBER"
+  | "NOT_A_CLASS"
+  | "OUTSIDE_CLASS"
+  | "INVALID_OVERRIDE"
+  | "NO_MATCH"
+  | "NON_EXHAUSTIVE_MATCH"
+  | "UNREACHABLE_CODE"
+  | "USER_ERROR"
+  | "STEP_LIMIT"
+  | "CALL_DEPTH_LIMIT"
+  | "TIMEOUT"
+  | "ARRAY_TOO_LARGE"
+  | "STRING_TOO_LARGE"
+  | "CAPABILITY_DENIED"
+  | "FILE_NOT_FOUND"
+  | "NOT_A_DIRECTORY"
+  | "IS_A_DIRECTORY"
+  | "PATH_OUTSIDE_ROOT"
+  | "NO_FILE_SYSTEM";
+
+export type IntrearErrorKind =
+  | "syntax"
+  | "type"
+  | "runtime"
+  | "reference"
+  | "sandbox"
+  | "warning";
+
+export interface IntrearErrorOptions {
+  node?: ASTNode;
+  span?: SourceSpan;
+  // The call stack is copied from the context the error was raised in.
+  context?: ExecutionContext;
+  callStack?: CallFrame[];
+}
+
+// ---------------------------------------------------
+// Error hierarchy
+// ---------------------------------------------------
+export abstract class IntrearError extends Error {
+  abstract readonly kind: IntrearErrorKind;
+  public node?: ASTNode;
+  public span?: SourceSpan;
+  public callStack: CallFrame[];
+
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    options: IntrearErrorOptions = {}
+  ) {
+    super(message);
+    this.node = options.node;
+    this.span = options.span ?? options.node?.span;
+    this.callStack =
+      options.callStack ?? options.context?.callStack.slice() ?? [];
+  }
+}
+
+export class IntrearSyntaxError extends IntrearError {
+  readonly kind = "syntax";
+  name = "SyntaxError";
+}
+
+export class IntrearTypeError extends IntrearError {
+  readonly kind = "type";
+  name = "TypeError";
+}
+
+export class IntrearRuntimeError extends IntrearError {
+  readonly kind = "runtime";
+  name = "RuntimeError";
+}
+
+export class IntrearReferenceError extends IntrearError {
+  readonly kind = "reference";
+  name = "ReferenceError";
+}
+
+// Reported by the type checker without failing the check.
+export class IntrearWarning extends IntrearError {
+  readonly kind = "warning";
+  name = "Warning";
+}
+
+// Raised when a sandboxed program goes over one of its limits (see
+// ./sandbox). A `try` in the program cannot catch it; the host can, by
+// class or by `code`.
+export abstract class SandboxError extends IntrearError {
+  readonly kind = "sandbox";
+}
+
+export class StepLimitError extends SandboxError {
+  name = "StepLimitError";
+}
+
+export class CallDepthError extends SandboxError {
+  name = "CallDepthError";
+}
+
+export class TimeoutError extends SandboxError {
+  name = "TimeoutError";
+}
+
+// ARRAY_TOO_LARGE or STRING_TOO_LARGE.
+export class SizeLimitError extends SandboxError {
+  name = "SizeLimitError";
+}
+
+export class CapabilityError extends SandboxError {
+  name = "CapabilityError";
+}
+
+// Thrown by a type-checked `Interpreter`; `diagnostics` holds every error
+// the checker found.
+export class TypeCheckError extends IntrearTypeError {
+  name = "TypeCheckError";
+
+  constructor(public diagnostics: IntrearError[]) {
+    super(
+      "TYPE_CHECK_FAILED",
+      `Type checking failed with ${diagnostics.length} error(s):\n` +
+        diagnostics.map((d) => `  ${d.message}`).join("\n"),
+      { span: diagnostics[0]?.span }
+    );
+  }
+}
+
+// ---------------------------------------------------
+// Pretty rendering
+// ---------------------------------------------------
+export function formatLocation(span: SourceSpan): string {
+  const where = `${span.start.line}:${span.start.column}`;
+  return span.file ? `${span.file}:${where}` : where;
+}
+
+// Renders an error as
+//
+//   TypeError[CONDITION_NOT_BOOLEAN]: Condition must be boolean, got number
+//    --> main.inr:3:7
+//     |
+//   3 |   if (count) {
+//     |       ^^^^^
+//       at countDown (main.inr:3:7)
+//       at <main> (main.inr:9:1)
+//
+// The code frame is only printed when the source text is provided.
+export function formatError(error: unknown, source?: string): string {
+  if (!(error instanceof IntrearError)) {
+    return error instanceof Error ? `Error: ${error.message}` : String(error);
+  }
+  const lines = [`${error.name}[${error.code}]: ${error.message}`];
+  const span = error.span;
+  if (span) {
+    const gutter = " ".repeat(String(span.start.line).length);
+    lines.push(`${gutter}--> ${formatLocation(span)}`);
+    const sourceLine = source?.split("\n")[span.start.line - 1];
+    if (sourceLine !== undefined) {
+      const width =
+        span.end.line === span.start.line
+          ? Math.max(1, span.end.column - span.start.column)
+          : Math.max(1, sourceLine.length - span.start.column + 1);
+      lines.push(`${gutter} |`);
+      lines.push(`${span.start.line} | ${sourceLine.replace(/\t/g, " ")}`);
+      lines.push(
+        `${gutter} | ${" ".repeat(span.start.column - 1)}${"^".repeat(width)}`
+      );
+    }
+  }
+  // Each frame was recorded at its call site, so the innermost function is
+  // located at the error itself and every caller at the next frame's call.
+  const frames = error.callStack;
+  if (frames.length > 0) {
+    let at = span;
+    for (let i = frames.length - 1; i >= 0; i--) {
+      lines.push(`    at ${frames[i]!.name}${describeAt(at)}`);
+      at = frames[i]!.span;
+    }
+    lines.push(`    at <main>${describeAt(at)}`);
+  }
+  return lines.join("\n");
+}
+
+function describeAt(span?: SourceSpan): string {
+  return span ? ` (${formatLocation(span)})` : "";
+}
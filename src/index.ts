@@ -1 +1,19 @@
 export * from "./interpreter";
+export * from "./bytecode";
+export * from "./jit";
+export * from "./optimizer";
+export * from "./debugger";
+export * from "./dap";
+export * from "./instrument";
+export * from "./profiler";
+export * from "./sandbox";
+export * from "./vfs";
+export * from "./serialize";
+export * from "./printer";
+export * from "./transpiler";
+export * from "./errors";
+export * from "./lexer";
+export * from "./parser";
+export * from "./modules";
+export * from "./stdlib";
+export * from "./repl";
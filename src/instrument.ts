@@ -0,0 +1,149 @@
+// ========================================
+// Intrear Node Instrumentation
+// ========================================
+//
+// Lets tools observe a program as it runs without any change to the nodes'
+// execute() methods: hookNode() wraps one node instance's execute and
+// executeAsync, so only the program being observed pays for it, and only
+// until the hook is removed. The Debugger and the Profiler are built on
+// this.
+
+import {
+  ASTNode,
+  ArrowFunctionNode,
+  BlockNode,
+  LiteralNode,
+} from "./interpreter";
+import type { ExecutionContext } from "./interpreter";
+
+export interface NodeHook {
+  // Called before the node runs; throwing stops it.
+  enter(node: ASTNode, context: ExecutionContext): void;
+  // Called once the node has finished, with its value unless it threw;
+  // throwing replaces that outcome.
+  exit?(node: ASTNode, context: ExecutionContext, result?: any): void;
+}
+
+// Arrays of nodes that are operands rather than statements.
+const EXPRESSION_LISTS = new Set(["args", "elements", "operands"]);
+
+// Calls `visit` for every node of `program`, including those in function
+// bodies. Statements are the members of the program and of every body,
+// plus the expression of an arrow function without a block.
+export function forEachNode(
+  program: ASTNode[],
+  visit: (node: ASTNode, isStatement: boolean) => void
+): void {
+  const seen = new Set<object>();
+  const walk = (value: any, isStatement: boolean) => {
+    if (value === null || typeof value !== "object" || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    if (Array.isArray(value)) {
+      for (const item of value) walk(item, isStatement);
+      return;
+    }
+    if (value instanceof ASTNode) {
+      visit(value, isStatement);
+      if (value instanceof LiteralNode) return;
+    } else if (Object.getPrototypeOf(value) !== Object.prototype) {
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      const field = value[key];
+      const statements = Array.isArray(field)
+        ? !EXPRESSION_LISTS.has(key)
+        : value instanceof ArrowFunctionNode &&
+          key === "body" &&
+          !(field instanceof BlockNode);
+      walk(field, statements);
+    }
+  };
+  walk(program, true);
+}
+
+interface Hooked {
+  // In the order they were installed; the last runs outermost.
+  hooks: NodeHook[];
+  // Puts the node's methods back.
+  unpatch: (() => void)[];
+}
+
+const hooked = new WeakMap<ASTNode, Hooked>();
+
+// Runs `hook` around every execution of `node`, on top of any hook already
+// installed. Nodes without their own executeAsync run through execute().
+// Returns a function that removes the hook; once a node has none left, its
+// methods are back to what they were.
+export function hookNode(node: ASTNode, hook: NodeHook): () => void {
+  const entry = hooked.get(node) ?? install(node);
+  entry.hooks.push(hook);
+  return () => {
+    const index = entry.hooks.indexOf(hook);
+    if (index < 0) return;
+    entry.hooks.splice(index, 1);
+    if (entry.hooks.length > 0) return;
+    hooked.delete(node);
+    for (const unpatch of entry.unpatch) unpatch();
+  };
+}
+
+// Sets `object[key]` and returns a function that restores it, deleting it
+// again when it was inherited.
+export function patch<T extends object, K extends keyof T>(
+  object: T,
+  key: K,
+  value: T[K]
+): () => void {
+  const own = Object.hasOwn(object, key);
+  const previous = object[key];
+  object[key] = value;
+  return () => {
+    if (own) object[key] = previous;
+    else delete (object as Partial<T>)[key];
+  };
+}
+
+function install(node: ASTNode): Hooked {
+  const { execute, executeAsync } = node;
+  const entry: Hooked = { hooks: [], unpatch: [] };
+  hooked.set(node, entry);
+  entry.unpatch.push(
+    patch(node, "execute", function (this: ASTNode, context) {
+      // A copy, so that a hook removed meanwhile still sees the node finish.
+      const hooks = [...entry.hooks];
+      const run = (i: number): any => {
+        if (i < 0) return execute.call(this, context);
+        const hook = hooks[i]!;
+        hook.enter(this, context);
+        let result: any;
+        try {
+          return (result = run(i - 1));
+        } finally {
+          hook.exit?.(this, context, result);
+        }
+      };
+      return run(hooks.length - 1);
+    })
+  );
+  if (executeAsync === ASTNode.prototype.executeAsync) return entry;
+  entry.unpatch.push(
+    patch(node, "executeAsync", function (this: ASTNode, context) {
+      const hooks = [...entry.hooks];
+      const run = async (i: number): Promise<any> => {
+        if (i < 0) return executeAsync.call(this, context);
+        const hook = hooks[i]!;
+        hook.enter(this, context);
+        let result: any;
+        try {
+          return (result = await run(i - 1));
+        } finally {
+          hook.exit?.(this, context, result);
+        }
+      };
+      return run(hooks.length - 1);
+    })
+  );
+  return entry;
+}
@@ -5,7 +5,24 @@
 // This file defines the complete AST node interpretation runtime, type system, and execution engine for the Intrear interpreter.
 // It supports a statically typed, dynamically executed scripting model with first-class functions,
 // control flow, type inference, and extensibility.
-//
+
+import {
+  IntrearError,
+  IntrearReferenceError,
+  IntrearRuntimeError,
+  IntrearTypeError,
+  IntrearWarning,
+  SandboxError,
+  TypeCheckError,
+} from "./errors";
+import type { CallFrame, ErrorCode, SourceSpan } from "./errors";
+import { compile, VM } from "./bytecode";
+import type { Jit } from "./jit";
+import type { Optimizer } from "./optimizer";
+import { Sandbox } from "./sandbox";
+import type { SandboxOptions } from "./sandbox";
+import type { VirtualFileSystem } from "./vfs";
+
 // ---------------------------------------------------
 // 1. Type System - Type declarations, comparison, and utilities
 // ---------------------------------------------------
@@ -20,10 +37,66 @@ export type Type =
   | "symbol"
   | "void"
   | "any"
-  | { kind: "function"; paramTypes: Type[]; returnType: Type }
+  | {
+      kind: "function";
+      paramTypes: Type[];
+      returnType: Type;
+      // Type of any arguments past `paramTypes`, for variadic built-ins.
+      restType?: Type;
+      // Type parameters of a generic function, e.g. `<T>(T[]) => T`.
+      typeParams?: string[];
+    }
   | { kind: "array"; elementType: Type }
-  | { kind: "object"; properties: Record<string, Type> }
-  | { kind: "pointer"; to: Type };
+  | {
+      kind: "object";
+      properties: Record<string, Type>;
+      // Keys that may be missing, written `key?: Type`.
+      optional?: string[];
+    }
+  | { kind: "pointer"; to: Type }
+  | { kind: "promise"; of: Type }
+  | ClassType
+  | {
+      kind: "instance";
+      className: string;
+      // Superclass names, nearest first; filled in by resolveType.
+      ancestors: string[];
+    }
+  | NamedType
+  | { kind: "union"; types: Type[] }
+  // A single value, e.g. `"up"` in `type Direction = "up" | "down"`.
+  | { kind: "literal"; value: string | number | boolean }
+  // A type parameter, e.g. `T` in `function first<T>(xs: T[]): T`.
+  | { kind: "typevar"; name: string }
+  | InferenceVar;
+
+// The type of a class value. `members` holds instance fields and methods,
+// including inherited ones.
+export interface ClassType {
+  kind: "class";
+  name: string;
+  ancestors: string[];
+  members: Record<string, Type>;
+  statics: Record<string, Type>;
+  constructorParams: Type[];
+}
+
+// A type being inferred: of an unannotated arrow parameter, or of a type
+// parameter at one call of a generic function. isAssignable fixes it to the
+// first type it is checked against; settled() then replaces it.
+export interface InferenceVar {
+  kind: "infer";
+  type?: Type;
+}
+
+// A reference by name, as written in an annotation. resolveType links it
+// to the aliased type (which may refer back to it, for recursive types) or
+// turns it into the instance type of a class.
+export interface NamedType {
+  kind: "named";
+  name: string;
+  target?: Type;
+}
 
 export type varTypes =
   | "number"
@@ -38,34 +111,89 @@ export type varTypes =
   | "function"
   | "array"
   | "object"
-  | "pointer";
-
-export function compareTypes(a: Type, b: Type): boolean {
+  | "pointer"
+  | "promise";
+
+// `any` is compatible with every type in both directions. Aliases are
+// compared by what they stand for; `assumed` holds the alias pairs being
+// compared further up, which makes recursive aliases terminate.
+export function compareTypes(
+  a: Type,
+  b: Type,
+  assumed: [Type, Type][] = []
+): boolean {
+  a = bound(a);
+  b = bound(b);
+  if (a === "any" || b === "any" || a === b) return true;
+  if (isNamed(a) || isNamed(b)) {
+    if (assumed.some(([x, y]) => x === a && y === b)) return true;
+    const ea = expandOnce(a);
+    const eb = expandOnce(b);
+    // Unresolved references only match the same name.
+    if (ea === a && eb === b) {
+      return isNamed(a) && isNamed(b) && a.name === b.name;
+    }
+    return compareTypes(ea, eb, [...assumed, [a, b]]);
+  }
+  const compare = (x: Type, y: Type) => compareTypes(x, y, assumed);
   if (typeof a === "string" && typeof b === "string") {
     return a === b;
   }
   if (typeof a === "object" && typeof b === "object") {
     if (a.kind === "pointer" && b.kind === "pointer") {
-      return compareTypes(a.to, b.to);
+      return compare(a.to, b.to);
+    }
+    if (a.kind === "promise" && b.kind === "promise") {
+      return compare(a.of, b.of);
+    }
+    if (a.kind === "class" && b.kind === "class") {
+      return a.name === b.name;
+    }
+    // Instances of a subclass are accepted where a superclass is expected.
+    if (a.kind === "instance" && b.kind === "instance") {
+      return (
+        a.className === b.className || a.ancestors.includes(b.className)
+      );
     }
     if (a.kind === "function" && b.kind === "function") {
       if (a.paramTypes.length !== b.paramTypes.length) return false;
       for (let i = 0; i < a.paramTypes.length; i++) {
-        if (!compareTypes(a.paramTypes[i]!, b.paramTypes[i]!)) return false;
+        if (!compare(a.paramTypes[i]!, b.paramTypes[i]!)) return false;
       }
-      return compareTypes(a.returnType, b.returnType);
+      if (a.restType || b.restType) {
+        if (!a.restType || !b.restType) return false;
+        if (!compare(a.restType, b.restType)) return false;
+      }
+      return compare(a.returnType, b.returnType);
     }
     if (a.kind === "array" && b.kind === "array") {
-      return compareTypes(a.elementType, b.elementType);
+      return compare(a.elementType, b.elementType);
+    }
+    if (a.kind === "literal" && b.kind === "literal") {
+      return a.value === b.value;
+    }
+    if (a.kind === "typevar" && b.kind === "typevar") {
+      return a.name === b.name;
+    }
+    // Unions are equal when they have the same members, in any order.
+    if (a.kind === "union" && b.kind === "union") {
+      return (
+        a.types.every((x) => b.types.some((y) => compare(x, y))) &&
+        b.types.every((y) => a.types.some((x) => compare(x, y)))
+      );
     }
     if (a.kind === "object" && b.kind === "object") {
       const aKeys = Object.keys(a.properties);
       const bKeys = Object.keys(b.properties);
       if (aKeys.length !== bKeys.length) return false;
+      const aOptional = a.optional ?? [];
+      const bOptional = b.optional ?? [];
+      if (aOptional.some((key) => !bOptional.includes(key))) return false;
+      if (aOptional.length !== bOptional.length) return false;
       for (let key of aKeys) {
         if (
           !(key in b.properties) ||
-          !compareTypes(a.properties[key]!, b.properties[key]!)
+          !compare(a.properties[key]!, b.properties[key]!)
         ) {
           return false;
         }
@@ -76,21 +204,407 @@ export function compareTypes(a: Type, b: Type): boolean {
   return false;
 }
 
+// Whether a value of type `from` can be used where `to` is expected: like
+// compareTypes, but a union accepts any of its members, literals widen to
+// their primitive type, objects may have extra properties, arrays and return
+// types are covariant and parameters contravariant. An unfixed inference
+// variable on either side is fixed to the other type.
+export function isAssignable(
+  from: Type,
+  to: Type,
+  assumed: [Type, Type][] = []
+): boolean {
+  from = bound(from);
+  to = bound(to);
+  if (from === "any" || to === "any" || from === to) return true;
+  if (typeof from === "object" && from.kind === "infer") {
+    if (!occursIn(from, to)) from.type = to;
+    return true;
+  }
+  if (typeof to === "object" && to.kind === "infer") {
+    if (!occursIn(to, from)) to.type = from;
+    return true;
+  }
+  if (isNamed(from) || isNamed(to)) {
+    if (assumed.some(([x, y]) => x === from && y === to)) return true;
+    const ef = expandOnce(from);
+    const et = expandOnce(to);
+    if (ef === from && et === to) return compareTypes(from, to);
+    return isAssignable(ef, et, [...assumed, [from, to]]);
+  }
+  const check = (x: Type, y: Type) => isAssignable(x, y, assumed);
+  if (typeof from === "object" && from.kind === "union") {
+    return from.types.every((t) => check(t, to));
+  }
+  if (typeof to === "object" && to.kind === "union") {
+    return to.types.some((t) => check(from, t));
+  }
+  if (typeof from === "object" && from.kind === "literal") {
+    if (typeof to === "object" && to.kind === "literal") {
+      return from.value === to.value;
+    }
+    return to === typeof from.value;
+  }
+  if (from === "undefined" && to === "void") return true;
+  if (typeof from === "object" && typeof to === "object") {
+    if (from.kind === "array" && to.kind === "array") {
+      return check(from.elementType, to.elementType);
+    }
+    if (from.kind === "promise" && to.kind === "promise") {
+      return check(from.of, to.of);
+    }
+    if (from.kind === "object" && to.kind === "object") {
+      for (const [key, type] of Object.entries(to.properties)) {
+        const optional = to.optional?.includes(key) ?? false;
+        if (!(key in from.properties)) {
+          if (optional) continue;
+          return false;
+        }
+        if (!optional && from.optional?.includes(key)) return false;
+        if (!check(from.properties[key]!, type)) return false;
+      }
+      return true;
+    }
+    if (from.kind === "function" && to.kind === "function") {
+      // A function may ignore trailing arguments, e.g. the index `map`
+      // passes to its callback.
+      if (from.typeParams) from = instantiate(from);
+      if (from.paramTypes.length > to.paramTypes.length) return false;
+      for (let i = 0; i < from.paramTypes.length; i++) {
+        if (!check(to.paramTypes[i]!, from.paramTypes[i]!)) return false;
+      }
+      if (from.restType || to.restType) {
+        if (!from.restType || !to.restType) return false;
+        if (!check(to.restType, from.restType)) return false;
+      }
+      return check(from.returnType, to.returnType);
+    }
+  }
+  return compareTypes(from, to, assumed);
+}
+
+// Whether some value could have both types, e.g. for `==` operands.
+export function typesOverlap(a: Type, b: Type): boolean {
+  return isAssignable(a, b) || isAssignable(b, a);
+}
+
+// Builds a union, flattening nested unions and dropping duplicates. A
+// union with `any` is `any`; a single member is returned as is.
+export function unionOf(types: Type[]): Type {
+  const members: Type[] = [];
+  for (const t of types) {
+    const flat = typeof t === "object" && t.kind === "union" ? t.types : [t];
+    for (const m of flat) {
+      if (m === "any") return "any";
+      if (!members.some((x) => compareTypes(x, m))) members.push(m);
+    }
+  }
+  if (members.length === 0) return "void";
+  return members.length === 1 ? members[0]! : { kind: "union", types: members };
+}
+
+// The members of a union, or the type itself, with aliases expanded.
+export function membersOf(t: Type): Type[] {
+  const shape = expandType(t);
+  if (typeof shape === "object" && shape.kind === "union") {
+    return shape.types.map(expandType);
+  }
+  return [shape];
+}
+
+// Literal types as the primitive type of their value, e.g. for operands.
+export function widenLiterals(t: Type): Type {
+  const shape = expandType(t);
+  if (typeof shape !== "object") return t;
+  if (shape.kind === "literal") return typeof shape.value as Type;
+  if (shape.kind === "union") return unionOf(shape.types.map(widenLiterals));
+  return t;
+}
+
+// Follows fixed inference variables to their type.
+function bound(t: Type): Type {
+  while (typeof t === "object" && t.kind === "infer" && t.type) t = t.type;
+  return t;
+}
+
+// Rebuilds `t` with `f` applied to the types it is made of. Named, class
+// and instance types are leaves, so recursive aliases are not followed.
+export function mapTypeChildren(t: Type, f: (child: Type) => Type): Type {
+  if (typeof t === "string") return t;
+  switch (t.kind) {
+    case "function":
+      return {
+        ...t,
+        paramTypes: t.paramTypes.map(f),
+        returnType: f(t.returnType),
+        restType: t.restType && f(t.restType),
+      };
+    case "array":
+      return { kind: "array", elementType: f(t.elementType) };
+    case "object":
+      return {
+        ...t,
+        properties: Object.fromEntries(
+          Object.entries(t.properties).map(([key, p]) => [key, f(p)])
+        ),
+      };
+    case "pointer":
+      return { kind: "pointer", to: f(t.to) };
+    case "promise":
+      return { kind: "promise", of: f(t.of) };
+    case "union":
+      return unionOf(t.types.map(f));
+    default:
+      return t;
+  }
+}
+
+// Replaces inference variables by the types they were fixed to, or by
+// `any` if nothing fixed them.
+export function settled(t: Type): Type {
+  t = bound(t);
+  if (typeof t === "object" && t.kind === "infer") return "any";
+  return mapTypeChildren(t, settled);
+}
+
+// Replaces type parameters, e.g. `T` by `number` in `Array<T>`.
+export function substituteType(t: Type, vars: Record<string, Type>): Type {
+  if (typeof t !== "object") return t;
+  if (t.kind === "typevar") return vars[t.name] ?? t;
+  if (t.kind === "function" && t.typeParams) {
+    // The function's own parameters shadow outer ones.
+    const inner = { ...vars };
+    for (const name of t.typeParams) delete inner[name];
+    vars = inner;
+  }
+  return mapTypeChildren(t, (child) => substituteType(child, vars));
+}
+
+// A generic function type with a fresh inference variable for each of its
+// type parameters, for checking one call.
+function instantiate(
+  fnType: Extract<Type, { kind: "function" }>
+): Extract<Type, { kind: "function" }> {
+  if (!fnType.typeParams) return fnType;
+  const vars: Record<string, Type> = {};
+  for (const name of fnType.typeParams) vars[name] = { kind: "infer" };
+  const { typeParams, ...rest } = fnType;
+  return substituteType(rest, vars) as Extract<Type, { kind: "function" }>;
+}
+
+// Whether fixing `v` to `t` would make a type contain itself.
+function occursIn(v: InferenceVar, t: Type): boolean {
+  t = bound(t);
+  if (t === v) return true;
+  let found = false;
+  mapTypeChildren(t, (child) => {
+    found ||= occursIn(v, child);
+    return child;
+  });
+  return found;
+}
+
+function isNamed(t: Type): t is NamedType {
+  return typeof t === "object" && t.kind === "named";
+}
+
+function expandOnce(t: Type): Type {
+  return isNamed(t) && t.target ? t.target : t;
+}
+
+// Follows alias references to the type they stand for. Checks that look at
+// a type's structure expand it first; messages keep the alias name.
+export function expandType(t: Type): Type {
+  t = bound(t);
+  while (isNamed(t) && t.target) t = bound(t.target);
+  return t;
+}
+
+// Whether a runtime value has type `t`, checking array elements and object
+// properties too. Used by type-test patterns. Names that are not linked to
+// their alias are looked up in `context`, or else taken as class names.
+// `expanding` holds the aliases already expanded for this same value, so
+// that one which comes back to itself, such as `type T = T | number`, ends.
+export function isOfType(
+  value: any,
+  t: Type,
+  context?: ExecutionContext,
+  expanding: ReadonlySet<string> = new Set()
+): boolean {
+  if (typeof t === "string") {
+    switch (t) {
+      case "any":
+        return true;
+      case "null":
+        return value === null;
+      case "undefined":
+      case "void":
+        return value === undefined;
+      default:
+        return typeof value === t;
+    }
+  }
+  switch (t.kind) {
+    // A function may ignore arguments, but must not need more than given.
+    case "function":
+      return (
+        typeof value === "function" &&
+        (t.restType !== undefined || value.length <= t.paramTypes.length)
+      );
+    case "array":
+      return (
+        Array.isArray(value) &&
+        value.every((v) => isOfType(v, t.elementType, context))
+      );
+    case "object":
+      return (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(t.properties).every(
+          ([key, p]) =>
+            (t.optional?.includes(key) && value[key] === undefined) ||
+            isOfType(value[key], p, context)
+        )
+      );
+    case "union":
+      return t.types.some((member) =>
+        isOfType(value, member, context, expanding)
+      );
+    case "literal":
+      return value === t.value;
+    // Type parameters are erased; inference variables only exist while
+    // checking.
+    case "typevar":
+    case "infer":
+      return true;
+    case "pointer":
+      return value?.__isPtr === true && isOfType(value.get(), t.to, context);
+    case "promise":
+      return value instanceof Promise;
+    case "class":
+      return classValueName(value) === t.name;
+    case "instance":
+      return isInstanceOf(value, t.className);
+    case "named": {
+      if (expanding.has(t.name)) return false;
+      const target = t.target ?? context?.getTypeAlias(t.name);
+      return target
+        ? isOfType(value, target, context, new Set(expanding).add(t.name))
+        : isInstanceOf(value, t.name);
+    }
+  }
+}
+
+// True for `any` and for structured types of the given kind.
+// Describes a runtime value for type errors, e.g. `Array<number | string>`
+// for `[1, "a"]`, `{ name: string }` or a class name.
+export function describeValue(value: any, depth = 0): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) {
+    if (depth > 0) return "array";
+    const elements = [...new Set(value.map((v) => describeValue(v, 1)))];
+    return `Array<${elements.join(" | ") || "any"}>`;
+  }
+  if (typeof value === "function") {
+    const n = value.length;
+    return `function with ${n} parameter${n === 1 ? "" : "s"}`;
+  }
+  if (value?.__isPtr === true) return "pointer";
+  if (value instanceof Promise) return "promise";
+  const instance = instanceClassName(value);
+  if (instance) return instance;
+  const cls = classValueName(value);
+  if (cls) return `class ${cls}`;
+  if (typeof value === "object") {
+    if (depth > 0) return "object";
+    const props = Object.entries(value)
+      .map(([key, v]) => `${key}: ${describeValue(v, 1)}`)
+      .join(", ");
+    return `{ ${props} }`;
+  }
+  return typeof value;
+}
+
+// Throws unless `value` has type `t`; `what` names the value, e.g.
+// "Parameter 'x' of 'f'".
+export function checkValue(
+  value: any,
+  t: Type,
+  what: string,
+  code: ErrorCode,
+  node: ASTNode,
+  context: ExecutionContext
+): void {
+  if (isOfType(value, t, context)) return;
+  throw new IntrearTypeError(
+    code,
+    `${what} expected ${typeToString(t)}, got ${describeValue(value)}`,
+    { node, context }
+  );
+}
+
+export function isKind(t: Type, kind: string): boolean {
+  t = expandType(t);
+  return t === "any" || (typeof t === "object" && t.kind === kind);
+}
+
 export function typeToString(t: Type): string {
   if (typeof t === "string") return t;
   if (t.kind === "function") {
-    const params = t.paramTypes.map(typeToString).join(", ");
-    return `(${params}) => ${typeToString(t.returnType)}`;
+    const params = t.paramTypes.map(typeToString);
+    if (t.restType) params.push(`...${typeToString(t.restType)}[]`);
+    const generics = t.typeParams ? `<${t.typeParams.join(", ")}>` : "";
+    return `${generics}(${params.join(", ")}) => ${typeToString(
+      t.returnType
+    )}`;
   }
   if (t.kind === "array") {
     return `Array<${typeToString(t.elementType)}>`;
   }
   if (t.kind === "object") {
     const props = Object.entries(t.properties)
-      .map(([key, type]) => `${key}: ${typeToString(type)}`)
+      .map(([key, type]) => {
+        const mark = t.optional?.includes(key) ? "?" : "";
+        return `${key}${mark}: ${typeToString(type)}`;
+      })
       .join(", ");
     return `{ ${props} }`;
   }
+  if (t.kind === "pointer") {
+    return `Pointer<${typeToString(t.to)}>`;
+  }
+  if (t.kind === "promise") {
+    return `Promise<${typeToString(t.of)}>`;
+  }
+  if (t.kind === "class") {
+    return `class ${t.name}`;
+  }
+  if (t.kind === "instance") {
+    return t.className;
+  }
+  if (t.kind === "named") {
+    return t.name;
+  }
+  if (t.kind === "union") {
+    return t.types
+      .map((member) => {
+        const text = typeToString(member);
+        return typeof member === "object" && member.kind === "function"
+          ? `(${text})`
+          : text;
+      })
+      .join(" | ");
+  }
+  if (t.kind === "literal") {
+    return JSON.stringify(t.value);
+  }
+  if (t.kind === "typevar") {
+    return t.name;
+  }
+  if (t.kind === "infer") {
+    return typeToString(t.type ?? "any");
+  }
   return "unknown";
 }
 
@@ -99,24 +613,97 @@ export function typeToString(t: Type): string {
 // ---------------------------------------------------
 export class TypeEnvironment {
   private types: Record<string, Type> = {};
+  // Type aliases live apart from variables: `type User` and `let User` may
+  // coexist.
+  private aliases: Record<string, NamedType> = {};
+  // Flow-sensitive types, e.g. `string` for a `string | null` variable
+  // inside `if (x !== null)`. They shadow the declared type; see narrow().
+  private narrowed: Record<string, Type> = {};
   public parent?: TypeEnvironment;
+  // When set, statement-level type errors are collected here instead of
+  // aborting inference (see inferStatements). Shared with child scopes.
+  public errors?: IntrearError[];
+  // Collects non-fatal diagnostics, such as non-exhaustive matches.
+  public warnings?: IntrearWarning[];
+  // The return statements of the enclosing function: their types are
+  // collected here and checked against `expected` when it is declared.
+  public returns?: { expected?: Type; types: Type[] };
+  // Module state mirroring ExecutionContext; see ImportNode/ExportNode.
+  public modules?: ModuleRegistry;
+  public moduleId?: string;
+  public exportedNames?: string[];
 
   constructor(parent?: TypeEnvironment) {
     this.parent = parent;
+    this.errors = parent?.errors;
+    this.warnings = parent?.warnings;
+    this.returns = parent?.returns;
+    this.modules = parent?.modules;
+    this.moduleId = parent?.moduleId;
   }
 
-  public getType(name: string): Type {
+  public getType(name: string, node?: ASTNode): Type {
+    if (name in this.narrowed) {
+      return this.narrowed[name]!;
+    }
     if (name in this.types) {
       return this.types[name]!;
     }
     if (this.parent) {
-      return this.parent.getType(name);
+      return this.parent.getType(name, node);
     }
-    throw new Error(`Undefined variable (type): ${name}`);
+    throw new IntrearReferenceError(
+      "UNDEFINED_VARIABLE",
+      `Undefined variable (type): ${name}`,
+      { node }
+    );
   }
 
   public setType(name: string, type: Type): void {
     this.types[name] = type;
+    delete this.narrowed[name];
+  }
+
+  // The type a variable was declared with, ignoring narrowing.
+  public getDeclaredType(name: string, node?: ASTNode): Type {
+    if (name in this.types) {
+      return this.types[name]!;
+    }
+    if (this.parent) {
+      return this.parent.getDeclaredType(name, node);
+    }
+    throw new IntrearReferenceError(
+      "UNDEFINED_VARIABLE",
+      `Undefined variable (type): ${name}`,
+      { node }
+    );
+  }
+
+  public narrow(name: string, type: Type): void {
+    this.narrowed[name] = type;
+  }
+
+  // Drops narrowing of `name` up to its declaring scope, e.g. after an
+  // assignment that may run inside any enclosing branch.
+  public widen(name: string): void {
+    delete this.narrowed[name];
+    if (!(name in this.types)) this.parent?.widen(name);
+  }
+
+  public hasType(name: string): boolean {
+    return name in this.types || (this.parent?.hasType(name) ?? false);
+  }
+
+  public defineAlias(name: string, type: NamedType): void {
+    this.aliases[name] = type;
+  }
+
+  public getAlias(name: string): NamedType | undefined {
+    return this.aliases[name] ?? this.parent?.getAlias(name);
+  }
+
+  public hasOwnAlias(name: string): boolean {
+    return name in this.aliases;
   }
 
   public createChild(): TypeEnvironment {
@@ -124,17 +711,243 @@ export class TypeEnvironment {
   }
 }
 
+// Infers a statement list and returns the type of the last statement. In a
+// collecting environment a failing statement is recorded and skipped; a
+// failed declaration still binds its name as `any` to avoid follow-up errors.
+export function inferStatements(
+  statements: ASTNode[],
+  env: TypeEnvironment
+): Type {
+  let type: Type = "void";
+  // Aliases are visible to the whole block so they can refer to each other.
+  for (const stmt of statements) {
+    if (stmt instanceof TypeAliasNode) stmt.declare(env);
+  }
+  for (const [i, stmt] of statements.entries()) {
+    const next = statements[i + 1];
+    if (next && env.warnings && neverCompletes([stmt])) {
+      env.warnings.push(
+        new IntrearWarning("UNREACHABLE_CODE", "Unreachable code", {
+          node: next,
+        })
+      );
+    }
+    try {
+      type = stmt.inferType(env);
+    } catch (e) {
+      const isTypeError =
+        e instanceof IntrearTypeError || e instanceof IntrearReferenceError;
+      if (!env.errors || !isTypeError) throw e;
+      env.errors.push(e);
+      if (
+        stmt instanceof VariableDeclarationNode ||
+        stmt instanceof ClassDeclarationNode
+      ) {
+        env.setType(stmt.name, "any");
+      }
+      type = "any";
+    }
+  }
+  return type;
+}
+
+// Whether running `statements` never reaches the statement after them:
+// every path returns, throws, breaks or continues. Loops other than
+// `while (true)` without a `break` may run zero times, so they complete.
+export function neverCompletes(statements: ASTNode[]): boolean {
+  return statements.some((stmt) => {
+    if (
+      stmt instanceof ReturnNode ||
+      stmt instanceof ErrorNode ||
+      stmt instanceof BreakNode ||
+      stmt instanceof ContinueNode
+    ) {
+      return true;
+    }
+    if (stmt instanceof BlockNode) return neverCompletes(stmt.statements);
+    if (stmt instanceof IfNode) {
+      return (
+        stmt.elseBranch !== undefined &&
+        neverCompletes(stmt.thenBranch) &&
+        neverCompletes(stmt.elseBranch)
+      );
+    }
+    if (stmt instanceof SwitchNode) {
+      return (
+        stmt.defaultCase !== undefined &&
+        stmt.cases.every((c) => neverCompletes(c.body)) &&
+        neverCompletes(stmt.defaultCase)
+      );
+    }
+    if (stmt instanceof TryCatchNode) {
+      return neverCompletes(stmt.tryBlock) && neverCompletes(stmt.catchBlock);
+    }
+    // A value no arm matches throws NO_MATCH.
+    if (stmt instanceof MatchNode) {
+      return stmt.arms.every((arm) => neverCompletes(arm.body));
+    }
+    if (stmt instanceof WhileNode) {
+      return (
+        stmt.condition instanceof LiteralNode &&
+        stmt.condition.value === true &&
+        !breaksOut(stmt.body)
+      );
+    }
+    return false;
+  });
+}
+
+// Whether a `break` in `statements` leaves the loop they are the body of,
+// i.e. one that is not inside a nested loop or function.
+function breaksOut(statements: ASTNode[]): boolean {
+  return statements.some((stmt) => {
+    if (stmt instanceof BreakNode) return true;
+    if (stmt instanceof BlockNode) return breaksOut(stmt.statements);
+    if (stmt instanceof IfNode) {
+      return breaksOut(stmt.thenBranch) || breaksOut(stmt.elseBranch ?? []);
+    }
+    if (stmt instanceof SwitchNode) {
+      return (
+        stmt.cases.some((c) => breaksOut(c.body)) ||
+        breaksOut(stmt.defaultCase ?? [])
+      );
+    }
+    if (stmt instanceof TryCatchNode) {
+      return breaksOut(stmt.tryBlock) || breaksOut(stmt.catchBlock);
+    }
+    if (stmt instanceof MatchNode) {
+      return stmt.arms.some((arm) => breaksOut(arm.body));
+    }
+    return false;
+  });
+}
+
+// The most precise type of an expression: literals infer as their
+// primitive type, but `"up"` may still initialize a `"up" | "down"`.
+function exactType(node: ASTNode, inferred: Type): Type {
+  if (node instanceof LiteralNode) {
+    const v = node.value;
+    if (["string", "number", "boolean"].includes(typeof v)) {
+      return { kind: "literal", value: v };
+    }
+  }
+  if (node instanceof ObjectLiteralNode) {
+    const shape = expandType(inferred);
+    if (typeof shape !== "object" || shape.kind !== "object") return inferred;
+    return {
+      kind: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape.properties).map(([key, p]) => [
+          key,
+          exactType(node.properties[key]!, p),
+        ])
+      ),
+    };
+  }
+  if (
+    node instanceof ArrayLiteralNode &&
+    node.elements.length > 0 &&
+    node.elements.every((el) => el instanceof LiteralNode)
+  ) {
+    const elements = node.elements.map((el) => exactType(el, "any"));
+    return { kind: "array", elementType: unionOf(elements) };
+  }
+  return inferred;
+}
+
+// Whether the value of `node`, inferred as `actual`, fits `expected`.
+function canAssign(node: ASTNode, actual: Type, expected: Type): boolean {
+  return (
+    isAssignable(actual, expected) ||
+    isAssignable(exactType(node, actual), expected)
+  );
+}
+
+// Links the names written in annotations, which the parser cannot tell
+// apart, to type aliases or to class instance types with their superclass
+// chains.
+export function resolveType(
+  t: Type,
+  env: TypeEnvironment,
+  node?: ASTNode
+): Type {
+  if (typeof t === "string") return t;
+  switch (t.kind) {
+    case "named": {
+      if (t.target) return t;
+      const alias = env.getAlias(t.name);
+      if (alias) return alias;
+      return resolveType(
+        { kind: "instance", className: t.name, ancestors: [] },
+        env,
+        node
+      );
+    }
+    case "instance": {
+      const cls = env.hasType(t.className)
+        ? env.getType(t.className)
+        : undefined;
+      if (typeof cls !== "object" || cls.kind !== "class") {
+        throw new IntrearTypeError(
+          "UNKNOWN_TYPE",
+          `Unknown type '${t.className}'`,
+          { node }
+        );
+      }
+      return {
+        kind: "instance",
+        className: cls.name,
+        ancestors: cls.ancestors,
+      };
+    }
+    default:
+      return mapTypeChildren(t, (child) => resolveType(child, env, node));
+  }
+}
+
 // ---------------------------------------------------
 // 3. Execution Context - Runtime variable scope and built-ins
 // ---------------------------------------------------
+// Variables kept outside a context, e.g. in the local slots of a bytecode
+// VM frame (see ./bytecode). They take precedence over the context's own.
+export interface VariableStore {
+  has(name: string): boolean;
+  get(name: string): any;
+  set(name: string, value: any): void;
+  names(): string[];
+}
+
 export class ExecutionContext {
   private variables: Record<string, any> = {};
+  public store?: VariableStore;
+  // Aliases declared with `type`, for runtime type tests.
+  private typeAliases: Record<string, Type> = {};
   public parent?: ExecutionContext;
   public breakSignal = false;
   public continueSignal = false;
-
-  constructor(parent?: ExecutionContext) {
+  // Shared by every context of one run; see FunctionCallNode.
+  public callStack: CallFrame[];
+  // The registry imports are loaded from and the id of the module this
+  // scope belongs to, inherited by child scopes.
+  public modules?: ModuleRegistry;
+  public moduleId?: string;
+  // Profiles and compiles the functions created in this scope.
+  public jit?: Jit;
+  // Only set on a module's top-level scope, where `export` is allowed.
+  public exportedNames?: string[];
+  // The limits of a sandboxed run; it also leaves out built-ins.
+  public sandbox?: Sandbox;
+  // What the file built-ins read and write.
+  public fs?: VirtualFileSystem;
+
+  constructor(parent?: ExecutionContext, sandbox = parent?.sandbox) {
     this.parent = parent;
+    this.callStack = parent ? parent.callStack : [];
+    this.modules = parent?.modules;
+    this.moduleId = parent?.moduleId;
+    this.jit = parent?.jit;
+    this.fs = parent?.fs;
+    this.sandbox = sandbox;
     this.injectBuiltIns();
   }
 
@@ -161,34 +974,183 @@ export class ExecutionContext {
           this.setVariable(x, saved);
         };
       },
+      readFile: (path: string) => this.fileSystem().readFile(path),
+      writeFile: (path: string, data: string) => {
+        this.fileSystem().writeFile(path, data);
+      },
+      listDir: (path: string) => this.fileSystem().listDir(path),
+      exists: (path: string) => this.fileSystem().exists(path),
+      mkdir: (path: string) => {
+        this.fileSystem().mkdir(path);
+      },
+      remove: (path: string) => {
+        this.fileSystem().remove(path);
+      },
     };
     const keys = Object.keys(builtIns);
     keys.forEach((key) => {
+      if (this.sandbox && !this.sandbox.allows(key)) return;
       this.setVariable(key, builtIns[key]);
     });
   }
 
+  private fileSystem(): VirtualFileSystem {
+    if (this.fs) return this.fs;
+    throw new IntrearRuntimeError(
+      "NO_FILE_SYSTEM",
+      "File built-ins need an Interpreter with the `fs` option",
+      { context: this }
+    );
+  }
+
   public getVariable(name: string): any {
+    if (this.store?.has(name)) return this.store.get(name);
     if (name in this.variables) return this.variables[name];
     if (this.parent) return this.parent.getVariable(name);
     return undefined;
   }
 
   public setVariable(name: string, value: any): void {
+    if (this.store?.has(name)) this.store.set(name, value);
+    else this.variables[name] = value;
+  }
+
+  public getOwnVariables(): Record<string, any> {
+    const own = { ...this.variables };
+    for (const name of this.store?.names() ?? []) {
+      own[name] = this.store!.get(name);
+    }
+    return own;
+  }
+
+  public hasVariable(name: string): boolean {
+    if (this.store?.has(name) || name in this.variables) return true;
+    return this.parent?.hasVariable(name) ?? false;
+  }
+
+  // Updates the variable in the scope that declared it, so assignments inside
+  // nested blocks are visible outside of them.
+  public assignVariable(name: string, value: any): void {
+    if (this.store?.has(name)) {
+      this.store.set(name, value);
+      return;
+    }
+    if (!(name in this.variables) && this.parent?.hasVariable(name)) {
+      this.parent.assignVariable(name, value);
+      return;
+    }
     this.variables[name] = value;
   }
 
+  public defineTypeAlias(name: string, type: Type): void {
+    this.typeAliases[name] = type;
+  }
+
+  public getTypeAlias(name: string): Type | undefined {
+    return this.typeAliases[name] ?? this.parent?.getTypeAlias(name);
+  }
+
   public createChildContext(): ExecutionContext {
     return new ExecutionContext(this);
   }
 }
 
+// Signatures of the built-ins injected above, for the type checker.
+export const builtInTypes: Record<string, Type> = {
+  print: {
+    kind: "function",
+    paramTypes: [],
+    returnType: "void",
+    restType: "any",
+  },
+  printSelf: { kind: "function", paramTypes: [], returnType: "void" },
+  typeOf: { kind: "function", paramTypes: ["any"], returnType: "string" },
+  now: { kind: "function", paramTypes: [], returnType: "number" },
+  random: { kind: "function", paramTypes: [], returnType: "number" },
+  isNaN: { kind: "function", paramTypes: ["any"], returnType: "boolean" },
+  abs: { kind: "function", paramTypes: ["number"], returnType: "number" },
+  sqrt: { kind: "function", paramTypes: ["number"], returnType: "number" },
+  floor: { kind: "function", paramTypes: ["number"], returnType: "number" },
+  ceil: { kind: "function", paramTypes: ["number"], returnType: "number" },
+  fetch: {
+    kind: "function",
+    paramTypes: ["string"],
+    returnType: { kind: "promise", of: "string" },
+  },
+  temporaryRm: {
+    kind: "function",
+    paramTypes: ["string"],
+    returnType: { kind: "function", paramTypes: [], returnType: "void" },
+  },
+  readFile: { kind: "function", paramTypes: ["string"], returnType: "string" },
+  writeFile: {
+    kind: "function",
+    paramTypes: ["string", "string"],
+    returnType: "void",
+  },
+  listDir: {
+    kind: "function",
+    paramTypes: ["string"],
+    returnType: { kind: "array", elementType: "string" },
+  },
+  exists: { kind: "function", paramTypes: ["string"], returnType: "boolean" },
+  mkdir: { kind: "function", paramTypes: ["string"], returnType: "void" },
+  remove: { kind: "function", paramTypes: ["string"], returnType: "void" },
+};
+
+export function createBuiltInTypeEnvironment(): TypeEnvironment {
+  const env = new TypeEnvironment();
+  for (const name in builtInTypes) {
+    env.setType(name, builtInTypes[name]!);
+  }
+  return env;
+}
+
 // ---------------------------------------------------
 // 4. Abstract Syntax Tree - Node base class
 // ---------------------------------------------------
 export abstract class ASTNode {
+  // Where the node came from, when it was produced by the parser.
+  public span?: SourceSpan;
+
   abstract execute(context: ExecutionContext): any;
   abstract inferType(env: TypeEnvironment): Type;
+
+  // Runs the node inside an async function or `Interpreter.executeAsync`.
+  // Nodes with children override this so that an `await` anywhere below
+  // them suspends execution; leaves simply run synchronously. Promise
+  // values come back boxed (see PendingValue).
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    return boxed(this.execute(context));
+  }
+}
+
+// An async function resolving to a promise would adopt it, implicitly
+// awaiting every promise-valued expression. executeAsync() therefore
+// returns promise values wrapped in a PendingValue, which callers unwrap
+// with `unboxed(await node.executeAsync(context))`.
+class PendingValue {
+  constructor(public promise: PromiseLike<any>) {}
+}
+
+function boxed(value: any): any {
+  return typeof value?.then === "function" ? new PendingValue(value) : value;
+}
+
+export function unboxed(value: any): any {
+  return value instanceof PendingValue ? value.promise : value;
+}
+
+// Async counterpart of running a statement list; returns the last result.
+async function executeStatementsAsync(
+  statements: ASTNode[],
+  context: ExecutionContext
+): Promise<any> {
+  let result;
+  for (const stmt of statements) {
+    result = await stmt.executeAsync(context);
+  }
+  return result;
 }
 
 // ---------------------------------------------------
@@ -197,20 +1159,7 @@ export abstract class ASTNode {
 
 export const CustomASTNode = (
   exec: (context: ExecutionContext) => any,
-  type:
-    | "number"
-    | "string"
-    | "boolean"
-    | "null"
-    | "undefined"
-    | "bigint"
-    | "symbol"
-    | "void"
-    | "any"
-    | { kind: "function"; paramTypes: Type[]; returnType: Type }
-    | { kind: "array"; elementType: Type }
-    | { kind: "object"; properties: Record<string, Type> }
-    | ((env: TypeEnvironment) => Type)
+  type: Type | ((env: TypeEnvironment) => Type)
 ) => {
   return new (class extends ASTNode {
     constructor() {
@@ -234,110 +1183,344 @@ export const CustomASTNode = (
   })();
 };
 
-function memoize<T extends (...args: any[]) => any>(fn: T): T {
-  const cache = new Map<string, any>();
-  return ((...args: any[]) => {
-    const key = JSON.stringify(args);
-    if (cache.has(key)) {
-      return cache.get(key);
-    }
-    const result = fn(...args);
-    cache.set(key, result);
-    return result;
-  }) as T;
+export function conditionError(
+  condition: ASTNode,
+  value: any,
+  context: ExecutionContext
+) {
+  const got =
+    value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  return new IntrearTypeError(
+    "CONDITION_NOT_BOOLEAN",
+    `Condition must be boolean, got ${got}`,
+    { node: condition, context }
+  );
 }
 
-// ---------------------------------------------------
-// Variable Declaration - let/const support with type checking
-// ---------------------------------------------------
+function conditionTypeError(condition: ASTNode, type: Type) {
+  return new IntrearTypeError(
+    "CONDITION_NOT_BOOLEAN",
+    `Condition must be boolean, got ${typeToString(type)}`,
+    { node: condition }
+  );
+}
 
-export class VariableDeclarationNode extends ASTNode {
-  constructor(
-    public varType: varTypes,
-    public name: string,
-    public expression: ASTNode
+// Narrows variables in `env` by what a condition being `truthy` proves:
+// `typeOf(x) == "string"`, `x is T`, `x !== null`, `x == undefined`, and
+// `&&`, `||` and `!` combinations of them.
+function narrowScope(
+  condition: ASTNode,
+  env: TypeEnvironment,
+  truthy: boolean
+) {
+  if (
+    condition instanceof IsNode &&
+    condition.expression instanceof VariableReferenceNode
   ) {
-    super();
+    const name = condition.expression.name;
+    const tested = resolveType(condition.type, env, condition);
+    const type = env.getType(name);
+    const fits = (m: Type) => isAssignable(m, tested);
+    if (!truthy) {
+      env.narrow(name, narrowType(type, (m) => !fits(m)));
+    } else if (membersOf(type).some((m) => m !== "any" && fits(m))) {
+      env.narrow(name, narrowType(type, fits));
+    } else {
+      // e.g. a superclass instance tested for a subclass.
+      env.narrow(name, tested);
+    }
+    return;
   }
-
-  execute(context: ExecutionContext): any {
-    let val: any;
-    if (this.varType === "function") {
-      if (
-        this.expression instanceof FunctionLiteralNode ||
-        this.expression instanceof ArrowFunctionNode
-      ) {
-        val = this.expression.toFunction(context);
-      } else {
-        const result = this.expression.execute(context);
-        if (typeof result !== "function") {
-          throw new Error(
-            `Variable '${this.name}' expected a function, got ${typeof result}`
-          );
-        }
-        val = result;
-      }
-    } else if (this.varType === "pointer") {
-      const result = this.expression.execute(context);
-      if (!result?.__isPtr) {
-        throw new Error(`Expected pointer, got ${typeof result}`);
+  if (!(condition instanceof OperatorNode)) return;
+  const [left, right] = condition.operands;
+  switch (condition.operator) {
+    case "&&":
+    case "||":
+      // Both operands are known only when `&&` holds or `||` fails.
+      if (truthy === (condition.operator === "&&")) {
+        narrowScope(left, env, truthy);
+        narrowScope(right, env, truthy);
+      }
+      return;
+    case "==":
+    case "!==":
+      break;
+    default:
+      return;
+  }
+  const holds = truthy === (condition.operator === "==");
+  // `!cond` is parsed as `cond == false`.
+  if (right instanceof LiteralNode && right.value === false) {
+    narrowScope(left, env, !holds);
+    return;
+  }
+  for (const [a, b] of [
+    [left, right],
+    [right, left],
+  ] as const) {
+    if (!(b instanceof LiteralNode)) continue;
+    if (
+      a instanceof FunctionCallNode &&
+      a.functionName === "typeOf" &&
+      a.args.length === 1 &&
+      a.args[0] instanceof VariableReferenceNode &&
+      typeof b.value === "string"
+    ) {
+      const name = a.args[0].name;
+      const tag = b.value;
+      const type = env.getType(name);
+      if (type === "any") {
+        if (holds && PRIMITIVE_TAGS.includes(tag)) {
+          env.narrow(name, tag as Type);
+        }
+        return;
+      }
+      env.narrow(name, narrowType(type, (m) => (typeTag(m) === tag) === holds));
+      return;
+    }
+    if (
+      a instanceof VariableReferenceNode &&
+      (b.value === null || b.value === undefined)
+    ) {
+      const nullish = b.value === null ? "null" : "undefined";
+      const type = env.getType(a.name);
+      env.narrow(a.name, narrowType(type, (m) => (m === nullish) === holds));
+      return;
+    }
+  }
+}
+
+const PRIMITIVE_TAGS = [
+  "number",
+  "string",
+  "boolean",
+  "undefined",
+  "bigint",
+  "symbol",
+];
+
+// What `typeOf` returns for values of a (non-union) type, if it is fixed.
+function typeTag(t: Type): string | undefined {
+  if (t === "null") return "object";
+  if (t === "void") return "undefined";
+  if (typeof t === "string") return t === "any" ? undefined : t;
+  switch (t.kind) {
+    case "literal":
+      return typeof t.value;
+    case "array":
+    case "function":
+      return t.kind;
+    case "named":
+    case "union":
+      return undefined;
+    default:
+      return "object";
+  }
+}
+
+// Keeps the union members of `t` that satisfy `keep`. A narrowing that
+// would leave nothing, e.g. on a type without such members, keeps `t`.
+function narrowType(t: Type, keep: (member: Type) => boolean): Type {
+  const members = membersOf(t);
+  if (members.includes("any")) return t;
+  const kept = members.filter(keep);
+  return kept.length === 0 ? t : unionOf(kept);
+}
+
+// Gives a variadic host wrapper the parameter count of the Intrear function
+// it runs, which function type guards and array callbacks rely on.
+export function withArity<T extends Function>(fn: T, arity: number): T {
+  return Object.defineProperty(fn, "length", { value: arity });
+}
+
+// Call frames whose function has been entered.
+const enteredFrames = new WeakSet<CallFrame>();
+
+// Gives each call of `fn`, a function `node` made in `context`, a frame on
+// the call stack. Call sites push a frame before calling, which the call
+// takes over; a function the host calls, such as a `map` callback, pushes
+// its own. So the stack has a frame for every active call, and its length
+// is the call depth the sandbox and the debugger see.
+function trackCalls<T extends (...args: any[]) => any>(
+  fn: T,
+  node: FunctionLiteralNode | ArrowFunctionNode,
+  name: string,
+  context: ExecutionContext
+): T {
+  return ((...args: any[]) => {
+    const stack = context.callStack;
+    const top = stack[stack.length - 1];
+    if (top && !enteredFrames.has(top)) {
+      enteredFrames.add(top);
+      try {
+        return fn(...args);
+      } finally {
+        // A host function may call several functions from one frame. An
+        // async body keeps the frame in its snapshot of the stack.
+        if (!node.isAsync) enteredFrames.delete(top);
+      }
+    }
+    stack.push({ name, span: node.span });
+    try {
+      return fn(...args);
+    } finally {
+      stack.pop();
+    }
+  }) as T;
+}
+
+export function memoize<T extends (...args: any[]) => any>(fn: T): T {
+  const cache = new Map<string, any>();
+  return ((...args: any[]) => {
+    const key = JSON.stringify(args);
+    if (cache.has(key)) {
+      return cache.get(key);
+    }
+    const result = fn(...args);
+    cache.set(key, result);
+    return result;
+  }) as T;
+}
+
+// ---------------------------------------------------
+// Variable Declaration - let/const support with type checking
+// ---------------------------------------------------
+const VALUE_CHECKS: Record<string, [(v: any) => boolean, string]> = {
+  number: [(v) => typeof v === "number", "number"],
+  string: [(v) => typeof v === "string", "string"],
+  boolean: [(v) => typeof v === "boolean", "boolean"],
+  undefined: [(v) => v === undefined, "undefined"],
+  null: [(v) => v === null, "null"],
+  bigint: [(v) => typeof v === "bigint", "bigint"],
+  any: [(v) => true, "any"],
+  array: [(v) => Array.isArray(v), "array"],
+  object: [
+    (v) => v !== null && typeof v === "object" && !Array.isArray(v),
+    "object",
+  ],
+  promise: [(v) => v instanceof Promise, "promise"],
+};
+
+export class VariableDeclarationNode extends ASTNode {
+  constructor(
+    public varType: varTypes,
+    public name: string,
+    public expression: ASTNode,
+    // The full annotation when it says more than `varType`, e.g. an alias.
+    public declaredType?: Type
+  ) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    return this.bind(context, this.expression.execute(context));
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.expression.executeAsync(context));
+    return boxed(this.bind(context, value));
+  }
+
+  // Checks the evaluated value against the declared type and defines it.
+  private bind(context: ExecutionContext, result: any): any {
+    const val = this.check(result, context);
+    context.setVariable(this.name, val);
+    return val;
+  }
+
+  // Throws unless `result` may be stored in the variable.
+  check(result: any, context: ExecutionContext): any {
+    let val: any;
+    if (this.varType === "function") {
+      if (typeof result !== "function") {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Variable '${this.name}' expected a function, got ${typeof result}`,
+          { node: this, context }
+        );
+      }
+      val = result;
+    } else if (this.varType === "pointer") {
+      if (!result?.__isPtr) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Variable '${this.name}' expected pointer, got ${typeof result}`,
+          { node: this, context }
+        );
       }
       val = result;
     } else {
-      val = this.expression.execute(context);
-
-      const typeChecks: Record<string, [(v: any) => boolean, string]> = {
-        number: [(v) => typeof v === "number", "number"],
-        string: [(v) => typeof v === "string", "string"],
-        boolean: [(v) => typeof v === "boolean", "boolean"],
-        undefined: [(v) => v === undefined, "undefined"],
-        null: [(v) => v === null, "null"],
-        bigint: [(v) => typeof v === "bigint", "bigint"],
-        any: [(v) => true, "any"],
-        array: [(v) => Array.isArray(v), "array"],
-        object: [
-          (v) => v !== null && typeof v === "object" && !Array.isArray(v),
-          "object",
-        ],
-      };
-      const validator = typeChecks[this.varType];
+      val = result;
+      const validator = VALUE_CHECKS[this.varType];
       if (!validator) {
-        throw new Error(`Unsupported variable type: ${this.varType}`);
+        throw new IntrearTypeError(
+          "UNSUPPORTED_TYPE",
+          `Unsupported variable type: ${this.varType}`,
+          { node: this, context }
+        );
       }
       const [checkFn, expected] = validator;
       if (!checkFn(val)) {
         const got =
           val === null ? "null" : Array.isArray(val) ? "array" : typeof val;
-        throw new Error(
-          `Variable '${this.name}' expected ${expected}, got ${got}`
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Variable '${this.name}' expected ${expected}, got ${got}`,
+          { node: this, context }
         );
       }
     }
-    context.setVariable(this.name, val);
+    if (this.declaredType) {
+      const what = `Variable '${this.name}'`;
+      checkValue(val, this.declaredType, what, "TYPE_MISMATCH", this, context);
+    }
     return val;
   }
 
   inferType(env: TypeEnvironment): Type {
+    if (this.declaredType) {
+      const expected = resolveType(this.declaredType, env, this);
+      const actualType = this.expression.inferType(env);
+      if (!canAssign(this.expression, actualType, expected)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Type mismatch in declaration of '${
+            this.name
+          }': expected ${typeToString(expected)}, got ${typeToString(
+            actualType
+          )}`,
+          { node: this }
+        );
+      }
+      env.setType(this.name, expected);
+      return expected;
+    }
     if (this.varType === "function") {
       const actualType = this.expression.inferType(env);
 
-      if (typeof actualType === "object" && actualType.kind === "function") {
+      if (isKind(actualType, "function")) {
         env.setType(this.name, actualType);
         return actualType;
       } else {
-        throw new Error(
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
           `Type mismatch in declaration of '${
             this.name
-          }': expected function type, got ${typeToString(actualType)}`
+          }': expected function type, got ${typeToString(actualType)}`,
+          { node: this }
         );
       }
     } else if (this.varType === "pointer") {
       const actualType = this.expression.inferType(env);
-      if (typeof actualType === "object" && actualType.kind === "pointer") {
+      if (isKind(actualType, "pointer")) {
         env.setType(this.name, actualType);
         return actualType;
       }
-      throw new Error(`Expected pointer type, got ${typeToString(actualType)}`);
+      throw new IntrearTypeError(
+        "TYPE_MISMATCH",
+        `Expected pointer type, got ${typeToString(actualType)}`,
+        { node: this }
+      );
     } else {
       const actualType = this.expression.inferType(env);
       const typeMap: Record<string, Type> = {
@@ -350,20 +1533,34 @@ export class VariableDeclarationNode extends ASTNode {
         symbol: "symbol",
         void: "void",
         any: "any",
-        array: actualType,
-        object: actualType,
+        array: isKind(actualType, "array")
+          ? actualType
+          : { kind: "array", elementType: "any" },
+        object:
+          isKind(actualType, "object") || isKind(actualType, "instance")
+            ? actualType
+          : { kind: "object", properties: {} },
+        promise: isKind(actualType, "promise")
+          ? actualType
+          : { kind: "promise", of: "any" },
       };
       const expected = typeMap[this.varType];
       if (!expected) {
-        throw new Error(`Unsupported variable type: ${this.varType}`);
+        throw new IntrearTypeError(
+          "UNSUPPORTED_TYPE",
+          `Unsupported variable type: ${this.varType}`,
+          { node: this }
+        );
       }
-      if (!compareTypes(actualType, expected)) {
-        throw new Error(
+      if (!isAssignable(actualType, expected)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
           `Type mismatch in declaration of '${
             this.name
           }': expected ${typeToString(expected)}, got ${typeToString(
             actualType
-          )}`
+          )}`,
+          { node: this }
         );
       }
       env.setType(this.name, actualType);
@@ -382,26 +1579,176 @@ export class AssignmentNode extends ASTNode {
 
   execute(context: ExecutionContext): any {
     const value = this.expression.execute(context);
-    context.setVariable(this.name, value);
+    context.assignVariable(this.name, value);
     return value;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.expression.executeAsync(context));
+    context.assignVariable(this.name, value);
+    return boxed(value);
+  }
+
   inferType(env: TypeEnvironment): Type {
-    const currentType = env.getType(this.name);
+    const currentType = env.getDeclaredType(this.name, this);
     const newType = this.expression.inferType(env);
-    if (!compareTypes(currentType, newType)) {
-      throw new Error(
+    env.widen(this.name);
+    if (!canAssign(this.expression, newType, currentType)) {
+      throw new IntrearTypeError(
+        "TYPE_MISMATCH",
         `Type mismatch in assignment to '${
           this.name
-        }': expected ${JSON.stringify(currentType)}, got ${JSON.stringify(
+        }': expected ${typeToString(currentType)}, got ${typeToString(
           newType
-        )}`
+        )}`,
+        { node: this }
       );
     }
     return currentType;
   }
 }
 
+// ---------------------------------------------------
+// TypeAliasNode - `type Name = Type`, possibly recursive
+// ---------------------------------------------------
+export class TypeAliasNode extends ASTNode {
+  constructor(public name: string, public type: Type) {
+    super();
+  }
+
+  // Aliases only matter to runtime type tests, e.g. in match patterns.
+  execute(context: ExecutionContext): any {
+    const lookup = (name: string) => context.getTypeAlias(name);
+    if (refersTo(this.name, this.type, lookup)) {
+      throw new IntrearTypeError(
+        "CIRCULAR_TYPE",
+        `Type alias '${this.name}' refers only to itself`,
+        { node: this, context }
+      );
+    }
+    context.defineTypeAlias(this.name, this.type);
+    return undefined;
+  }
+
+  // Registers the alias, unlinked, so that it can be referred to before its
+  // definition is resolved. inferStatements does this for a whole block.
+  declare(env: TypeEnvironment): NamedType {
+    if (!env.hasOwnAlias(this.name)) {
+      env.defineAlias(this.name, { kind: "named", name: this.name });
+    }
+    return env.getAlias(this.name)!;
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const named = this.declare(env);
+    const target = resolveType(this.type, env, this);
+    if (refersTo(this.name, target, (name) => env.getAlias(name)?.target)) {
+      throw new IntrearTypeError(
+        "CIRCULAR_TYPE",
+        `Type alias '${this.name}' refers only to itself`,
+        { node: this }
+      );
+    }
+    named.target = target;
+    return "void";
+  }
+}
+
+// Whether `t` reaches the alias `name` through aliases and unions alone,
+// with no array or object in between, as in `type A = B; type B = A;`.
+// `lookup` finds the definition of an alias that is not linked yet.
+function refersTo(
+  name: string,
+  t: Type,
+  lookup: (name: string) => Type | undefined,
+  seen = new Set<string>()
+): boolean {
+  if (typeof t !== "object") return false;
+  if (t.kind === "union") {
+    return t.types.some((member) => refersTo(name, member, lookup, seen));
+  }
+  if (t.kind !== "named") return false;
+  if (t.name === name) return true;
+  if (seen.has(t.name)) return false;
+  seen.add(t.name);
+  const target = t.target ?? lookup(t.name);
+  return target !== undefined && refersTo(name, target, lookup, seen);
+}
+
+// ---------------------------------------------------
+// AsNode / IsNode - `value as Type` casts and `value is Type` tests, both
+// checked against the runtime value (see isOfType)
+// ---------------------------------------------------
+export class AsNode extends ASTNode {
+  constructor(public expression: ASTNode, public type: Type) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    return this.cast(this.expression.execute(context), context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.expression.executeAsync(context));
+    return boxed(this.cast(value, context));
+  }
+
+  cast(value: any, context: ExecutionContext): any {
+    if (!isOfType(value, this.type, context)) {
+      throw new IntrearTypeError(
+        "INVALID_CAST",
+        `Cannot cast ${describeValue(value)} to ${typeToString(this.type)}`,
+        { node: this, context }
+      );
+    }
+    return value;
+  }
+
+  // Casts refine `any` or a union; one that no value could pass is an error.
+  inferType(env: TypeEnvironment): Type {
+    const from = this.expression.inferType(env);
+    const to = resolveType(this.type, env, this);
+    if (!typesOverlap(from, to)) {
+      throw new IntrearTypeError(
+        "TYPE_MISMATCH",
+        `Cannot cast ${typeToString(from)} to ${typeToString(to)}`,
+        { node: this }
+      );
+    }
+    return to;
+  }
+}
+
+export class IsNode extends ASTNode {
+  constructor(public expression: ASTNode, public type: Type) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    return isOfType(this.expression.execute(context), this.type, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.expression.executeAsync(context));
+    return boxed(isOfType(value, this.type, context));
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const t = this.expression.inferType(env);
+    const tested = resolveType(this.type, env, this);
+    if (!typesOverlap(tested, t)) {
+      throw new IntrearTypeError(
+        "TYPE_MISMATCH",
+        `Type test '${typeToString(
+          tested
+        )}' can never match a value of type ${typeToString(t)}`,
+        { node: this }
+      );
+    }
+    return "boolean";
+  }
+}
+
 // ---------------------------------------------------
 // Signals - return, break, continue, error
 // ---------------------------------------------------
@@ -420,8 +1767,24 @@ export class ReturnNode extends ASTNode {
     const v = this.expression.execute(ctx);
     throw new ReturnSignal(v);
   }
+  async executeAsync(ctx: ExecutionContext): Promise<any> {
+    const v = unboxed(await this.expression.executeAsync(ctx));
+    throw new ReturnSignal(v);
+  }
   inferType(env: TypeEnvironment): Type {
-    return this.expression.inferType(env);
+    const type = this.expression.inferType(env);
+    const expected = env.returns?.expected;
+    if (expected && !canAssign(this.expression, type, expected)) {
+      throw new IntrearTypeError(
+        "RETURN_TYPE",
+        `Return type mismatch: expected ${typeToString(
+          expected
+        )}, got ${typeToString(type)}`,
+        { node: this }
+      );
+    }
+    env.returns?.types.push(type);
+    return type;
   }
 }
 
@@ -450,7 +1813,18 @@ export class ErrorNode extends ASTNode {
 
   execute(context: ExecutionContext): any {
     const msg = this.message.execute(context);
-    throw new Error(String(msg));
+    throw new IntrearRuntimeError("USER_ERROR", String(msg), {
+      node: this,
+      context,
+    });
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const msg = unboxed(await this.message.executeAsync(context));
+    throw new IntrearRuntimeError("USER_ERROR", String(msg), {
+      node: this,
+      context,
+    });
   }
 
   inferType(env: TypeEnvironment): Type {
@@ -468,115 +1842,283 @@ export class FunctionLiteralNode extends ASTNode {
     public body: ASTNode[],
     public declaredParamTypes?: Type[],
     public declaredReturnType?: Type,
-    public pure: boolean = false
+    public pure: boolean = false,
+    public isAsync: boolean = false,
+    // `function first<T>(xs: T[]): T`; annotations refer to them as typevars.
+    public typeParams?: string[]
   ) {
     super();
   }
 
   execute(context: ExecutionContext): any {
-    throw new Error(
-      "Function literal must be transformed into a callable via toFunction()."
-    );
+    return this.toFunction(context);
   }
 
   toFunction(outerContext: ExecutionContext): (...args: any[]) => any {
     let fn = (...args: any[]) => {
-      const localCtx = outerContext.createChildContext();
-      if (args.length !== this.params.length)
-        throw new Error("Argument count mismatch.");
-      this.params.forEach((p, i) => localCtx.setVariable(p, args[i]));
+      const localCtx = this.enter(outerContext, args);
       try {
         for (const stmt of this.body) {
           stmt.execute(localCtx);
         }
-        return undefined;
+        return this.leave(undefined, localCtx);
       } catch (e) {
         if (e instanceof ReturnSignal) {
-          return e.value;
+          return this.leave(e.value, localCtx);
         }
         throw e;
       }
     };
+    if (this.isAsync) {
+      fn = async (...args: any[]) => {
+        const localCtx = this.enter(outerContext, args);
+        // The body outlives the call that started it, so it keeps a
+        // snapshot of the call stack instead of sharing the live one.
+        localCtx.callStack = localCtx.callStack.slice();
+        try {
+          await executeStatementsAsync(this.body, localCtx);
+          return this.leave(undefined, localCtx);
+        } catch (e) {
+          if (e instanceof ReturnSignal) {
+            return this.leave(e.value, localCtx);
+          }
+          throw e;
+        }
+      };
+    }
+    if (!this.isAsync && outerContext.jit) {
+      fn = outerContext.jit.instrument(this, outerContext, fn);
+    }
+    fn = trackCalls(fn, this, this.name ?? "<anonymous>", outerContext);
     if (this.pure) fn = memoize(fn);
-    return fn;
+    return withArity(fn, this.params.length);
+  }
+
+  // Creates the call scope and binds the arguments to the parameters.
+  private enter(outerContext: ExecutionContext, args: any[]) {
+    const localCtx = outerContext.createChildContext();
+    this.checkArguments(args, localCtx);
+    this.params.forEach((p, i) => localCtx.setVariable(p, args[i]));
+    return localCtx;
+  }
+
+  // Throws unless the arguments match the parameter count and types.
+  checkArguments(args: any[], context: ExecutionContext) {
+    if (args.length !== this.params.length)
+      throw new IntrearRuntimeError(
+        "ARGUMENT_COUNT",
+        `Argument count mismatch: ${
+          this.name ?? "function"
+        } expects ${this.params.length}, got ${args.length}`,
+        { node: this, context }
+      );
+    this.params.forEach((p, i) => {
+      const declared = this.declaredParamTypes?.[i];
+      if (declared) {
+        const what = `Parameter '${p}' of '${this.name ?? "function"}'`;
+        checkValue(args[i], declared, what, "ARGUMENT_TYPE", this, context);
+      }
+    });
+  }
+
+  // Checks the returned value against the declared return type; an async
+  // function's `Promise<T>` is checked as T.
+  leave(value: any, localCtx: ExecutionContext): any {
+    let declared = this.declaredReturnType;
+    if (declared && this.isAsync) {
+      declared =
+        typeof declared === "object" && declared.kind === "promise"
+          ? declared.of
+          : undefined;
+    }
+    if (declared) {
+      const what = `Return value of '${this.name ?? "function"}'`;
+      checkValue(value, declared, what, "RETURN_TYPE", this, localCtx);
+    }
+    return value;
   }
 
   inferType(env: TypeEnvironment): Type {
+    return this.inferWith(env);
+  }
+
+  // Like ArrowFunctionNode.inferWith: the parameters of an anonymous,
+  // unannotated function are typed by the call it is passed to, or by
+  // their use. Named functions default to `any`.
+  inferWith(env: TypeEnvironment, expected?: Type): Type {
     const localEnv = env.createChild();
-    const paramTypes: Type[] = [];
-    (this.declaredParamTypes || []).forEach((pt, i) => {
-      localEnv.setType(this.params[i]!, pt);
-      paramTypes.push(pt);
+    const contextual = !this.name && !this.declaredParamTypes;
+    const paramTypes: Type[] = this.params.map((_, i) =>
+      contextual
+        ? contextualParam(expected, i)
+        : resolveType(this.declaredParamTypes?.[i] ?? "any", env, this)
+    );
+    const declaredReturnType =
+      this.declaredReturnType &&
+      resolveType(this.declaredReturnType, env, this);
+    this.params.forEach((p, i) => localEnv.setType(p, paramTypes[i]!));
+    const signature = (returnType: Type): Type => ({
+      kind: "function",
+      paramTypes,
+      returnType,
+      typeParams: this.typeParams,
     });
-    let bodyType: Type = "void";
-    for (const stmt of this.body) {
-      bodyType = stmt.inferType(localEnv);
+    // Bind the function's own name first so recursive calls type-check.
+    if (this.name) {
+      localEnv.setType(this.name, signature(declaredReturnType || "any"));
     }
-    if (
-      this.declaredReturnType &&
-      !compareTypes(bodyType, this.declaredReturnType)
-    ) {
-      throw new Error(
-        `Return type mismatch: expected ${typeToString(
-          this.declaredReturnType
-        )}, got ${typeToString(bodyType)}`
+    const returnType =
+      declaredReturnType && this.expectedReturn(declaredReturnType);
+    localEnv.returns = { expected: returnType, types: [] };
+    inferStatements(this.body, localEnv);
+    // Falling off the end of the body returns undefined.
+    const fallsOff = !neverCompletes(this.body);
+    if (returnType && fallsOff && !isAssignable("void", returnType)) {
+      throw new IntrearTypeError(
+        "MISSING_RETURN",
+        `Not all code paths return a value: expected ${typeToString(
+          returnType
+        )}`,
+        { node: this }
       );
     }
-    if (this.name) {
-      env.setType(this.name, {
-        kind: "function",
-        paramTypes,
-        returnType: this.declaredReturnType || bodyType,
-      });
-    }
-    return {
-      kind: "function",
-      paramTypes,
-      returnType: this.declaredReturnType || bodyType,
-    };
+    const returned = localEnv.returns.types;
+    const inferred = unionOf(fallsOff ? [...returned, "void"] : returned);
+    const bodyType: Type = this.isAsync
+      ? { kind: "promise", of: inferred }
+      : inferred;
+    const type = settled(signature(declaredReturnType || bodyType));
+    if (this.name) env.setType(this.name, type);
+    return type;
+  }
+
+  // The type each `return` must have: an async function declared to
+  // return `Promise<T>` returns T.
+  private expectedReturn(declared: Type): Type {
+    if (!this.isAsync) return declared;
+    const shape = expandType(declared);
+    if (shape === "any") return "any";
+    if (typeof shape === "object" && shape.kind === "promise") return shape.of;
+    throw new IntrearTypeError(
+      "RETURN_TYPE",
+      `Return type mismatch: an async function returns a Promise, not ${
+        typeToString(declared)
+      }`,
+      { node: this }
+    );
   }
 }
 
 // ---------------------------------------------------
 // ArrowFunctionNode - Lambda expressions with closures
 // ---------------------------------------------------
+// Unlike FunctionLiteralNode, an arrow function takes any number of
+// arguments: missing ones are undefined and extra ones are ignored.
 export class ArrowFunctionNode extends ASTNode {
   constructor(
     public paramNames: string[],
-    public body: ASTNode // single-expression function
+    // A single expression, or a BlockNode for `x => { ... }`.
+    public body: ASTNode,
+    public isAsync: boolean = false,
+    public paramTypes?: Type[]
   ) {
     super();
   }
 
+  // The statements of a block body; undefined for an expression body.
+  get block(): ASTNode[] | undefined {
+    return this.body instanceof BlockNode ? this.body.statements : undefined;
+  }
+
   execute(context: ExecutionContext): any {
-    throw new Error(
-      "Arrow function must be transformed into a callable via toFunction()."
-    );
+    return this.toFunction(context);
   }
 
   toFunction(context: ExecutionContext): any {
-    return (...args: any[]) => {
-      const childCtx = context.createChildContext();
-      this.paramNames.forEach((name, i) => {
-        childCtx.setVariable(name, args[i]);
-      });
-      return this.body.execute(childCtx);
-    };
+    let fn = this.isAsync
+      ? async (...args: any[]) => {
+          const childCtx = this.enter(context, args);
+          childCtx.callStack = childCtx.callStack.slice();
+          const block = this.block;
+          if (!block) return unboxed(await this.body.executeAsync(childCtx));
+          try {
+            await executeStatementsAsync(block, childCtx);
+            return undefined;
+          } catch (e) {
+            if (e instanceof ReturnSignal) return e.value;
+            throw e;
+          }
+        }
+      : (...args: any[]) => {
+          const childCtx = this.enter(context, args);
+          const block = this.block;
+          if (!block) return this.body.execute(childCtx);
+          try {
+            for (const stmt of block) stmt.execute(childCtx);
+            return undefined;
+          } catch (e) {
+            if (e instanceof ReturnSignal) return e.value;
+            throw e;
+          }
+        };
+    if (!this.isAsync && context.jit) {
+      fn = context.jit.instrument(this, context, fn);
+    }
+    fn = trackCalls(fn, this, "<anonymous>", context);
+    return withArity(fn, this.paramNames.length);
+  }
+
+  private enter(context: ExecutionContext, args: any[]) {
+    const childCtx = context.createChildContext();
+    this.checkArguments(args, childCtx);
+    this.paramNames.forEach((name, i) => {
+      childCtx.setVariable(name, args[i]);
+    });
+    return childCtx;
+  }
+
+  // Throws unless the arguments have the declared parameter types.
+  checkArguments(args: any[], context: ExecutionContext) {
+    this.paramTypes?.forEach((declared, i) => {
+      const what = `Parameter '${this.paramNames[i]}' of 'function'`;
+      checkValue(args[i], declared, what, "ARGUMENT_TYPE", this, context);
+    });
   }
 
   inferType(env: TypeEnvironment): Type {
+    return this.inferWith(env);
+  }
+
+  // Infers the function as an argument of type `expected`, so `x` in
+  // `[1, 2].map(x => x * 2)` is a number. Other parameters get their
+  // declared type, the type their use in the body requires, or `any`.
+  inferWith(env: TypeEnvironment, expected?: Type): Type {
     const childEnv = env.createChild();
-    const paramTypes: Type[] = [];
-    this.paramNames.forEach((name) => {
-      childEnv.setType(name, "any");
-      paramTypes.push("any");
+    const paramTypes = this.paramNames.map((name, i) => {
+      const declared = this.paramTypes?.[i];
+      const type = declared
+        ? resolveType(declared, env, this)
+        : contextualParam(expected, i);
+      childEnv.setType(name, type);
+      return type;
     });
-    const returnType = this.body.inferType(childEnv);
-    return {
+    let bodyType: Type;
+    const block = this.block;
+    if (block) {
+      childEnv.returns = { types: [] };
+      inferStatements(block, childEnv);
+      const returned = childEnv.returns.types;
+      bodyType = unionOf(
+        neverCompletes(block) ? returned : [...returned, "void"]
+      );
+    } else {
+      bodyType = this.body.inferType(childEnv);
+    }
+    return settled({
       kind: "function",
       paramTypes,
-      returnType,
-    };
+      returnType: this.isAsync ? { kind: "promise", of: bodyType } : bodyType,
+    });
   }
 }
 
@@ -589,52 +2131,151 @@ export class FunctionCallNode extends ASTNode {
   }
 
   execute(context: ExecutionContext): any {
-    const value = context.getVariable(this.functionName);
-    if (typeof value !== "function") {
-      throw new Error(`'${this.functionName}' is not callable`);
-    }
-
+    const fn = this.callee(context);
     const evaluated = this.args.map((arg) =>
       arg instanceof FunctionLiteralNode || arg instanceof ArrowFunctionNode
         ? arg.toFunction(context)
         : arg.execute(context)
     );
-    return value(...evaluated);
+    return this.invoke(fn, evaluated, context);
   }
 
-  inferType(env: TypeEnvironment): Type {
-    const fnType = env.getType(this.functionName);
-    if (typeof fnType === "object" && fnType.kind === "function") {
-      if (fnType.paramTypes.length !== this.args.length) {
-        throw new Error("Argument count mismatch in call");
-      }
-      this.args.forEach((arg, i) => {
-        const at = arg.inferType(env);
-        if (!compareTypes(at, fnType.paramTypes[i]!)) {
-          throw new Error(
-            `Arg type mismatch at position ${i}: expected ${typeToString(
-              fnType.paramTypes[i]!
-            )} got ${typeToString(at)}`
-          );
-        }
-      });
-      return fnType.returnType;
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const fn = this.callee(context);
+    const evaluated: any[] = [];
+    for (const arg of this.args) {
+      evaluated.push(unboxed(await arg.executeAsync(context)));
     }
-    throw new Error(`'${this.functionName}' is not a function`);
+    return boxed(this.invoke(fn, evaluated, context));
   }
-}
 
-// ---------------------------------------------------
-// LiteralNode - Numbers, strings, booleans, etc.
-// ---------------------------------------------------
-export class LiteralNode extends ASTNode {
-  constructor(public value: any) {
-    super();
+  private callee(context: ExecutionContext): (...args: any[]) => any {
+    const value = context.getVariable(this.functionName);
+    if (typeof value !== "function") {
+      if (!context.hasVariable(this.functionName)) {
+        context.sandbox?.checkCapability(this.functionName, this, context);
+        throw new IntrearReferenceError(
+          "UNDEFINED_VARIABLE",
+          `'${this.functionName}' is not defined`,
+          { node: this, context }
+        );
+      }
+      throw new IntrearRuntimeError(
+        "NOT_CALLABLE",
+        `'${this.functionName}' is not callable`,
+        { node: this, context }
+      );
+    }
+    return value;
   }
 
-  execute(context: ExecutionContext): any {
-    return this.value;
-  }
+  private invoke(
+    fn: (...args: any[]) => any,
+    args: any[],
+    context: ExecutionContext
+  ): any {
+    context.callStack.push({ name: this.functionName, span: this.span });
+    try {
+      return fn(...args);
+    } finally {
+      context.callStack.pop();
+    }
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const fnType = expandType(env.getType(this.functionName, this));
+    if (fnType === "any") {
+      this.args.forEach((arg) => arg.inferType(env));
+      return "any";
+    }
+    // Calling an unannotated arrow parameter shows it is a function.
+    if (typeof fnType === "object" && fnType.kind === "infer") {
+      const returnType: Type = { kind: "infer" };
+      const type: Type = {
+        kind: "function",
+        paramTypes: this.args.map((arg) => arg.inferType(env)),
+        returnType,
+      };
+      if (occursIn(fnType, type)) return "any";
+      fnType.type = type;
+      return returnType;
+    }
+    if (typeof fnType === "object" && fnType.kind === "function") {
+      return checkCall(fnType, this.functionName, this.args, env, this);
+    }
+    throw new IntrearTypeError(
+      "NOT_CALLABLE",
+      `'${this.functionName}' is not a function`,
+      { node: this }
+    );
+  }
+}
+
+// Checks call arguments against a function type and returns its result.
+// The type parameters of a generic function are inferred from the
+// arguments, and function literals are inferred against the parameter
+// types expected of them.
+function checkCall(
+  fnType: Extract<Type, { kind: "function" }>,
+  callee: string,
+  args: ASTNode[],
+  env: TypeEnvironment,
+  node: ASTNode
+): Type {
+  const { paramTypes, restType, returnType } = instantiate(fnType);
+  const countOk = restType
+    ? args.length >= paramTypes.length
+    : args.length === paramTypes.length;
+  if (!countOk) {
+    throw new IntrearTypeError(
+      "ARGUMENT_COUNT",
+      `Argument count mismatch in call to '${callee}': expected ${
+        restType ? "at least " : ""
+      }${paramTypes.length}, got ${args.length}`,
+      { node }
+    );
+  }
+  args.forEach((arg, i) => {
+    const expected = paramTypes[i] ?? restType!;
+    const at =
+      arg instanceof ArrowFunctionNode || arg instanceof FunctionLiteralNode
+        ? arg.inferWith(env, expected)
+        : arg.inferType(env);
+    if (!canAssign(arg, at, expected)) {
+      throw new IntrearTypeError(
+        "ARGUMENT_TYPE",
+        `Arg type mismatch at position ${i}: expected ${typeToString(
+          expected
+        )} got ${typeToString(at)}`,
+        { node: arg }
+      );
+    }
+  });
+  return settled(returnType);
+}
+
+// The type of parameter `i` of a function literal checked against
+// `expected`; without one, the parameter's type is inferred from its use.
+function contextualParam(expected: Type | undefined, i: number): Type {
+  const fnType = expected && expandType(expected);
+  if (typeof fnType === "object" && fnType.kind === "function") {
+    const param = fnType.paramTypes[i] ?? fnType.restType;
+    if (param) return param;
+  }
+  return { kind: "infer" };
+}
+
+// ---------------------------------------------------
+// LiteralNode - Numbers, strings, booleans, etc.
+// ---------------------------------------------------
+export class LiteralNode extends ASTNode {
+  constructor(public value: any) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    return this.value;
+  }
 
   inferType(env: TypeEnvironment): Type {
     const v = this.value;
@@ -663,14 +2304,14 @@ export class VariableReferenceNode extends ASTNode {
   }
 
   inferType(env: TypeEnvironment): Type {
-    return env.getType(this.name);
+    return env.getType(this.name, this);
   }
 
   toReference(ctx: ExecutionContext) {
     return {
       __isPtr: true as const,
       get: () => ctx.getVariable(this.name),
-      set: (v: any) => ctx.setVariable(this.name, v),
+      set: (v: any) => ctx.assignVariable(this.name, v),
     };
   }
 }
@@ -678,6 +2319,125 @@ export class VariableReferenceNode extends ASTNode {
 // ---------------------------------------------------
 // OperatorNode - Arithmetic, logic, comparison, concat
 // ---------------------------------------------------
+
+// The single operator vocabulary shared by execution and type inference.
+// `resultType` returns null when the operand types are not accepted.
+interface OperatorSpec {
+  expects: string;
+  apply(left: any, right: any): any;
+  resultType(left: Type, right: Type): Type | null;
+  // Runtime operand check, for operators that must not coerce.
+  accepts?(left: any, right: any): boolean;
+}
+
+const numeric = (left: Type, right: Type): Type | null =>
+  isAssignable(left, "number") && isAssignable(right, "number")
+    ? "number"
+    : null;
+const sameType = (left: Type, right: Type): Type | null =>
+  typesOverlap(left, right) ? "boolean" : null;
+const logical = (left: Type, right: Type): Type | null =>
+  isAssignable(left, "boolean") && isAssignable(right, "boolean")
+    ? "boolean"
+    : null;
+
+export const OPERATORS: Record<string, OperatorSpec> = {
+  "+": {
+    expects: "numeric operands",
+    apply: (l, r) => l + r,
+    resultType: numeric,
+  },
+  "-": {
+    expects: "numeric operands",
+    apply: (l, r) => l - r,
+    resultType: numeric,
+  },
+  "*": {
+    expects: "numeric operands",
+    apply: (l, r) => l * r,
+    resultType: numeric,
+  },
+  "/": {
+    expects: "numeric operands",
+    apply: (l, r) => l / r,
+    resultType: numeric,
+  },
+  // integer division (floor)
+  "//": {
+    expects: "numeric operands",
+    apply: (l, r) => Math.floor(l / r),
+    resultType: numeric,
+  },
+  "^": {
+    expects: "numeric operands",
+    apply: (l, r) => l ** r,
+    resultType: numeric,
+  },
+  "==": {
+    expects: "operands of the same type",
+    apply: (l, r) => l === r,
+    resultType: sameType,
+  },
+  "!==": {
+    expects: "operands of the same type",
+    apply: (l, r) => l !== r,
+    resultType: sameType,
+  },
+  "<": {
+    expects: "operands of the same type",
+    apply: (l, r) => l < r,
+    resultType: sameType,
+  },
+  "<=": {
+    expects: "operands of the same type",
+    apply: (l, r) => l <= r,
+    resultType: sameType,
+  },
+  ">": {
+    expects: "operands of the same type",
+    apply: (l, r) => l > r,
+    resultType: sameType,
+  },
+  ">=": {
+    expects: "operands of the same type",
+    apply: (l, r) => l >= r,
+    resultType: sameType,
+  },
+  "&&": {
+    expects: "boolean operands",
+    apply: (l, r) => Boolean(l) && Boolean(r),
+    resultType: logical,
+  },
+  "||": {
+    expects: "boolean operands",
+    apply: (l, r) => Boolean(l) || Boolean(r),
+    resultType: logical,
+  },
+  // array concatenation
+  concat: {
+    expects: "two arrays",
+    apply: (l, r) => l.concat(r),
+    accepts: (l, r) => Array.isArray(l) && Array.isArray(r),
+    resultType: (left, right) => {
+      if (!isKind(left, "array") || !isKind(right, "array")) return null;
+      const elementOf = (t: Type) =>
+        typeof t === "object" && t.kind === "array" ? t.elementType : "any";
+      const l = elementOf(left);
+      const r = elementOf(right);
+      return {
+        kind: "array",
+        elementType: l !== "any" && compareTypes(l, r) ? l : "any",
+      };
+    },
+  },
+  // string concatenation of any two values
+  "><": {
+    expects: "any operands",
+    apply: (l, r) => String(l) + String(r),
+    resultType: () => "string",
+  },
+};
+
 export class OperatorNode extends ASTNode {
   constructor(public operator: string, public operands: [ASTNode, ASTNode]) {
     super();
@@ -686,108 +2446,113 @@ export class OperatorNode extends ASTNode {
   execute(context: ExecutionContext): any {
     const leftVal = this.operands[0].execute(context);
     const rightVal = this.operands[1].execute(context);
-    switch (this.operator) {
-      case "+": // numeric addition
-        return leftVal + rightVal;
-      case "-": // subtraction
-        return leftVal - rightVal;
-      case "*": // multiplication
-        return leftVal * rightVal;
-      case "/": // division
-        return leftVal / rightVal;
-      case "//": // integer division (floor)
-        return Math.floor(leftVal / rightVal);
-      case "^": // exponentiation
-        return leftVal ** rightVal;
-      case "==": // equal
-        return leftVal === rightVal;
-      case "!==": // not equal
-        return leftVal !== rightVal;
-      case "<": // less than
-        return leftVal < rightVal;
-      case "<=": // less than or equal
-        return leftVal <= rightVal;
-      case ">": // greater than
-        return leftVal > rightVal;
-      case ">=": // greater than or equal
-        return leftVal >= rightVal;
-      case "&&": // logical AND
-        return Boolean(leftVal) && Boolean(rightVal);
-      case "||": // logical OR
-        return Boolean(leftVal) || Boolean(rightVal);
-      case "concat": // array concatenation
-        return Array.isArray(leftVal) && Array.isArray(rightVal)
-          ? leftVal.concat(rightVal)
-          : (() => {
-              throw new Error(`Operator 'concat' requires two arrays.`);
-            })();
-      case "><":
-        return String(leftVal) + String(rightVal);
-      default:
-        throw new Error(`Unknown operator: ${this.operator}`);
+    return this.apply(leftVal, rightVal, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const leftVal = unboxed(await this.operands[0].executeAsync(context));
+    const rightVal = unboxed(await this.operands[1].executeAsync(context));
+    return this.apply(leftVal, rightVal, context);
+  }
+
+  apply(leftVal: any, rightVal: any, context: ExecutionContext): any {
+    const spec = OPERATORS[this.operator];
+    if (!spec) {
+      throw new IntrearRuntimeError(
+        "UNKNOWN_OPERATOR",
+        `Unknown operator: ${this.operator}`,
+        { node: this, context }
+      );
+    }
+    if (spec.accepts && !spec.accepts(leftVal, rightVal)) {
+      throw new IntrearTypeError(
+        "OPERAND_TYPE",
+        `Operator '${this.operator}' requires ${spec.expects}.`,
+        { node: this, context }
+      );
     }
+    return spec.apply(leftVal, rightVal);
   }
 
   inferType(env: TypeEnvironment): Type {
+    // Both operands always run, `&&` and `||` included, so the left one
+    // never narrows the right one.
     const leftType = this.operands[0].inferType(env);
     const rightType = this.operands[1].inferType(env);
-    switch (this.operator) {
-      case "o_plus":
-      case "o_minus":
-      case "o_mul":
-      case "o_div":
-      case "o_idiv":
-      case "o_pow":
-        if (leftType !== "number" || rightType !== "number") {
-          throw new Error(`${this.operator} requires numeric operands.`);
-        }
-        return "number";
-      case "o_eq":
-      case "o_neq":
-      case "o_lt":
-      case "o_lte":
-      case "o_gt":
-      case "o_gte":
-        if (!compareTypes(leftType, rightType)) {
-          throw new Error(`${this.operator} requires operands of same type.`);
-        }
-        return "boolean";
-      case "o_and":
-      case "o_or":
-        if (leftType !== "boolean" || rightType !== "boolean") {
-          throw new Error(`${this.operator} requires boolean operands.`);
-        }
-        return "boolean";
-      case "o_concat":
-        if (typeof leftType === "object" && typeof rightType === "object") {
-          if (leftType.kind !== "array" || rightType.kind !== "array") {
-            throw new Error(
-              `Operator 'concat' requires both operands to be arrays.`
-            );
-          }
-
-          const elemType = compareTypes(
-            leftType.elementType,
-            rightType.elementType
-          )
-            ? leftType.elementType
-            : "any";
-          return { kind: "array", elementType: elemType };
-        } else {
-          throw new Error(
-            `Operator 'concat' requires both operands to be arrays.`
-          );
-        }
-
-      default:
-        throw new Error(`Unknown operator in type inference: ${this.operator}`);
+    const spec = OPERATORS[this.operator];
+    if (!spec) {
+      throw new IntrearTypeError(
+        "UNKNOWN_OPERATOR",
+        `Unknown operator in type inference: ${this.operator}`,
+        { node: this }
+      );
+    }
+    const result = spec.resultType(
+      expandType(leftType),
+      expandType(rightType)
+    );
+    if (!result) {
+      throw new IntrearTypeError(
+        "OPERAND_TYPE",
+        `Operator '${this.operator}' requires ${
+          spec.expects
+        }, got ${typeToString(leftType)} and ${typeToString(rightType)}.`,
+        { node: this }
+      );
     }
+    return result;
   }
 }
 
 // ---------------------------------------------------
 // MethodCallNode - Built-in methods on string, array, number
 // ---------------------------------------------------
+// Signatures of the built-in array methods, in terms of the element type T.
+const ELEMENT: Type = { kind: "typevar", name: "T" };
+const ARRAY_METHODS: Record<string, Extract<Type, { kind: "function" }>> = {
+  length: { kind: "function", paramTypes: [], returnType: "number" },
+  push: {
+    kind: "function",
+    paramTypes: [],
+    restType: ELEMENT,
+    returnType: "number",
+  },
+  pop: { kind: "function", paramTypes: [], returnType: ELEMENT },
+  // Callbacks also receive the index.
+  map: {
+    kind: "function",
+    typeParams: ["U"],
+    paramTypes: [
+      {
+        kind: "function",
+        paramTypes: [ELEMENT, "number"],
+        returnType: { kind: "typevar", name: "U" },
+      },
+    ],
+    returnType: { kind: "array", elementType: { kind: "typevar", name: "U" } },
+  },
+  filter: {
+    kind: "function",
+    paramTypes: [
+      {
+        kind: "function",
+        paramTypes: [ELEMENT, "number"],
+        returnType: "boolean",
+      },
+    ],
+    returnType: { kind: "array", elementType: ELEMENT },
+  },
+};
+
+// Array method callbacks get `(value, index)`, as ARRAY_METHODS types them,
+// or only the value when they take fewer than two parameters.
+export function elementCallback(fn: any): any {
+  if (typeof fn !== "function") return fn;
+  return fn.length < 2
+    ? (value: any) => fn(value)
+    : (value: any, index: number) => fn(value, index);
+}
+
 export class MethodCallNode extends ASTNode {
   constructor(
     public target: ASTNode,
@@ -798,11 +2563,32 @@ export class MethodCallNode extends ASTNode {
   }
 
   execute(context: ExecutionContext): any {
-    let result = this.target.execute(context);
+    const result = this.receiver(this.target.execute(context), context);
+    const evaluatedArgs = this.args.map((arg) => arg.execute(context));
+    return this.call(result, evaluatedArgs, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const target = unboxed(await this.target.executeAsync(context));
+    const result = this.receiver(target, context);
+    const evaluatedArgs: any[] = [];
+    for (const arg of this.args) {
+      evaluatedArgs.push(unboxed(await arg.executeAsync(context)));
+    }
+    return boxed(this.call(result, evaluatedArgs, context));
+  }
+
+  receiver(result: any, context: ExecutionContext): any {
     if (result == null)
-      throw new Error(`Cannot call method '${this.methodName}' on ${result}`);
+      throw new IntrearRuntimeError(
+        "NULL_ACCESS",
+        `Cannot call method '${this.methodName}' on ${result}`,
+        { node: this, context }
+      );
+    return result;
+  }
 
-    const evaluatedArgs = this.args.map((arg) => arg.execute(context));
+  call(result: any, evaluatedArgs: any[], context: ExecutionContext) {
     const targetType = typeof result;
 
     if (targetType === "string") {
@@ -820,7 +2606,11 @@ export class MethodCallNode extends ASTNode {
         case "parseFloat":
           return parseFloat(result);
         default:
-          throw new Error(`Unknown string method: ${this.methodName}`);
+          throw new IntrearRuntimeError(
+            "UNKNOWN_METHOD",
+            `Unknown string method: ${this.methodName}`,
+            { node: this, context }
+          );
       }
     } else if (Array.isArray(result)) {
       switch (this.methodName) {
@@ -831,28 +2621,48 @@ export class MethodCallNode extends ASTNode {
         case "pop":
           return result.pop();
         case "map":
-          return result.map(evaluatedArgs[0]);
+          return result.map(elementCallback(evaluatedArgs[0]));
         case "filter":
-          return result.filter(evaluatedArgs[0]);
+          return result.filter(elementCallback(evaluatedArgs[0]));
         default:
-          throw new Error(`Unknown array method: ${this.methodName}`);
+          throw new IntrearRuntimeError(
+            "UNKNOWN_METHOD",
+            `Unknown array method: ${this.methodName}`,
+            { node: this, context }
+          );
       }
     } else if (targetType === "number") {
       switch (this.methodName) {
         case "toString":
           return result.toString();
         default:
-          throw new Error(`Unknown number method: ${this.methodName}`);
+          throw new IntrearRuntimeError(
+            "UNKNOWN_METHOD",
+            `Unknown number method: ${this.methodName}`,
+            { node: this, context }
+          );
       }
     }
 
     const fn = result[this.methodName];
-    if (typeof fn === "function") return fn.apply(result, evaluatedArgs);
-    throw new Error(`'${this.methodName}' is not a method on ${result}`);
+    if (typeof fn === "function") {
+      context.callStack.push({ name: this.methodName, span: this.span });
+      try {
+        return fn.apply(result, evaluatedArgs);
+      } finally {
+        context.callStack.pop();
+      }
+    }
+    throw new IntrearRuntimeError(
+      "UNKNOWN_METHOD",
+      `'${this.methodName}' is not a method on ${result}`,
+      { node: this, context }
+    );
   }
 
   inferType(env: TypeEnvironment): Type {
-    const targetType = this.target.inferType(env);
+    const targetType = widenLiterals(expandType(this.target.inferType(env)));
+    checkNotNullish(targetType, `call '${this.methodName}' on`, this);
 
     if (targetType === "string") {
       switch (this.methodName) {
@@ -869,16 +2679,31 @@ export class MethodCallNode extends ASTNode {
     }
 
     if (typeof targetType === "object" && targetType.kind === "array") {
-      switch (this.methodName) {
-        case "length":
-          return "number";
-        case "push":
-          return "number";
-        case "pop":
-          return targetType.elementType;
-        case "map":
-        case "filter":
-          return { kind: "array", elementType: "any" };
+      const signature = ARRAY_METHODS[this.methodName];
+      if (signature) {
+        const fnType = substituteType(signature, {
+          T: targetType.elementType,
+        });
+        return checkCall(
+          fnType as Extract<Type, { kind: "function" }>,
+          this.methodName,
+          this.args,
+          env,
+          this
+        );
+      }
+    }
+
+    const member = classMember(targetType, this.methodName, env, this);
+    if (member !== undefined) {
+      return checkMemberCall(member, this.methodName, this.args, env, this);
+    }
+
+    // Calls through an object, e.g. a namespace import: `math.sqrt(2)`.
+    if (typeof targetType === "object" && targetType.kind === "object") {
+      const member = targetType.properties[this.methodName];
+      if (typeof member === "object" && member.kind === "function") {
+        return checkCall(member, this.methodName, this.args, env, this);
       }
     }
 
@@ -899,7 +2724,7 @@ export class ParameterNode extends ASTNode {
   }
 
   inferType(env: TypeEnvironment): Type {
-    return env.getType(this.name);
+    return env.getType(this.name, this);
   }
 }
 
@@ -915,6 +2740,14 @@ export class ArrayLiteralNode extends ASTNode {
     return this.elements.map((el) => el.execute(context));
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const values: any[] = [];
+    for (const el of this.elements) {
+      values.push(unboxed(await el.executeAsync(context)));
+    }
+    return values;
+  }
+
   inferType(env: TypeEnvironment): Type {
     if (this.elements.length === 0)
       return { kind: "array", elementType: "any" };
@@ -946,31 +2779,58 @@ export class IndexAssignmentNode extends ASTNode {
     const arr = this.target.execute(context);
     const i = this.index.execute(context);
     const val = this.value.execute(context);
+    return this.assign(arr, i, val, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const arr = unboxed(await this.target.executeAsync(context));
+    const i = unboxed(await this.index.executeAsync(context));
+    const val = unboxed(await this.value.executeAsync(context));
+    return boxed(this.assign(arr, i, val, context));
+  }
 
-    if (!Array.isArray(arr)) throw new Error("Target is not an array");
-    if (typeof i !== "number") throw new Error("Index must be a number");
+  assign(arr: any, i: any, val: any, context: ExecutionContext) {
+    if (!Array.isArray(arr))
+      throw new IntrearRuntimeError("NOT_AN_ARRAY", "Target is not an array", {
+        node: this,
+        context,
+      });
+    if (typeof i !== "number")
+      throw new IntrearRuntimeError(
+        "INDEX_NOT_NUMBER",
+        "Index must be a number",
+        { node: this, context }
+      );
 
     arr[i] = val;
     return val;
   }
 
   inferType(env: TypeEnvironment): Type {
-    const arrType = this.target.inferType(env);
+    const arrType = expandType(this.target.inferType(env));
     const indexType = this.index.inferType(env);
     const valType = this.value.inferType(env);
 
-    if (indexType !== "number") throw new Error("Index must be a number");
+    if (!isAssignable(indexType, "number"))
+      throw new IntrearTypeError("INDEX_NOT_NUMBER", "Index must be a number", {
+        node: this.index,
+      });
 
+    if (arrType === "any") return valType;
     if (typeof arrType === "object" && arrType.kind === "array") {
-      if (!compareTypes(arrType.elementType, valType)) {
-        throw new Error(
-          "Assigned value type does not match array element type"
+      if (!canAssign(this.value, valType, arrType.elementType)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          "Assigned value type does not match array element type",
+          { node: this }
         );
       }
       return valType;
     }
 
-    throw new Error("Target must be an array");
+    throw new IntrearTypeError("NOT_AN_ARRAY", "Target must be an array", {
+      node: this.target,
+    });
   }
 }
 
@@ -982,12 +2842,26 @@ export class IndexAccessNode extends ASTNode {
   execute(context: ExecutionContext) {
     const arr = this.array.execute(context);
     const i = this.index.execute(context);
-    if (!Array.isArray(arr)) throw new Error("Target is not an array");
+    return this.read(arr, i, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const arr = unboxed(await this.array.executeAsync(context));
+    const i = unboxed(await this.index.executeAsync(context));
+    return boxed(this.read(arr, i, context));
+  }
+
+  read(arr: any, i: any, context: ExecutionContext) {
+    if (!Array.isArray(arr))
+      throw new IntrearRuntimeError("NOT_AN_ARRAY", "Target is not an array", {
+        node: this,
+        context,
+      });
     return arr[i];
   }
 
   inferType(env: TypeEnvironment) {
-    const arrType = this.array.inferType(env);
+    const arrType = expandType(this.array.inferType(env));
     if (typeof arrType === "object" && arrType.kind === "array") {
       return arrType.elementType;
     }
@@ -997,7 +2871,11 @@ export class IndexAccessNode extends ASTNode {
   toReference(context: ExecutionContext) {
     const arr = this.array.execute(context);
     const i = this.index.execute(context);
-    if (!Array.isArray(arr)) throw new Error("Target is not an array");
+    if (!Array.isArray(arr))
+      throw new IntrearRuntimeError("NOT_AN_ARRAY", "Target is not an array", {
+        node: this,
+        context,
+      });
 
     return {
       __isPtr: true as const,
@@ -1009,7 +2887,6 @@ export class IndexAccessNode extends ASTNode {
   }
 }
 
-
 // ---------------------------------------------------
 // ObjectLiteralNode - Inline object definition
 // ---------------------------------------------------
@@ -1026,6 +2903,14 @@ export class ObjectLiteralNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const result: any = {};
+    for (const key in this.properties) {
+      result[key] = unboxed(await this.properties[key]!.executeAsync(context));
+    }
+    return result;
+  }
+
   inferType(env: TypeEnvironment): Type {
     const propTypes: Record<string, Type> = {};
     for (const key in this.properties) {
@@ -1047,10 +2932,7 @@ export class PropertyAccessNode extends ASTNode {
   }
 
   execute(context: ExecutionContext): any {
-    const obj = this.object.execute(context);
-    if (obj == null)
-      throw new Error("Cannot access property of null/undefined");
-
+    const obj = this.checkObject(this.object.execute(context), context);
     const key =
       typeof this.property === "string"
         ? this.property
@@ -1059,11 +2941,45 @@ export class PropertyAccessNode extends ASTNode {
     return obj[key];
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const target = unboxed(await this.object.executeAsync(context));
+    const obj = this.checkObject(target, context);
+    const key =
+      typeof this.property === "string"
+        ? this.property
+        : unboxed(await this.property.executeAsync(context));
+
+    return boxed(obj[key]);
+  }
+
+  checkObject(obj: any, context: ExecutionContext): any {
+    if (obj == null)
+      throw new IntrearRuntimeError(
+        "NULL_ACCESS",
+        "Cannot access property of null/undefined",
+        { node: this, context }
+      );
+    return obj;
+  }
+
   inferType(env: TypeEnvironment): Type {
-    const objType = this.object.inferType(env);
+    const objType = expandType(this.object.inferType(env));
+    const key = typeof this.property === "string" ? this.property : null;
+    checkNotNullish(objType, `access '${key ?? "[...]"}' on`, this);
+    return unionOf(membersOf(objType).map((m) => this.propertyType(m, env)));
+  }
+
+  private propertyType(objType: Type, env: TypeEnvironment): Type {
+    if (typeof this.property === "string") {
+      const member = classMember(objType, this.property, env, this);
+      if (member !== undefined) return member;
+    }
     if (typeof objType === "object" && objType.kind === "object") {
       if (typeof this.property === "string") {
-        return objType.properties[this.property] ?? "any";
+        const type = objType.properties[this.property] ?? "any";
+        return objType.optional?.includes(this.property)
+          ? unionOf([type, "undefined"])
+          : type;
       }
     }
     return "any";
@@ -1072,7 +2988,11 @@ export class PropertyAccessNode extends ASTNode {
   toReference(context: ExecutionContext) {
     const obj = this.object.execute(context);
     if (obj == null)
-      throw new Error("Cannot get reference of property on null/undefined");
+      throw new IntrearRuntimeError(
+        "NULL_ACCESS",
+        "Cannot get reference of property on null/undefined",
+        { node: this, context }
+      );
   
     const key =
       typeof this.property === "string"
@@ -1107,13 +3027,16 @@ export class BlockNode extends ASTNode {
     return returnValue;
   }
 
+  executeAsync(context: ExecutionContext): Promise<any> {
+    return executeStatementsAsync(
+      this.statements,
+      context.createChildContext()
+    );
+  }
+
   inferType(env: TypeEnvironment): Type {
     const childEnv = env.createChild();
-    let type: Type = "void";
-    for (const stmt of this.statements) {
-      type = stmt.inferType(childEnv);
-    }
-    return type;
+    return inferStatements(this.statements, childEnv);
   }
 }
 
@@ -1131,7 +3054,8 @@ export class IfNode extends ASTNode {
 
   execute(context: ExecutionContext): any {
     const cond = this.condition.execute(context);
-    if (typeof cond !== "boolean") throw new Error("Condition must be boolean");
+    if (typeof cond !== "boolean")
+      throw conditionError(this.condition, cond, context);
     const branch = cond ? this.thenBranch : this.elseBranch ?? [];
     let result;
     const childCtx = context.createChildContext();
@@ -1141,13 +3065,24 @@ export class IfNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const cond = unboxed(await this.condition.executeAsync(context));
+    if (typeof cond !== "boolean")
+      throw conditionError(this.condition, cond, context);
+    const branch = cond ? this.thenBranch : this.elseBranch ?? [];
+    return executeStatementsAsync(branch, context.createChildContext());
+  }
+
   inferType(env: TypeEnvironment): Type {
     const condType = this.condition.inferType(env);
-    if (condType !== "boolean") throw new Error("Condition must be boolean");
+    if (!isAssignable(condType, "boolean"))
+      throw conditionTypeError(this.condition, condType);
     const thenEnv = env.createChild();
     const elseEnv = env.createChild();
-    this.thenBranch.forEach((stmt) => stmt.inferType(thenEnv));
-    this.elseBranch?.forEach((stmt) => stmt.inferType(elseEnv));
+    narrowScope(this.condition, thenEnv, true);
+    narrowScope(this.condition, elseEnv, false);
+    inferStatements(this.thenBranch, thenEnv);
+    inferStatements(this.elseBranch ?? [], elseEnv);
     return "void";
   }
 }
@@ -1186,7 +3121,7 @@ export class WhileNode extends ASTNode {
     while (true) {
       const cond = this.condition.execute(context);
       if (typeof cond !== "boolean")
-        throw new Error("Condition must be boolean");
+        throw conditionError(this.condition, cond, context);
       if (!cond) break;
       const loopCtx = context.createChildContext();
       try {
@@ -1207,11 +3142,35 @@ export class WhileNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    let result;
+    while (true) {
+      const cond = unboxed(await this.condition.executeAsync(context));
+      if (typeof cond !== "boolean")
+        throw conditionError(this.condition, cond, context);
+      if (!cond) break;
+      try {
+        result = await executeStatementsAsync(this.body, context);
+      } catch (e) {
+        if (e instanceof ContinueSignal) {
+          continue;
+        }
+        if (e instanceof BreakSignal) {
+          break;
+        }
+        throw e;
+      }
+    }
+    return result;
+  }
+
   inferType(env: TypeEnvironment): Type {
     const condType = this.condition.inferType(env);
-    if (condType !== "boolean") throw new Error("Condition must be boolean");
+    if (!isAssignable(condType, "boolean"))
+      throw conditionTypeError(this.condition, condType);
     const bodyEnv = env.createChild();
-    this.body.forEach((stmt) => stmt.inferType(bodyEnv));
+    narrowScope(this.condition, bodyEnv, true);
+    inferStatements(this.body, bodyEnv);
     return "void";
   }
 }
@@ -1235,7 +3194,7 @@ export class ForNode extends ASTNode {
     while (true) {
       const cond = this.condition.execute(context);
       if (typeof cond !== "boolean")
-        throw new Error("Condition must be boolean");
+        throw conditionError(this.condition, cond, context);
       if (!cond) break;
       const loopCtx = context.createChildContext();
       try {
@@ -1257,13 +3216,36 @@ export class ForNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    await this.init.executeAsync(context);
+    let result;
+    while (true) {
+      const cond = unboxed(await this.condition.executeAsync(context));
+      if (typeof cond !== "boolean")
+        throw conditionError(this.condition, cond, context);
+      if (!cond) break;
+      const loopCtx = context.createChildContext();
+      try {
+        result = await executeStatementsAsync(this.body, loopCtx);
+      } catch (e) {
+        if (e instanceof BreakSignal) {
+          break;
+        }
+        if (!(e instanceof ContinueSignal)) throw e;
+      }
+      await this.update.executeAsync(context);
+    }
+    return result;
+  }
+
   inferType(env: TypeEnvironment): Type {
     this.init.inferType(env);
     const condType = this.condition.inferType(env);
-    if (condType !== "boolean") throw new Error("Condition must be boolean");
+    if (!isAssignable(condType, "boolean"))
+      throw conditionTypeError(this.condition, condType);
     this.update.inferType(env);
     const bodyEnv = env.createChild();
-    this.body.forEach((stmt) => stmt.inferType(bodyEnv));
+    inferStatements(this.body, bodyEnv);
     return "void";
   }
 }
@@ -1301,68 +3283,430 @@ export class SwitchNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.expression.executeAsync(context));
+    for (const caseBlock of this.cases) {
+      const match = unboxed(await caseBlock.match.executeAsync(context));
+      if (value === match) {
+        return executeStatementsAsync(
+          caseBlock.body,
+          context.createChildContext()
+        );
+      }
+    }
+    if (this.defaultCase) {
+      return executeStatementsAsync(
+        this.defaultCase,
+        context.createChildContext()
+      );
+    }
+    return undefined;
+  }
+
   inferType(env: TypeEnvironment): Type {
     const exprType = this.expression.inferType(env);
     for (const { match, body } of this.cases) {
       const matchType = match.inferType(env);
-      if (!compareTypes(exprType, matchType)) {
-        throw new Error("Switch case type mismatch with expression");
+      if (!typesOverlap(exprType, matchType)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Switch case type mismatch with expression: expected ${typeToString(
+            exprType
+          )}, got ${typeToString(matchType)}`,
+          { node: match }
+        );
       }
       const caseEnv = env.createChild();
-      body.forEach((stmt) => stmt.inferType(caseEnv));
+      inferStatements(body, caseEnv);
     }
     if (this.defaultCase) {
       const defaultEnv = env.createChild();
-      this.defaultCase.forEach((stmt) => stmt.inferType(defaultEnv));
+      inferStatements(this.defaultCase, defaultEnv);
     }
     return "void";
   }
 }
 
 // ---------------------------------------------------
-// DoWhileNode - Do...while loop (guaranteed first execution)
+// MatchNode - Pattern matching with destructuring, type tests and guards
 // ---------------------------------------------------
-export class DoWhileNode extends ASTNode {
-  constructor(public body: ASTNode[], public condition: ASTNode) {
-    super();
+export type Pattern =
+  | { kind: "literal"; value: any }
+  | { kind: "wildcard" }
+  | { kind: "binding"; name: string }
+  // `x: number` binds `x` if the value has the type; `_: number` only tests.
+  | { kind: "type"; type: Type; name?: string }
+  // `[first, ...rest]`; a `rest` of "_" accepts extra elements unbound.
+  | { kind: "array"; elements: Pattern[]; rest?: string }
+  | { kind: "object"; properties: Record<string, Pattern> };
+
+export interface MatchArm {
+  pattern: Pattern;
+  guard?: ASTNode;
+  body: ASTNode[];
+}
+
+// Tests `value` against a pattern, binding the names it captures in
+// `scope`. Without a scope it is a pure test.
+function matchPattern(
+  pattern: Pattern,
+  value: any,
+  scope?: ExecutionContext
+): boolean {
+  switch (pattern.kind) {
+    case "literal":
+      return value === pattern.value;
+    case "wildcard":
+      return true;
+    case "binding":
+      scope?.setVariable(pattern.name, value);
+      return true;
+    case "type":
+      if (!isOfType(value, pattern.type, scope)) return false;
+      if (pattern.name) scope?.setVariable(pattern.name, value);
+      return true;
+    case "array": {
+      const { elements, rest } = pattern;
+      if (!Array.isArray(value)) return false;
+      if (
+        rest === undefined
+          ? value.length !== elements.length
+          : value.length < elements.length
+      ) {
+        return false;
+      }
+      if (!elements.every((p, i) => matchPattern(p, value[i], scope))) {
+        return false;
+      }
+      if (rest !== undefined && rest !== "_") {
+        scope?.setVariable(rest, value.slice(elements.length));
+      }
+      return true;
+    }
+    case "object":
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return false;
+      }
+      return Object.entries(pattern.properties).every(
+        ([key, p]) => key in value && matchPattern(p, value[key], scope)
+      );
   }
+}
 
-  execute(context: ExecutionContext): any {
-    let result;
-    do {
-      const childCtx = context.createChildContext();
-      try {
-        for (const stmt of this.body) {
-          result = stmt.execute(childCtx);
-        }
-      } catch (e) {
-        if (e instanceof ContinueSignal) {
-          continue;
-        }
-        if (e instanceof BreakSignal) {
-          break;
+// Binds the names a pattern captures to their types, rejecting patterns
+// that can never match a value of type `t`.
+function checkPattern(
+  pattern: Pattern,
+  t: Type,
+  env: TypeEnvironment,
+  node: ASTNode
+) {
+  const neverMatches = (what: string) =>
+    new IntrearTypeError(
+      "TYPE_MISMATCH",
+      `${what} can never match a value of type ${typeToString(t)}`,
+      { node }
+    );
+  switch (pattern.kind) {
+    case "literal": {
+      const literal = new LiteralNode(pattern.value);
+      const literalType = exactType(literal, literal.inferType(env));
+      if (!typesOverlap(literalType, t)) {
+        const shown =
+          typeof pattern.value === "string"
+            ? JSON.stringify(pattern.value)
+            : String(pattern.value);
+        throw neverMatches(`Pattern ${shown}`);
+      }
+      return;
+    }
+    case "wildcard":
+      return;
+    case "binding":
+      env.setType(pattern.name, t);
+      return;
+    case "type": {
+      const tested = resolveType(pattern.type, env, node);
+      if (!typesOverlap(tested, t)) {
+        throw neverMatches(`Type test '${typeToString(tested)}'`);
+      }
+      if (pattern.name) env.setType(pattern.name, tested);
+      return;
+    }
+    case "array": {
+      const shapes = membersOf(t).filter((m) => isKind(m, "array"));
+      if (shapes.length === 0) throw neverMatches("An array pattern");
+      const elementType = unionOf(
+        shapes.map((shape) =>
+          typeof shape === "object" && shape.kind === "array"
+            ? shape.elementType
+            : "any"
+        )
+      );
+      for (const p of pattern.elements) {
+        checkPattern(p, elementType, env, node);
+      }
+      if (pattern.rest !== undefined && pattern.rest !== "_") {
+        env.setType(pattern.rest, { kind: "array", elementType });
+      }
+      return;
+    }
+    case "object": {
+      const members = membersOf(t);
+      if (members.length > 1) {
+        checkUnionObjectPattern(pattern, members, env, node);
+        return;
+      }
+      for (const [key, p] of Object.entries(pattern.properties)) {
+        const shape = expandType(t);
+        let propType = classMember(shape, key, env, node);
+        if (propType === undefined) {
+          if (!isKind(shape, "object")) {
+            throw neverMatches("An object pattern");
+          }
+          propType =
+            typeof shape === "object" && shape.kind === "object"
+              ? shape.properties[key] ?? "any"
+              : "any";
         }
-
-        throw e;
+        checkPattern(p, propType, env, node);
       }
-      if (childCtx.breakSignal) break;
-    } while (this.condition.execute(context));
-    return result;
+      return;
+    }
   }
+}
 
-  inferType(env: TypeEnvironment): Type {
-    const childEnv = env.createChild();
-    for (const stmt of this.body) stmt.inferType(childEnv);
-    const condType = this.condition.inferType(env);
-    if (condType !== "boolean") throw new Error("Condition must be boolean");
-    return "void";
+// An object pattern against a union checks each property against the
+// members the pattern can match, so `{ kind: "circle", r }` on a union of
+// shapes binds `r` from the circle member only.
+function checkUnionObjectPattern(
+  pattern: Extract<Pattern, { kind: "object" }>,
+  members: Type[],
+  env: TypeEnvironment,
+  node: ASTNode
+) {
+  const entries = Object.entries(pattern.properties);
+  const propertyOf = (m: Type, key: string): Type | undefined => {
+    if (typeof m !== "object") return m === "any" ? "any" : undefined;
+    if (m.kind === "object") return m.properties[key];
+    if (m.kind !== "instance") return undefined;
+    const cls = env.hasType(m.className) ? env.getType(m.className) : "any";
+    if (typeof cls !== "object" || cls.kind !== "class") return "any";
+    return cls.members[key];
+  };
+  const candidates = members.filter((m) =>
+    entries.every(([key, p]) => {
+      const type = propertyOf(m, key);
+      if (type === undefined) return false;
+      if (p.kind !== "literal") return true;
+      const literal = new LiteralNode(p.value);
+      return typesOverlap(exactType(literal, literal.inferType(env)), type);
+    })
+  );
+  if (candidates.length === 0) {
+    throw new IntrearTypeError(
+      "TYPE_MISMATCH",
+      `An object pattern can never match a value of type ${typeToString(
+        unionOf(members)
+      )}`,
+      { node }
+    );
+  }
+  for (const [key, p] of entries) {
+    const type = unionOf(candidates.map((m) => propertyOf(m, key)!));
+    checkPattern(p, type, env, node);
   }
 }
 
-// ---------------------------------------------------
-// ForEachNode - Iterates through an array
-// ---------------------------------------------------
-export class ForEachNode extends ASTNode {
+// The values of a type with finitely many, for exhaustiveness checks.
+function finiteValues(t: Type): any[] | undefined {
+  t = expandType(t);
+  if (t === "boolean") return [true, false];
+  if (t === "null") return [null];
+  if (t === "undefined") return [undefined];
+  if (typeof t === "object" && t.kind === "literal") return [t.value];
+  if (typeof t === "object" && t.kind === "union") {
+    const values: any[] = [];
+    for (const member of t.types) {
+      const more = finiteValues(member);
+      if (!more) return undefined;
+      values.push(...more.filter((v) => !values.includes(v)));
+    }
+    return values;
+  }
+  return undefined;
+}
+
+// `match (value) { pattern [if guard] => result, ... }`. The first arm whose
+// pattern matches and whose guard holds is evaluated, in a child scope
+// holding the pattern's bindings; its last value is the match's value.
+export class MatchNode extends ASTNode {
+  constructor(public subject: ASTNode, public arms: MatchArm[]) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    const value = this.subject.execute(context);
+    for (const arm of this.arms) {
+      const scope = context.createChildContext();
+      if (!matchPattern(arm.pattern, value, scope)) continue;
+      if (arm.guard && !this.guardHolds(arm.guard.execute(scope), arm, scope)) {
+        continue;
+      }
+      let result;
+      for (const stmt of arm.body) {
+        result = stmt.execute(scope);
+      }
+      return result;
+    }
+    throw this.noMatchError(value, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const value = unboxed(await this.subject.executeAsync(context));
+    for (const arm of this.arms) {
+      const scope = context.createChildContext();
+      if (!matchPattern(arm.pattern, value, scope)) continue;
+      if (arm.guard) {
+        const holds = unboxed(await arm.guard.executeAsync(scope));
+        if (!this.guardHolds(holds, arm, scope)) continue;
+      }
+      return executeStatementsAsync(arm.body, scope);
+    }
+    throw this.noMatchError(value, context);
+  }
+
+  private guardHolds(value: any, arm: MatchArm, scope: ExecutionContext) {
+    if (typeof value !== "boolean") {
+      throw conditionError(arm.guard!, value, scope);
+    }
+    return value;
+  }
+
+  private noMatchError(value: any, context: ExecutionContext) {
+    let shown: string;
+    try {
+      shown = JSON.stringify(value) ?? String(value);
+    } catch {
+      shown = String(value);
+    }
+    return new IntrearRuntimeError(
+      "NO_MATCH",
+      `No match arm matched the value ${shown}`,
+      { node: this, context }
+    );
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const subjectType = this.subject.inferType(env);
+    let result: Type | undefined;
+    for (const arm of this.arms) {
+      const armEnv = env.createChild();
+      checkPattern(arm.pattern, subjectType, armEnv, this);
+      if (arm.guard) {
+        const guardType = arm.guard.inferType(armEnv);
+        if (!isAssignable(guardType, "boolean")) {
+          throw conditionTypeError(arm.guard, guardType);
+        }
+      }
+      const armType = inferStatements(arm.body, armEnv);
+      if (result === undefined) {
+        result = armType;
+      } else if (!compareTypes(result, armType)) {
+        result = "any";
+      }
+    }
+    this.checkExhaustive(subjectType, env);
+    return result ?? "void";
+  }
+
+  // Warns when some value of a finite subject type reaches no unguarded arm.
+  private checkExhaustive(subjectType: Type, env: TypeEnvironment) {
+    const values = finiteValues(subjectType);
+    if (!values || !env.warnings) return;
+    const missing = values.filter(
+      (v) =>
+        !this.arms.some((arm) => !arm.guard && matchPattern(arm.pattern, v))
+    );
+    if (missing.length === 0) return;
+    env.warnings.push(
+      new IntrearWarning(
+        "NON_EXHAUSTIVE_MATCH",
+        `Non-exhaustive match on ${typeToString(
+          subjectType
+        )}: no arm for ${missing
+          .map((v) => (typeof v === "string" ? JSON.stringify(v) : String(v)))
+          .join(", ")}`,
+        { node: this }
+      )
+    );
+  }
+}
+
+// ---------------------------------------------------
+// DoWhileNode - Do...while loop (guaranteed first execution)
+// ---------------------------------------------------
+export class DoWhileNode extends ASTNode {
+  constructor(public body: ASTNode[], public condition: ASTNode) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    let result;
+    do {
+      const childCtx = context.createChildContext();
+      try {
+        for (const stmt of this.body) {
+          result = stmt.execute(childCtx);
+        }
+      } catch (e) {
+        if (e instanceof ContinueSignal) {
+          continue;
+        }
+        if (e instanceof BreakSignal) {
+          break;
+        }
+
+        throw e;
+      }
+      if (childCtx.breakSignal) break;
+    } while (this.condition.execute(context));
+    return result;
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    let result;
+    do {
+      const childCtx = context.createChildContext();
+      try {
+        result = await executeStatementsAsync(this.body, childCtx);
+      } catch (e) {
+        if (e instanceof ContinueSignal) {
+          continue;
+        }
+        if (e instanceof BreakSignal) {
+          break;
+        }
+        throw e;
+      }
+    } while (unboxed(await this.condition.executeAsync(context)));
+    return result;
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const childEnv = env.createChild();
+    inferStatements(this.body, childEnv);
+    const condType = this.condition.inferType(env);
+    if (!isAssignable(condType, "boolean"))
+      throw conditionTypeError(this.condition, condType);
+    return "void";
+  }
+}
+
+// ---------------------------------------------------
+// ForEachNode - Iterates through an array
+// ---------------------------------------------------
+export class ForEachNode extends ASTNode {
   constructor(
     public itemName: string,
     public iterable: ASTNode,
@@ -1373,7 +3717,11 @@ export class ForEachNode extends ASTNode {
 
   execute(context: ExecutionContext): any {
     const array = this.iterable.execute(context);
-    if (!Array.isArray(array)) throw new Error("Target is not iterable");
+    if (!Array.isArray(array))
+      throw new IntrearRuntimeError("NOT_ITERABLE", "Target is not iterable", {
+        node: this.iterable,
+        context,
+      });
     let result;
     for (const item of array) {
       const loopCtx = context.createChildContext();
@@ -1396,14 +3744,49 @@ export class ForEachNode extends ASTNode {
     return result;
   }
 
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const array = unboxed(await this.iterable.executeAsync(context));
+    if (!Array.isArray(array))
+      throw new IntrearRuntimeError("NOT_ITERABLE", "Target is not iterable", {
+        node: this.iterable,
+        context,
+      });
+    let result;
+    for (const item of array) {
+      const loopCtx = context.createChildContext();
+      loopCtx.setVariable(this.itemName, item);
+      try {
+        result = await executeStatementsAsync(this.body, loopCtx);
+      } catch (e) {
+        if (e instanceof ContinueSignal) {
+          continue;
+        }
+        if (e instanceof BreakSignal) {
+          break;
+        }
+        throw e;
+      }
+    }
+    return result;
+  }
+
   inferType(env: TypeEnvironment): Type {
-    const iterableType = this.iterable.inferType(env);
-    if (typeof iterableType !== "object" || iterableType.kind !== "array") {
-      throw new Error("Target of ForEach must be an array");
+    const iterableType = expandType(this.iterable.inferType(env));
+    if (!isKind(iterableType, "array")) {
+      throw new IntrearTypeError(
+        "NOT_ITERABLE",
+        `Target of ForEach must be an array, got ${typeToString(iterableType)}`,
+        { node: this.iterable }
+      );
     }
     const childEnv = env.createChild();
-    childEnv.setType(this.itemName, iterableType.elementType);
-    for (const stmt of this.body) stmt.inferType(childEnv);
+    childEnv.setType(
+      this.itemName,
+      typeof iterableType === "object" && iterableType.kind === "array"
+        ? iterableType.elementType
+        : "any"
+    );
+    inferStatements(this.body, childEnv);
     return "void";
   }
 }
@@ -1432,7 +3815,8 @@ export class TryCatchNode extends ASTNode {
       if (
         err instanceof ReturnSignal ||
         err instanceof BreakSignal ||
-        err instanceof ContinueSignal
+        err instanceof ContinueSignal ||
+        err instanceof SandboxError
       ) {
         throw err;
       }
@@ -1447,16 +3831,662 @@ export class TryCatchNode extends ASTNode {
     }
   }
 
+  // A rejected `await` inside the try block surfaces here as a thrown error.
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    try {
+      return await executeStatementsAsync(
+        this.tryBlock,
+        context.createChildContext()
+      );
+    } catch (err) {
+      if (
+        err instanceof ReturnSignal ||
+        err instanceof BreakSignal ||
+        err instanceof ContinueSignal ||
+        err instanceof SandboxError
+      ) {
+        throw err;
+      }
+      const catchCtx = context.createChildContext();
+      catchCtx.setVariable(this.catchVar, err);
+      return executeStatementsAsync(this.catchBlock, catchCtx);
+    }
+  }
+
   inferType(env: TypeEnvironment): Type {
     const tryEnv = env.createChild();
     const catchEnv = env.createChild();
-    this.tryBlock.forEach((stmt) => stmt.inferType(tryEnv));
+    inferStatements(this.tryBlock, tryEnv);
     catchEnv.setType(this.catchVar, "any");
-    this.catchBlock.forEach((stmt) => stmt.inferType(catchEnv));
+    inferStatements(this.catchBlock, catchEnv);
     return "void";
   }
 }
 
+// ---------------------------------------------------
+// Classes - Declarations, `new`, `this` and `super`
+// ---------------------------------------------------
+export interface ClassField {
+  name: string;
+  type?: Type;
+  initializer?: ASTNode;
+  isStatic?: boolean;
+}
+
+export interface ClassMethod {
+  name: string;
+  fn: FunctionLiteralNode;
+  isStatic?: boolean;
+}
+
+// A class value is an object holding the static members, whose prototype is
+// the superclass value so that statics are inherited. Instances are created
+// from `prototype`, which holds the methods and chains to the superclass's.
+interface ClassInfo {
+  node: ClassDeclarationNode;
+  superClass: any; // the superclass value, or null
+  prototype: any;
+  context: ExecutionContext; // the declaring scope
+}
+
+// Kept beside the objects rather than on them, so printing a class or an
+// instance shows only its members. `instancePrototypes` is keyed by the
+// `prototype` instances are created from.
+const classValues = new WeakMap<object, ClassInfo>();
+const instancePrototypes = new WeakMap<object, ClassInfo>();
+
+function classInfo(value: any): ClassInfo | undefined {
+  const isObject = value !== null && typeof value === "object";
+  return isObject ? classValues.get(value) : undefined;
+}
+
+// The class of the nearest prototype `value` was created from.
+function instanceInfo(value: object): ClassInfo | undefined {
+  for (let at = value; at !== null; at = Object.getPrototypeOf(at)) {
+    const info = instancePrototypes.get(at);
+    if (info) return info;
+  }
+  return undefined;
+}
+
+// The name of the class `value` is, if it is a class value.
+export function classValueName(value: any): string | undefined {
+  return classInfo(value)?.node.name;
+}
+
+// Whether `value` is an instance of the named class or of a subclass.
+function isInstanceOf(value: any, className: string): boolean {
+  if (value === null || typeof value !== "object") return false;
+  let info = instanceInfo(value);
+  for (; info; info = classInfo(info.superClass)) {
+    if (info.node.name === className) return true;
+  }
+  return false;
+}
+
+// The name of the class `value` is an instance of, if any.
+export function instanceClassName(value: any): string | undefined {
+  if (value === null || typeof value !== "object") return undefined;
+  return instanceInfo(value)?.node.name;
+}
+
+// Methods, constructors and field initializers run in the declaring scope
+// plus `this` and the superclass, which SuperCallNode reads. Both names are
+// keywords, so they cannot clash with user variables.
+function memberScope(info: ClassInfo, self: any): ExecutionContext {
+  const scope = info.context.createChildContext();
+  scope.setVariable("this", self);
+  scope.setVariable("super", info.superClass);
+  return scope;
+}
+
+function methodOf(info: ClassInfo, fn: FunctionLiteralNode) {
+  return function (this: any, ...args: any[]) {
+    return fn.toFunction(memberScope(info, this))(...args);
+  };
+}
+
+// Fields are initialized base class first, before any constructor runs.
+function initFields(info: ClassInfo, self: any) {
+  if (info.superClass) initFields(classInfo(info.superClass)!, self);
+  const scope = memberScope(info, self);
+  for (const field of info.node.fields) {
+    if (!field.isStatic) self[field.name] = field.initializer?.execute(scope);
+  }
+}
+
+// Runs the nearest constructor up the chain. A constructor that does not
+// call `super(...)` skips the superclass's.
+function runConstructor(
+  info: ClassInfo,
+  self: any,
+  args: any[],
+  node: ASTNode,
+  context: ExecutionContext
+) {
+  const ctor = info.node.constructorFn;
+  if (ctor) {
+    ctor.toFunction(memberScope(info, self))(...args);
+  } else if (info.superClass) {
+    runConstructor(classInfo(info.superClass)!, self, args, node, context);
+  } else if (args.length > 0) {
+    throw new IntrearRuntimeError(
+      "ARGUMENT_COUNT",
+      `Argument count mismatch: ${info.node.name} has no constructor, got ${
+        args.length
+      } arguments`,
+      { node, context }
+    );
+  }
+}
+
+function outsideClassError(
+  node: ASTNode,
+  message: string,
+  context?: ExecutionContext
+) {
+  return context
+    ? new IntrearRuntimeError("OUTSIDE_CLASS", message, { node, context })
+    : new IntrearTypeError("OUTSIDE_CLASS", message, { node });
+}
+
+// The declared signature of a method, before its body is checked.
+function signatureOf(
+  fn: FunctionLiteralNode,
+  env: TypeEnvironment
+): Extract<Type, { kind: "function" }> {
+  const paramTypes = fn.params.map((_, i) =>
+    resolveType(fn.declaredParamTypes?.[i] ?? "any", env, fn)
+  );
+  const returnType: Type = fn.declaredReturnType
+    ? resolveType(fn.declaredReturnType, env, fn)
+    : fn.isAsync
+    ? { kind: "promise", of: "any" }
+    : "any";
+  return { kind: "function", paramTypes, returnType };
+}
+
+// Rejects member access on a union that may be null or undefined, such as
+// `string | null` outside an `x !== null` check.
+function checkNotNullish(t: Type, action: string, node: ASTNode) {
+  const members = membersOf(t);
+  if (members.length < 2) return;
+  if (members.some((m) => m === "null" || m === "undefined")) {
+    throw new IntrearTypeError(
+      "NULL_ACCESS",
+      `Cannot ${action} a value of type ${typeToString(t)}`,
+      { node }
+    );
+  }
+}
+
+// Looks up a member on a class instance or class value type. Returns
+// undefined when `t` is neither, so callers can fall back to other shapes.
+function classMember(
+  t: Type,
+  name: string,
+  env: TypeEnvironment,
+  node: ASTNode
+): Type | undefined {
+  t = expandType(t);
+  if (typeof t !== "object") return undefined;
+  let members: Record<string, Type>;
+  if (t.kind === "class") {
+    members = t.statics;
+  } else if (t.kind === "instance") {
+    const cls = env.hasType(t.className) ? env.getType(t.className) : "any";
+    // The class may be out of scope, e.g. for an instance made in a module
+    // that only exported a factory function.
+    if (typeof cls !== "object" || cls.kind !== "class") return "any";
+    members = cls.members;
+  } else {
+    return undefined;
+  }
+  return memberOf(members, name, typeToString(t), node);
+}
+
+function memberOf(
+  members: Record<string, Type>,
+  name: string,
+  owner: string,
+  node: ASTNode
+): Type {
+  const member = members[name];
+  if (member === undefined) {
+    throw new IntrearTypeError(
+      "UNKNOWN_MEMBER",
+      `Property '${name}' does not exist on ${owner}`,
+      { node }
+    );
+  }
+  return member;
+}
+
+function checkMemberCall(
+  member: Type,
+  name: string,
+  args: ASTNode[],
+  env: TypeEnvironment,
+  node: ASTNode
+): Type {
+  member = expandType(member);
+  if (member === "any") {
+    args.forEach((arg) => arg.inferType(env));
+    return "any";
+  }
+  if (typeof member === "object" && member.kind === "function") {
+    return checkCall(member, name, args, env, node);
+  }
+  throw new IntrearTypeError("NOT_CALLABLE", `'${name}' is not a method`, {
+    node,
+  });
+}
+
+// The field `stmt` assigns when it is `this.name = value`.
+function assignedField(stmt: ASTNode): string | undefined {
+  if (!(stmt instanceof PointerAssignmentNode)) return undefined;
+  const ref = stmt.ptrExpr;
+  if (!(ref instanceof AddressOfNode)) return undefined;
+  const target = ref.target;
+  const isThisField =
+    target instanceof PropertyAccessNode &&
+    target.object instanceof ThisNode &&
+    typeof target.property === "string";
+  return isThisField ? (target.property as string) : undefined;
+}
+
+// `class Name extends Base { fields; constructor(...) {...} methods }`
+export class ClassDeclarationNode extends ASTNode {
+  constructor(
+    public name: string,
+    public superClass: string | null,
+    public fields: ClassField[],
+    public methods: ClassMethod[],
+    public constructorFn?: FunctionLiteralNode
+  ) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    let superClass: any = null;
+    if (this.superClass !== null) {
+      superClass = context.getVariable(this.superClass);
+      if (!classInfo(superClass)) {
+        throw new IntrearRuntimeError(
+          "NOT_A_CLASS",
+          `'${this.superClass}' is not a class`,
+          { node: this, context }
+        );
+      }
+    }
+    const value = Object.create(superClass ?? Object.prototype);
+    const prototype = Object.create(
+      classInfo(superClass)?.prototype ?? Object.prototype
+    );
+    const info: ClassInfo = { node: this, superClass, prototype, context };
+    classValues.set(value, info);
+    instancePrototypes.set(prototype, info);
+    for (const method of this.methods) {
+      const holder = method.isStatic ? value : prototype;
+      holder[method.name] = methodOf(info, method.fn);
+    }
+    // Bound before static initializers run so they can use the class.
+    context.setVariable(this.name, value);
+    const scope = memberScope(info, value);
+    for (const field of this.fields) {
+      if (field.isStatic) value[field.name] = field.initializer?.execute(scope);
+    }
+    return value;
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    let superType: ClassType | undefined;
+    if (this.superClass !== null) {
+      const t = env.getType(this.superClass, this);
+      if (typeof t !== "object" || t.kind !== "class") {
+        throw new IntrearTypeError(
+          "NOT_A_CLASS",
+          `'${this.superClass}' is not a class`,
+          { node: this }
+        );
+      }
+      superType = t;
+    }
+    const classType: ClassType = {
+      kind: "class",
+      name: this.name,
+      ancestors: superType ? [superType.name, ...superType.ancestors] : [],
+      members: { ...superType?.members },
+      statics: { ...superType?.statics },
+      constructorParams: superType?.constructorParams ?? [],
+    };
+    // Registered first so annotations and bodies can refer to the class.
+    env.setType(this.name, classType);
+    const instanceEnv = env.createChild();
+    instanceEnv.setType("this", {
+      kind: "instance",
+      className: this.name,
+      ancestors: classType.ancestors,
+    });
+    const staticEnv = env.createChild();
+    staticEnv.setType("this", classType);
+    if (superType) {
+      instanceEnv.setType("super", superType);
+      staticEnv.setType("super", superType);
+    }
+
+    // Declared signatures first, so that bodies can use any member.
+    for (const field of this.fields) {
+      const type = field.type ? resolveType(field.type, env, this) : "any";
+      this.addMember(classType, superType, field.name, type, field.isStatic);
+    }
+    for (const { name, fn, isStatic } of this.methods) {
+      const type = signatureOf(fn, env);
+      this.addMember(classType, superType, name, type, isStatic);
+    }
+    if (this.constructorFn) {
+      classType.constructorParams = signatureOf(
+        this.constructorFn,
+        env
+      ).paramTypes;
+    }
+
+    for (const field of this.fields) {
+      if (!field.initializer) continue;
+      const type = field.initializer.inferType(
+        field.isStatic ? staticEnv : instanceEnv
+      );
+      const members = field.isStatic ? classType.statics : classType.members;
+      if (!field.type) {
+        this.addMember(classType, superType, field.name, type, field.isStatic);
+      } else if (!canAssign(field.initializer, type, members[field.name]!)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Type mismatch in field '${field.name}': expected ${typeToString(
+            members[field.name]!
+          )}, got ${typeToString(type)}`,
+          { node: field.initializer }
+        );
+      }
+    }
+    this.addConstructorFields(classType, superType, instanceEnv);
+    for (const { name, fn, isStatic } of this.methods) {
+      const type = fn.inferType(isStatic ? staticEnv : instanceEnv);
+      if (!fn.declaredReturnType) {
+        this.addMember(classType, superType, name, type, isStatic);
+      }
+    }
+    this.constructorFn?.inferType(instanceEnv);
+    return classType;
+  }
+
+  // Fields the constructor assigns without declaring, such as `this.y = y`,
+  // typed by the assigned value. Only top-level statements of the body
+  // count. Errors are left for the check of the whole body, which runs once
+  // these fields exist.
+  private addConstructorFields(
+    classType: ClassType,
+    superType: ClassType | undefined,
+    instanceEnv: TypeEnvironment
+  ) {
+    const fn = this.constructorFn;
+    if (!fn) return;
+    const localEnv = instanceEnv.createChild();
+    localEnv.errors = undefined;
+    localEnv.warnings = undefined;
+    localEnv.returns = { types: [] };
+    const { paramTypes } = signatureOf(fn, instanceEnv);
+    fn.params.forEach((p, i) => localEnv.setType(p, paramTypes[i]!));
+    try {
+      for (const stmt of fn.body) {
+        const name = assignedField(stmt);
+        if (name === undefined || Object.hasOwn(classType.members, name)) {
+          stmt.inferType(localEnv);
+          continue;
+        }
+        const type = (stmt as PointerAssignmentNode).valueExpr.inferType(
+          localEnv
+        );
+        this.addMember(classType, superType, name, type, false);
+      }
+    } catch (e) {
+      const isTypeError =
+        e instanceof IntrearTypeError || e instanceof IntrearReferenceError;
+      if (!isTypeError) throw e;
+    }
+  }
+
+  // Records a member's type; overrides must be compatible with the
+  // inherited member.
+  private addMember(
+    classType: ClassType,
+    superType: ClassType | undefined,
+    name: string,
+    type: Type,
+    isStatic?: boolean
+  ) {
+    const inherited = isStatic
+      ? superType?.statics[name]
+      : superType?.members[name];
+    if (inherited !== undefined && !isAssignable(type, inherited)) {
+      throw new IntrearTypeError(
+        "INVALID_OVERRIDE",
+        `'${this.name}.${name}' has type ${typeToString(
+          type
+        )}, incompatible with inherited ${typeToString(inherited)}`,
+        { node: this }
+      );
+    }
+    (isStatic ? classType.statics : classType.members)[name] = type;
+  }
+}
+
+// `new Name(args)`: initializes fields, then runs the constructor.
+export class NewNode extends ASTNode {
+  constructor(public className: string, public args: ASTNode[]) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    const cls = this.classValue(context);
+    const args = this.args.map((arg) => arg.execute(context));
+    return this.instantiate(cls, args, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const cls = this.classValue(context);
+    const args: any[] = [];
+    for (const arg of this.args) {
+      args.push(unboxed(await arg.executeAsync(context)));
+    }
+    return boxed(this.instantiate(cls, args, context));
+  }
+
+  private classValue(context: ExecutionContext): any {
+    const value = context.getVariable(this.className);
+    if (!classInfo(value)) {
+      throw new IntrearRuntimeError(
+        "NOT_A_CLASS",
+        `'${this.className}' is not a class`,
+        { node: this, context }
+      );
+    }
+    return value;
+  }
+
+  private instantiate(cls: any, args: any[], context: ExecutionContext) {
+    const info = classInfo(cls)!;
+    const self = Object.create(info.prototype);
+    context.callStack.push({ name: `new ${this.className}`, span: this.span });
+    try {
+      initFields(info, self);
+      runConstructor(info, self, args, this, context);
+    } finally {
+      context.callStack.pop();
+    }
+    return self;
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const t = env.getType(this.className, this);
+    if (t === "any") {
+      this.args.forEach((arg) => arg.inferType(env));
+      return "any";
+    }
+    if (typeof t !== "object" || t.kind !== "class") {
+      throw new IntrearTypeError(
+        "NOT_A_CLASS",
+        `'${this.className}' is not a class`,
+        { node: this }
+      );
+    }
+    const ctorType: Type = {
+      kind: "function",
+      paramTypes: t.constructorParams,
+      returnType: {
+        kind: "instance",
+        className: t.name,
+        ancestors: t.ancestors,
+      },
+    };
+    return checkCall(ctorType, this.className, this.args, env, this);
+  }
+}
+
+// `this`: the instance in methods and constructors, the class in statics.
+export class ThisNode extends ASTNode {
+  execute(context: ExecutionContext): any {
+    if (!context.hasVariable("this")) {
+      throw outsideClassError(
+        this,
+        "'this' is only valid inside a class",
+        context
+      );
+    }
+    return context.getVariable("this");
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    if (!env.hasType("this")) {
+      throw outsideClassError(this, "'this' is only valid inside a class");
+    }
+    return env.getType("this");
+  }
+}
+
+// `super(args)` runs the superclass constructor on `this`;
+// `super.name(args)` calls the superclass's version of a method.
+export class SuperCallNode extends ASTNode {
+  constructor(public methodName: string | null, public args: ASTNode[]) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    const args = this.args.map((arg) => arg.execute(context));
+    return this.call(args, context);
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    const args: any[] = [];
+    for (const arg of this.args) {
+      args.push(unboxed(await arg.executeAsync(context)));
+    }
+    return boxed(this.call(args, context));
+  }
+
+  private call(args: any[], context: ExecutionContext): any {
+    const superClass = context.hasVariable("super")
+      ? context.getVariable("super")
+      : null;
+    if (!superClass) {
+      throw outsideClassError(
+        this,
+        "'super' is only valid in a subclass",
+        context
+      );
+    }
+    const self = context.getVariable("this");
+    const info = classInfo(superClass)!;
+    const name = this.methodName ?? "constructor";
+    context.callStack.push({ name: `super.${name}`, span: this.span });
+    try {
+      if (this.methodName === null) {
+        runConstructor(info, self, args, this, context);
+        return undefined;
+      }
+      // Static methods live on the class value, instance methods on the
+      // prototype.
+      const holder = classInfo(self) ? superClass : info.prototype;
+      const fn = holder[this.methodName];
+      if (typeof fn !== "function") {
+        throw new IntrearRuntimeError(
+          "UNKNOWN_METHOD",
+          `'${this.methodName}' is not a method of ${info.node.name}`,
+          { node: this, context }
+        );
+      }
+      return fn.apply(self, args);
+    } finally {
+      context.callStack.pop();
+    }
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    if (!env.hasType("super")) {
+      throw outsideClassError(this, "'super' is only valid in a subclass");
+    }
+    const superType = env.getType("super") as ClassType;
+    const self = env.getType("this");
+    const isStatic = typeof self === "object" && self.kind === "class";
+    if (this.methodName === null) {
+      if (isStatic) {
+        throw outsideClassError(
+          this,
+          "'super(...)' is not valid in a static method"
+        );
+      }
+      const ctorType: Type = {
+        kind: "function",
+        paramTypes: superType.constructorParams,
+        returnType: "void",
+      };
+      return checkCall(ctorType, "super", this.args, env, this);
+    }
+    const owner = isStatic ? `class ${superType.name}` : superType.name;
+    const members = isStatic ? superType.statics : superType.members;
+    const member = memberOf(members, this.methodName, owner, this);
+    return checkMemberCall(member, this.methodName, this.args, env, this);
+  }
+}
+
+// ---------------------------------------------------
+// AwaitNode - Waits for a promise inside an async function
+// ---------------------------------------------------
+export class AwaitNode extends ASTNode {
+  constructor(public expression: ASTNode) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    throw new IntrearRuntimeError(
+      "AWAIT_OUTSIDE_ASYNC",
+      "'await' is only valid in async functions and executeAsync()",
+      { node: this, context }
+    );
+  }
+
+  // Returning the promise from an async method awaits it; awaiting a plain
+  // value yields it unchanged, as in JavaScript.
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    return unboxed(await this.expression.executeAsync(context));
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    const t = expandType(this.expression.inferType(env));
+    return typeof t === "object" && t.kind === "promise" ? t.of : t;
+  }
+}
+
 // ---------------------------------------------------
 // Pointer Feature
 // ---------------------------------------------------
@@ -1469,7 +4499,11 @@ export class AddressOfNode extends ASTNode {
     if (typeof (this.target as any).toReference === "function") {
       return (this.target as any).toReference(ctx);
     }
-    throw new Error(`Cannot take address of non‐lvalue: ${this.target}`);
+    throw new IntrearRuntimeError(
+      "NOT_ADDRESSABLE",
+      `Cannot take address of non‐lvalue: ${this.target.constructor.name}`,
+      { node: this, context: ctx }
+    );
   }
   inferType(env: TypeEnvironment): Type {
     const t = this.target.inferType(env);
@@ -1482,20 +4516,34 @@ export class DereferenceNode extends ASTNode {
   }
 
   execute(ctx: ExecutionContext): any {
-    const ptr = this.ptrExpr.execute(ctx);
+    return this.load(this.ptrExpr.execute(ctx), ctx);
+  }
+
+  async executeAsync(ctx: ExecutionContext): Promise<any> {
+    return boxed(this.load(unboxed(await this.ptrExpr.executeAsync(ctx)), ctx));
+  }
+
+  private load(ptr: any, ctx: ExecutionContext): any {
     if (!ptr?.__isPtr) {
-      throw new Error(`Cannot dereference non‐pointer: ${ptr}`);
+      throw new IntrearRuntimeError(
+        "NOT_A_POINTER",
+        `Cannot dereference non‐pointer: ${ptr}`,
+        { node: this, context: ctx }
+      );
     }
-    return ptr.ctx.getVariable(ptr.name);
+    return ptr.get();
   }
 
   inferType(env: TypeEnvironment): Type {
-    const ptrType = this.ptrExpr.inferType(env);
+    const ptrType = expandType(this.ptrExpr.inferType(env));
+    if (ptrType === "any") return "any";
     if (typeof ptrType === "object" && ptrType.kind === "pointer") {
       return ptrType.to;
     }
-    throw new Error(
-      `Type error: tried to dereference non‐pointer ${typeToString(ptrType)}`
+    throw new IntrearTypeError(
+      "NOT_A_POINTER",
+      `Type error: tried to dereference non‐pointer ${typeToString(ptrType)}`,
+      { node: this }
     );
   }
 }
@@ -1503,42 +4551,492 @@ export class DereferenceNode extends ASTNode {
 export class PointerAssignmentNode extends ASTNode {
   constructor(public ptrExpr: ASTNode, public valueExpr: ASTNode) { super(); }
   execute(ctx: ExecutionContext) {
-    const ref = this.ptrExpr.execute(ctx);
-    if (!ref.__isPtr) throw new Error(`Not a pointer`);
+    const ref = this.checkPointer(this.ptrExpr.execute(ctx), ctx);
     const val = this.valueExpr.execute(ctx);
     ref.set(val);
     return val;
   }
+  async executeAsync(ctx: ExecutionContext): Promise<any> {
+    const target = unboxed(await this.ptrExpr.executeAsync(ctx));
+    const ref = this.checkPointer(target, ctx);
+    const val = unboxed(await this.valueExpr.executeAsync(ctx));
+    ref.set(val);
+    return boxed(val);
+  }
+  private checkPointer(ref: any, ctx: ExecutionContext) {
+    if (!ref?.__isPtr)
+      throw new IntrearRuntimeError("NOT_A_POINTER", `Not a pointer`, {
+        node: this.ptrExpr,
+        context: ctx,
+      });
+    return ref;
+  }
   inferType(env: TypeEnvironment) {
-    const ptrT = this.ptrExpr.inferType(env);
+    const ptrT = expandType(this.ptrExpr.inferType(env));
+    if (ptrT === "any") return this.valueExpr.inferType(env);
     if (typeof ptrT==="object" && ptrT.kind==="pointer") {
       const vT = this.valueExpr.inferType(env);
-      if (!compareTypes(ptrT.to, vT)) {
-        throw new Error(`Type mismatch in pointer assignment`);
+      if (!canAssign(this.valueExpr, vT, ptrT.to)) {
+        throw new IntrearTypeError(
+          "TYPE_MISMATCH",
+          `Type mismatch in pointer assignment: expected ${typeToString(
+            ptrT.to
+          )}, got ${typeToString(vT)}`,
+          { node: this }
+        );
       }
       return vT;
     }
-    throw new Error(`Not pointer type`);
+    throw new IntrearTypeError(
+      "NOT_A_POINTER",
+      `Not pointer type: ${typeToString(ptrT)}`,
+      { node: this.ptrExpr }
+    );
   }
 }
 
+// ---------------------------------------------------
+// Modules - import/export declarations
+// ---------------------------------------------------
+export interface ImportBinding {
+  name: string; // exported name
+  as?: string; // local name, defaults to `name`
+}
+
+// `import { a, b as c } from "mod"`, or `import * as ns from "mod"` when
+// `namespace` is given.
+export class ImportNode extends ASTNode {
+  constructor(
+    public specifier: string,
+    public bindings: ImportBinding[],
+    public namespace?: string
+  ) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    if (!context.modules) throw noRegistryError(this, context);
+    const exports = context.modules.load(
+      this.specifier,
+      context.moduleId,
+      this,
+      context
+    );
+    this.checkBindings(exports, context);
+    if (this.namespace) context.setVariable(this.namespace, { ...exports });
+    for (const { name, as } of this.bindings) {
+      context.setVariable(as ?? name, exports[name]);
+    }
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    if (!env.modules) throw noRegistryError(this);
+    const types = env.modules.loadTypes(this.specifier, env.moduleId, this, {
+      errors: env.errors,
+    });
+    this.checkBindings(types);
+    if (this.namespace) {
+      env.setType(this.namespace, { kind: "object", properties: types });
+    }
+    for (const { name, as } of this.bindings) {
+      env.setType(as ?? name, types[name]!);
+    }
+    return "void";
+  }
+
+  private checkBindings(exports: object, context?: ExecutionContext) {
+    for (const { name } of this.bindings) {
+      if (!(name in exports)) {
+        throw new IntrearReferenceError(
+          "UNKNOWN_EXPORT",
+          `Module '${this.specifier}' has no export named '${name}'`,
+          { node: this, context }
+        );
+      }
+    }
+  }
+}
+
+// `export let x = ...` / `export function f() {}` / `export class C {}` at a
+// module's top level.
+export class ExportNode extends ASTNode {
+  constructor(
+    public declaration: VariableDeclarationNode | ClassDeclarationNode
+  ) {
+    super();
+  }
+
+  execute(context: ExecutionContext): any {
+    if (!context.exportedNames) throw nestedExportError(this, context);
+    const value = this.declaration.execute(context);
+    context.exportedNames.push(this.declaration.name);
+    return value;
+  }
+
+  async executeAsync(context: ExecutionContext): Promise<any> {
+    if (!context.exportedNames) throw nestedExportError(this, context);
+    const value = await this.declaration.executeAsync(context);
+    context.exportedNames.push(this.declaration.name);
+    return value;
+  }
+
+  inferType(env: TypeEnvironment): Type {
+    if (!env.exportedNames) throw nestedExportError(this);
+    const type = this.declaration.inferType(env);
+    env.exportedNames.push(this.declaration.name);
+    return type;
+  }
+}
+
+function noRegistryError(node: ASTNode, context?: ExecutionContext) {
+  return new IntrearReferenceError(
+    "MODULE_NOT_FOUND",
+    `Cannot import '${
+      (node as ImportNode).specifier
+    }': no module registry configured`,
+    { node, context }
+  );
+}
+
+function nestedExportError(node: ASTNode, context?: ExecutionContext) {
+  const message = "'export' is only allowed at the top level of a module";
+  return context
+    ? new IntrearRuntimeError("INVALID_EXPORT", message, { node, context })
+    : new IntrearTypeError("INVALID_EXPORT", message, { node });
+}
+
+// ---------------------------------------------------
+// ModuleRegistry - Resolves, evaluates and caches modules
+// ---------------------------------------------------
+
+// Maps an import specifier to a module. Resolvers are asked in order and
+// return undefined for specifiers they do not handle.
+export interface ModuleResolver {
+  // Returns the canonical id of the module, relative to the importing
+  // module's id when there is one.
+  resolve(specifier: string, importer?: string): string | undefined;
+  load(id: string): ASTNode[];
+}
+
+// Serves modules from an in-memory map of name to program.
+export class MemoryResolver implements ModuleResolver {
+  constructor(public modules: Record<string, ASTNode[]> = {}) {}
+
+  public set(name: string, nodes: ASTNode[]) {
+    this.modules[name] = nodes;
+  }
+
+  resolve(specifier: string): string | undefined {
+    // Own keys only: "toString" is not a module.
+    return Object.hasOwn(this.modules, specifier) ? specifier : undefined;
+  }
+
+  load(id: string): ASTNode[] {
+    return this.modules[id]!;
+  }
+}
+
+export interface ModuleRecord {
+  id: string;
+  nodes: ASTNode[];
+  // Set once the body has run; it never runs again.
+  context?: ExecutionContext;
+  exports?: Record<string, any>;
+  // Set once the module has been type-checked.
+  exportTypes?: Record<string, Type>;
+}
+
+export class ModuleRegistry {
+  public records = new Map<string, ModuleRecord>();
+  // The modules each sandboxed run has evaluated; see instanceFor().
+  private sandboxed = new WeakMap<Sandbox, Map<string, ModuleRecord>>();
+  // Ids of the modules currently being evaluated / checked, outermost
+  // first, used to report import cycles.
+  private evaluating: string[] = [];
+  private checking: string[] = [];
+
+  constructor(public resolvers: ModuleResolver[] = []) {}
+
+  public addResolver(resolver: ModuleResolver) {
+    this.resolvers.push(resolver);
+  }
+
+  public resolve(
+    specifier: string,
+    importer?: string,
+    node?: ASTNode,
+    context?: ExecutionContext
+  ): ModuleRecord {
+    for (const resolver of this.resolvers) {
+      const id = resolver.resolve(specifier, importer);
+      if (id === undefined) continue;
+      let record = this.records.get(id);
+      if (!record) {
+        record = { id, nodes: resolver.load(id) };
+        this.records.set(id, record);
+      }
+      return record;
+    }
+    throw new IntrearReferenceError(
+      "MODULE_NOT_FOUND",
+      `Cannot find module '${specifier}'${
+        importer ? ` imported from '${importer}'` : ""
+      }`,
+      { node, context }
+    );
+  }
+
+  // Runs the module on first use and returns its exported values.
+  public load(
+    specifier: string,
+    importer?: string,
+    node?: ASTNode,
+    context?: ExecutionContext
+  ): Record<string, any> {
+    const record = this.instanceFor(
+      this.resolve(specifier, importer, node, context),
+      context?.sandbox
+    );
+    if (record.exports) return record.exports;
+    if (this.evaluating.includes(record.id)) {
+      throw new IntrearRuntimeError(
+        "CIRCULAR_IMPORT",
+        `Circular import: ${cycle(this.evaluating, record.id)}`,
+        { node, context }
+      );
+    }
+    const moduleContext = new ExecutionContext(undefined, context?.sandbox);
+    moduleContext.sandbox?.attach(record.nodes);
+    moduleContext.modules = this;
+    moduleContext.moduleId = record.id;
+    moduleContext.jit = context?.jit;
+    moduleContext.fs = context?.fs;
+    moduleContext.exportedNames = [];
+    this.evaluate(record.id, () => {
+      for (const stmt of record.nodes) {
+        stmt.execute(moduleContext);
+      }
+    });
+    record.context = moduleContext;
+    record.exports = Object.fromEntries(
+      moduleContext.exportedNames.map((name) => [
+        name,
+        moduleContext.getVariable(name),
+      ])
+    );
+    return record.exports;
+  }
+
+  // A module evaluated in a sandbox is bound to it: its functions run under
+  // that sandbox's limits, and its exports reflect its capabilities. So each
+  // sandbox evaluates the modules it imports once for itself, while runs
+  // outside of one share `record`.
+  private instanceFor(record: ModuleRecord, sandbox?: Sandbox): ModuleRecord {
+    if (!sandbox) return record;
+    let records = this.sandboxed.get(sandbox);
+    if (!records) this.sandboxed.set(sandbox, (records = new Map()));
+    let instance = records.get(record.id);
+    if (!instance) {
+      instance = { id: record.id, nodes: record.nodes };
+      records.set(record.id, instance);
+    }
+    return instance;
+  }
+
+  // Type-checks the module on first use and returns its exported types.
+  // With `errors`, the module's own type errors are collected there.
+  public loadTypes(
+    specifier: string,
+    importer?: string,
+    node?: ASTNode,
+    options: { errors?: IntrearError[] } = {}
+  ): Record<string, Type> {
+    const record = this.resolve(specifier, importer, node);
+    if (record.exportTypes) return record.exportTypes;
+    if (this.checking.includes(record.id)) {
+      throw new IntrearTypeError(
+        "CIRCULAR_IMPORT",
+        `Circular import: ${cycle(this.checking, record.id)}`,
+        { node }
+      );
+    }
+    const env = this.createEnvironment(record.id);
+    env.errors = options.errors;
+    this.checking.push(record.id);
+    try {
+      inferStatements(record.nodes, env);
+    } finally {
+      this.checking.pop();
+    }
+    record.exportTypes = Object.fromEntries(
+      env.exportedNames!.map((name) => [name, env.getType(name)])
+    );
+    return record.exportTypes;
+  }
+
+  // Marks `id` as evaluating while `run` (sync or async) is in progress,
+  // so that a module importing it back is reported as a cycle. The
+  // Interpreter wraps the entry program in this too.
+  public evaluate<T>(id: string, run: () => T): T {
+    this.evaluating.push(id);
+    let result: T;
+    try {
+      result = run();
+    } catch (e) {
+      this.evaluating.pop();
+      throw e;
+    }
+    if (result instanceof Promise) {
+      return result.finally(() => this.evaluating.pop()) as T;
+    }
+    this.evaluating.pop();
+    return result;
+  }
+
+  public createEnvironment(moduleId?: string): TypeEnvironment {
+    const env = createBuiltInTypeEnvironment();
+    env.modules = this;
+    env.moduleId = moduleId;
+    env.exportedNames = [];
+    return env;
+  }
+}
+
+function cycle(stack: string[], id: string): string {
+  return [...stack.slice(stack.indexOf(id)), id].join(" -> ");
+}
+
 // ---------------------------------------------------
 // Interpreter - Executes an array of AST nodes
 // ---------------------------------------------------
+export interface InterpreterOptions {
+  // Type-check the whole program before running it and refuse to run it
+  // if any error is found.
+  typecheck?: boolean;
+  // Where `import` declarations are resolved; without one they fail.
+  modules?: ModuleRegistry;
+  // Id of the program itself, used to resolve its relative imports.
+  moduleId?: string;
+  // "tree" walks the AST; "vm" compiles it to bytecode first and runs that
+  // on the stack VM (see ./bytecode). Both behave the same.
+  backend?: "tree" | "vm";
+  // Compiles hot functions of the tree-walker (see ./jit).
+  jit?: Jit;
+  // Rewrites the program before it runs, after any typecheck so errors
+  // point at the code as written (see ./optimizer).
+  optimizer?: Optimizer;
+  // Runs the program under limits on steps, call depth, time and sizes,
+  // with only the built-ins its capabilities allow (see ./sandbox). The
+  // tree-walker is then used whatever the backend and JIT options say.
+  sandbox?: SandboxOptions;
+  // The files `readFile` and the other file built-ins see (see ./vfs).
+  fs?: VirtualFileSystem;
+}
+
 export class Interpreter {
   public nodes: ASTNode[];
+  public options: InterpreterOptions;
+  // Warnings from the last typecheck(); they do not stop execution.
+  public warnings: IntrearWarning[] = [];
 
-  constructor(Nodes: any[]) {
+  constructor(Nodes: any[], options: InterpreterOptions = {}) {
     this.nodes = Nodes;
+    this.options = options;
+  }
+
+  // Checks the program against the built-in signatures and returns every
+  // type error found, without executing anything.
+  public typecheck(): IntrearError[] {
+    const env = this.options.modules
+      ? this.options.modules.createEnvironment(this.options.moduleId)
+      : createBuiltInTypeEnvironment();
+    env.exportedNames = [];
+    env.errors = [];
+    env.warnings = this.warnings = [];
+    inferStatements(this.nodes, env);
+    return env.errors;
   }
 
   public execute(): ExecutionContext {
-    const context = new ExecutionContext();
-    this.nodes.forEach((node) => {
-      node.execute(context);
+    this.checkTypes();
+    const nodes = this.program();
+    const context = this.createContext(nodes);
+    this.asModule(() => {
+      if (this.options.backend === "vm" && !context.sandbox) {
+        new VM(context).run(compile(nodes));
+        return;
+      }
+      nodes.forEach((node) => {
+        node.execute(context);
+      });
+    });
+    return context;
+  }
+
+  // Like execute(), but top-level `await` is allowed and the returned
+  // promise settles once every awaited value has.
+  public async executeAsync(): Promise<ExecutionContext> {
+    this.checkTypes();
+    const nodes = this.program();
+    const context = this.createContext(nodes);
+    const run = this.asModule(async () => {
+      if (this.options.backend === "vm" && !context.sandbox) {
+        await new VM(context).runAsync(compile(nodes));
+        return;
+      }
+      for (const node of nodes) {
+        await node.executeAsync(context);
+      }
     });
+    await (context.sandbox ? withDeadline(run, context.sandbox) : run);
     return context;
   }
+
+  private createContext(nodes: ASTNode[]): ExecutionContext {
+    const { sandbox } = this.options;
+    const context = new ExecutionContext(
+      undefined,
+      sandbox && new Sandbox(sandbox)
+    );
+    context.modules = this.options.modules;
+    context.moduleId = this.options.moduleId;
+    context.jit = sandbox ? undefined : this.options.jit;
+    context.fs = this.options.fs;
+    context.exportedNames = [];
+    context.sandbox?.attach(nodes);
+    return context;
+  }
+
+  private asModule<T>(run: () => T): T {
+    const { modules, moduleId } = this.options;
+    return modules && moduleId !== undefined
+      ? modules.evaluate(moduleId, run)
+      : run();
+  }
+
+  // The nodes to run: optimized, when an optimizer is configured.
+  private program(): ASTNode[] {
+    const { optimizer } = this.options;
+    return optimizer ? optimizer.optimize(this.nodes) : this.nodes;
+  }
+
+  private checkTypes() {
+    if (!this.options.typecheck) return;
+    const errors = this.typecheck();
+    if (errors.length > 0) throw new TypeCheckError(errors);
+  }
+}
+
+// Rejects once the sandbox times out, even while the program awaits a
+// promise that never settles.
+function withDeadline<T>(run: Promise<T>, sandbox: Sandbox): Promise<T> {
+  if (sandbox.deadline === undefined) return run;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    const delay = Math.max(0, sandbox.deadline! - Date.now());
+    timer = setTimeout(() => reject(sandbox.timedOut()), delay);
+  });
+  return Promise.race([run, timeout]).finally(() => clearTimeout(timer));
 }
 
 export const App = (
@@ -0,0 +1,975 @@
+// ========================================
+// Intrear JIT
+// ========================================
+//
+// Hot-path compilation for the tree-walker. With a `Jit` in the
+// interpreter options, every function made by `FunctionLiteralNode` or
+// `ArrowFunctionNode` counts its calls, and once it has been called more
+// than `threshold` times its body is compiled into nested JavaScript
+// closures: a compiled call keeps its variables in slots and no longer
+// dispatches on nodes or walks a chain of ExecutionContexts.
+//
+//   const jit = new Jit({ threshold: 50 });
+//   new Interpreter(nodes, { jit }).execute();
+//   console.table(jit.profiles());
+//
+// The closures are specialised to the argument types seen while the
+// function was profiled, e.g. `xs[i]` skips its array check when `xs` was
+// always an array. Those assumptions are guarded on entry: a call that
+// breaks one deoptimises the function, which goes back to the tree-walker
+// until it is hot again and is then recompiled without the assumption.
+// Bodies using nodes the compiler has no closures for (switch, try,
+// classes, pointers...) stay on the tree-walker.
+
+import {
+  ArrayLiteralNode,
+  ArrowFunctionNode,
+  AsNode,
+  AssignmentNode,
+  ASTNode,
+  BlockNode,
+  BreakNode,
+  BreakSignal,
+  builtInTypes,
+  conditionError,
+  ContinueNode,
+  ContinueSignal,
+  DoWhileNode,
+  ErrorNode,
+  ExecutionContext,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  isOfType,
+  LiteralNode,
+  MethodCallNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  OPERATORS,
+  PropertyAccessNode,
+  ReturnNode,
+  ReturnSignal,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+} from "./interpreter";
+import { containsFunction, envAt, SlotStore } from "./bytecode";
+import { IntrearReferenceError, IntrearRuntimeError } from "./errors";
+import type { SourceSpan } from "./errors";
+
+type FunctionNode = FunctionLiteralNode | ArrowFunctionNode;
+
+// The value types compiled code can be specialised to.
+type Tag = "number" | "string" | "boolean" | "array" | "object";
+
+function tagOf(value: any): Tag | null {
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "number":
+    case "string":
+    case "boolean":
+      return typeof value as Tag;
+    case "object":
+      return value === null ? null : "object";
+  }
+  return null;
+}
+
+export interface JitOptions {
+  // Calls a function is profiled for before it is compiled.
+  threshold?: number;
+}
+
+// Counters for one function node, shared by every closure made from it.
+export interface JitProfile {
+  name: string;
+  span?: SourceSpan;
+  calls: number;
+  // Calls that ran compiled code instead of the tree-walker.
+  compiledCalls: number;
+  compilations: number;
+  deopts: number;
+  state: "interpreted" | "compiled" | "unsupported";
+  // Why the body could not be compiled.
+  reason?: string;
+  // The parameter types the compiled code assumes, e.g. "n: number".
+  guards: string[];
+}
+
+interface Entry {
+  node: FunctionNode;
+  profile: JitProfile;
+  // The type each parameter had on every profiled call; null once it
+  // varied, undefined before the first call.
+  feedback: (Tag | null | undefined)[];
+  warm: number;
+  code?: Compiled;
+}
+
+// Runs a call; DEOPT means the tree-walker has to run it instead.
+type Compiled = (context: ExecutionContext, args: any[]) => any;
+
+const DEOPT = Symbol("deopt");
+
+// ---------------------------------------------------
+// Jit - Profiles function calls and compiles the hot ones
+// ---------------------------------------------------
+export class Jit {
+  public threshold: number;
+  private entries = new Map<FunctionNode, Entry>();
+
+  constructor(options: JitOptions = {}) {
+    this.threshold = options.threshold ?? 100;
+  }
+
+  // Wraps `fn`, the tree-walking closure `node` made in `context`.
+  instrument<T extends (...args: any[]) => any>(
+    node: FunctionNode,
+    context: ExecutionContext,
+    fn: T
+  ): T {
+    const entry = this.entry(node);
+    return ((...args: any[]) => {
+      entry.profile.calls++;
+      if (!entry.code && entry.profile.state === "interpreted") {
+        observe(entry, args);
+        if (++entry.warm > this.threshold) this.compile(entry);
+      }
+      if (entry.code) {
+        const result = entry.code(context, args);
+        if (result !== DEOPT) return result;
+      }
+      return fn(...args);
+    }) as T;
+  }
+
+  // A snapshot of the counters of every function called so far.
+  profiles(): JitProfile[] {
+    return [...this.entries.values()].map(({ profile }) => ({
+      ...profile,
+      guards: [...profile.guards],
+    }));
+  }
+
+  private entry(node: FunctionNode): Entry {
+    let entry = this.entries.get(node);
+    if (!entry) {
+      entry = {
+        node,
+        profile: {
+          name:
+            (node instanceof FunctionLiteralNode && node.name) ||
+            "<anonymous>",
+          span: node.span,
+          calls: 0,
+          compiledCalls: 0,
+          compilations: 0,
+          deopts: 0,
+          state: "interpreted",
+          guards: [],
+        },
+        feedback: [],
+        warm: 0,
+      };
+      this.entries.set(node, entry);
+    }
+    return entry;
+  }
+
+  private compile(entry: Entry) {
+    const { profile } = entry;
+    try {
+      entry.code = compileFunction(entry);
+      profile.state = "compiled";
+      profile.compilations++;
+    } catch (e) {
+      if (!(e instanceof Unsupported)) throw e;
+      profile.state = "unsupported";
+      profile.reason = e.message;
+    }
+  }
+}
+
+function paramsOf(node: FunctionNode): string[] {
+  return node instanceof FunctionLiteralNode ? node.params : node.paramNames;
+}
+
+// Records the argument types of a profiled call.
+function observe(entry: Entry, args: any[]) {
+  paramsOf(entry.node).forEach((_, i) => {
+    const tag = tagOf(args[i]);
+    const seen = entry.feedback[i];
+    entry.feedback[i] = seen === undefined || seen === tag ? tag : null;
+  });
+}
+
+// Drops the compiled code after the guard on parameter `param` failed, so
+// the function is profiled again and recompiled without assuming its type.
+// Without a parameter only the current call falls back.
+function deoptimize(entry: Entry, param?: number) {
+  entry.profile.deopts++;
+  if (param === undefined) return;
+  entry.feedback[param] = null;
+  entry.code = undefined;
+  entry.warm = 0;
+  entry.profile.state = "interpreted";
+  entry.profile.guards = [];
+}
+
+// ---------------------------------------------------
+// Compiler - Turns a function body into closures over slot arrays
+// ---------------------------------------------------
+class Unsupported extends Error {}
+
+// The slots of one call or fresh block; `context` is the scope the
+// function was created in, where names that are not local are found.
+interface Env {
+  slots: any[];
+  parent?: Env;
+  context: ExecutionContext;
+}
+
+type Code = (env: Env) => any;
+
+// A statement; it returns the signal that ends its block early, if any.
+type Step = (env: Env) => Completion;
+type Completion = ReturnSignal | BreakSignal | ContinueSignal | undefined;
+
+interface Typed {
+  code: Code;
+  tag: Tag | null;
+}
+
+const BREAK = new BreakSignal();
+const CONTINUE = new ContinueSignal();
+
+// Built-ins that act on the scope calling them or on its file system.
+const SCOPED_BUILT_INS = new Set([
+  "printSelf",
+  "temporaryRm",
+  "readFile",
+  "writeFile",
+  "listDir",
+  "exists",
+  "mkdir",
+  "remove",
+]);
+
+// A tree-walker scope. Fresh scopes, those that may be captured by a
+// nested function, get slots of their own on every entry; the others
+// keep theirs in the nearest fresh scope.
+class Scope {
+  // Every name declared in the scope, and those declared so far.
+  slots = new Map<string, number>();
+  declared = new Set<string>();
+  size = 0;
+  private visibleNames?: Map<string, [depth: number, slot: number]>;
+
+  constructor(
+    public id: number,
+    public fresh: boolean,
+    public parent?: Scope
+  ) {}
+
+  allocate(name: string): number {
+    let slot = this.slots.get(name);
+    if (slot === undefined) {
+      let frame: Scope = this;
+      while (!frame.fresh) frame = frame.parent!;
+      slot = frame.size++;
+      this.slots.set(name, slot);
+    }
+    return slot;
+  }
+
+  // The locals a function created in this scope can see, by name.
+  visible(): Map<string, [depth: number, slot: number]> {
+    if (this.visibleNames) return this.visibleNames;
+    const names = new Map<string, [number, number]>();
+    let depth = 0;
+    for (let scope: Scope | undefined = this; scope; scope = scope.parent) {
+      for (const [name, slot] of scope.slots) {
+        if (!names.has(name)) names.set(name, [depth, slot]);
+      }
+      if (scope.fresh) depth++;
+    }
+    return (this.visibleNames = names);
+  }
+}
+
+// Compiles until the types assumed for the variables are the types of
+// every value written to them.
+function compileFunction(entry: Entry): Compiled {
+  const captured = capturedNames(entry.node);
+  let assumed = new Map<string, Tag | null>();
+  for (;;) {
+    const compiler = new Compiler(entry, assumed, captured);
+    const code = compiler.compile();
+    const inferred = compiler.inferred();
+    if ([...inferred].every(([key, tag]) => assumed.get(key) === tag)) {
+      return code;
+    }
+    assumed = inferred;
+  }
+}
+
+class Compiler {
+  private scope!: Scope;
+  private scopes = 0;
+  // The tags of the values written to each variable in this pass.
+  private writes = new Map<string, (Tag | null)[]>();
+  // Non-local names assigned to, which must exist when the call starts.
+  private freeAssigned = new Set<string>();
+
+  constructor(
+    private entry: Entry,
+    private assumed: Map<string, Tag | null>,
+    private captured: Set<string>
+  ) {}
+
+  compile(): Compiled {
+    const { entry } = this;
+    const node = entry.node;
+    const params = paramsOf(node);
+    const root = this.enterScope(true);
+    const paramSlots = params.map((name, i) => {
+      const slot = root.allocate(name);
+      root.declared.add(name);
+      this.write(root, name, entry.feedback[i] ?? null);
+      return slot;
+    });
+    let body: Step | Code;
+    const block = node instanceof FunctionLiteralNode ? node.body : node.block;
+    if (block) {
+      this.hoist(block);
+      body = sequence(block.map((stmt) => this.statement(stmt)));
+    } else {
+      body = this.expression((node as ArrowFunctionNode).body).code;
+    }
+
+    const guards: [number, Tag][] = [];
+    params.forEach((name, i) => {
+      const tag = this.assumedTag(root, name);
+      if (tag) guards.push([i, tag]);
+    });
+    entry.profile.guards = guards.map(([i, tag]) => `${params[i]}: ${tag}`);
+    const free = [...this.freeAssigned];
+    const size = root.size;
+
+    const enter = (context: ExecutionContext, args: any[]) => {
+      for (const [i, tag] of guards) {
+        if (tagOf(args[i]) !== tag) {
+          deoptimize(entry, i);
+          return undefined;
+        }
+      }
+      // Assigning a missing name would declare it in the call's scope.
+      for (const name of free) {
+        if (!context.hasVariable(name)) {
+          deoptimize(entry);
+          return undefined;
+        }
+      }
+      entry.profile.compiledCalls++;
+      const env: Env = { slots: new Array(size), context };
+      paramSlots.forEach((slot, i) => (env.slots[slot] = args[i]));
+      return env;
+    };
+
+    if (!block) {
+      const run = body as Code;
+      return (context, args) => {
+        node.checkArguments(args, context);
+        const env = enter(context, args);
+        return env ? run(env) : DEOPT;
+      };
+    }
+    const run = body as Step;
+    const leave =
+      node instanceof FunctionLiteralNode && node.declaredReturnType
+        ? (value: any, context: ExecutionContext) => node.leave(value, context)
+        : (value: any) => value;
+    return (context, args) => {
+      node.checkArguments(args, context);
+      const env = enter(context, args);
+      if (!env) return DEOPT;
+      let completion: Completion;
+      try {
+        completion = run(env);
+      } catch (e) {
+        if (e instanceof ReturnSignal) return leave(e.value, context);
+        throw e;
+      }
+      if (completion === undefined) return leave(undefined, context);
+      if (completion instanceof ReturnSignal) {
+        return leave(completion.value, context);
+      }
+      // A `break` outside a loop leaves the function, as it does when the
+      // body is walked.
+      throw completion;
+    };
+  }
+
+  // For every variable, the tag all values written to it had, or null.
+  inferred(): Map<string, Tag | null> {
+    const inferred = new Map<string, Tag | null>();
+    for (const [key, tags] of this.writes) {
+      const tag = tags.every((t) => t === tags[0]) ? tags[0]! : null;
+      const assumed = this.assumed.get(key);
+      inferred.set(key, assumed === undefined || assumed === tag ? tag : null);
+    }
+    return inferred;
+  }
+
+  private enterScope(fresh: boolean): Scope {
+    this.scope = new Scope(this.scopes++, fresh, this.scope);
+    return this.scope;
+  }
+
+  // Allocates the names `statements` declare in the current scope, so
+  // functions created before a declaration can still see it.
+  private hoist(statements: ASTNode[]) {
+    for (const stmt of statements) {
+      if (stmt instanceof VariableDeclarationNode) {
+        this.scope.allocate(stmt.name);
+      } else if (stmt instanceof ForNode) {
+        if (stmt.init instanceof VariableDeclarationNode) {
+          this.scope.allocate(stmt.init.name);
+        }
+      } else if (stmt instanceof WhileNode) {
+        // The body of a while loop runs in the loop's own scope.
+        this.hoist(stmt.body);
+      }
+    }
+  }
+
+  private block(statements: ASTNode[]): Step {
+    const [run, enter] = this.childScope(statements);
+    return (env) => run(enter(env));
+  }
+
+  // Compiles `statements` in a child scope, after `declare` has declared
+  // what the scope starts with. `enter` makes the env they run in.
+  private childScope(
+    statements: ASTNode[],
+    declare?: (scope: Scope) => void
+  ): [run: Step, enter: (env: Env) => Env] {
+    const fresh = containsFunction(statements);
+    const scope = this.enterScope(fresh);
+    declare?.(scope);
+    this.hoist(statements);
+    const run = sequence(statements.map((stmt) => this.statement(stmt)));
+    this.scope = scope.parent!;
+    if (!fresh) return [run, (env) => env];
+    const enter = (env: Env): Env => ({
+      slots: new Array(scope.size),
+      parent: env,
+      context: env.context,
+    });
+    return [run, enter];
+  }
+
+  // The slot a name refers to here, or undefined if it is not local.
+  private resolve(name: string) {
+    let depth = 0;
+    for (let scope: Scope | undefined = this.scope; scope; ) {
+      if (scope.declared.has(name)) {
+        return { scope, depth, slot: scope.slots.get(name)! };
+      }
+      // The walker would find an outer variable until the declaration
+      // runs, and the local one after it, e.g. on the next iteration.
+      if (scope.slots.has(name)) {
+        throw new Unsupported(`'${name}' is used before its declaration`);
+      }
+      if (scope.fresh) depth++;
+      scope = scope.parent;
+    }
+    return undefined;
+  }
+
+  private assumedTag(scope: Scope, name: string): Tag | null {
+    if (this.captured.has(name)) return null;
+    const key = `${scope.id}:${name}`;
+    if (this.assumed.has(key)) return this.assumed.get(key)!;
+    // The first pass assumes the type of the first value written.
+    return this.writes.get(key)?.[0] ?? null;
+  }
+
+  private write(scope: Scope, name: string, tag: Tag | null) {
+    const key = `${scope.id}:${name}`;
+    const tags = this.writes.get(key) ?? [];
+    tags.push(this.captured.has(name) ? null : tag);
+    this.writes.set(key, tags);
+  }
+
+  // ---------------------------------------------------
+  // Statements
+  // ---------------------------------------------------
+  private statement(node: ASTNode): Step {
+    if (node instanceof VariableDeclarationNode) return this.declaration(node);
+    if (node instanceof ReturnNode) {
+      const value = this.expression(node.expression).code;
+      return (env) => new ReturnSignal(value(env));
+    }
+    if (node instanceof BreakNode) return () => BREAK;
+    if (node instanceof ContinueNode) return () => CONTINUE;
+    if (node instanceof ErrorNode) {
+      const message = this.expression(node.message).code;
+      return (env) => {
+        throw new IntrearRuntimeError("USER_ERROR", String(message(env)), {
+          node,
+          context: env.context,
+        });
+      };
+    }
+    if (node instanceof BlockNode) return this.block(node.statements);
+    if (node instanceof IfNode) return this.ifStatement(node);
+    if (node instanceof WhileNode) return this.whileLoop(node);
+    if (node instanceof ForNode) return this.forLoop(node);
+    if (node instanceof DoWhileNode) return this.doWhileLoop(node);
+    if (node instanceof ForEachNode) return this.forEachLoop(node);
+    const code = this.expression(node).code;
+    return (env) => {
+      code(env);
+      return undefined;
+    };
+  }
+
+  private declaration(node: VariableDeclarationNode): Step {
+    const { code, tag } = this.expression(node.expression);
+    const slot = this.scope.allocate(node.name);
+    this.scope.declared.add(node.name);
+    this.write(this.scope, node.name, tag);
+    const unchecked =
+      !node.declaredType &&
+      (node.varType === "any" || (tag !== null && node.varType === tag));
+    if (unchecked) {
+      return (env) => {
+        env.slots[slot] = code(env);
+        return undefined;
+      };
+    }
+    return (env) => {
+      env.slots[slot] = node.check(code(env), env.context);
+      return undefined;
+    };
+  }
+
+  private condition(node: ASTNode): Code {
+    const { code, tag } = this.expression(node);
+    if (tag === "boolean") return code;
+    return (env) => {
+      const value = code(env);
+      if (typeof value !== "boolean") {
+        throw conditionError(node, value, env.context);
+      }
+      return value;
+    };
+  }
+
+  private ifStatement(node: IfNode): Step {
+    const test = this.condition(node.condition);
+    const then = this.block(node.thenBranch);
+    const otherwise = this.block(node.elseBranch ?? []);
+    return (env) => (test(env) ? then(env) : otherwise(env));
+  }
+
+  private whileLoop(node: WhileNode): Step {
+    const test = this.condition(node.condition);
+    const body = sequence(node.body.map((stmt) => this.statement(stmt)));
+    return (env) => {
+      while (test(env)) {
+        const completion = iteration(body, env);
+        if (completion instanceof BreakSignal) break;
+        if (completion instanceof ReturnSignal) return completion;
+      }
+      return undefined;
+    };
+  }
+
+  private forLoop(node: ForNode): Step {
+    const init = this.statement(node.init);
+    const test = this.condition(node.condition);
+    const update = this.expression(node.update).code;
+    const body = this.block(node.body);
+    return (env) => {
+      init(env);
+      while (test(env)) {
+        const completion = iteration(body, env);
+        if (completion instanceof BreakSignal) break;
+        if (completion instanceof ReturnSignal) return completion;
+        update(env);
+      }
+      return undefined;
+    };
+  }
+
+  private doWhileLoop(node: DoWhileNode): Step {
+    const body = this.block(node.body);
+    const test = this.expression(node.condition).code;
+    return (env) => {
+      do {
+        const completion = iteration(body, env);
+        if (completion instanceof BreakSignal) break;
+        if (completion instanceof ReturnSignal) return completion;
+      } while (test(env));
+      return undefined;
+    };
+  }
+
+  private forEachLoop(node: ForEachNode): Step {
+    const iterable = this.expression(node.iterable).code;
+    let item = 0;
+    const [body, enter] = this.childScope(node.body, (scope) => {
+      item = scope.allocate(node.itemName);
+      scope.declared.add(node.itemName);
+      this.write(scope, node.itemName, null);
+    });
+    return (env) => {
+      const array = iterable(env);
+      if (!Array.isArray(array)) {
+        throw new IntrearRuntimeError(
+          "NOT_ITERABLE",
+          "Target is not iterable",
+          { node: node.iterable, context: env.context }
+        );
+      }
+      for (const value of array) {
+        const inner = enter(env);
+        inner.slots[item] = value;
+        const completion = iteration(body, inner);
+        if (completion instanceof BreakSignal) break;
+        if (completion instanceof ReturnSignal) return completion;
+      }
+      return undefined;
+    };
+  }
+
+  // ---------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------
+  private expression(node: ASTNode): Typed {
+    if (node instanceof LiteralNode) {
+      const value = node.value;
+      return { code: () => value, tag: tagOf(value) };
+    }
+    if (node instanceof VariableReferenceNode) return this.load(node.name);
+    if (node instanceof AssignmentNode) return this.assignment(node);
+    if (node instanceof OperatorNode) return this.operator(node);
+    if (node instanceof FunctionCallNode) return this.call(node);
+    if (node instanceof MethodCallNode) return this.methodCall(node);
+    if (node instanceof IndexAccessNode) return this.indexAccess(node);
+    if (node instanceof IndexAssignmentNode) return this.indexAssignment(node);
+    if (node instanceof PropertyAccessNode) return this.propertyAccess(node);
+    if (node instanceof ArrayLiteralNode) {
+      const elements = node.elements.map((el) => this.expression(el).code);
+      return { code: (env) => elements.map((el) => el(env)), tag: "array" };
+    }
+    if (node instanceof ObjectLiteralNode) {
+      const keys = Object.keys(node.properties);
+      const values = keys.map((k) => this.expression(node.properties[k]!));
+      const code: Code = (env) => {
+        const result: any = {};
+        keys.forEach((key, i) => (result[key] = values[i]!.code(env)));
+        return result;
+      };
+      return { code, tag: "object" };
+    }
+    if (node instanceof AsNode) {
+      const value = this.expression(node.expression).code;
+      const { type } = node;
+      const tag =
+        type === "number" || type === "string" || type === "boolean"
+          ? type
+          : null;
+      return { code: (env) => node.cast(value(env), env.context), tag };
+    }
+    if (node instanceof IsNode) {
+      const value = this.expression(node.expression).code;
+      const code: Code = (env) => isOfType(value(env), node.type, env.context);
+      return { code, tag: "boolean" };
+    }
+    if (
+      node instanceof FunctionLiteralNode ||
+      node instanceof ArrowFunctionNode
+    ) {
+      return { code: this.closure(node), tag: null };
+    }
+    throw new Unsupported(`${node.constructor.name} is not compiled`);
+  }
+
+  private load(name: string): Typed {
+    const local = this.resolve(name);
+    if (local) {
+      const { scope, depth, slot } = local;
+      const tag = this.assumedTag(scope, name);
+      return { code: slotReader(depth, slot), tag };
+    }
+    if (name in builtInTypes) {
+      // Every scope injects its own built-ins, so these are never the
+      // ones of an outer scope.
+      if (SCOPED_BUILT_INS.has(name)) {
+        throw new Unsupported(`'${name}' depends on the call's scope`);
+      }
+      const value = new ExecutionContext().getVariable(name);
+      return { code: () => value, tag: null };
+    }
+    return { code: (env) => env.context.getVariable(name), tag: null };
+  }
+
+  private assignment(node: AssignmentNode): Typed {
+    const { code, tag } = this.expression(node.expression);
+    const { name } = node;
+    const local = this.resolve(name);
+    if (local) {
+      const { scope, depth, slot } = local;
+      this.write(scope, name, tag);
+      const store = slotWriter(depth, slot);
+      return { code: (env) => store(env, code(env)), tag };
+    }
+    if (name in builtInTypes) {
+      throw new Unsupported(`Assigns the built-in '${name}'`);
+    }
+    this.freeAssigned.add(name);
+    const assign: Code = (env) => {
+      const value = code(env);
+      env.context.assignVariable(name, value);
+      return value;
+    };
+    return { code: assign, tag };
+  }
+
+  private operator(node: OperatorNode): Typed {
+    const spec = OPERATORS[node.operator];
+    if (!spec) throw new Unsupported(`Unknown operator ${node.operator}`);
+    const left = this.expression(node.operands[0]);
+    const right = this.expression(node.operands[1]);
+    const l = left.code;
+    const r = right.code;
+    if (left.tag === "number" && right.tag === "number") {
+      const numeric = NUMERIC[node.operator];
+      if (numeric) return numeric(l, r);
+    }
+    const apply = spec.apply;
+    let code: Code = (env) => apply(l(env), r(env));
+    if (spec.accepts && !(left.tag === "array" && right.tag === "array")) {
+      code = (env) => node.apply(l(env), r(env), env.context);
+    }
+    return { code, tag: OPERATOR_TAGS[node.operator] ?? null };
+  }
+
+  private call(node: FunctionCallNode): Typed {
+    const { functionName: name } = node;
+    const local = this.resolve(name);
+    const callee = local
+      ? slotReader(local.depth, local.slot)
+      : this.load(name).code;
+    const args = node.args.map((arg) => this.expression(arg).code);
+    const code: Code = (env) => {
+      const fn = callee(env);
+      if (typeof fn !== "function") {
+        if (!local && !env.context.hasVariable(name)) {
+          throw new IntrearReferenceError(
+            "UNDEFINED_VARIABLE",
+            `'${name}' is not defined`,
+            { node, context: env.context }
+          );
+        }
+        throw new IntrearRuntimeError(
+          "NOT_CALLABLE",
+          `'${name}' is not callable`,
+          { node, context: env.context }
+        );
+      }
+      const values = args.map((arg) => arg(env));
+      const { callStack } = env.context;
+      callStack.push({ name, span: node.span });
+      try {
+        return fn(...values);
+      } finally {
+        callStack.pop();
+      }
+    };
+    return { code, tag: null };
+  }
+
+  private methodCall(node: MethodCallNode): Typed {
+    const target = this.expression(node.target);
+    const args = node.args.map((arg) => this.expression(arg).code);
+    const t = target.code;
+    const method = node.methodName;
+    if (method === "length" && args.length === 0) {
+      if (target.tag === "array" || target.tag === "string") {
+        return { code: (env) => t(env).length, tag: "number" };
+      }
+    }
+    if (target.tag === "array" && method === "push" && args.length === 1) {
+      const arg = args[0]!;
+      const code: Code = (env) => {
+        const array = t(env);
+        return array.push(arg(env));
+      };
+      return { code, tag: "number" };
+    }
+    const code: Code = (env) => {
+      const receiver = node.receiver(t(env), env.context);
+      const values = args.map((arg) => arg(env));
+      return node.call(receiver, values, env.context);
+    };
+    return { code, tag: null };
+  }
+
+  private indexAccess(node: IndexAccessNode): Typed {
+    const array = this.expression(node.array);
+    const a = array.code;
+    const i = this.expression(node.index).code;
+    if (array.tag === "array") {
+      const code: Code = (env) => {
+        const values = a(env);
+        return values[i(env)];
+      };
+      return { code, tag: null };
+    }
+    const code: Code = (env) => node.read(a(env), i(env), env.context);
+    return { code, tag: null };
+  }
+
+  private indexAssignment(node: IndexAssignmentNode): Typed {
+    const target = this.expression(node.target);
+    const index = this.expression(node.index);
+    const { code: v, tag } = this.expression(node.value);
+    const t = target.code;
+    const i = index.code;
+    if (target.tag === "array" && index.tag === "number") {
+      const code: Code = (env) => {
+        const array = t(env);
+        const at = i(env);
+        return (array[at] = v(env));
+      };
+      return { code, tag };
+    }
+    const code: Code = (env) =>
+      node.assign(t(env), i(env), v(env), env.context);
+    return { code, tag };
+  }
+
+  private propertyAccess(node: PropertyAccessNode): Typed {
+    const object = this.expression(node.object);
+    const o = object.code;
+    // Every tag is a value that is neither null nor undefined.
+    const target: Code = object.tag
+      ? o
+      : (env) => node.checkObject(o(env), env.context);
+    const { property } = node;
+    if (typeof property === "string") {
+      return { code: (env) => target(env)[property], tag: null };
+    }
+    const key = this.expression(property).code;
+    const code: Code = (env) => {
+      const value = target(env);
+      return value[key(env)];
+    };
+    return { code, tag: null };
+  }
+
+  // A nested function closes over a context whose variables are the
+  // slots visible where it is created.
+  private closure(node: FunctionNode): Code {
+    const scope = this.scope;
+    return (env) => {
+      const context = env.context.createChildContext();
+      context.store = new SlotStore(env, scope.visible());
+      return node.toFunction(context);
+    };
+  }
+}
+
+// Operators on two numbers, compiled to the JavaScript operator.
+const NUMERIC: Record<string, (l: Code, r: Code) => Typed> = {
+  "+": (l, r) => ({ code: (env) => l(env) + r(env), tag: "number" }),
+  "-": (l, r) => ({ code: (env) => l(env) - r(env), tag: "number" }),
+  "*": (l, r) => ({ code: (env) => l(env) * r(env), tag: "number" }),
+  "/": (l, r) => ({ code: (env) => l(env) / r(env), tag: "number" }),
+  "<": (l, r) => ({ code: (env) => l(env) < r(env), tag: "boolean" }),
+  "<=": (l, r) => ({ code: (env) => l(env) <= r(env), tag: "boolean" }),
+  ">": (l, r) => ({ code: (env) => l(env) > r(env), tag: "boolean" }),
+  ">=": (l, r) => ({ code: (env) => l(env) >= r(env), tag: "boolean" }),
+  "==": (l, r) => ({ code: (env) => l(env) === r(env), tag: "boolean" }),
+  "!==": (l, r) => ({ code: (env) => l(env) !== r(env), tag: "boolean" }),
+};
+
+// The type of an operator's result whatever its operands are.
+const OPERATOR_TAGS: Record<string, Tag> = {
+  "==": "boolean",
+  "!==": "boolean",
+  "<": "boolean",
+  "<=": "boolean",
+  ">": "boolean",
+  ">=": "boolean",
+  "&&": "boolean",
+  "||": "boolean",
+  "><": "string",
+  concat: "array",
+};
+
+function sequence(steps: Step[]): Step {
+  if (steps.length === 1) return steps[0]!;
+  return (env) => {
+    for (const step of steps) {
+      const completion = step(env);
+      if (completion !== undefined) return completion;
+    }
+    return undefined;
+  };
+}
+
+// Runs a loop body once. `break` and `continue` may also be thrown by a
+// function it calls, as on the tree-walker.
+function iteration(body: Step, env: Env): Completion {
+  try {
+    return body(env);
+  } catch (e) {
+    if (e instanceof BreakSignal || e instanceof ContinueSignal) return e;
+    throw e;
+  }
+}
+
+function slotReader(depth: number, slot: number): Code {
+  if (depth === 0) return (env) => env.slots[slot];
+  if (depth === 1) return (env) => env.parent!.slots[slot];
+  return (env) => envAt(env, depth).slots[slot];
+}
+
+function slotWriter(depth: number, slot: number) {
+  return depth === 0
+    ? (env: Env, value: any) => (env.slots[slot] = value)
+    : (env: Env, value: any) => (envAt(env, depth).slots[slot] = value);
+}
+
+// Names assigned or read by functions nested in `node`, whose values the
+// compiler cannot follow.
+function capturedNames(node: FunctionNode): Set<string> {
+  const names = new Set<string>();
+  const visit = (value: any, nested: boolean, seen: Set<object>) => {
+    if (value === null || typeof value !== "object" || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    if (nested) {
+      if (value instanceof AssignmentNode) names.add(value.name);
+      if (value instanceof VariableReferenceNode) names.add(value.name);
+    }
+    const inner =
+      nested ||
+      value instanceof FunctionLiteralNode ||
+      value instanceof ArrowFunctionNode;
+    for (const child of Object.values(value)) visit(child, inner, seen);
+  };
+  visit(node.body, false, new Set());
+  return names;
+}
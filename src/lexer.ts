@@ -0,0 +1,282 @@
+// ========================================
+// Intrear Lexer
+// ========================================
+//
+// Turns `.inr` source text into a flat list of tokens for the parser.
+// Line comments start with `#` (`//` is the integer division operator).
+
+import { IntrearSyntaxError } from "./errors";
+import type { SourcePosition } from "./errors";
+
+export type TokenKind =
+  | "number"
+  | "bigint"
+  | "string"
+  | "identifier"
+  | "keyword"
+  | "punct"
+  | "eof";
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export const KEYWORDS = new Set([
+  "let",
+  "function",
+  "pure",
+  "async",
+  "await",
+  "class",
+  "new",
+  "this",
+  "super",
+  "match",
+  "import",
+  "export",
+  "return",
+  "if",
+  "else",
+  "while",
+  "do",
+  "for",
+  "of",
+  "switch",
+  "case",
+  "default",
+  "break",
+  "continue",
+  "try",
+  "catch",
+  "throw",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "concat",
+]);
+
+// Longest operators first so that `===` wins over `==` and `=`.
+const PUNCTUATORS = [
+  "...",
+  "===",
+  "!==",
+  "//",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "><",
+  "=>",
+  "+",
+  "-",
+  "*",
+  "/",
+  "^",
+  "<",
+  ">",
+  "=",
+  "!",
+  "&",
+  "|",
+  "?",
+  "(",
+  ")",
+  "{",
+  "}",
+  "[",
+  "]",
+  ",",
+  ";",
+  ":",
+  ".",
+];
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+  "\\": "\\",
+  '"': '"',
+  "'": "'",
+};
+
+// ---------------------------------------------------
+// Lexer - Scans source text, collecting diagnostics instead of throwing
+// ---------------------------------------------------
+export class Lexer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  public diagnostics: IntrearSyntaxError[] = [];
+
+  constructor(private source: string, private file?: string) {}
+
+  public tokenize(): Token[] {
+    const tokens: Token[] = [];
+    while (true) {
+      this.skipTrivia();
+      if (this.pos >= this.source.length) {
+        tokens.push(this.makeToken("eof", "", this.position()));
+        return tokens;
+      }
+      const token = this.nextToken();
+      if (token) tokens.push(token);
+    }
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? "";
+  }
+
+  private advance(): string {
+    const ch = this.source[this.pos++]!;
+    if (ch === "\n") {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return ch;
+  }
+
+  private skipTrivia() {
+    while (this.pos < this.source.length) {
+      const ch = this.peek();
+      if (ch === " " || ch === "\t" || ch === "\r" || ch === "\n") {
+        this.advance();
+      } else if (ch === "#") {
+        while (this.pos < this.source.length && this.peek() !== "\n") {
+          this.advance();
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.pos };
+  }
+
+  private makeToken(
+    kind: TokenKind,
+    value: string,
+    start: SourcePosition
+  ): Token {
+    return { kind, value, start, end: this.position() };
+  }
+
+  private report(message: string, start: SourcePosition) {
+    this.diagnostics.push(
+      new IntrearSyntaxError("SYNTAX", message, {
+        span: { start, end: this.position(), file: this.file },
+      })
+    );
+  }
+
+  private nextToken(): Token | null {
+    const start = this.position();
+    const ch = this.peek();
+
+    if (isDigit(ch)) {
+      while (isDigit(this.peek())) this.advance();
+      if (this.peek() === "n") {
+        const digits = this.source.slice(start.offset, this.pos);
+        this.advance();
+        return this.makeToken("bigint", digits, start);
+      }
+      if (this.peek() === "." && isDigit(this.peek(1))) {
+        this.advance();
+        while (isDigit(this.peek())) this.advance();
+      }
+      if (
+        (this.peek() === "e" || this.peek() === "E") &&
+        (isDigit(this.peek(1)) ||
+          ((this.peek(1) === "+" || this.peek(1) === "-") &&
+            isDigit(this.peek(2))))
+      ) {
+        this.advance();
+        if (this.peek() === "+" || this.peek() === "-") this.advance();
+        while (isDigit(this.peek())) this.advance();
+      }
+      const text = this.source.slice(start.offset, this.pos);
+      return this.makeToken("number", text, start);
+    }
+
+    if (isIdentifierStart(ch)) {
+      while (isIdentifierPart(this.peek())) this.advance();
+      const text = this.source.slice(start.offset, this.pos);
+      const kind = KEYWORDS.has(text) ? "keyword" : "identifier";
+      return this.makeToken(kind, text, start);
+    }
+
+    if (ch === '"' || ch === "'") {
+      return this.readString(ch, start);
+    }
+
+    for (const p of PUNCTUATORS) {
+      if (this.source.startsWith(p, this.pos)) {
+        for (let i = 0; i < p.length; i++) this.advance();
+        return this.makeToken("punct", p, start);
+      }
+    }
+
+    this.advance();
+    this.report(`Unexpected character '${ch}'`, start);
+    return null;
+  }
+
+  private readString(quote: string, start: SourcePosition): Token {
+    this.advance();
+    let value = "";
+    while (true) {
+      const ch = this.peek();
+      if (ch === "" || ch === "\n") {
+        this.report("Unterminated string literal", start);
+        break;
+      }
+      this.advance();
+      if (ch === quote) break;
+      if (ch === "\\") {
+        if (this.peek() === "") continue;
+        const escStart = this.position();
+        escStart.column--;
+        escStart.offset--;
+        const esc = this.advance();
+        const mapped = ESCAPES[esc];
+        if (mapped === undefined) {
+          this.report(`Unknown escape sequence '\\${esc}'`, escStart);
+          value += esc;
+        } else {
+          value += mapped;
+        }
+        continue;
+      }
+      value += ch;
+    }
+    return this.makeToken("string", value, start);
+  }
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= "0" && ch <= "9";
+}
+
+function isIdentifierStart(ch: string): boolean {
+  return (ch >= "a" && ch <= "z") || (ch >= "A" && ch <= "Z") || ch === "_";
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return isIdentifierStart(ch) || isDigit(ch);
+}
+
+export function tokenize(source: string, file?: string): Token[] {
+  return new Lexer(source, file).tokenize();
+}
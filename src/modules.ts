@@ -0,0 +1,89 @@
+// ========================================
+// Intrear Module Loading
+// ========================================
+//
+// Loads programs from disk: `.inr` source files and JSON-encoded node
+// trees (see ./serialize). `FileSystemResolver` plugs this into a
+// `ModuleRegistry` so that `import { f } from "./util"` finds `util.inr` or
+// `util.json` next to the importing file.
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, extname, isAbsolute, resolve } from "node:path";
+import * as nodeClasses from "./interpreter";
+import { ASTNode } from "./interpreter";
+import type { ModuleResolver } from "./interpreter";
+import { parse } from "./parser";
+import { AST_FORMAT, ASTFormatError, deserializeAST } from "./serialize";
+
+// The older, unversioned JSON program: an array of `{ "node":
+// "<ClassName>", "args": [...] }` objects, where `args` are the constructor
+// arguments. Arguments may themselves be nodes, arrays, plain objects or
+// primitives. See ./serialize for the current format.
+export function nodesFromJSON(value: any): any {
+  if (Array.isArray(value)) return value.map(nodesFromJSON);
+  if (value === null || typeof value !== "object") return value;
+  if (typeof value.node === "string") {
+    const NodeClass = (nodeClasses as Record<string, any>)[value.node];
+    if (
+      typeof NodeClass !== "function" ||
+      !(NodeClass.prototype instanceof ASTNode)
+    ) {
+      throw new Error(`Unknown node type '${value.node}'`);
+    }
+    const args: any[] = value.args ?? [];
+    return new NodeClass(...args.map(nodesFromJSON));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, nodesFromJSON(v)])
+  );
+}
+
+// Parses `source` as read from `file`, by extension.
+export function loadProgram(file: string, source: string): ASTNode[] {
+  if (extname(file) === ".json") {
+    const json = JSON.parse(source);
+    if (json?.format === AST_FORMAT) {
+      try {
+        return deserializeAST(json);
+      } catch (e) {
+        if (!(e instanceof ASTFormatError)) throw e;
+        throw new Error(`${file}: ${e.message}`);
+      }
+    }
+    const program = nodesFromJSON(json);
+    if (!Array.isArray(program)) {
+      throw new Error(`${file}: expected a JSON array of nodes`);
+    }
+    return program;
+  }
+  return parse(source, file);
+}
+
+const EXTENSIONS = ["", ".inr", ".json"];
+
+// ---------------------------------------------------
+// FileSystemResolver - Relative and absolute paths on disk
+// ---------------------------------------------------
+export class FileSystemResolver implements ModuleResolver {
+  // `baseDir` resolves imports made by a program that is not a file itself.
+  constructor(public baseDir: string = process.cwd()) {}
+
+  resolve(specifier: string, importer?: string): string | undefined {
+    const isPath =
+      specifier.startsWith("./") ||
+      specifier.startsWith("../") ||
+      isAbsolute(specifier);
+    if (!isPath) return undefined;
+    const from = importer
+      ? dirname(resolve(this.baseDir, importer))
+      : this.baseDir;
+    const base = resolve(from, specifier);
+    return EXTENSIONS.map((ext) => base + ext).find(
+      (file) => existsSync(file) && statSync(file).isFile()
+    );
+  }
+
+  load(id: string): ASTNode[] {
+    return loadProgram(id, readFileSync(id, "utf8"));
+  }
+}
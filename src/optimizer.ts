@@ -0,0 +1,614 @@
+// ========================================
+// Intrear AST Optimizer
+// ========================================
+//
+// Rewrites a parsed program into a cheaper one that behaves the same:
+//
+//   const optimizer = new Optimizer();
+//   const nodes = optimizer.optimize(parse(source));
+//   optimizer.changes; // [{ pass: "constant-folding", message, span }, ...]
+//
+// Passes run in order, and the pipeline repeats until a round changes
+// nothing, so inlining a call exposes its operands to folding and a folded
+// `if` condition to dead-code elimination. Each pass only rewrites code it
+// can prove equivalent; anything that might call user code, throw, or read
+// a variable that changes is left alone.
+
+import {
+  ASTNode,
+  ArrayLiteralNode,
+  AddressOfNode,
+  AsNode,
+  AssignmentNode,
+  BlockNode,
+  BreakNode,
+  ContinueNode,
+  DoWhileNode,
+  ErrorNode,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  LiteralNode,
+  ObjectLiteralNode,
+  OPERATORS,
+  OperatorNode,
+  PropertyAccessNode,
+  ReturnNode,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+  builtInTypes,
+  isOfType,
+  neverCompletes,
+} from "./interpreter";
+import type { SourceSpan } from "./errors";
+
+export interface OptimizerChange {
+  pass: string;
+  message: string;
+  span?: SourceSpan;
+}
+
+// `run` may rewrite the nodes it is given in place; it returns the new
+// top-level statements and calls `report` once per change.
+export interface OptimizerPass {
+  name: string;
+  run(
+    nodes: ASTNode[],
+    report: (message: string, node: ASTNode) => void
+  ): ASTNode[];
+}
+
+export interface OptimizerOptions {
+  // Defaults to every pass below, in the order listed.
+  passes?: OptimizerPass[];
+  // Upper bound on repeating the pipeline.
+  maxRounds?: number;
+}
+
+// ---------------------------------------------------
+// Tree walking
+// ---------------------------------------------------
+
+// Hooks for rewrite(): `node` replaces a node, `list` a statement list.
+interface Rewriter {
+  node?(node: ASTNode): ASTNode;
+  list?(nodes: ASTNode[]): ASTNode[];
+}
+
+// Rewrites `value` children first, following every field of every node,
+// array and plain object (case lists, object literal properties). Literal
+// values are data, not code, and are never entered.
+function rewrite(value: any, hooks: Rewriter, seen = new Set<object>()): any {
+  if (value === null || typeof value !== "object" || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      value[i] = rewrite(value[i], hooks, seen);
+    }
+    const isList =
+      value.length > 0 && value.every((item) => item instanceof ASTNode);
+    return isList && hooks.list ? hooks.list(value) : value;
+  }
+  if (value instanceof ASTNode) {
+    if (!(value instanceof LiteralNode)) rewriteFields(value, hooks, seen);
+    return hooks.node ? hooks.node(value) : value;
+  }
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    rewriteFields(value, hooks, seen);
+  }
+  return value;
+}
+
+function rewriteFields(value: any, hooks: Rewriter, seen: Set<object>) {
+  for (const key of Object.keys(value)) {
+    value[key] = rewrite(value[key], hooks, seen);
+  }
+}
+
+// Every node below `value`, including itself.
+function nodesIn(value: any): ASTNode[] {
+  const out: ASTNode[] = [];
+  rewrite(value, { node: (node) => (out.push(node), node) });
+  return out;
+}
+
+// A deep copy, so optimizing never changes the caller's program.
+function clone(value: any, copies = new Map<object, any>()): any {
+  if (value === null || typeof value !== "object") return value;
+  if (copies.has(value)) return copies.get(value);
+  if (Array.isArray(value)) {
+    const copy: any[] = [];
+    copies.set(value, copy);
+    for (const item of value) copy.push(clone(item, copies));
+    return copy;
+  }
+  const proto = Object.getPrototypeOf(value);
+  if (!(value instanceof ASTNode) && proto !== Object.prototype) return value;
+  const copy = Object.create(proto);
+  copies.set(value, copy);
+  for (const key of Object.keys(value)) {
+    copy[key] =
+      value instanceof LiteralNode && key === "value"
+        ? value.value
+        : clone(value[key], copies);
+  }
+  return copy;
+}
+
+function literal(value: any, span?: SourceSpan): LiteralNode {
+  const node = new LiteralNode(value);
+  node.span = span;
+  return node;
+}
+
+// Values every operator handles without throwing or running user code,
+// unlike objects (`toString`), bigints (`1n / 0n`) and symbols.
+function isScalar(value: any): boolean {
+  return (
+    value === null ||
+    ["number", "string", "boolean", "undefined"].includes(typeof value)
+  );
+}
+
+// How often each string appears anywhere in `value`: names of variables,
+// parameters, functions and properties, and string literals.
+function countStrings(value: any): Map<string, number> {
+  const counts = new Map<string, number>();
+  const visit = (v: any, seen: Set<object>) => {
+    if (typeof v === "string") counts.set(v, (counts.get(v) ?? 0) + 1);
+    if (v === null || typeof v !== "object" || seen.has(v)) return;
+    seen.add(v);
+    for (const key of Object.keys(v)) visit(v[key], seen);
+  };
+  visit(value, new Set());
+  return counts;
+}
+
+// ---------------------------------------------------
+// Constant folding - `2 * 3 + 1` becomes `7`
+// ---------------------------------------------------
+
+// `left op right` on two literals as a literal, when that is what running
+// it would produce. Operators with a runtime operand check are skipped so
+// a mismatch still throws where the program says.
+function fold(node: ASTNode): ASTNode {
+  if (!(node instanceof OperatorNode)) return node;
+  const [left, right] = node.operands;
+  if (!(left instanceof LiteralNode) || !(right instanceof LiteralNode)) {
+    return node;
+  }
+  const spec = OPERATORS[node.operator];
+  if (!spec || spec.accepts) return node;
+  if (!isScalar(left.value) || !isScalar(right.value)) return node;
+  return literal(spec.apply(left.value, right.value), node.span);
+}
+
+function show(value: any): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+export const constantFolding: OptimizerPass = {
+  name: "constant-folding",
+  run(nodes, report) {
+    return rewrite(nodes, {
+      node: (node) => {
+        const folded = fold(node);
+        if (folded instanceof LiteralNode && folded !== node) {
+          report(`Folded an expression to ${show(folded.value)}`, node);
+        }
+        return folded;
+      },
+    });
+  },
+};
+
+// ---------------------------------------------------
+// Dead-code elimination - Constant branches and unreachable statements
+// ---------------------------------------------------
+
+function constantCondition(node: ASTNode): boolean | undefined {
+  return node instanceof LiteralNode && typeof node.value === "boolean"
+    ? node.value
+    : undefined;
+}
+
+// What `stmt` reduces to when its condition is a constant. A kept branch
+// stays a block, since it is a scope of its own.
+function simplify(
+  stmt: ASTNode,
+  report: (message: string, node: ASTNode) => void
+): ASTNode[] {
+  if (stmt instanceof IfNode) {
+    const cond = constantCondition(stmt.condition);
+    if (cond === undefined) return [stmt];
+    const branch = cond ? stmt.thenBranch : stmt.elseBranch ?? [];
+    report(
+      branch.length > 0
+        ? `Replaced if (${cond}) with its ${cond ? "then" : "else"} branch`
+        : `Removed if (${cond}) with nothing to run`,
+      stmt
+    );
+    if (branch.length === 0) return [];
+    const block = new BlockNode(branch);
+    block.span = stmt.span;
+    return [block];
+  }
+  if (stmt instanceof WhileNode || stmt instanceof ForNode) {
+    if (constantCondition(stmt.condition) !== false) return [stmt];
+    if (stmt instanceof WhileNode) {
+      report("Removed while (false) loop", stmt);
+      return [];
+    }
+    report("Replaced for loop with a false condition by its initializer", stmt);
+    return [stmt.init];
+  }
+  return [stmt];
+}
+
+function prune(
+  statements: ASTNode[],
+  report: (message: string, node: ASTNode) => void
+): ASTNode[] {
+  const out: ASTNode[] = [];
+  for (let i = 0; i < statements.length; i++) {
+    const kept = simplify(statements[i]!, report);
+    out.push(...kept);
+    const rest = statements.length - i - 1;
+    if (rest > 0 && neverCompletes(kept)) {
+      const s = rest === 1 ? "" : "s";
+      report(`Removed ${rest} unreachable statement${s}`, statements[i + 1]!);
+      break;
+    }
+  }
+  return out;
+}
+
+export const deadCodeElimination: OptimizerPass = {
+  name: "dead-code",
+  run(nodes, report) {
+    const list = (statements: ASTNode[]) => prune(statements, report);
+    return rewrite(nodes, { list });
+  },
+};
+
+// ---------------------------------------------------
+// Inlining - Calls to small pure functions become their expression
+// ---------------------------------------------------
+
+// Operator, literal and parameter nodes allowed in an inlined body.
+const MAX_INLINE_NODES = 15;
+
+// Whether `expr` is only operators over literals and parameters, so that
+// substituting the arguments gives the value the call would return.
+function isInlineBody(expr: ASTNode, params: string[]): boolean {
+  const nodes = nodesIn(expr);
+  return (
+    nodes.length <= MAX_INLINE_NODES &&
+    nodes.every(
+      (node) =>
+        node instanceof LiteralNode ||
+        (node instanceof VariableReferenceNode &&
+          params.includes(node.name)) ||
+        (node instanceof OperatorNode && !OPERATORS[node.operator]?.accepts)
+    )
+  );
+}
+
+// The function declared by `stmt` if every mention of it in `program` is a
+// direct call, so replacing the calls cannot change what any other code
+// sees. Recursion would need the function to call itself, which its body
+// (only operators) rules out.
+function inlineable(
+  stmt: ASTNode,
+  program: ASTNode[]
+): FunctionLiteralNode | undefined {
+  if (!(stmt instanceof VariableDeclarationNode)) return undefined;
+  const fn = stmt.expression;
+  if (
+    !(fn instanceof FunctionLiteralNode) ||
+    !fn.pure ||
+    fn.isAsync ||
+    fn.typeParams ||
+    stmt.name in builtInTypes
+  ) {
+    return undefined;
+  }
+  const [body] = fn.body;
+  if (fn.body.length !== 1 || !(body instanceof ReturnNode)) return undefined;
+  if (!isInlineBody(body.expression, fn.params)) return undefined;
+  const isCall = (node: ASTNode) =>
+    node instanceof FunctionCallNode && node.functionName === stmt.name;
+  const calls = nodesIn(program).filter(isCall).length;
+  const declared = fn.name === stmt.name ? 2 : 1;
+  const mentions = countStrings(program).get(stmt.name) ?? 0;
+  return mentions === declared + calls ? fn : undefined;
+}
+
+// `call` with `fn`'s expression in its place, or `call` itself when the
+// arguments or declared types do not allow it. Arguments must be scalar
+// literals or variables holding primitives (see primitiveVariables), which
+// evaluate the same wherever they are substituted.
+function inlineCall(
+  call: FunctionCallNode,
+  fn: FunctionLiteralNode,
+  primitives: Set<string>
+): ASTNode {
+  if (call.args.length !== fn.params.length) return call;
+  const args = new Map<string, ASTNode>();
+  for (const [i, arg] of call.args.entries()) {
+    const simple =
+      (arg instanceof LiteralNode && isScalar(arg.value)) ||
+      (arg instanceof VariableReferenceNode && primitives.has(arg.name));
+    if (!simple) return call;
+    // A declared parameter type is checked on every call; only inline when
+    // the argument is known to pass.
+    const t = fn.declaredParamTypes?.[i];
+    if (t !== undefined && t !== "any") {
+      if (!(arg instanceof LiteralNode) || typeof t !== "string") return call;
+      if (!isOfType(arg.value, t)) return call;
+    }
+    args.set(fn.params[i]!, arg);
+  }
+  const body = (fn.body[0] as ReturnNode).expression;
+  let expr: ASTNode = rewrite(clone(body), {
+    node: (node) =>
+      node instanceof VariableReferenceNode ? clone(args.get(node.name)) : node,
+  });
+  expr = rewrite(expr, { node: fold });
+  const t = fn.declaredReturnType;
+  if (t !== undefined && t !== "any") {
+    if (!(expr instanceof LiteralNode) || typeof t !== "string") return call;
+    if (!isOfType(expr.value, t)) return call;
+  }
+  for (const node of nodesIn(expr)) node.span = call.span;
+  return expr;
+}
+
+export const inlining: OptimizerPass = {
+  name: "inlining",
+  run(nodes, report) {
+    const primitives = primitiveVariables(nodes);
+    nodes.forEach((stmt, i) => {
+      const fn = inlineable(stmt, nodes);
+      if (!fn) return;
+      const name = (stmt as VariableDeclarationNode).name;
+      // Earlier statements run before the function exists.
+      for (let j = i + 1; j < nodes.length; j++) {
+        nodes[j] = rewrite(nodes[j], {
+          node: (node) => {
+            if (!(node instanceof FunctionCallNode)) return node;
+            if (node.functionName !== name) return node;
+            const inlined = inlineCall(node, fn, primitives);
+            if (inlined !== node) report(`Inlined call to '${name}'`, node);
+            return inlined;
+          },
+        });
+      }
+    });
+    return nodes;
+  },
+};
+
+// ---------------------------------------------------
+// Loop-invariant hoisting - Computed once before the loop
+// ---------------------------------------------------
+
+// Nodes that run no user code: a loop made only of these changes nothing
+// but the variables it assigns.
+const CLOSED_NODES = [
+  ArrayLiteralNode,
+  AsNode,
+  AssignmentNode,
+  BlockNode,
+  BreakNode,
+  ContinueNode,
+  DoWhileNode,
+  ErrorNode,
+  ForEachNode,
+  ForNode,
+  IfNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  LiteralNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  PropertyAccessNode,
+  ReturnNode,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+];
+
+// Operators that cannot throw or call user code on any primitive operands.
+const HOISTABLE = new Set([
+  "+", "-", "*", "/", "//", "^", "==", "!==", "<", "<=", ">", ">=", "&&", "||",
+]);
+
+// The parts of `loop` that run on every iteration, as [node, field] pairs.
+function loopParts(loop: ASTNode): [any, string][] | undefined {
+  if (loop instanceof WhileNode || loop instanceof DoWhileNode) {
+    return [[loop, "condition"], [loop, "body"]];
+  }
+  if (loop instanceof ForNode) {
+    return [[loop, "condition"], [loop, "update"], [loop, "body"]];
+  }
+  if (loop instanceof ForEachNode) return [[loop, "body"]];
+  return undefined;
+}
+
+// Variables that only ever hold primitives: every declaration gives a
+// primitive type, which is checked at runtime, or a scalar literal, and
+// every other mention of the name is a plain read. Reading them cannot run
+// user code, which coercing an object (through a `toString` method) could.
+function primitiveVariables(program: ASTNode[]): Set<string> {
+  const declarations = new Map<string, number>();
+  const reads = new Map<string, number>();
+  const bump = (counts: Map<string, number>, name: string) =>
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  const escaped = new Set<string>();
+  for (const node of nodesIn(program)) {
+    if (node instanceof VariableDeclarationNode) {
+      bump(declarations, node.name);
+      const scalar =
+        PRIMITIVE_TYPES.has(node.varType) ||
+        (node.expression instanceof LiteralNode &&
+          isScalar(node.expression.value));
+      if (!scalar) escaped.add(node.name);
+    }
+    if (node instanceof VariableReferenceNode) bump(reads, node.name);
+    // `*p = value` through `&name` is an assignment.
+    if (
+      node instanceof AddressOfNode &&
+      node.target instanceof VariableReferenceNode
+    ) {
+      escaped.add(node.target.name);
+    }
+  }
+  const counts = countStrings(program);
+  const names = new Set<string>();
+  for (const [name, declared] of declarations) {
+    const mentions = declared + (reads.get(name) ?? 0);
+    if (!escaped.has(name) && counts.get(name) === mentions) names.add(name);
+  }
+  return names;
+}
+
+const PRIMITIVE_TYPES = new Set(["number", "string", "boolean"]);
+
+// Whether `node` evaluates to the same primitive on every iteration, given
+// the variables that hold one and that the loop does not redeclare.
+// Built-in names are left out: a loop body that is a scope of its own sees
+// the built-ins even where the enclosing scope shadows them.
+function isInvariant(node: ASTNode, fixed: Set<string>): boolean {
+  if (node instanceof LiteralNode) return isScalar(node.value);
+  if (node instanceof VariableReferenceNode) {
+    return fixed.has(node.name) && !(node.name in builtInTypes);
+  }
+  return (
+    node instanceof OperatorNode &&
+    HOISTABLE.has(node.operator) &&
+    node.operands.every((operand) => isInvariant(operand, fixed))
+  );
+}
+
+interface Hoisting {
+  // primitiveVariables() of the program.
+  primitives: Set<string>;
+  // Names already declared, which temporaries must not reuse.
+  taken: Set<string>;
+  next: number;
+}
+
+// The loop preceded by a declaration for each largest invariant operator
+// expression in it that reads a variable; expressions of literals alone
+// are left to constant folding.
+function hoist(
+  loop: ASTNode,
+  state: Hoisting,
+  report: (message: string, node: ASTNode) => void
+): ASTNode[] {
+  const parts = loopParts(loop);
+  if (!parts) return [loop];
+  const inside = parts.flatMap(([node, key]) => nodesIn(node[key]));
+  if (!inside.every((n) => CLOSED_NODES.some((cls) => n instanceof cls))) {
+    return [loop];
+  }
+  const fixed = new Set(state.primitives);
+  if (loop instanceof ForEachNode) fixed.delete(loop.itemName);
+  const declaring = loop instanceof ForNode ? [loop.init, ...inside] : inside;
+  for (const node of declaring) {
+    if (node instanceof VariableDeclarationNode) fixed.delete(node.name);
+  }
+  const declarations: ASTNode[] = [];
+  const replace = (value: any): any => {
+    if (Array.isArray(value)) return value.map(replace);
+    if (!(value instanceof ASTNode) || value instanceof LiteralNode) {
+      return value;
+    }
+    if (
+      value instanceof OperatorNode &&
+      isInvariant(value, fixed) &&
+      nodesIn(value).some((n) => n instanceof VariableReferenceNode)
+    ) {
+      let name: string;
+      do name = `$inv${state.next++}`;
+      while (state.taken.has(name));
+      const declaration = new VariableDeclarationNode("any", name, value);
+      declaration.span = value.span;
+      declarations.push(declaration);
+      report(`Hoisted a loop-invariant expression into '${name}'`, value);
+      const ref = new VariableReferenceNode(name);
+      ref.span = value.span;
+      return ref;
+    }
+    for (const key of Object.keys(value)) {
+      const field = (value as any)[key];
+      if (field instanceof ASTNode || Array.isArray(field)) {
+        (value as any)[key] = replace(field);
+      }
+    }
+    return value;
+  };
+  for (const [node, key] of parts) node[key] = replace(node[key]);
+  return [...declarations, loop];
+}
+
+export const loopInvariantHoisting: OptimizerPass = {
+  name: "loop-invariants",
+  run(nodes, report) {
+    // Temporaries are named with a `$`, which no identifier contains.
+    const taken = new Set<string>();
+    for (const node of nodesIn(nodes)) {
+      if (node instanceof VariableDeclarationNode) taken.add(node.name);
+    }
+    const state = { primitives: primitiveVariables(nodes), taken, next: 0 };
+    const list = (statements: ASTNode[]) =>
+      statements.flatMap((stmt) => hoist(stmt, state, report));
+    return rewrite(nodes, { list });
+  },
+};
+
+// ---------------------------------------------------
+// Optimizer - Runs the passes until nothing changes
+// ---------------------------------------------------
+export class Optimizer {
+  public passes: OptimizerPass[];
+  public maxRounds: number;
+  // What the last optimize() changed, in order.
+  public changes: OptimizerChange[] = [];
+
+  constructor(options: OptimizerOptions = {}) {
+    this.passes = options.passes ?? [
+      inlining,
+      constantFolding,
+      deadCodeElimination,
+      loopInvariantHoisting,
+    ];
+    this.maxRounds = options.maxRounds ?? 10;
+  }
+
+  // Returns an optimized copy of `nodes`; the originals are not modified.
+  public optimize(nodes: ASTNode[]): ASTNode[] {
+    this.changes = [];
+    let program: ASTNode[] = clone(nodes);
+    for (let round = 0; round < this.maxRounds; round++) {
+      const before = this.changes.length;
+      for (const pass of this.passes) {
+        program = pass.run(program, (message, node) => {
+          this.changes.push({ pass: pass.name, message, span: node.span });
+        });
+      }
+      if (this.changes.length === before) break;
+    }
+    return program;
+  }
+}
@@ -0,0 +1,1406 @@
+// ========================================
+// Intrear Parser
+// ========================================
+//
+// Recursive-descent parser that turns `.inr` source text into the AST node
+// classes from `./interpreter`. Syntax errors are collected with their
+// line/column; after an error the parser skips to the next statement
+// boundary so that a single pass can report several problems.
+
+import {
+  AddressOfNode,
+  ArrayLiteralNode,
+  ArrowFunctionNode,
+  AsNode,
+  ASTNode,
+  AssignmentNode,
+  AwaitNode,
+  BlockNode,
+  BreakNode,
+  ClassDeclarationNode,
+  ContinueNode,
+  DereferenceNode,
+  DoWhileNode,
+  ErrorNode,
+  ExportNode,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  ImportNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  LiteralNode,
+  MatchNode,
+  MethodCallNode,
+  NewNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  PointerAssignmentNode,
+  PropertyAccessNode,
+  ReturnNode,
+  SuperCallNode,
+  SwitchNode,
+  ThisNode,
+  TryCatchNode,
+  TypeAliasNode,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+} from "./interpreter";
+import type {
+  ClassField,
+  ClassMethod,
+  ImportBinding,
+  MatchArm,
+  Pattern,
+  Type,
+  varTypes,
+} from "./interpreter";
+import { IntrearSyntaxError, formatLocation } from "./errors";
+import { Lexer } from "./lexer";
+import type { Token } from "./lexer";
+
+// Thrown by `parse()`; `diagnostics` holds every syntax error found.
+export class ParseError extends IntrearSyntaxError {
+  name = "ParseError";
+
+  constructor(public diagnostics: IntrearSyntaxError[]) {
+    super(
+      "SYNTAX",
+      diagnostics
+        .map((d) => `${formatLocation(d.span!)} ${d.message}`)
+        .join("\n"),
+      { span: diagnostics[0]?.span }
+    );
+  }
+}
+
+// Thrown internally to unwind to the nearest statement boundary.
+class Bailout {}
+
+// Binding strength of each binary operator; higher binds tighter.
+export const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "===": 3,
+  "!=": 3,
+  "!==": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "><": 5,
+  concat: 5,
+  "*": 6,
+  "/": 6,
+  "//": 6,
+};
+
+// `value as Type` and `value is Type` bind like comparisons.
+export const TYPE_OPERATOR_PRECEDENCE = 4;
+
+// Source spellings that map onto the operator names `OperatorNode` executes.
+const OPERATOR_ALIASES: Record<string, string> = {
+  "===": "==",
+  "!=": "!==",
+};
+
+const STATEMENT_KEYWORDS = new Set([
+  "let",
+  "function",
+  "pure",
+  "async",
+  "class",
+  "import",
+  "export",
+  "return",
+  "if",
+  "while",
+  "do",
+  "for",
+  "switch",
+  "break",
+  "continue",
+  "try",
+  "throw",
+]);
+
+const PRIMITIVE_TYPES = new Set([
+  "number",
+  "string",
+  "boolean",
+  "null",
+  "undefined",
+  "bigint",
+  "symbol",
+  "void",
+  "any",
+]);
+
+const VAR_TYPE_TAGS = new Set(["function", "array", "object", "pointer"]);
+
+// ---------------------------------------------------
+// Parser - Tokens to ASTNode[]
+// ---------------------------------------------------
+export class Parser {
+  private tokens: Token[];
+  private pos = 0;
+  // Index of the `=>` ending the match arm guard being parsed, which must
+  // not be taken for an arrow function.
+  private armArrow = -1;
+  // Type parameters in scope, e.g. `T` inside `function f<T>(x: T)`.
+  private typeParams: string[] = [];
+  public diagnostics: IntrearSyntaxError[];
+
+  constructor(source: string, private file?: string) {
+    const lexer = new Lexer(source, file);
+    this.tokens = lexer.tokenize();
+    this.diagnostics = [...lexer.diagnostics];
+  }
+
+  public parseProgram(): ASTNode[] {
+    const body: ASTNode[] = [];
+    while (!this.isAtEnd()) {
+      if (this.checkPunct("}")) {
+        this.report("Unexpected '}'", this.advance());
+        continue;
+      }
+      const stmt = this.parseStatementSafely();
+      if (stmt) body.push(stmt);
+    }
+    this.diagnostics.sort(
+      (a, b) => a.span!.start.offset - b.span!.start.offset
+    );
+    return body;
+  }
+
+  // ---------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------
+  private peek(offset = 0): Token {
+    return (
+      this.tokens[this.pos + offset] ?? this.tokens[this.tokens.length - 1]!
+    );
+  }
+
+  private previous(): Token {
+    return this.tokens[this.pos - 1] ?? this.peek();
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (!this.isAtEnd()) this.pos++;
+    return token;
+  }
+
+  private isAtEnd(): boolean {
+    return this.peek().kind === "eof";
+  }
+
+  private checkPunct(value: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t.kind === "punct" && t.value === value;
+  }
+
+  private checkKeyword(value: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t.kind === "keyword" && t.value === value;
+  }
+
+  private matchPunct(value: string): boolean {
+    if (!this.checkPunct(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchKeyword(value: string): boolean {
+    if (!this.checkKeyword(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectPunct(value: string, context: string): Token {
+    if (this.checkPunct(value)) return this.advance();
+    return this.error(`Expected '${value}' ${context}`);
+  }
+
+  private expectKeyword(value: string, context: string): Token {
+    if (this.checkKeyword(value)) return this.advance();
+    return this.error(`Expected '${value}' ${context}`);
+  }
+
+  private expectIdentifier(what: string): string {
+    const t = this.peek();
+    if (t.kind === "identifier") return this.advance().value;
+    return this.error(`Expected ${what}, got ${describe(t)}`);
+  }
+
+  // Contextual keywords such as `as` and `from` stay usable as names.
+  private checkContextual(word: string): boolean {
+    const t = this.peek();
+    return t.kind === "identifier" && t.value === word;
+  }
+
+  private expectContextual(word: string, context: string) {
+    if (this.checkContextual(word)) return this.advance();
+    return this.error(`Expected '${word}' ${context}`);
+  }
+
+  private report(message: string, token: Token) {
+    this.diagnostics.push(
+      new IntrearSyntaxError("SYNTAX", message, {
+        span: { start: token.start, end: token.end, file: this.file },
+      })
+    );
+  }
+
+  // Records the source span from `start` to the last consumed token, unless
+  // the node already has one (e.g. a parenthesized expression).
+  private finish<T extends ASTNode>(node: T, start: Token): T {
+    node.span ??= {
+      start: start.start,
+      end: this.previous().end,
+      file: this.file,
+    };
+    return node;
+  }
+
+  private error(message: string, token: Token = this.peek()): never {
+    this.report(message, token);
+    throw new Bailout();
+  }
+
+  // Skips tokens until something that plausibly starts a new statement.
+  // Braced regions opened while skipping are skipped as a whole.
+  private synchronize(statementStart: number) {
+    let depth = 0;
+    while (!this.isAtEnd()) {
+      if (this.checkPunct("{")) {
+        depth++;
+      } else if (this.checkPunct("}")) {
+        if (depth === 0) return;
+        this.advance();
+        if (--depth === 0) return;
+        continue;
+      } else if (depth === 0 && this.matchPunct(";")) {
+        return;
+      }
+      const t = this.peek();
+      if (
+        depth === 0 &&
+        t.kind === "keyword" &&
+        STATEMENT_KEYWORDS.has(t.value) &&
+        this.pos !== statementStart
+      ) {
+        return;
+      }
+      this.advance();
+    }
+  }
+
+  private consumeSemicolon() {
+    if (this.matchPunct(";")) return;
+    const next = this.peek();
+    if (
+      this.checkPunct("}") ||
+      next.kind === "eof" ||
+      next.start.line > this.previous().end.line
+    ) {
+      return;
+    }
+    this.error(`Expected ';' after statement, got ${describe(next)}`);
+  }
+
+  // ---------------------------------------------------
+  // Statements
+  // ---------------------------------------------------
+  private parseStatementSafely(): ASTNode | null {
+    const start = this.pos;
+    try {
+      return this.parseStatement();
+    } catch (e) {
+      if (!(e instanceof Bailout)) throw e;
+      this.synchronize(start);
+      return null;
+    }
+  }
+
+  private parseStatement(): ASTNode {
+    const start = this.peek();
+    return this.finish(this.parseStatementKind(), start);
+  }
+
+  private parseStatementKind(): ASTNode {
+    const t = this.peek();
+    if (t.kind === "keyword") {
+      switch (t.value) {
+        case "let":
+          return this.parseLet(true);
+        case "pure":
+          return this.parseFunctionDeclaration();
+        case "async":
+          if (
+            this.checkKeyword("pure", 1) ||
+            (this.checkKeyword("function", 1) &&
+              this.peek(2).kind === "identifier")
+          ) {
+            return this.parseFunctionDeclaration();
+          }
+          break;
+        case "function":
+          if (this.peek(1).kind === "identifier") {
+            return this.parseFunctionDeclaration();
+          }
+          break;
+        case "class":
+          return this.parseClass();
+        case "import":
+          return this.parseImport();
+        case "export":
+          return this.parseExport();
+        case "return":
+          return this.parseReturn();
+        case "if":
+          return this.parseIf();
+        case "while":
+          return this.parseWhile();
+        case "do":
+          return this.parseDoWhile();
+        case "for":
+          return this.parseFor();
+        case "switch":
+          return this.parseSwitch();
+        case "try":
+          return this.parseTryCatch();
+        case "throw": {
+          this.advance();
+          const message = this.parseExpression();
+          this.consumeSemicolon();
+          return new ErrorNode(message);
+        }
+        case "break":
+          this.advance();
+          this.consumeSemicolon();
+          return new BreakNode();
+        case "continue":
+          this.advance();
+          this.consumeSemicolon();
+          return new ContinueNode();
+      }
+    }
+    if (this.checkPunct("{")) {
+      return new BlockNode(this.parseBlock());
+    }
+    // `type` is only a keyword in `type Name = ...`.
+    if (
+      this.checkContextual("type") &&
+      this.peek(1).kind === "identifier" &&
+      this.checkPunct("=", 2)
+    ) {
+      return this.parseTypeAlias();
+    }
+    const expr = this.parseAssignmentOrExpression();
+    this.consumeSemicolon();
+    return expr;
+  }
+
+  private parseBlock(): ASTNode[] {
+    this.expectPunct("{", "to start block");
+    const statements: ASTNode[] = [];
+    while (!this.checkPunct("}") && !this.isAtEnd()) {
+      const stmt = this.parseStatementSafely();
+      if (stmt) statements.push(stmt);
+    }
+    this.expectPunct("}", "to close block");
+    return statements;
+  }
+
+  // A braced block or a single statement, e.g. the body of `if`.
+  private parseBody(): ASTNode[] {
+    if (this.checkPunct("{")) return this.parseBlock();
+    return [this.parseStatement()];
+  }
+
+  private parseLet(terminated: boolean): ASTNode {
+    const start = this.advance();
+    const name = this.expectIdentifier("variable name");
+    let varType: varTypes | null = null;
+    let declaredType: Type | undefined;
+    if (this.matchPunct(":")) {
+      ({ varType, declaredType } = this.parseVarTypeAnnotation());
+    }
+    this.expectPunct("=", `in declaration of '${name}'`);
+    const expression = this.parseExpression();
+    const node = this.finish(
+      new VariableDeclarationNode(
+        varType ?? inferVarType(expression),
+        name,
+        expression,
+        declaredType
+      ),
+      start
+    );
+    if (terminated) this.consumeSemicolon();
+    return node;
+  }
+
+  private parseTypeAlias(): ASTNode {
+    this.advance();
+    const name = this.expectIdentifier("type name");
+    this.expectPunct("=", `in type alias '${name}'`);
+    const type = this.parseType();
+    this.consumeSemicolon();
+    return new TypeAliasNode(name, type);
+  }
+
+  private parseFunctionDeclaration(): ASTNode {
+    const fn = this.parseFunction(true);
+    return new VariableDeclarationNode("function", fn.name!, fn);
+  }
+
+  private parseFunction(requireName: boolean): FunctionLiteralNode {
+    const start = this.peek();
+    const isAsync = this.matchKeyword("async");
+    const pure = this.matchKeyword("pure");
+    this.expectKeyword("function", "to start function");
+    let name: string | null = null;
+    if (this.peek().kind === "identifier") {
+      name = this.advance().value;
+    } else if (requireName) {
+      this.error(`Expected function name, got ${describe(this.peek())}`);
+    }
+    return this.parseFunctionRest(start, name, pure, isAsync);
+  }
+
+  // Parameters, return type and body; shared by functions and methods.
+  private parseFunctionRest(
+    start: Token,
+    name: string | null,
+    pure: boolean,
+    isAsync: boolean
+  ): FunctionLiteralNode {
+    const outer = this.typeParams;
+    const typeParams = this.checkPunct("<")
+      ? this.parseTypeParams()
+      : undefined;
+    try {
+      const { names, types } = this.parseParameterList();
+      let returnType: Type | undefined;
+      if (this.matchPunct(":")) returnType = this.parseType();
+      const body = this.parseBlock();
+      return this.finish(
+        new FunctionLiteralNode(
+          name,
+          names,
+          body,
+          types,
+          returnType,
+          pure,
+          isAsync,
+          typeParams
+        ),
+        start
+      );
+    } finally {
+      this.typeParams = outer;
+    }
+  }
+
+  // `<T, U>`; brings the names into scope for the caller to restore.
+  private parseTypeParams(): string[] {
+    this.expectPunct("<", "to start type parameters");
+    const names: string[] = [];
+    do {
+      names.push(this.expectIdentifier("type parameter name"));
+    } while (this.matchPunct(","));
+    this.expectPunct(">", "to close type parameters");
+    this.typeParams = [...this.typeParams, ...names];
+    return names;
+  }
+
+  private parseParameterList(): { names: string[]; types?: Type[] } {
+    this.expectPunct("(", "to start parameter list");
+    const names: string[] = [];
+    const types: Type[] = [];
+    let typed = false;
+    if (!this.checkPunct(")")) {
+      do {
+        names.push(this.expectIdentifier("parameter name"));
+        if (this.matchPunct(":")) {
+          types.push(this.parseType());
+          typed = true;
+        } else {
+          types.push("any");
+        }
+      } while (this.matchPunct(","));
+    }
+    this.expectPunct(")", "to close parameter list");
+    return { names, types: typed ? types : undefined };
+  }
+
+  // class Name extends Base {
+  //   [static] field[: Type] [= value];
+  //   constructor(params) { ... }
+  //   [static] [async] method(params)[: Type] { ... }
+  // }
+  private parseClass(): ClassDeclarationNode {
+    this.advance();
+    const name = this.expectIdentifier("class name");
+    let superClass: string | null = null;
+    if (this.checkContextual("extends")) {
+      this.advance();
+      superClass = this.expectIdentifier("superclass name");
+    }
+    this.expectPunct("{", `to start body of class '${name}'`);
+    const fields: ClassField[] = [];
+    const methods: ClassMethod[] = [];
+    let constructorFn: FunctionLiteralNode | undefined;
+    while (!this.checkPunct("}") && !this.isAtEnd()) {
+      const start = this.peek();
+      // `static` is only a modifier when a member name follows it.
+      const isStatic =
+        this.checkContextual("static") &&
+        (this.peek(1).kind === "identifier" || this.peek(1).kind === "keyword");
+      if (isStatic) this.advance();
+      const isAsync = this.matchKeyword("async");
+      const member = this.expectIdentifier("member name");
+      if (this.checkPunct("(")) {
+        const fn = this.parseFunctionRest(
+          start,
+          `${name}.${member}`,
+          false,
+          isAsync
+        );
+        if (member === "constructor" && !isStatic) {
+          if (isAsync) this.error("A constructor cannot be async", start);
+          constructorFn = fn;
+        } else {
+          methods.push({ name: member, fn, isStatic });
+        }
+        continue;
+      }
+      if (isAsync) this.error(`Expected '(' after async method '${member}'`);
+      const type = this.matchPunct(":") ? this.parseType() : undefined;
+      const initializer = this.matchPunct("=")
+        ? this.parseExpression()
+        : undefined;
+      this.consumeSemicolon();
+      fields.push({ name: member, type, initializer, isStatic });
+    }
+    this.expectPunct("}", `to close class '${name}'`);
+    return new ClassDeclarationNode(
+      name,
+      superClass,
+      fields,
+      methods,
+      constructorFn
+    );
+  }
+
+  // import { a, b as c } from "mod";  |  import * as ns from "mod";
+  private parseImport(): ASTNode {
+    this.advance();
+    const bindings: ImportBinding[] = [];
+    let namespace: string | undefined;
+    if (this.matchPunct("*")) {
+      this.expectContextual("as", "after 'import *'");
+      namespace = this.expectIdentifier("namespace name");
+    } else {
+      this.expectPunct("{", "after 'import'");
+      while (!this.checkPunct("}")) {
+        const name = this.expectIdentifier("imported name");
+        if (this.checkContextual("as")) {
+          this.advance();
+          bindings.push({ name, as: this.expectIdentifier("local name") });
+        } else {
+          bindings.push({ name });
+        }
+        if (!this.matchPunct(",")) break;
+      }
+      this.expectPunct("}", "to close import list");
+    }
+    this.expectContextual("from", "after import list");
+    const source = this.peek();
+    if (source.kind !== "string") {
+      this.error(`Expected module name string, got ${describe(source)}`);
+    }
+    this.advance();
+    this.consumeSemicolon();
+    return new ImportNode(source.value, bindings, namespace);
+  }
+
+  private parseExport(): ASTNode {
+    this.advance();
+    const start = this.peek();
+    let declaration: ASTNode;
+    if (this.checkKeyword("let")) {
+      declaration = this.parseLet(true);
+    } else if (
+      this.checkKeyword("function") ||
+      this.checkKeyword("pure") ||
+      this.checkKeyword("async")
+    ) {
+      declaration = this.parseFunctionDeclaration();
+    } else if (this.checkKeyword("class")) {
+      declaration = this.parseClass();
+    } else {
+      return this.error(
+        `Expected declaration after 'export', got ${describe(this.peek())}`
+      );
+    }
+    this.finish(declaration, start);
+    return new ExportNode(
+      declaration as VariableDeclarationNode | ClassDeclarationNode
+    );
+  }
+
+  private parseReturn(): ASTNode {
+    const keyword = this.advance();
+    const next = this.peek();
+    if (
+      this.checkPunct(";") ||
+      this.checkPunct("}") ||
+      next.kind === "eof" ||
+      next.start.line > keyword.end.line
+    ) {
+      this.matchPunct(";");
+      return new ReturnNode(new LiteralNode(undefined));
+    }
+    const value = this.parseExpression();
+    this.consumeSemicolon();
+    return new ReturnNode(value);
+  }
+
+  private parseCondition(keyword: string): ASTNode {
+    this.expectPunct("(", `after '${keyword}'`);
+    const condition = this.parseExpression();
+    this.expectPunct(")", `to close '${keyword}' condition`);
+    return condition;
+  }
+
+  private parseIf(): ASTNode {
+    this.advance();
+    const condition = this.parseCondition("if");
+    const thenBranch = this.parseBody();
+    let elseBranch: ASTNode[] | undefined;
+    if (this.matchKeyword("else")) {
+      elseBranch = this.checkKeyword("if")
+        ? [this.parseStatement()]
+        : this.parseBody();
+    }
+    return new IfNode(condition, thenBranch, elseBranch);
+  }
+
+  private parseWhile(): ASTNode {
+    this.advance();
+    const condition = this.parseCondition("while");
+    return new WhileNode(condition, this.parseBody());
+  }
+
+  private parseDoWhile(): ASTNode {
+    this.advance();
+    const body = this.parseBody();
+    this.expectKeyword("while", "after 'do' body");
+    const condition = this.parseCondition("while");
+    this.consumeSemicolon();
+    return new DoWhileNode(body, condition);
+  }
+
+  private parseFor(): ASTNode {
+    this.advance();
+    this.expectPunct("(", "after 'for'");
+
+    const letOffset = this.checkKeyword("let") ? 1 : 0;
+    if (
+      this.peek(letOffset).kind === "identifier" &&
+      this.checkKeyword("of", letOffset + 1)
+    ) {
+      if (letOffset) this.advance();
+      const itemName = this.advance().value;
+      this.advance();
+      const iterable = this.parseExpression();
+      this.expectPunct(")", "to close 'for' header");
+      return new ForEachNode(itemName, iterable, this.parseBody());
+    }
+
+    const init = this.checkPunct(";")
+      ? new LiteralNode(undefined)
+      : this.checkKeyword("let")
+      ? this.parseLet(false)
+      : this.parseAssignmentOrExpression();
+    this.expectPunct(";", "after 'for' initializer");
+    const condition = this.checkPunct(";")
+      ? new LiteralNode(true)
+      : this.parseExpression();
+    this.expectPunct(";", "after 'for' condition");
+    const update = this.checkPunct(")")
+      ? new LiteralNode(undefined)
+      : this.parseAssignmentOrExpression();
+    this.expectPunct(")", "to close 'for' header");
+    return new ForNode(init, condition, update, this.parseBody());
+  }
+
+  private parseSwitch(): ASTNode {
+    this.advance();
+    const expression = this.parseCondition("switch");
+    this.expectPunct("{", "to start 'switch' body");
+    const cases: { match: ASTNode; body: ASTNode[] }[] = [];
+    let defaultCase: ASTNode[] | undefined;
+    while (!this.checkPunct("}") && !this.isAtEnd()) {
+      if (this.matchKeyword("case")) {
+        const match = this.parseExpression();
+        this.expectPunct(":", "after case value");
+        cases.push({ match, body: this.parseCaseBody() });
+      } else if (this.checkKeyword("default")) {
+        const keyword = this.advance();
+        this.expectPunct(":", "after 'default'");
+        if (defaultCase) this.report("Duplicate 'default' case", keyword);
+        defaultCase = this.parseCaseBody();
+      } else {
+        this.error(
+          `Expected 'case' or 'default', got ${describe(this.peek())}`
+        );
+      }
+    }
+    this.expectPunct("}", "to close 'switch' body");
+    return new SwitchNode(expression, cases, defaultCase);
+  }
+
+  private parseCaseBody(): ASTNode[] {
+    const body: ASTNode[] = [];
+    while (
+      !this.checkKeyword("case") &&
+      !this.checkKeyword("default") &&
+      !this.checkPunct("}") &&
+      !this.isAtEnd()
+    ) {
+      const stmt = this.parseStatementSafely();
+      if (stmt) body.push(stmt);
+    }
+    return body;
+  }
+
+  private parseTryCatch(): ASTNode {
+    this.advance();
+    const tryBlock = this.parseBlock();
+    this.expectKeyword("catch", "after 'try' block");
+    this.expectPunct("(", "after 'catch'");
+    const catchVar = this.expectIdentifier("catch variable name");
+    this.expectPunct(")", "after catch variable");
+    return new TryCatchNode(tryBlock, catchVar, this.parseBlock());
+  }
+
+  private parseAssignmentOrExpression(): ASTNode {
+    const start = this.peek();
+    const target = this.parseExpression();
+    if (!this.checkPunct("=")) return target;
+    const eq = this.advance();
+    const value = this.parseAssignmentOrExpression();
+    return this.finish(this.makeAssignment(target, value, eq), start);
+  }
+
+  private makeAssignment(target: ASTNode, value: ASTNode, eq: Token): ASTNode {
+    if (target instanceof VariableReferenceNode) {
+      return new AssignmentNode(target.name, value);
+    }
+    if (target instanceof IndexAccessNode) {
+      return new IndexAssignmentNode(target.array, target.index, value);
+    }
+    if (target instanceof DereferenceNode) {
+      return new PointerAssignmentNode(target.ptrExpr, value);
+    }
+    if (target instanceof PropertyAccessNode) {
+      // There is no dedicated property assignment node; writing through a
+      // reference to the property has the same effect.
+      const ref = new AddressOfNode(target);
+      ref.span = target.span;
+      return new PointerAssignmentNode(ref, value);
+    }
+    return this.error("Invalid assignment target", eq);
+  }
+
+  // ---------------------------------------------------
+  // Types
+  // ---------------------------------------------------
+  // The runtime tag of a `let` annotation, plus the full type when the tag
+  // alone would lose information.
+  private parseVarTypeAnnotation(): {
+    varType: varTypes;
+    declaredType?: Type;
+  } {
+    const t = this.peek();
+    if (
+      (t.kind === "identifier" || t.kind === "keyword") &&
+      VAR_TYPE_TAGS.has(t.value)
+    ) {
+      this.advance();
+      return { varType: t.value as varTypes };
+    }
+    const type = this.parseType();
+    if (typeof type === "string") return { varType: type };
+    switch (type.kind) {
+      case "function":
+      case "array":
+      case "object":
+      case "pointer":
+      case "promise":
+        return { varType: type.kind, declaredType: type };
+      default:
+        // Aliases and class names are only known to the type checker.
+        return { varType: "any", declaredType: type };
+    }
+  }
+
+  // `A | B`; `[]` binds tighter, so `string | number[]` has one array.
+  private parseType(): Type {
+    const types = [this.parseArrayType()];
+    while (this.matchPunct("|")) types.push(this.parseArrayType());
+    return types.length === 1 ? types[0]! : { kind: "union", types };
+  }
+
+  private parseArrayType(): Type {
+    let type = this.parsePrimaryType();
+    while (this.checkPunct("[") && this.checkPunct("]", 1)) {
+      this.advance();
+      this.advance();
+      type = { kind: "array", elementType: type };
+    }
+    return type;
+  }
+
+  private parsePrimaryType(): Type {
+    // A generic function type: `<T>(xs: T[], f: (T) => boolean) => T[]`.
+    if (this.checkPunct("<")) {
+      const outer = this.typeParams;
+      try {
+        const typeParams = this.parseTypeParams();
+        const start = this.peek();
+        const fnType = this.checkPunct("(") ? this.parsePrimaryType() : null;
+        if (typeof fnType !== "object" || fnType?.kind !== "function") {
+          return this.error("Expected a function type after <...>", start);
+        }
+        return { ...fnType, typeParams };
+      } finally {
+        this.typeParams = outer;
+      }
+    }
+
+    if (this.matchPunct("(")) {
+      const paramTypes: Type[] = [];
+      let named = false;
+      if (!this.checkPunct(")")) {
+        do {
+          // Parameter names are optional and only document the type.
+          if (this.peek().kind === "identifier" && this.checkPunct(":", 1)) {
+            this.advance();
+            this.advance();
+            named = true;
+          }
+          paramTypes.push(this.parseType());
+        } while (this.matchPunct(","));
+      }
+      this.expectPunct(")", "to close function type parameters");
+      // A parenthesized type, e.g. `(() => void) | null`.
+      if (paramTypes.length === 1 && !named && !this.checkPunct("=>")) {
+        return paramTypes[0]!;
+      }
+      this.expectPunct("=>", "in function type");
+      return { kind: "function", paramTypes, returnType: this.parseType() };
+    }
+
+    if (this.matchPunct("{")) {
+      const properties: Record<string, Type> = {};
+      const optional: string[] = [];
+      while (!this.checkPunct("}")) {
+        const key = this.parsePropertyName();
+        if (this.matchPunct("?")) optional.push(key);
+        this.expectPunct(":", `after property '${key}'`);
+        properties[key] = this.parseType();
+        if (!this.matchPunct(",") && !this.matchPunct(";")) break;
+      }
+      this.expectPunct("}", "to close object type");
+      return optional.length > 0
+        ? { kind: "object", properties, optional }
+        : { kind: "object", properties };
+    }
+
+    // Literal types: "up", 42, -1, true, false.
+    const negative = this.checkPunct("-") && this.peek(1).kind === "number";
+    if (negative) this.advance();
+    const literal = this.peek();
+    if (literal.kind === "number") {
+      this.advance();
+      const value = Number(literal.value);
+      return { kind: "literal", value: negative ? -value : value };
+    }
+    if (literal.kind === "string") {
+      this.advance();
+      return { kind: "literal", value: literal.value };
+    }
+    if (this.matchKeyword("true")) return { kind: "literal", value: true };
+    if (this.matchKeyword("false")) return { kind: "literal", value: false };
+
+    const t = this.peek();
+    if (t.kind !== "identifier" && t.kind !== "keyword") {
+      return this.error(`Expected type, got ${describe(t)}`);
+    }
+    this.advance();
+    if (PRIMITIVE_TYPES.has(t.value)) return t.value as Type;
+    if (
+      t.value === "Array" ||
+      t.value === "Pointer" ||
+      t.value === "Promise"
+    ) {
+      this.expectPunct("<", `after '${t.value}'`);
+      const inner = this.parseType();
+      this.expectPunct(">", `to close '${t.value}<...>'`);
+      if (t.value === "Array") return { kind: "array", elementType: inner };
+      if (t.value === "Pointer") return { kind: "pointer", to: inner };
+      return { kind: "promise", of: inner };
+    }
+    if (this.typeParams.includes(t.value)) {
+      return { kind: "typevar", name: t.value };
+    }
+    if (t.kind === "identifier") {
+      // A type alias or class name, told apart by the type checker.
+      return { kind: "named", name: t.value };
+    }
+    return this.error(`Unknown type '${t.value}'`, t);
+  }
+
+  // ---------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------
+  public parseExpression(): ASTNode {
+    return this.parseBinary(1);
+  }
+
+  private parseBinary(minPrecedence: number): ASTNode {
+    const start = this.peek();
+    let left = this.parseUnary();
+    while (true) {
+      if (
+        (this.checkContextual("as") || this.checkContextual("is")) &&
+        TYPE_OPERATOR_PRECEDENCE >= minPrecedence
+      ) {
+        const word = this.advance().value;
+        const type = this.parseType();
+        left = this.finish(
+          word === "as" ? new AsNode(left, type) : new IsNode(left, type),
+          start
+        );
+        continue;
+      }
+      const t = this.peek();
+      const op =
+        t.kind === "punct" || (t.kind === "keyword" && t.value === "concat")
+          ? t.value
+          : null;
+      const precedence = op ? BINARY_PRECEDENCE[op] : undefined;
+      if (!op || precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.advance();
+      const right = this.parseBinary(precedence + 1);
+      left = this.finish(
+        new OperatorNode(OPERATOR_ALIASES[op] ?? op, [left, right]),
+        start
+      );
+    }
+  }
+
+  private parseUnary(): ASTNode {
+    const start = this.peek();
+    if (this.matchPunct("-")) {
+      const operand = this.parseUnary();
+      if (
+        operand instanceof LiteralNode &&
+        (typeof operand.value === "number" || typeof operand.value === "bigint")
+      ) {
+        return this.finish(new LiteralNode(-operand.value), start);
+      }
+      return this.finish(
+        new OperatorNode("-", [new LiteralNode(0), operand]),
+        start
+      );
+    }
+    if (this.matchPunct("!")) {
+      const operand = this.parseUnary();
+      return this.finish(
+        new OperatorNode("==", [operand, new LiteralNode(false)]),
+        start
+      );
+    }
+    if (this.matchPunct("&")) {
+      return this.finish(new AddressOfNode(this.parseUnary()), start);
+    }
+    if (this.matchPunct("*")) {
+      return this.finish(new DereferenceNode(this.parseUnary()), start);
+    }
+    if (this.matchKeyword("await")) {
+      return this.finish(new AwaitNode(this.parseUnary()), start);
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ASTNode {
+    const start = this.peek();
+    const base = this.parsePostfix();
+    if (this.matchPunct("^")) {
+      const exponent = this.parseUnary();
+      return this.finish(new OperatorNode("^", [base, exponent]), start);
+    }
+    return base;
+  }
+
+  private parsePostfix(): ASTNode {
+    const start = this.peek();
+    let expr = this.parsePrimary();
+    while (true) {
+      if (this.checkPunct("(")) {
+        const open = this.peek();
+        const args = this.parseArguments();
+        if (expr instanceof VariableReferenceNode) {
+          expr = this.finish(new FunctionCallNode(expr.name, args), start);
+        } else if (
+          expr instanceof PropertyAccessNode &&
+          typeof expr.property === "string"
+        ) {
+          expr = this.finish(
+            new MethodCallNode(expr.object, expr.property, args),
+            start
+          );
+        } else {
+          this.error("Only named functions and methods can be called", open);
+        }
+      } else if (this.matchPunct(".")) {
+        const property = this.parsePropertyName();
+        expr = this.finish(new PropertyAccessNode(expr, property), start);
+      } else if (this.matchPunct("[")) {
+        const index = this.parseExpression();
+        this.expectPunct("]", "to close index");
+        expr = this.finish(
+          index instanceof LiteralNode && typeof index.value === "string"
+            ? new PropertyAccessNode(expr, index.value)
+            : new IndexAccessNode(expr, index),
+          start
+        );
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseArguments(): ASTNode[] {
+    this.expectPunct("(", "to start arguments");
+    const args: ASTNode[] = [];
+    while (!this.checkPunct(")")) {
+      args.push(this.parseExpression());
+      if (!this.matchPunct(",")) break;
+    }
+    this.expectPunct(")", "to close arguments");
+    return args;
+  }
+
+  private parsePropertyName(): string {
+    const t = this.peek();
+    if (
+      t.kind === "identifier" ||
+      t.kind === "keyword" ||
+      t.kind === "string" ||
+      t.kind === "number"
+    ) {
+      return this.advance().value;
+    }
+    return this.error(`Expected property name, got ${describe(t)}`);
+  }
+
+  private parsePrimary(): ASTNode {
+    const t = this.peek();
+    const node = this.parsePrimaryKind();
+    return this.finish(node, t);
+  }
+
+  private parsePrimaryKind(): ASTNode {
+    const t = this.peek();
+    switch (t.kind) {
+      case "number":
+        this.advance();
+        return new LiteralNode(Number(t.value));
+      case "bigint":
+        this.advance();
+        return new LiteralNode(BigInt(t.value));
+      case "string":
+        this.advance();
+        return new LiteralNode(t.value);
+      case "identifier":
+        if (this.checkPunct("=>", 1) && this.pos + 1 !== this.armArrow) {
+          return this.parseArrow();
+        }
+        this.advance();
+        return new VariableReferenceNode(t.value);
+      case "keyword":
+        switch (t.value) {
+          case "true":
+            this.advance();
+            return new LiteralNode(true);
+          case "false":
+            this.advance();
+            return new LiteralNode(false);
+          case "null":
+            this.advance();
+            return new LiteralNode(null);
+          case "undefined":
+            this.advance();
+            return new LiteralNode(undefined);
+          case "this":
+            this.advance();
+            return new ThisNode();
+          case "match":
+            return this.parseMatch();
+          case "new": {
+            this.advance();
+            const className = this.expectIdentifier("class name after 'new'");
+            return new NewNode(className, this.parseArguments());
+          }
+          case "super": {
+            this.advance();
+            const method = this.matchPunct(".")
+              ? this.expectIdentifier("method name after 'super.'")
+              : null;
+            return new SuperCallNode(method, this.parseArguments());
+          }
+          case "function":
+          case "pure":
+            return this.parseFunction(false);
+          case "async":
+            if (
+              this.checkKeyword("function", 1) ||
+              this.checkKeyword("pure", 1)
+            ) {
+              return this.parseFunction(false);
+            }
+            return this.parseArrow();
+        }
+        break;
+      case "punct":
+        if (t.value === "(") {
+          if (this.isArrowAhead()) return this.parseArrow();
+          this.advance();
+          const inner = this.parseExpression();
+          this.expectPunct(")", "to close parenthesized expression");
+          return inner;
+        }
+        if (t.value === "[") return this.parseArrayLiteral();
+        if (t.value === "{") return this.parseObjectLiteral();
+        break;
+    }
+    return this.error(`Unexpected ${describe(t)}`);
+  }
+
+  // Looks past the balanced parentheses at the cursor for a `=>`.
+  private isArrowAhead(): boolean {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const t = this.tokens[i]!;
+      if (t.kind === "eof") return false;
+      if (t.kind !== "punct") continue;
+      if (t.value === "(") depth++;
+      if (t.value === ")" && --depth === 0) {
+        const next = this.tokens[i + 1];
+        return (
+          next?.kind === "punct" &&
+          next.value === "=>" &&
+          i + 1 !== this.armArrow
+        );
+      }
+    }
+    return false;
+  }
+
+  private parseArrow(): ASTNode {
+    const start = this.peek();
+    const isAsync = this.matchKeyword("async");
+    let names: string[];
+    let types: Type[] | undefined;
+    if (this.peek().kind === "identifier") {
+      names = [this.advance().value];
+    } else {
+      ({ names, types } = this.parseParameterList());
+    }
+    this.expectPunct("=>", "in arrow function");
+    let body: ASTNode;
+    if (this.checkPunct("{")) {
+      const blockStart = this.peek();
+      body = this.finish(new BlockNode(this.parseBlock()), blockStart);
+    } else {
+      body = this.parseExpression();
+    }
+    return this.finish(
+      new ArrowFunctionNode(names, body, isAsync, types),
+      start
+    );
+  }
+
+  // match (value) {
+  //   pattern [if guard] => expression,
+  //   pattern [if guard] => { statements }
+  // }
+  private parseMatch(): ASTNode {
+    this.advance();
+    this.expectPunct("(", "after 'match'");
+    const subject = this.parseExpression();
+    this.expectPunct(")", "to close match subject");
+    this.expectPunct("{", "to start match arms");
+    const arms: MatchArm[] = [];
+    while (!this.checkPunct("}") && !this.isAtEnd()) {
+      const pattern = this.parsePattern();
+      let guard: ASTNode | undefined;
+      if (this.matchKeyword("if")) {
+        const outer = this.armArrow;
+        this.armArrow = this.findArmArrow();
+        try {
+          guard = this.parseExpression();
+        } finally {
+          this.armArrow = outer;
+        }
+      }
+      this.expectPunct("=>", "after match pattern");
+      if (this.checkPunct("{")) {
+        arms.push({ pattern, guard, body: this.parseBlock() });
+        this.matchPunct(",");
+        continue;
+      }
+      arms.push({ pattern, guard, body: [this.parseExpression()] });
+      if (!this.matchPunct(",")) break;
+    }
+    this.expectPunct("}", "to close match");
+    return new MatchNode(subject, arms);
+  }
+
+  // The first `=>` outside any brackets from the cursor on.
+  private findArmArrow(): number {
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const t = this.tokens[i]!;
+      if (t.kind === "eof") break;
+      if (t.kind !== "punct") continue;
+      if (t.value === "(" || t.value === "[" || t.value === "{") depth++;
+      if (t.value === ")" || t.value === "]" || t.value === "}") depth--;
+      if (t.value === "=>" && depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private parsePattern(): Pattern {
+    const t = this.peek();
+    if (this.matchPunct("[")) {
+      const elements: Pattern[] = [];
+      let rest: string | undefined;
+      while (!this.checkPunct("]")) {
+        if (this.matchPunct("...")) {
+          rest = this.expectIdentifier("rest name");
+          break;
+        }
+        elements.push(this.parsePattern());
+        if (!this.matchPunct(",")) break;
+      }
+      this.expectPunct("]", "to close array pattern");
+      return { kind: "array", elements, rest };
+    }
+    if (this.matchPunct("{")) {
+      const properties: Record<string, Pattern> = {};
+      while (!this.checkPunct("}")) {
+        const keyToken = this.peek();
+        const key = this.parsePropertyName();
+        if (this.matchPunct(":")) {
+          properties[key] = this.parsePattern();
+        } else if (keyToken.kind === "identifier") {
+          properties[key] = { kind: "binding", name: key };
+        } else {
+          this.error(`Expected ':' after property '${key}'`);
+        }
+        if (!this.matchPunct(",")) break;
+      }
+      this.expectPunct("}", "to close object pattern");
+      return { kind: "object", properties };
+    }
+    if (t.kind === "identifier") {
+      this.advance();
+      const name = t.value === "_" ? undefined : t.value;
+      if (this.matchPunct(":")) {
+        return { kind: "type", type: this.parseType(), name };
+      }
+      return name ? { kind: "binding", name } : { kind: "wildcard" };
+    }
+    const literal = this.parseUnary();
+    if (!(literal instanceof LiteralNode)) {
+      return this.error(`Expected pattern, got ${describe(t)}`, t);
+    }
+    return { kind: "literal", value: literal.value };
+  }
+
+  private parseArrayLiteral(): ASTNode {
+    this.advance();
+    const elements: ASTNode[] = [];
+    while (!this.checkPunct("]")) {
+      elements.push(this.parseExpression());
+      if (!this.matchPunct(",")) break;
+    }
+    this.expectPunct("]", "to close array literal");
+    return new ArrayLiteralNode(elements);
+  }
+
+  private parseObjectLiteral(): ASTNode {
+    this.advance();
+    const properties: Record<string, ASTNode> = {};
+    while (!this.checkPunct("}")) {
+      const keyToken = this.peek();
+      const key = this.parsePropertyName();
+      if (this.matchPunct(":")) {
+        properties[key] = this.parseExpression();
+      } else if (keyToken.kind === "identifier") {
+        const ref = new VariableReferenceNode(key);
+        properties[key] = this.finish(ref, keyToken);
+      } else {
+        this.error(`Expected ':' after property '${key}'`);
+      }
+      if (!this.matchPunct(",")) break;
+    }
+    this.expectPunct("}", "to close object literal");
+    return new ObjectLiteralNode(properties);
+  }
+}
+
+function describe(t: Token): string {
+  if (t.kind === "eof") return "end of input";
+  if (t.kind === "string") return "string literal";
+  return `'${t.value}'`;
+}
+
+// The `varType` of a `let` without an annotation.
+export function inferVarType(expression: ASTNode): varTypes {
+  if (
+    expression instanceof FunctionLiteralNode ||
+    expression instanceof ArrowFunctionNode
+  ) {
+    return "function";
+  }
+  if (expression instanceof AddressOfNode) return "pointer";
+  return "any";
+}
+
+export function parse(source: string, file?: string): ASTNode[] {
+  const parser = new Parser(source, file);
+  const nodes = parser.parseProgram();
+  if (parser.diagnostics.length > 0) {
+    throw new ParseError(parser.diagnostics);
+  }
+  return nodes;
+}
@@ -0,0 +1,868 @@
+// ========================================
+// Intrear Printer
+// ========================================
+//
+// Turns ASTs back into Intrear source, e.g. to read a generated tree:
+//
+//   console.log(unparse(nodes));
+//   unparse(nodes, { indent: 4, width: 100 });
+//
+// A program the parser produced prints as source that parses back into an
+// equivalent tree, with only the parentheses precedence requires. Trees
+// with no exact spelling, such as an assignment used as a value, print as
+// close to it as the syntax allows. Lines are kept within `width` where
+// possible: a group, e.g. the arguments of a call, stays on one line when
+// it fits and otherwise puts each item on a line of its own.
+
+import {
+  AddressOfNode,
+  ArrayLiteralNode,
+  ArrowFunctionNode,
+  AsNode,
+  AssignmentNode,
+  AwaitNode,
+  BlockNode,
+  BreakNode,
+  ClassDeclarationNode,
+  ContinueNode,
+  DereferenceNode,
+  DoWhileNode,
+  ErrorNode,
+  ExportNode,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  ImportNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  IsNode,
+  LiteralNode,
+  MatchNode,
+  MethodCallNode,
+  NewNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  ParameterNode,
+  PointerAssignmentNode,
+  PropertyAccessNode,
+  ReturnNode,
+  SignalNode,
+  SuperCallNode,
+  SwitchNode,
+  ThisNode,
+  TryCatchNode,
+  TypeAliasNode,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+  typeToString,
+} from "./interpreter";
+import type { ASTNode, Pattern, Type } from "./interpreter";
+import { KEYWORDS } from "./lexer";
+import {
+  BINARY_PRECEDENCE,
+  TYPE_OPERATOR_PRECEDENCE,
+  inferVarType,
+} from "./parser";
+
+export interface UnparseOptions {
+  // Spaces per level, or the text of one level such as "\t"; 2 by default.
+  indent?: number | string;
+  // The column lines are kept within where possible; 80 by default.
+  width?: number;
+}
+
+// The source of `nodes`, one statement per line.
+export function unparse(
+  nodes: ASTNode[],
+  options: UnparseOptions = {}
+): string {
+  const { indent = 2, width = 80 } = options;
+  if (nodes.length === 0) return "";
+  const unit = typeof indent === "number" ? " ".repeat(indent) : indent;
+  return layout(new Printer().statements(nodes), width, unit) + "\n";
+}
+
+// ---------------------------------------------------
+// Layout - Fitting documents into lines
+// ---------------------------------------------------
+// Text with the places it may break. A group breaks all of its soft lines
+// or none of them, and an indent only applies inside a broken group.
+type Doc =
+  | string
+  | Doc[]
+  | { kind: "group"; contents: Doc; broken: boolean }
+  | { kind: "indent"; contents: Doc }
+  | { kind: "line"; flat: string }
+  | { kind: "hardline" }
+  | { kind: "ifBroken"; text: string };
+
+const line: Doc = { kind: "line", flat: " " };
+const softline: Doc = { kind: "line", flat: "" };
+const hardline: Doc = { kind: "hardline" };
+
+function group(contents: Doc, broken = false): Doc {
+  return { kind: "group", contents, broken };
+}
+
+function indent(contents: Doc): Doc {
+  return { kind: "indent", contents };
+}
+
+// `open item, item close`, or one item per line with a trailing comma
+// where the syntax allows one.
+function list(
+  open: string,
+  items: Doc[],
+  close: string,
+  spaced = false,
+  trailingComma = true
+): Doc {
+  if (items.length === 0) return open + close;
+  const padding = spaced ? line : softline;
+  return group([
+    open,
+    indent([
+      padding,
+      items.map((item, i) => (i > 0 ? [",", line, item] : item)),
+    ]),
+    trailingComma ? { kind: "ifBroken", text: "," } : "",
+    padding,
+    close,
+  ]);
+}
+
+// Statements on lines of their own, in braces.
+function braced(lines: Doc[]): Doc {
+  if (lines.length === 0) return "{}";
+  return group(["{", indent(lines), hardline, "}"], true);
+}
+
+interface Command {
+  indentation: string;
+  flat: boolean;
+  doc: Doc;
+}
+
+function layout(doc: Doc, width: number, unit: string): string {
+  const lines: string[] = [];
+  let current = "";
+  const commands: Command[] = [{ indentation: "", flat: false, doc }];
+  while (commands.length > 0) {
+    const command = commands.pop()!;
+    const { indentation, flat, doc } = command;
+    if (typeof doc === "string") {
+      current += doc;
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        commands.push({ ...command, doc: doc[i]! });
+      }
+    } else if (doc.kind === "group") {
+      const next = { indentation, flat: true, doc: doc.contents };
+      const flatFits =
+        !doc.broken && fits(next, commands, width - current.length);
+      commands.push(flatFits ? next : { ...next, flat: false });
+    } else if (doc.kind === "indent") {
+      commands.push({
+        indentation: flat ? indentation : indentation + unit,
+        flat,
+        doc: doc.contents,
+      });
+    } else if (doc.kind === "ifBroken") {
+      if (!flat) current += doc.text;
+    } else if (doc.kind === "line" && flat) {
+      current += doc.flat;
+    } else {
+      lines.push(current.trimEnd());
+      current = indentation;
+    }
+  }
+  lines.push(current.trimEnd());
+  return lines.join("\n");
+}
+
+// Whether the text up to the next line break takes at most `remaining`
+// columns when `next` is printed flat, followed by the `rest` still to
+// print.
+function fits(next: Command, rest: Command[], remaining: number): boolean {
+  const pending = [next];
+  let restIndex = rest.length;
+  while (remaining >= 0) {
+    const command = pending.pop() ?? rest[--restIndex];
+    if (!command) return true;
+    const { flat, doc } = command;
+    if (typeof doc === "string") {
+      remaining -= doc.length;
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        pending.push({ ...command, doc: doc[i]! });
+      }
+    } else if (doc.kind === "group") {
+      pending.push({ ...command, flat: !doc.broken, doc: doc.contents });
+    } else if (doc.kind === "indent") {
+      pending.push({ ...command, doc: doc.contents });
+    } else if (doc.kind === "ifBroken") {
+      if (!flat) remaining -= doc.text.length;
+    } else if (doc.kind === "line" && flat) {
+      remaining -= doc.flat.length;
+    } else {
+      return true;
+    }
+  }
+  return false;
+}
+
+// The first text `doc` prints.
+function firstText(doc: Doc): string {
+  if (typeof doc === "string") return doc;
+  if (Array.isArray(doc)) {
+    for (const part of doc) {
+      const text = firstText(part);
+      if (text) return text;
+    }
+    return "";
+  }
+  if (doc.kind === "group" || doc.kind === "indent") {
+    return firstText(doc.contents);
+  }
+  return "";
+}
+
+// ---------------------------------------------------
+// Printer - Nodes to documents
+// ---------------------------------------------------
+// How tightly each form binds, around the parser's binary levels: an
+// operand printed at a lower level than its place requires is
+// parenthesized.
+const ARROW = 0;
+const UNARY = 7;
+const POWER = 8;
+const POSTFIX = 9;
+const PRIMARY = 10;
+
+// Expression statements starting like a block or a function declaration
+// are parenthesized.
+const STATEMENT_LOOKALIKE = /^(\{|(async )?(pure\b|function \w))/;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const STATEMENT_CLASSES: Function[] = [
+  VariableDeclarationNode,
+  AssignmentNode,
+  IndexAssignmentNode,
+  PointerAssignmentNode,
+  TypeAliasNode,
+  ReturnNode,
+  BreakNode,
+  ContinueNode,
+  SignalNode,
+  ErrorNode,
+  IfNode,
+  WhileNode,
+  DoWhileNode,
+  ForNode,
+  ForEachNode,
+  SwitchNode,
+  TryCatchNode,
+  ClassDeclarationNode,
+  ImportNode,
+  ExportNode,
+  BlockNode,
+];
+
+function isStatement(node: ASTNode): boolean {
+  return STATEMENT_CLASSES.some((Class) => node instanceof Class);
+}
+
+function isAssignment(node: ASTNode): boolean {
+  return (
+    node instanceof AssignmentNode ||
+    node instanceof IndexAssignmentNode ||
+    node instanceof PointerAssignmentNode
+  );
+}
+
+function isLiteral(node: ASTNode, value: any): boolean {
+  return node instanceof LiteralNode && node.value === value;
+}
+
+// `let f = function f() {...}`, as the parser builds `function f() {...}`.
+function isFunctionDeclaration(node: ASTNode): boolean {
+  return (
+    node instanceof VariableDeclarationNode &&
+    node.varType === "function" &&
+    node.declaredType === undefined &&
+    node.expression instanceof FunctionLiteralNode &&
+    node.expression.name === node.name
+  );
+}
+
+// Declarations with a body, which get blank lines around them.
+function standsApart(node: ASTNode): boolean {
+  if (node instanceof ExportNode) return standsApart(node.declaration);
+  return node instanceof ClassDeclarationNode || isFunctionDeclaration(node);
+}
+
+const ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  '"': '\\"',
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\0": "\\0",
+};
+
+function quote(text: string): string {
+  return `"${text.replace(/[\\"\n\r\t\0]/g, (ch) => ESCAPES[ch]!)}"`;
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+function typeAnnotation(type: Type | undefined): string {
+  return type === undefined ? "" : `: ${typeToString(type)}`;
+}
+
+class Printer {
+  // Statements one per line, with blank lines around declarations with a
+  // body.
+  statements(nodes: ASTNode[]): Doc {
+    return nodes.map((node, i) => {
+      if (i === 0) return this.statement(node);
+      const apart = standsApart(node) || standsApart(nodes[i - 1]!);
+      return [hardline, apart ? hardline : "", this.statement(node)];
+    });
+  }
+
+  private block(nodes: ASTNode[]): Doc {
+    return braced(nodes.length > 0 ? [hardline, this.statements(nodes)] : []);
+  }
+
+  private statement(node: ASTNode): Doc {
+    if (node instanceof VariableDeclarationNode) {
+      if (isFunctionDeclaration(node)) {
+        return this.functionLiteral(node.expression as FunctionLiteralNode);
+      }
+      return [this.declaration(node), ";"];
+    } else if (isAssignment(node)) {
+      return [this.assignment(node), ";"];
+    } else if (node instanceof TypeAliasNode) {
+      return `type ${node.name} = ${typeToString(node.type)};`;
+    } else if (node instanceof ReturnNode) {
+      if (isLiteral(node.expression, undefined)) return "return;";
+      return ["return ", this.expression(node.expression), ";"];
+    } else if (node instanceof BreakNode) {
+      return "break;";
+    } else if (node instanceof ContinueNode) {
+      return "continue;";
+    } else if (node instanceof SignalNode) {
+      return `${node.signal};`;
+    } else if (node instanceof ErrorNode) {
+      return ["throw ", this.expression(node.message), ";"];
+    } else if (node instanceof IfNode) {
+      return this.ifStatement(node);
+    } else if (node instanceof WhileNode) {
+      return [this.condition("while", node.condition), this.block(node.body)];
+    } else if (node instanceof DoWhileNode) {
+      return [
+        "do ",
+        this.block(node.body),
+        " ",
+        this.condition("while", node.condition),
+        ";",
+      ];
+    } else if (node instanceof ForNode) {
+      return this.forStatement(node);
+    } else if (node instanceof ForEachNode) {
+      return [
+        `for (let ${node.itemName} of `,
+        this.expression(node.iterable),
+        ") ",
+        this.block(node.body),
+      ];
+    } else if (node instanceof SwitchNode) {
+      return this.switchStatement(node);
+    } else if (node instanceof TryCatchNode) {
+      return [
+        "try ",
+        this.block(node.tryBlock),
+        ` catch (${node.catchVar}) `,
+        this.block(node.catchBlock),
+      ];
+    } else if (node instanceof ClassDeclarationNode) {
+      return this.classDeclaration(node);
+    } else if (node instanceof ImportNode) {
+      return this.importStatement(node);
+    } else if (node instanceof ExportNode) {
+      return ["export ", this.statement(node.declaration)];
+    } else if (node instanceof BlockNode) {
+      return this.block(node.statements);
+    }
+    const doc = this.expression(node);
+    const lookalike = STATEMENT_LOOKALIKE.test(firstText(doc));
+    return [lookalike ? ["(", doc, ")"] : doc, ";"];
+  }
+
+  // `let name: Type = value`, with the annotation left out when the parser
+  // would infer the same `varType`.
+  private declaration(node: VariableDeclarationNode): Doc {
+    const annotation =
+      node.declaredType !== undefined
+        ? typeAnnotation(node.declaredType)
+        : node.varType !== inferVarType(node.expression)
+        ? `: ${node.varType}`
+        : "";
+    return [
+      `let ${node.name}${annotation} = `,
+      this.expression(node.expression),
+    ];
+  }
+
+  private assignment(node: ASTNode): Doc {
+    let target: Doc;
+    let value: ASTNode;
+    if (node instanceof AssignmentNode) {
+      target = node.name;
+      value = node.expression;
+    } else if (node instanceof IndexAssignmentNode) {
+      target = [
+        this.expression(node.target, POSTFIX),
+        "[",
+        this.expression(node.index),
+        "]",
+      ];
+      value = node.value;
+    } else {
+      const { ptrExpr, valueExpr } = node as PointerAssignmentNode;
+      // The parser writes properties through a pointer to them.
+      target =
+        ptrExpr instanceof AddressOfNode &&
+        ptrExpr.target instanceof PropertyAccessNode
+          ? this.expression(ptrExpr.target, POSTFIX)
+          : ["*", this.expression(ptrExpr, UNARY)];
+      value = valueExpr;
+    }
+    return [
+      target,
+      " = ",
+      isAssignment(value) ? this.assignment(value) : this.expression(value),
+    ];
+  }
+
+  private condition(keyword: string, condition: ASTNode): Doc {
+    return [
+      `${keyword} (`,
+      group([indent([softline, this.expression(condition)]), softline]),
+      ") ",
+    ];
+  }
+
+  private ifStatement(node: IfNode): Doc {
+    const parts = [
+      this.condition("if", node.condition),
+      this.block(node.thenBranch),
+    ];
+    const otherwise = node.elseBranch ?? [];
+    if (otherwise.length === 1 && otherwise[0] instanceof IfNode) {
+      parts.push(" else ", this.ifStatement(otherwise[0]));
+    } else if (otherwise.length > 0) {
+      parts.push(" else ", this.block(otherwise));
+    }
+    return parts;
+  }
+
+  // Parts the parser fills in for an empty clause are left out.
+  private forStatement(node: ForNode): Doc {
+    const clause = (clause: ASTNode): Doc =>
+      clause instanceof VariableDeclarationNode
+        ? this.declaration(clause)
+        : isAssignment(clause)
+        ? this.assignment(clause)
+        : this.expression(clause);
+    const init = isLiteral(node.init, undefined) ? "" : clause(node.init);
+    const condition = isLiteral(node.condition, true)
+      ? ""
+      : [line, this.expression(node.condition)];
+    const update = isLiteral(node.update, undefined)
+      ? ""
+      : [line, clause(node.update)];
+    return [
+      "for (",
+      group([
+        indent([softline, init, ";", condition, ";", update]),
+        softline,
+      ]),
+      ") ",
+      this.block(node.body),
+    ];
+  }
+
+  private switchStatement(node: SwitchNode): Doc {
+    const body = (statements: ASTNode[]): Doc =>
+      statements.length > 0
+        ? indent([hardline, this.statements(statements)])
+        : "";
+    const clauses: Doc[] = node.cases.map(({ match, body: statements }) => [
+      hardline,
+      "case ",
+      this.expression(match),
+      ":",
+      body(statements),
+    ]);
+    if (node.defaultCase) {
+      clauses.push([hardline, "default:", body(node.defaultCase)]);
+    }
+    return [this.condition("switch", node.expression), braced(clauses)];
+  }
+
+  private classDeclaration(node: ClassDeclarationNode): Doc {
+    const members: [Doc, boolean][] = node.fields.map((field) => [
+      [
+        field.isStatic ? "static " : "",
+        field.name,
+        typeAnnotation(field.type),
+        field.initializer ? [" = ", this.expression(field.initializer)] : "",
+        ";",
+      ],
+      false,
+    ]);
+    if (node.constructorFn) {
+      members.push([this.method("constructor", node.constructorFn), true]);
+    }
+    for (const { name, fn, isStatic } of node.methods) {
+      members.push([this.method(name, fn, isStatic), true]);
+    }
+    const extendsClause = node.superClass ? ` extends ${node.superClass}` : "";
+    return [
+      `class ${node.name}${extendsClause} `,
+      braced(
+        members.map(([doc, apart], i) => [
+          hardline,
+          i > 0 && (apart || members[i - 1]![1]) ? hardline : "",
+          doc,
+        ])
+      ),
+    ];
+  }
+
+  private method(name: string, fn: FunctionLiteralNode, isStatic = false): Doc {
+    const modifiers =
+      (isStatic ? "static " : "") + (fn.isAsync ? "async " : "");
+    return [modifiers + name, this.signature(fn), " ", this.block(fn.body)];
+  }
+
+  private importStatement(node: ImportNode): Doc {
+    const imported =
+      node.namespace !== undefined
+        ? `* as ${node.namespace}`
+        : list(
+            "{",
+            node.bindings.map(({ name, as }) =>
+              as !== undefined && as !== name ? `${name} as ${as}` : name
+            ),
+            "}",
+            true
+          );
+    return ["import ", imported, ` from ${quote(node.specifier)};`];
+  }
+
+  // ---------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------
+  // `node`, parenthesized when it binds looser than `min`.
+  private expression(node: ASTNode, min = ARROW): Doc {
+    const [doc, precedence] = this.operand(node);
+    return precedence < min ? ["(", doc, ")"] : doc;
+  }
+
+  private operand(node: ASTNode): [Doc, number] {
+    if (node instanceof LiteralNode) {
+      return this.literal(node.value);
+    } else if (
+      node instanceof VariableReferenceNode ||
+      node instanceof ParameterNode
+    ) {
+      return [node.name, PRIMARY];
+    } else if (node instanceof ThisNode) {
+      return ["this", PRIMARY];
+    } else if (node instanceof OperatorNode) {
+      // The parser reads `!x` as `x == false`.
+      if (node.operator === "==" && isLiteral(node.operands[1], false)) {
+        return [["!", this.expression(node.operands[0], UNARY)], UNARY];
+      }
+      return this.binary(node);
+    } else if (node instanceof AsNode || node instanceof IsNode) {
+      const word = node instanceof AsNode ? "as" : "is";
+      return [
+        [
+          this.expression(node.expression, TYPE_OPERATOR_PRECEDENCE),
+          ` ${word} ${typeToString(node.type)}`,
+        ],
+        TYPE_OPERATOR_PRECEDENCE,
+      ];
+    } else if (node instanceof AddressOfNode) {
+      const target = this.expression(node.target, UNARY);
+      // `& &x` must not read as `&&x`.
+      const glued = firstText(target).startsWith("&");
+      return [["&", glued ? ["(", target, ")"] : target], UNARY];
+    } else if (node instanceof DereferenceNode) {
+      return [["*", this.expression(node.ptrExpr, UNARY)], UNARY];
+    } else if (node instanceof AwaitNode) {
+      return [["await ", this.expression(node.expression, UNARY)], UNARY];
+    } else if (node instanceof FunctionCallNode) {
+      return [[node.functionName, this.argumentList(node.args)], POSTFIX];
+    } else if (node instanceof MethodCallNode) {
+      return [
+        [
+          this.expression(node.target, POSTFIX),
+          this.member(node.methodName),
+          this.argumentList(node.args),
+        ],
+        POSTFIX,
+      ];
+    } else if (node instanceof PropertyAccessNode) {
+      const property =
+        typeof node.property === "string"
+          ? this.member(node.property)
+          : ["[", this.expression(node.property), "]"];
+      return [[this.expression(node.object, POSTFIX), property], POSTFIX];
+    } else if (node instanceof IndexAccessNode) {
+      return [
+        [
+          this.expression(node.array, POSTFIX),
+          "[",
+          this.expression(node.index),
+          "]",
+        ],
+        POSTFIX,
+      ];
+    } else if (node instanceof NewNode) {
+      return [
+        [`new ${node.className}`, this.argumentList(node.args)],
+        PRIMARY,
+      ];
+    } else if (node instanceof SuperCallNode) {
+      const callee = node.methodName ? `super.${node.methodName}` : "super";
+      return [[callee, this.argumentList(node.args)], PRIMARY];
+    } else if (node instanceof ArrayLiteralNode) {
+      const elements = node.elements.map((element) =>
+        this.expression(element)
+      );
+      return [list("[", elements, "]"), PRIMARY];
+    } else if (node instanceof ObjectLiteralNode) {
+      return [this.object(node), PRIMARY];
+    } else if (node instanceof FunctionLiteralNode) {
+      return [this.functionLiteral(node), PRIMARY];
+    } else if (node instanceof ArrowFunctionNode) {
+      return [this.arrow(node), ARROW];
+    } else if (node instanceof MatchNode) {
+      return [this.match(node), PRIMARY];
+    } else if (isAssignment(node)) {
+      return [this.assignment(node), ARROW];
+    }
+    throw new Error(`Cannot print ${node.constructor.name} as an expression`);
+  }
+
+  private literal(value: any): [Doc, number] {
+    if (typeof value === "string") return [quote(value), PRIMARY];
+    if (typeof value === "number") {
+      if (Number.isNaN(value)) return ["0 / 0", BINARY_PRECEDENCE["/"]!];
+      if (!Number.isFinite(value)) {
+        const text = value > 0 ? "1 / 0" : "-1 / 0";
+        return [text, BINARY_PRECEDENCE["/"]!];
+      }
+      if (value < 0 || Object.is(value, -0)) {
+        return [`-${String(-value)}`, UNARY];
+      }
+      return [String(value), PRIMARY];
+    }
+    if (typeof value === "bigint") {
+      return [`${value}n`, value < 0 ? UNARY : PRIMARY];
+    }
+    if (
+      value === null ||
+      value === undefined ||
+      typeof value === "boolean"
+    ) {
+      return [String(value), PRIMARY];
+    }
+    if (Array.isArray(value)) {
+      const elements = value.map((element) => this.literal(element)[0]);
+      return [list("[", elements, "]"), PRIMARY];
+    }
+    const proto = Object.getPrototypeOf(value);
+    if (proto === Object.prototype || proto === null) {
+      const properties = Object.entries(value).map(([key, v]) => [
+        propertyKey(key),
+        ": ",
+        this.literal(v)[0],
+      ]);
+      return [list("{", properties, "}", true), PRIMARY];
+    }
+    throw new Error(
+      `Cannot print the literal ${Object.prototype.toString.call(value)}`
+    );
+  }
+
+  // A same-level chain such as `a >< b >< c` breaks before each operand.
+  private binary(node: OperatorNode): [Doc, number] {
+    const { operator, operands } = node;
+    if (operator === "^") {
+      const [base, exponent] = operands;
+      return [
+        [
+          this.expression(base, POSTFIX),
+          " ^ ",
+          this.expression(exponent, UNARY),
+        ],
+        POWER,
+      ];
+    }
+    const precedence = BINARY_PRECEDENCE[operator];
+    if (precedence === undefined) {
+      throw new Error(`Cannot print the operator '${operator}'`);
+    }
+    const rest: Doc[] = [];
+    let left: ASTNode = node;
+    while (
+      left instanceof OperatorNode &&
+      BINARY_PRECEDENCE[left.operator] === precedence
+    ) {
+      const right = this.expression(left.operands[1], precedence + 1);
+      rest.unshift([" ", left.operator, line, right]);
+      left = left.operands[0];
+    }
+    return [
+      group([this.expression(left, precedence), indent(rest)]),
+      precedence,
+    ];
+  }
+
+  private member(name: string): string {
+    return IDENTIFIER.test(name) ? `.${name}` : `[${quote(name)}]`;
+  }
+
+  private argumentList(args: ASTNode[]): Doc {
+    return list(
+      "(",
+      args.map((arg) => this.expression(arg)),
+      ")"
+    );
+  }
+
+  private object(node: ObjectLiteralNode): Doc {
+    const properties = Object.entries(node.properties).map(([key, value]) =>
+      value instanceof VariableReferenceNode &&
+      value.name === key &&
+      !KEYWORDS.has(key)
+        ? key
+        : [propertyKey(key), ": ", this.expression(value)]
+    );
+    return list("{", properties, "}", true);
+  }
+
+  private functionLiteral(node: FunctionLiteralNode): Doc {
+    const modifiers =
+      (node.isAsync ? "async " : "") + (node.pure ? "pure " : "");
+    return [
+      `${modifiers}function ${node.name ?? ""}`,
+      this.signature(node),
+      " ",
+      this.block(node.body),
+    ];
+  }
+
+  // `<T>(x: T, y): Type`.
+  private signature(node: FunctionLiteralNode): Doc {
+    return [
+      node.typeParams ? `<${node.typeParams.join(", ")}>` : "",
+      this.parameters(node.params, node.declaredParamTypes),
+      typeAnnotation(node.declaredReturnType),
+    ];
+  }
+
+  // `(x: T, y)`. Unannotated parameters are `any`; when every one is, they
+  // are annotated all the same so the types are not lost.
+  private parameters(names: string[], types?: Type[]): Doc {
+    const skipAny = types?.some((type) => type !== "any");
+    const params = names.map((name, i) => {
+      const type = types?.[i];
+      if (type === undefined || (skipAny && type === "any")) return name;
+      return name + typeAnnotation(type);
+    });
+    return list("(", params, ")", false, false);
+  }
+
+  private arrow(node: ArrowFunctionNode): Doc {
+    const params =
+      node.paramNames.length === 1 && !node.paramTypes
+        ? node.paramNames[0]!
+        : this.parameters(node.paramNames, node.paramTypes);
+    return [
+      node.isAsync ? "async " : "",
+      params,
+      " => ",
+      node.block ? this.block(node.block) : this.unbraced(node.body),
+    ];
+  }
+
+  // An expression where a leading `{` would start a block.
+  private unbraced(node: ASTNode): Doc {
+    const doc = this.expression(node);
+    return firstText(doc).startsWith("{") ? ["(", doc, ")"] : doc;
+  }
+
+  private match(node: MatchNode): Doc {
+    const arms = node.arms.map(({ pattern, guard, body }) => [
+      hardline,
+      this.pattern(pattern),
+      guard ? [" if ", this.expression(guard)] : "",
+      " => ",
+      body.length === 1 && !isStatement(body[0]!)
+        ? this.unbraced(body[0]!)
+        : this.block(body),
+      ",",
+    ]);
+    return [
+      "match (",
+      this.expression(node.subject),
+      ") ",
+      braced(arms),
+    ];
+  }
+
+  private pattern(pattern: Pattern): Doc {
+    switch (pattern.kind) {
+      case "literal":
+        return this.literal(pattern.value)[0];
+      case "wildcard":
+        return "_";
+      case "binding":
+        return pattern.name;
+      case "type":
+        return (pattern.name ?? "_") + typeAnnotation(pattern.type);
+      case "array": {
+        const elements = pattern.elements.map((element) =>
+          this.pattern(element)
+        );
+        if (pattern.rest === undefined) return list("[", elements, "]");
+        elements.push(`...${pattern.rest}`);
+        return list("[", elements, "]", false, false);
+      }
+      case "object": {
+        const properties = Object.entries(pattern.properties).map(
+          ([key, property]) =>
+            property.kind === "binding" &&
+            property.name === key &&
+            !KEYWORDS.has(key)
+              ? key
+              : [propertyKey(key), ": ", this.pattern(property)]
+        );
+        return list("{", properties, "}", true);
+      }
+    }
+  }
+}
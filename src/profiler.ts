@@ -0,0 +1,300 @@
+// ========================================
+// Intrear Profiler
+// ========================================
+//
+// Times a program run by the tree-walker, per node class and per user
+// function, through the hooks of ./instrument:
+//
+//   const profiler = new Profiler(interpreter);
+//   interpreter.execute();
+//   console.table(profiler.functions()); // name, hits, inclusive, exclusive
+//   writeFileSync("run.folded", profiler.toFolded());
+//   writeFileSync("run.cpuprofile", JSON.stringify(profiler.toCpuProfile()));
+//
+// Times are in milliseconds. Inclusive time counts only the outermost of
+// nested runs of the same node class or function, so recursion is not
+// counted twice; exclusive time leaves out what ran nested inside. Async
+// functions are timed until they settle.
+
+import {
+  ArrowFunctionNode,
+  FunctionLiteralNode,
+  withArity,
+} from "./interpreter";
+import type { ASTNode, ExecutionContext, Interpreter } from "./interpreter";
+import type { SourceSpan } from "./errors";
+import { forEachNode, hookNode, patch } from "./instrument";
+
+export interface ProfileEntry {
+  name: string;
+  span?: SourceSpan;
+  hits: number;
+  inclusive: number;
+  exclusive: number;
+}
+
+export interface ProfilerOptions {
+  // Milliseconds from an arbitrary origin; defaults to performance.now.
+  clock?: () => number;
+}
+
+// The JSON of a `.cpuprofile`, as read by Chrome DevTools and speedscope.
+export interface CpuProfile {
+  nodes: {
+    id: number;
+    callFrame: {
+      functionName: string;
+      scriptId: string;
+      url: string;
+      lineNumber: number;
+      columnNumber: number;
+    };
+    hitCount: number;
+    children: number[];
+  }[];
+  startTime: number;
+  endTime: number;
+  samples: number[];
+  timeDeltas: number[];
+}
+
+type FunctionNode = FunctionLiteralNode | ArrowFunctionNode;
+
+interface Totals extends ProfileEntry {
+  // Runs in progress, so only the outermost adds inclusive time.
+  active: number;
+}
+
+// A path of calls from the program, for the flame graph.
+interface CallTreeNode {
+  name: string;
+  span?: SourceSpan;
+  self: number;
+  children: Map<FunctionNode, CallTreeNode>;
+}
+
+interface Frame {
+  node?: ASTNode;
+  start: number;
+  // Time spent in frames nested directly inside this one.
+  nested: number;
+}
+
+interface CallFrame extends Frame {
+  totals?: Totals;
+  tree: CallTreeNode;
+}
+
+export class Profiler {
+  private clock: () => number;
+  private nodeTotals = new Map<string, Totals>();
+  private functionTotals = new Map<FunctionNode, Totals>();
+  private nodeStack: Frame[] = [];
+  // The program itself is the bottom frame while a statement runs.
+  private callStack: CallFrame[] = [];
+  private program: CallTreeNode = treeNode("<main>");
+  // Undo the hooks and wrappers installed on the program's nodes.
+  private detach: (() => void)[] = [];
+
+  // Attaching makes the interpreter walk the AST as written: the VM, JIT
+  // and optimizer would run code the profiler cannot see.
+  constructor(public interpreter: Interpreter, options: ProfilerOptions = {}) {
+    this.clock = options.clock ?? (() => performance.now());
+    interpreter.options = {
+      ...interpreter.options,
+      backend: "tree",
+      jit: undefined,
+      optimizer: undefined,
+    };
+    const hook = {
+      enter: (node: ASTNode) => this.enter(node),
+      exit: (node: ASTNode) => this.exit(node),
+    };
+    forEachNode(interpreter.nodes, (node) => {
+      this.detach.push(hookNode(node, hook));
+      if (node instanceof FunctionLiteralNode) this.timeCalls(node);
+      if (node instanceof ArrowFunctionNode) this.timeCalls(node);
+    });
+  }
+
+  // Stops profiling: the program's nodes run as they did before. What was
+  // measured so far stays available.
+  public dispose(): void {
+    for (const undo of this.detach.splice(0)) undo();
+  }
+
+  // Per node class, most exclusive time first.
+  public nodes(): ProfileEntry[] {
+    return entries(this.nodeTotals.values());
+  }
+
+  // Per user function, most exclusive time first.
+  public functions(): ProfileEntry[] {
+    return entries(this.functionTotals.values());
+  }
+
+  // One line per call path, `<main>;outer;inner 1234`, weighted by the
+  // path's exclusive time in microseconds: the input of flamegraph.pl and
+  // speedscope.
+  public toFolded(): string {
+    const lines: string[] = [];
+    const walk = (node: CallTreeNode, path: string[]) => {
+      const micros = Math.round(node.self * 1000);
+      if (micros > 0) lines.push(`${path.join(";")} ${micros}`);
+      for (const child of node.children.values()) {
+        walk(child, [...path, child.name]);
+      }
+    };
+    walk(this.program, [this.program.name]);
+    return lines.join("\n") + (lines.length > 0 ? "\n" : "");
+  }
+
+  // The call tree as a `.cpuprofile`. Timings are measured rather than
+  // sampled, so every tree node gets one sample carrying its exclusive
+  // time.
+  public toCpuProfile(): CpuProfile {
+    const profile: CpuProfile = {
+      nodes: [],
+      startTime: 0,
+      endTime: 0,
+      samples: [],
+      timeDeltas: [],
+    };
+    const add = (
+      node: CallTreeNode,
+      children = node.children.values()
+    ): number => {
+      const id = profile.nodes.length + 1;
+      const start = node.span?.start;
+      const entry = {
+        id,
+        callFrame: {
+          functionName: node.name,
+          scriptId: "0",
+          url: node.span?.file ?? "",
+          lineNumber: start ? start.line - 1 : -1,
+          columnNumber: start ? start.column - 1 : -1,
+        },
+        hitCount: 1,
+        children: [] as number[],
+      };
+      profile.nodes.push(entry);
+      const micros = Math.round(node.self * 1000);
+      profile.samples.push(id);
+      profile.timeDeltas.push(micros);
+      profile.endTime += micros;
+      for (const child of children) entry.children.push(add(child));
+      return id;
+    };
+    add(treeNode("(root)"), [this.program].values());
+    return profile;
+  }
+
+  private enter(node: ASTNode) {
+    const now = this.clock();
+    if (this.nodeStack.length === 0) {
+      this.callStack.push({ start: now, nested: 0, tree: this.program });
+    }
+    this.nodeStack.push({ node, start: now, nested: 0 });
+    const totals = this.totals(this.nodeTotals, node.constructor.name);
+    totals.hits++;
+    totals.active++;
+  }
+
+  private exit(node: ASTNode) {
+    const now = this.clock();
+    // Async nodes can finish out of order, so find this node's frame.
+    let index = this.nodeStack.length - 1;
+    while (index > 0 && this.nodeStack[index]!.node !== node) index--;
+    const [frame] = this.nodeStack.splice(index, 1);
+    const duration = now - frame!.start;
+    const totals = this.nodeTotals.get(node.constructor.name)!;
+    totals.exclusive += duration - frame!.nested;
+    if (--totals.active === 0) totals.inclusive += duration;
+    const parent = this.nodeStack[index - 1];
+    if (parent) parent.nested += duration;
+    else if (this.nodeStack.length === 0) this.leave(now);
+  }
+
+  // Wraps every function `node` creates so its calls are timed.
+  private timeCalls(node: FunctionNode) {
+    const profiler = this;
+    const toFunction: (context: ExecutionContext) => any = node.toFunction;
+    const timedToFunction = function (this: FunctionNode, context: any) {
+      const fn = toFunction.call(this, context);
+      const timed = (...args: any[]) => {
+        const frame = profiler.call(this);
+        let result: any;
+        try {
+          result = fn(...args);
+        } catch (e) {
+          profiler.leave(profiler.clock(), frame);
+          throw e;
+        }
+        if (!(result instanceof Promise)) {
+          profiler.leave(profiler.clock(), frame);
+          return result;
+        }
+        return result.finally(() => profiler.leave(profiler.clock(), frame));
+      };
+      return withArity(timed, fn.length);
+    };
+    this.detach.push(patch(node, "toFunction", timedToFunction));
+  }
+
+  private call(node: FunctionNode): CallFrame {
+    const name =
+      node instanceof FunctionLiteralNode
+        ? node.name ?? "(anonymous)"
+        : "(arrow)";
+    const totals = this.totals(this.functionTotals, node, name, node.span);
+    totals.hits++;
+    totals.active++;
+    const caller = this.callStack[this.callStack.length - 1];
+    const siblings = (caller?.tree ?? this.program).children;
+    let tree = siblings.get(node);
+    if (!tree) siblings.set(node, (tree = treeNode(name, node.span)));
+    const frame = { start: this.clock(), nested: 0, totals, tree };
+    this.callStack.push(frame);
+    return frame;
+  }
+
+  // Ends `frame`, by default the bottom one standing for the program.
+  private leave(now: number, frame = this.callStack[0]) {
+    const index = frame ? this.callStack.lastIndexOf(frame) : -1;
+    if (!frame || index < 0) return;
+    this.callStack.splice(index, 1);
+    const duration = now - frame.start;
+    frame.tree.self += duration - frame.nested;
+    if (frame.totals) {
+      frame.totals.exclusive += duration - frame.nested;
+      if (--frame.totals.active === 0) frame.totals.inclusive += duration;
+    }
+    const caller = this.callStack[index - 1];
+    if (caller) caller.nested += duration;
+  }
+
+  private totals<K>(
+    map: Map<K, Totals>,
+    key: K,
+    name = String(key),
+    span?: SourceSpan
+  ): Totals {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = { name, span, hits: 0, inclusive: 0, exclusive: 0, active: 0 };
+      map.set(key, totals);
+    }
+    return totals;
+  }
+}
+
+function treeNode(name: string, span?: SourceSpan): CallTreeNode {
+  return { name, span, self: 0, children: new Map() };
+}
+
+function entries(totals: Iterable<Totals>): ProfileEntry[] {
+  return [...totals]
+    .map(({ active, ...entry }) => entry)
+    .sort((a, b) => b.exclusive - a.exclusive);
+}
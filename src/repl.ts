@@ -0,0 +1,188 @@
+// ========================================
+// Intrear REPL Session
+// ========================================
+//
+// Evaluates source snippets one after another against a single long-lived
+// ExecutionContext and TypeEnvironment. The terminal front-end lives in
+// `cli.ts`; this class does no I/O itself so it can also be driven from code.
+
+import {
+  ClassDeclarationNode,
+  ExecutionContext,
+  ModuleRegistry,
+  VariableDeclarationNode,
+  classValueName,
+  createBuiltInTypeEnvironment,
+  instanceClassName,
+  typeToString,
+} from "./interpreter";
+import type { ASTNode } from "./interpreter";
+import { Lexer } from "./lexer";
+import { FileSystemResolver } from "./modules";
+import { parse } from "./parser";
+import { StdlibResolver } from "./stdlib";
+
+const COMMANDS: Record<string, string> = {
+  ":type": "Show the inferred type of an expression, e.g. :type xs.length",
+  ":scope": "List the variables defined in the session",
+  ":help": "Show this help",
+  ":quit": "Leave the REPL",
+};
+
+export class Repl {
+  public context = new ExecutionContext();
+  public env = createBuiltInTypeEnvironment();
+  // `import` resolves the standard library and files under the cwd.
+  public modules = new ModuleRegistry([
+    new StdlibResolver(),
+    new FileSystemResolver(),
+  ]);
+  private builtInNames = new Set(
+    Object.keys(new ExecutionContext().getOwnVariables())
+  );
+
+  constructor() {
+    this.context.modules = this.modules;
+    this.env.modules = this.modules;
+  }
+
+  // True while the snippet has unclosed brackets and needs more lines.
+  public isIncomplete(source: string): boolean {
+    let depth = 0;
+    for (const token of new Lexer(source).tokenize()) {
+      if (token.kind !== "punct") continue;
+      if ("({[".includes(token.value)) depth++;
+      if (")}]".includes(token.value)) depth--;
+    }
+    return depth > 0;
+  }
+
+  // Runs a snippet (or a `:command`) and returns the text to display.
+  public evaluate(source: string): string {
+    const input = source.trim();
+    if (input.startsWith(":")) return this.runCommand(input);
+
+    const nodes = parse(input);
+    let result: any;
+    for (const node of nodes) {
+      this.recordType(node);
+      result = node.execute(this.context);
+    }
+    const last = nodes[nodes.length - 1];
+    if (result === undefined || last instanceof VariableDeclarationNode) {
+      return "";
+    }
+    return formatValue(result);
+  }
+
+  // Readline-style completer: returns the candidates and the fragment they
+  // complete.
+  public complete(line: string): [string[], string] {
+    if (/^:\w*$/.test(line)) {
+      return [Object.keys(COMMANDS).filter((c) => c.startsWith(line)), line];
+    }
+    const fragment = /[A-Za-z_][A-Za-z0-9_]*$/.exec(line)?.[0] ?? "";
+    const names = new Set<string>();
+    let ctx: ExecutionContext | undefined = this.context;
+    for (; ctx; ctx = ctx.parent) {
+      Object.keys(ctx.getOwnVariables()).forEach((name) => names.add(name));
+    }
+    const hits = [...names].filter((name) => name.startsWith(fragment)).sort();
+    return [hits, fragment];
+  }
+
+  private runCommand(input: string): string {
+    const command = input.split(/\s+/)[0]!;
+    const arg = input.slice(command.length).trim();
+    switch (command) {
+      case ":type": {
+        const nodes = parse(arg);
+        if (nodes.length !== 1) {
+          throw new Error("':type' expects a single expression");
+        }
+        return typeToString(nodes[0]!.inferType(this.env.createChild()));
+      }
+      case ":scope":
+        return this.describeScope();
+      case ":help":
+        return Object.entries(COMMANDS)
+          .map(([name, help]) => `${name.padEnd(8)} ${help}`)
+          .join("\n");
+      default:
+        throw new Error(`Unknown command '${command}' (try :help)`);
+    }
+  }
+
+  private describeScope(): string {
+    const lines: string[] = [];
+    let depth = 0;
+    let ctx: ExecutionContext | undefined = this.context;
+    for (; ctx; ctx = ctx.parent) {
+      const own = Object.entries(ctx.getOwnVariables()).filter(
+        ([name]) => !this.builtInNames.has(name)
+      );
+      if (depth > 0 && own.length > 0) {
+        lines.push(`-- parent scope ${depth} --`);
+      }
+      for (const [name, value] of own) {
+        const type = this.describeType(name);
+        lines.push(`${name}: ${type} = ${formatValue(value)}`);
+      }
+      depth++;
+    }
+    return lines.length > 0 ? lines.join("\n") : "(no variables)";
+  }
+
+  private describeType(name: string): string {
+    try {
+      return typeToString(this.env.getType(name));
+    } catch {
+      return "?";
+    }
+  }
+
+  // Type information is best-effort in the REPL: a declaration whose type
+  // cannot be inferred is still recorded so later lines can refer to it.
+  private recordType(node: ASTNode) {
+    try {
+      node.inferType(this.env);
+    } catch {
+      if (
+        node instanceof VariableDeclarationNode ||
+        node instanceof ClassDeclarationNode
+      ) {
+        this.env.setType(node.name, "any");
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------
+// formatValue - Renders runtime values the way they are written in source
+// ---------------------------------------------------
+export function formatValue(value: any, seen = new Set<any>()): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "function") return "[Function]";
+  if (typeof value === "symbol") return value.toString();
+  if (value === null || typeof value !== "object") return String(value);
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+  try {
+    if (value.__isPtr) return `Pointer(${formatValue(value.get(), seen)})`;
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    const classValue = classValueName(value);
+    if (classValue) return `[class ${classValue}]`;
+    if (Array.isArray(value)) {
+      return `[${value.map((v) => formatValue(v, seen)).join(", ")}]`;
+    }
+    const entries = Object.entries(value).map(
+      ([key, v]) => `${key}: ${formatValue(v, seen)}`
+    );
+    const body = entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+    const className = instanceClassName(value);
+    return className ? `${className} ${body}` : body;
+  } finally {
+    seen.delete(value);
+  }
+}
@@ -0,0 +1,168 @@
+// ========================================
+// Intrear Sandbox
+// ========================================
+//
+// Limits for running untrusted programs, enabled through the `sandbox`
+// option of an Interpreter:
+//
+//   new Interpreter(nodes, {
+//     sandbox: { maxSteps: 1e6, timeout: 500, capabilities: ["console"] },
+//   }).execute();
+//
+// Every run gets its own Sandbox, shared by all of its contexts. The limits
+// are checked around each node through ./instrument, so a sandboxed program
+// always runs on the tree-walker, without the JIT. Each violation throws its
+// own SandboxError subclass, which the program's `try` does not catch.
+
+import {
+  CallDepthError,
+  CapabilityError,
+  SizeLimitError,
+  StepLimitError,
+  TimeoutError,
+} from "./errors";
+import type { ASTNode, ExecutionContext } from "./interpreter";
+import { forEachNode, hookNode } from "./instrument";
+import type { NodeHook } from "./instrument";
+
+export type Capability = "network" | "clock" | "randomness" | "console";
+
+export interface SandboxOptions {
+  // Node executions allowed in one run.
+  maxSteps?: number;
+  // Nested calls allowed at once.
+  maxCallDepth?: number;
+  // Milliseconds one run may take.
+  timeout?: number;
+  maxArrayLength?: number;
+  maxStringLength?: number;
+  // Which built-ins that reach outside the program exist; by default none
+  // of them.
+  capabilities?: Capability[];
+}
+
+// The built-ins each capability grants.
+export const CAPABILITY_BUILT_INS: Record<Capability, string[]> = {
+  network: ["fetch"],
+  clock: ["now"],
+  randomness: ["random"],
+  console: ["print", "printSelf"],
+};
+
+// Nodes already checked; the hook defers to the sandbox of the context
+// they run in, so it is installed once and is inert outside a sandbox.
+const guarded = new WeakSet<ASTNode>();
+
+const GUARD: NodeHook = {
+  enter: (node, context) => context.sandbox?.step(node, context),
+  exit: (node, context, result) =>
+    context.sandbox?.checkSize(result, node, context),
+};
+
+export class Sandbox {
+  public steps = 0;
+  // Date.now() past which the run times out.
+  public deadline?: number;
+  private denied = new Map<string, Capability>();
+
+  constructor(public options: SandboxOptions = {}) {
+    if (options.timeout !== undefined) {
+      this.deadline = Date.now() + options.timeout;
+    }
+    const allowed = new Set(options.capabilities ?? []);
+    for (const [capability, names] of Object.entries(CAPABILITY_BUILT_INS)) {
+      if (allowed.has(capability as Capability)) continue;
+      for (const name of names) this.denied.set(name, capability as Capability);
+    }
+  }
+
+  // Whether the built-in `name` is injected into the sandbox's contexts.
+  public allows(name: string): boolean {
+    return !this.denied.has(name);
+  }
+
+  // Installs the checks on every node of `program`.
+  public attach(program: ASTNode[]): void {
+    forEachNode(program, (node) => {
+      if (guarded.has(node)) return;
+      guarded.add(node);
+      hookNode(node, GUARD);
+    });
+  }
+
+  // Counts one node execution and checks the depth and the clock.
+  public step(node: ASTNode, context: ExecutionContext): void {
+    const { maxSteps, maxCallDepth } = this.options;
+    if (maxSteps !== undefined && ++this.steps > maxSteps) {
+      throw new StepLimitError(
+        "STEP_LIMIT",
+        `Step limit of ${maxSteps} exceeded`,
+        { node, context }
+      );
+    }
+    if (maxCallDepth !== undefined && context.callStack.length > maxCallDepth) {
+      throw new CallDepthError(
+        "CALL_DEPTH_LIMIT",
+        `Call depth limit of ${maxCallDepth} exceeded`,
+        { node, context }
+      );
+    }
+    if (this.deadline !== undefined && Date.now() > this.deadline) {
+      throw this.timedOut(node, context);
+    }
+  }
+
+  public timedOut(node?: ASTNode, context?: ExecutionContext): TimeoutError {
+    return new TimeoutError(
+      "TIMEOUT",
+      `Timed out after ${this.options.timeout}ms`,
+      { node, context }
+    );
+  }
+
+  // Checks a value the program produced against the size limits.
+  public checkSize(value: any, node: ASTNode, context: ExecutionContext) {
+    const { maxArrayLength, maxStringLength } = this.options;
+    if (
+      maxArrayLength !== undefined &&
+      Array.isArray(value) &&
+      value.length > maxArrayLength
+    ) {
+      throw new SizeLimitError(
+        "ARRAY_TOO_LARGE",
+        `Array of length ${value.length} exceeds the limit of ${
+          maxArrayLength
+        }`,
+        { node, context }
+      );
+    }
+    if (
+      maxStringLength !== undefined &&
+      typeof value === "string" &&
+      value.length > maxStringLength
+    ) {
+      throw new SizeLimitError(
+        "STRING_TOO_LARGE",
+        `String of length ${value.length} exceeds the limit of ${
+          maxStringLength
+        }`,
+        { node, context }
+      );
+    }
+  }
+
+  // Throws if `name` is a built-in left out for lack of its capability.
+  public checkCapability(
+    name: string,
+    node: ASTNode,
+    context: ExecutionContext
+  ): void {
+    const capability = this.denied.get(name);
+    if (capability === undefined) return;
+    throw new CapabilityError(
+      "CAPABILITY_DENIED",
+      `'${name}' needs the '${capability}' capability`,
+      { node, context }
+    );
+  }
+}
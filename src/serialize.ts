@@ -0,0 +1,758 @@
+// ========================================
+// Intrear AST Serialization
+// ========================================
+//
+// A versioned JSON format for whole programs, so trees built elsewhere can
+// be handed to the interpreter:
+//
+//   const json = JSON.stringify(serializeAST(nodes));
+//   const program = deserializeAST(json);
+//
+// A document is `{ "format": "intrear-ast", "version": 1, "nodes": [...] }`
+// where each node is `{ "node": "<ClassName>", ...fields, "span"? }` with
+// one key per constructor argument. The fields of every class are declared
+// below with FieldCodecs, which also produce the JSON Schema of the format
+// (astJSONSchema). registerNode() adds custom node classes.
+
+import * as nodes from "./interpreter";
+import { ASTNode } from "./interpreter";
+import type { Pattern, Type } from "./interpreter";
+import type { SourceSpan } from "./errors";
+
+export const AST_FORMAT = "intrear-ast";
+export const AST_FORMAT_VERSION = 1;
+
+export interface SerializedAST {
+  format: typeof AST_FORMAT;
+  version: number;
+  nodes: unknown[];
+}
+
+// Raised for a value that has no place in the format. `path` locates it,
+// e.g. `nodes[2].body[0].args[1]`.
+export class ASTFormatError extends Error {
+  name = "ASTFormatError";
+
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`);
+  }
+}
+
+// How one field is written to JSON and read back. `schema` is the JSON
+// Schema of the written form; `optional` fields may be left out.
+export interface FieldCodec<T = any> {
+  write(value: T, path: string): unknown;
+  read(json: unknown, path: string): T;
+  schema: object;
+  optional?: boolean;
+}
+
+interface NodeSchema {
+  NodeClass: new (...args: any[]) => ASTNode;
+  // In the order of the constructor's parameters.
+  fields: [string, FieldCodec][];
+}
+
+const byName = new Map<string, NodeSchema>();
+const names = new Map<Function, string>();
+
+// Makes instances of `NodeClass` serializable. `fields` lists its
+// constructor parameters in order, each read back from the property of the
+// same name.
+export function registerNode(
+  NodeClass: new (...args: any[]) => ASTNode,
+  fields: Record<string, FieldCodec>,
+  name = NodeClass.name
+): void {
+  if (name === "") throw new Error("registerNode() needs a class name");
+  byName.set(name, { NodeClass, fields: Object.entries(fields) });
+  names.set(NodeClass, name);
+}
+
+function fail(path: string, message: string): never {
+  throw new ASTFormatError(path, message);
+}
+
+function describe(json: unknown): string {
+  if (json === null) return "null";
+  if (Array.isArray(json)) return "an array";
+  return typeof json === "object" ? "an object" : typeof json;
+}
+
+function isObject(json: unknown): json is Record<string, unknown> {
+  return json !== null && typeof json === "object" && !Array.isArray(json);
+}
+
+// ---------------------------------------------------
+// Nodes
+// ---------------------------------------------------
+function writeNode(node: unknown, path: string): unknown {
+  if (!(node instanceof ASTNode)) {
+    fail(path, `expected a node, got ${describe(node)}`);
+  }
+  const name = names.get(node.constructor);
+  if (name === undefined) {
+    const described = node.constructor.name || "An anonymous node class";
+    fail(path, `${described} is not registered`);
+  }
+  const json: Record<string, unknown> = { node: name };
+  for (const [key, codec] of byName.get(name)!.fields) {
+    const value = (node as any)[key];
+    if (value === undefined && codec.optional) continue;
+    json[key] = codec.write(value, `${path}.${key}`);
+  }
+  if (node.span) json.span = spanCodec.write(node.span, `${path}.span`);
+  return json;
+}
+
+function readNode(json: unknown, path: string): ASTNode {
+  if (!isObject(json) || typeof json.node !== "string") {
+    fail(path, `expected a node, got ${describe(json)}`);
+  }
+  const schema = byName.get(json.node);
+  if (!schema) fail(path, `unknown node type '${json.node}'`);
+  const known = new Set(["node", "span", ...schema.fields.map(([k]) => k)]);
+  for (const key of Object.keys(json)) {
+    if (!known.has(key)) fail(`${path}.${key}`, `unexpected field`);
+  }
+  const args = schema.fields.map(([key, codec]) => {
+    const value = json[key];
+    if (value === undefined) {
+      if (codec.optional) return undefined;
+      fail(`${path}.${key}`, "missing field");
+    }
+    return codec.read(value, `${path}.${key}`);
+  });
+  const node = new schema.NodeClass(...args);
+  if (json.span !== undefined) {
+    node.span = spanCodec.read(json.span, `${path}.span`);
+  }
+  return node;
+}
+
+// ---------------------------------------------------
+// Field codecs
+// ---------------------------------------------------
+function primitive<T>(kind: "string" | "number" | "boolean"): FieldCodec<T> {
+  return {
+    write: (value, path) => {
+      if (typeof value !== kind) fail(path, `expected a ${kind}`);
+      return value;
+    },
+    read: (json, path) => {
+      if (typeof json !== kind) {
+        fail(path, `expected a ${kind}, got ${describe(json)}`);
+      }
+      return json as T;
+    },
+    schema: { type: kind },
+  };
+}
+
+function list<T>(item: FieldCodec<T>): FieldCodec<T[]> {
+  return {
+    write: (value, path) => {
+      if (!Array.isArray(value)) fail(path, "expected an array");
+      return value.map((v, i) => item.write(v, `${path}[${i}]`));
+    },
+    read: (json, path) => {
+      if (!Array.isArray(json)) {
+        fail(path, `expected an array, got ${describe(json)}`);
+      }
+      return json.map((v, i) => item.read(v, `${path}[${i}]`));
+    },
+    schema: { type: "array", items: item.schema },
+  };
+}
+
+function optional<T>(codec: FieldCodec<T>): FieldCodec<T | undefined> {
+  return { ...codec, optional: true };
+}
+
+function nullable<T>(codec: FieldCodec<T>): FieldCodec<T | null> {
+  return {
+    write: (value, path) => (value === null ? null : codec.write(value, path)),
+    read: (json, path) => (json === null ? null : codec.read(json, path)),
+    schema: { oneOf: [{ type: "null" }, codec.schema] },
+  };
+}
+
+function record<T>(value: FieldCodec<T>): FieldCodec<Record<string, T>> {
+  const map = (
+    object: unknown,
+    path: string,
+    each: (v: any, path: string) => unknown
+  ): any => {
+    if (!isObject(object)) {
+      fail(path, `expected an object, got ${describe(object)}`);
+    }
+    return Object.fromEntries(
+      Object.entries(object).map(([k, v]) => [
+        k,
+        each(v, `${path}[${JSON.stringify(k)}]`),
+      ])
+    );
+  };
+  return {
+    write: (object, path) => map(object, path, value.write),
+    read: (json, path) => map(json, path, value.read),
+    schema: { type: "object", additionalProperties: value.schema },
+  };
+}
+
+// An object with the given fields, like a node's.
+function struct<T>(fields: Record<string, FieldCodec>): FieldCodec<T> {
+  const entries = Object.entries(fields);
+  const convert = (
+    object: unknown,
+    path: string,
+    direction: "write" | "read"
+  ): any => {
+    if (!isObject(object)) {
+      fail(path, `expected an object, got ${describe(object)}`);
+    }
+    if (direction === "read") {
+      for (const key of Object.keys(object)) {
+        if (!(key in fields)) fail(`${path}.${key}`, "unexpected field");
+      }
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, codec] of entries) {
+      const value = object[key];
+      if (value === undefined) {
+        if (codec.optional) continue;
+        fail(`${path}.${key}`, "missing field");
+      }
+      result[key] = codec[direction](value, `${path}.${key}`);
+    }
+    return result;
+  };
+  return {
+    write: (value, path) => convert(value, path, "write"),
+    read: (json, path) => convert(json, path, "read"),
+    schema: {
+      type: "object",
+      properties: Object.fromEntries(entries.map(([k, c]) => [k, c.schema])),
+      required: entries.filter(([, c]) => !c.optional).map(([k]) => k),
+      additionalProperties: false,
+    },
+  };
+}
+
+function oneOf<T extends string>(...values: T[]): FieldCodec<T> {
+  const check = (value: unknown, path: string) => {
+    if (!values.includes(value as T)) {
+      fail(path, `expected one of ${values.join(", ")}`);
+    }
+    return value as T;
+  };
+  return { write: check, read: check, schema: { enum: values } };
+}
+
+// A node of one class, e.g. the FunctionLiteralNode of a method.
+function nodeOf<T extends ASTNode>(
+  NodeClass: abstract new (...args: any[]) => T
+): FieldCodec<T> {
+  const check = (node: ASTNode, path: string) => {
+    if (!(node instanceof NodeClass)) {
+      fail(path, `expected a ${NodeClass.name}`);
+    }
+    return node as T;
+  };
+  return {
+    write: (value, path) => writeNode(check(value, path), path),
+    read: (json, path) => check(readNode(json, path), path),
+    schema: { $ref: `#/$defs/${NodeClass.name}` },
+  };
+}
+
+const node: FieldCodec<ASTNode> = {
+  write: writeNode,
+  read: readNode,
+  schema: { $ref: "#/$defs/node" },
+};
+
+const string = primitive<string>("string");
+
+// `PropertyAccessNode.property`: a name, or a node computing it.
+const nameOrNode: FieldCodec<string | ASTNode> = {
+  write: (value, path) =>
+    typeof value === "string" ? value : writeNode(value, path),
+  read: (json, path) =>
+    typeof json === "string" ? json : readNode(json, path),
+  schema: { oneOf: [{ type: "string" }, { $ref: "#/$defs/node" }] },
+};
+
+// Numbers written as tagged strings.
+const SPECIAL_NUMBERS = ["NaN", "Infinity", "-Infinity", "-0"];
+
+// The value of a LiteralNode or literal pattern. JSON scalars stand for
+// themselves; other values are tagged with `$kind`.
+const value: FieldCodec<any> = {
+  write: function write(value: any, path: string): unknown {
+    switch (typeof value) {
+      case "string":
+      case "boolean":
+        return value;
+      case "number":
+        // JSON has no NaN or infinities, and reads -0 back as 0.
+        if (Object.is(value, -0)) return { $kind: "number", value: "-0" };
+        return Number.isFinite(value)
+          ? value
+          : { $kind: "number", value: String(value) };
+      case "undefined":
+        return { $kind: "undefined" };
+      case "bigint":
+        return { $kind: "bigint", value: value.toString() };
+    }
+    if (value === null) return null;
+    if (Array.isArray(value)) {
+      return value.map((v, i) => write(v, `${path}[${i}]`));
+    }
+    if (Object.getPrototypeOf(value) === Object.prototype) {
+      const properties = record(valueRef).write(value, path);
+      return { $kind: "object", properties };
+    }
+    fail(path, `cannot serialize ${describe(value)} literals`);
+  },
+  read: function read(json: unknown, path: string): any {
+    if (json === null || typeof json !== "object") {
+      if (typeof json === "number" || typeof json === "string") return json;
+      if (typeof json === "boolean" || json === null) return json;
+      fail(path, `expected a value, got ${describe(json)}`);
+    }
+    if (Array.isArray(json)) {
+      return json.map((v, i) => read(v, `${path}[${i}]`));
+    }
+    const object = json as Record<string, unknown>;
+    switch (object.$kind) {
+      case "undefined":
+        return undefined;
+      case "number":
+        if (!SPECIAL_NUMBERS.includes(object.value as any)) {
+          fail(`${path}.value`, "expected NaN, Infinity, -Infinity or -0");
+        }
+        return Number(object.value);
+      case "bigint":
+        try {
+          return BigInt(string.read(object.value, `${path}.value`));
+        } catch (e) {
+          if (e instanceof ASTFormatError) throw e;
+          fail(`${path}.value`, "expected an integer");
+        }
+      case "object":
+        return record(valueRef).read(object.properties, `${path}.properties`);
+    }
+    fail(path, "expected a value");
+  },
+  schema: { $ref: "#/$defs/value" },
+};
+const valueRef: FieldCodec<any> = {
+  write: (v, path) => value.write(v, path),
+  read: (json, path) => value.read(json, path),
+  schema: value.schema,
+};
+
+const position = struct({
+  line: primitive("number"),
+  column: primitive("number"),
+  offset: primitive("number"),
+});
+const spanStruct = struct<SourceSpan>({
+  start: position,
+  end: position,
+  file: optional(string),
+});
+const spanCodec: FieldCodec<SourceSpan> = {
+  ...spanStruct,
+  schema: { $ref: "#/$defs/span" },
+};
+
+// ---------------------------------------------------
+// Types and patterns
+// ---------------------------------------------------
+const PRIMITIVE_TYPES = [
+  "number",
+  "string",
+  "boolean",
+  "null",
+  "undefined",
+  "bigint",
+  "symbol",
+  "void",
+  "any",
+];
+
+// Deferred, as the variants refer back to `type`.
+const typeRef: FieldCodec<Type> = {
+  write: (t, path) => type.write(t, path),
+  read: (json, path) => type.read(json, path),
+  schema: { $ref: "#/$defs/type" },
+};
+
+const strings = list(string);
+const types = list(typeRef);
+const typeRecord = record(typeRef);
+
+// The fields of each structured Type, by `kind`. A named type is written
+// without the `target` that resolveType links it to, and an inference
+// variable without its solution.
+const TYPE_VARIANTS: Record<string, Record<string, FieldCodec>> = {
+  function: {
+    paramTypes: types,
+    returnType: typeRef,
+    restType: optional(typeRef),
+    typeParams: optional(strings),
+  },
+  array: { elementType: typeRef },
+  object: { properties: typeRecord, optional: optional(strings) },
+  pointer: { to: typeRef },
+  promise: { of: typeRef },
+  class: {
+    name: string,
+    ancestors: strings,
+    members: typeRecord,
+    statics: typeRecord,
+    constructorParams: types,
+  },
+  instance: { className: string, ancestors: strings },
+  named: { name: string },
+  union: { types },
+  literal: { value: literalValue() },
+  typevar: { name: string },
+  infer: {},
+};
+
+// The value of a literal type.
+function literalValue(): FieldCodec<string | number | boolean> {
+  const check = (value: unknown, path: string) => {
+    if (!["string", "number", "boolean"].includes(typeof value)) {
+      fail(path, `expected a string, number or boolean`);
+    }
+    return value as string | number | boolean;
+  };
+  return {
+    write: check,
+    read: check,
+    schema: { type: ["string", "number", "boolean"] },
+  };
+}
+
+const typeVariants = Object.fromEntries(
+  Object.entries(TYPE_VARIANTS).map(([kind, fields]) => [
+    kind,
+    struct<any>({ kind: oneOf(kind), ...fields }),
+  ])
+);
+
+const type: FieldCodec<Type> = variants(
+  typeVariants,
+  "type",
+  (json) => typeof json === "string" && PRIMITIVE_TYPES.includes(json),
+  { enum: PRIMITIVE_TYPES }
+);
+
+const patternRef: FieldCodec<Pattern> = {
+  write: (p, path) => pattern.write(p, path),
+  read: (json, path) => pattern.read(json, path),
+  schema: { $ref: "#/$defs/pattern" },
+};
+
+const PATTERN_VARIANTS: Record<string, Record<string, FieldCodec>> = {
+  literal: { value },
+  wildcard: {},
+  binding: { name: string },
+  type: { type: typeRef, name: optional(string) },
+  array: { elements: list(patternRef), rest: optional(string) },
+  object: { properties: record(patternRef) },
+};
+
+const pattern: FieldCodec<Pattern> = variants(
+  Object.fromEntries(
+    Object.entries(PATTERN_VARIANTS).map(([kind, fields]) => [
+      kind,
+      struct<any>({ kind: oneOf(kind), ...fields }),
+    ])
+  ),
+  "pattern"
+);
+
+// Objects told apart by `kind`, plus the scalars `isScalar` accepts.
+function variants(
+  byKind: Record<string, FieldCodec>,
+  what: string,
+  isScalar: (json: unknown) => boolean = () => false,
+  scalarSchema?: object
+): FieldCodec {
+  const convert = (json: any, path: string, direction: "write" | "read") => {
+    if (isScalar(json)) return json;
+    const codec = isObject(json) ? byKind[json.kind as string] : undefined;
+    if (!codec) fail(path, `expected a ${what}, got ${describe(json)}`);
+    return codec[direction](json, path);
+  };
+  const schemas = Object.values(byKind).map((c) => c.schema);
+  return {
+    write: (value, path) => convert(value, path, "write"),
+    read: (json, path) => convert(json, path, "read"),
+    schema: { oneOf: scalarSchema ? [scalarSchema, ...schemas] : schemas },
+  };
+}
+
+// Building blocks for registerNode().
+export const field = {
+  node,
+  nodes: list(node),
+  nodeOf,
+  string,
+  strings,
+  number: primitive<number>("number"),
+  boolean: primitive<boolean>("boolean"),
+  value,
+  type,
+  types,
+  pattern,
+  list,
+  optional,
+  nullable,
+  record,
+  struct,
+  oneOf,
+};
+
+// ---------------------------------------------------
+// The node classes of ./interpreter
+// ---------------------------------------------------
+const f = field;
+const VAR_TYPES = [
+  ...PRIMITIVE_TYPES,
+  "function",
+  "array",
+  "object",
+  "pointer",
+  "promise",
+] as nodes.varTypes[];
+
+registerNode(nodes.VariableDeclarationNode, {
+  varType: f.oneOf(...VAR_TYPES),
+  name: f.string,
+  expression: f.node,
+  declaredType: f.optional(f.type),
+});
+registerNode(nodes.AssignmentNode, { name: f.string, expression: f.node });
+registerNode(nodes.TypeAliasNode, { name: f.string, type: f.type });
+registerNode(nodes.AsNode, { expression: f.node, type: f.type });
+registerNode(nodes.IsNode, { expression: f.node, type: f.type });
+registerNode(nodes.ReturnNode, { expression: f.node });
+registerNode(nodes.BreakNode, {});
+registerNode(nodes.ContinueNode, {});
+registerNode(nodes.ErrorNode, { message: f.node });
+registerNode(nodes.FunctionLiteralNode, {
+  name: f.nullable(f.string),
+  params: f.strings,
+  body: f.nodes,
+  declaredParamTypes: f.optional(f.types),
+  declaredReturnType: f.optional(f.type),
+  pure: f.boolean,
+  isAsync: f.boolean,
+  typeParams: f.optional(f.strings),
+});
+registerNode(nodes.ArrowFunctionNode, {
+  paramNames: f.strings,
+  body: f.node,
+  isAsync: f.boolean,
+  paramTypes: f.optional(f.types),
+});
+registerNode(nodes.FunctionCallNode, { functionName: f.string, args: f.nodes });
+registerNode(nodes.LiteralNode, { value: f.value });
+registerNode(nodes.VariableReferenceNode, { name: f.string });
+registerNode(nodes.OperatorNode, {
+  operator: f.string,
+  operands: {
+    ...f.nodes,
+    read: (json, path) => {
+      const operands = f.nodes.read(json, path);
+      if (operands.length !== 2) fail(path, "expected two operands");
+      return operands;
+    },
+    schema: { ...f.nodes.schema, minItems: 2, maxItems: 2 },
+  },
+});
+registerNode(nodes.MethodCallNode, {
+  target: f.node,
+  methodName: f.string,
+  args: f.nodes,
+});
+registerNode(nodes.ParameterNode, { name: f.string });
+registerNode(nodes.ArrayLiteralNode, { elements: f.nodes });
+registerNode(nodes.IndexAssignmentNode, {
+  target: f.node,
+  index: f.node,
+  value: f.node,
+});
+registerNode(nodes.IndexAccessNode, { array: f.node, index: f.node });
+registerNode(nodes.ObjectLiteralNode, { properties: f.record(f.node) });
+registerNode(nodes.PropertyAccessNode, {
+  object: f.node,
+  property: nameOrNode,
+});
+registerNode(nodes.BlockNode, { statements: f.nodes });
+registerNode(nodes.IfNode, {
+  condition: f.node,
+  thenBranch: f.nodes,
+  elseBranch: f.optional(f.nodes),
+});
+registerNode(nodes.SignalNode, { signal: f.oneOf("break", "continue") });
+registerNode(nodes.WhileNode, { condition: f.node, body: f.nodes });
+registerNode(nodes.ForNode, {
+  init: f.node,
+  condition: f.node,
+  update: f.node,
+  body: f.nodes,
+});
+registerNode(nodes.SwitchNode, {
+  expression: f.node,
+  cases: f.list(f.struct({ match: f.node, body: f.nodes })),
+  defaultCase: f.optional(f.nodes),
+});
+registerNode(nodes.MatchNode, {
+  subject: f.node,
+  arms: f.list(
+    f.struct({ pattern: f.pattern, guard: f.optional(f.node), body: f.nodes })
+  ),
+});
+registerNode(nodes.DoWhileNode, { body: f.nodes, condition: f.node });
+registerNode(nodes.ForEachNode, {
+  itemName: f.string,
+  iterable: f.node,
+  body: f.nodes,
+});
+registerNode(nodes.TryCatchNode, {
+  tryBlock: f.nodes,
+  catchVar: f.string,
+  catchBlock: f.nodes,
+});
+registerNode(nodes.ClassDeclarationNode, {
+  name: f.string,
+  superClass: f.nullable(f.string),
+  fields: f.list(
+    f.struct({
+      name: f.string,
+      type: f.optional(f.type),
+      initializer: f.optional(f.node),
+      isStatic: f.optional(f.boolean),
+    })
+  ),
+  methods: f.list(
+    f.struct({
+      name: f.string,
+      fn: f.nodeOf(nodes.FunctionLiteralNode),
+      isStatic: f.optional(f.boolean),
+    })
+  ),
+  constructorFn: f.optional(f.nodeOf(nodes.FunctionLiteralNode)),
+});
+registerNode(nodes.NewNode, { className: f.string, args: f.nodes });
+registerNode(nodes.ThisNode, {});
+registerNode(nodes.SuperCallNode, {
+  methodName: f.nullable(f.string),
+  args: f.nodes,
+});
+registerNode(nodes.AwaitNode, { expression: f.node });
+registerNode(nodes.AddressOfNode, { target: f.node });
+registerNode(nodes.DereferenceNode, { ptrExpr: f.node });
+registerNode(nodes.PointerAssignmentNode, {
+  ptrExpr: f.node,
+  valueExpr: f.node,
+});
+registerNode(nodes.ImportNode, {
+  specifier: f.string,
+  bindings: f.list(f.struct({ name: f.string, as: f.optional(f.string) })),
+  namespace: f.optional(f.string),
+});
+registerNode(nodes.ExportNode, {
+  declaration: {
+    ...f.node,
+    read: (json, path) => {
+      const declaration = readNode(json, path);
+      if (
+        !(declaration instanceof nodes.VariableDeclarationNode) &&
+        !(declaration instanceof nodes.ClassDeclarationNode)
+      ) {
+        fail(path, "expected a variable or class declaration");
+      }
+      return declaration;
+    },
+  },
+});
+
+// ---------------------------------------------------
+// Documents
+// ---------------------------------------------------
+export function serializeAST(program: ASTNode[]): SerializedAST {
+  return {
+    format: AST_FORMAT,
+    version: AST_FORMAT_VERSION,
+    nodes: field.nodes.write(program, "nodes") as unknown[],
+  };
+}
+
+// Accepts the document or its JSON text.
+export function deserializeAST(json: unknown): ASTNode[] {
+  const document = typeof json === "string" ? JSON.parse(json) : json;
+  if (!isObject(document) || document.format !== AST_FORMAT) {
+    fail("$", `expected an ${AST_FORMAT} document`);
+  }
+  if (document.version !== AST_FORMAT_VERSION) {
+    fail(
+      "$.version",
+      `unsupported version ${document.version}, expected ${AST_FORMAT_VERSION}`
+    );
+  }
+  return field.nodes.read(document.nodes, "nodes");
+}
+
+// The JSON Schema (draft 2020-12) of the documents serializeAST writes,
+// covering every registered node class.
+export function astJSONSchema(): object {
+  const classes = [...byName.entries()];
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: `Intrear AST, version ${AST_FORMAT_VERSION}`,
+    type: "object",
+    properties: {
+      format: { const: AST_FORMAT },
+      version: { const: AST_FORMAT_VERSION },
+      nodes: field.nodes.schema,
+    },
+    required: ["format", "version", "nodes"],
+    $defs: {
+      node: { oneOf: classes.map(([name]) => ({ $ref: `#/$defs/${name}` })) },
+      ...Object.fromEntries(
+        classes.map(([name, { fields }]) => {
+          const codec = struct({
+            node: oneOf(name),
+            ...Object.fromEntries(fields),
+            span: optional(spanCodec),
+          });
+          return [name, codec.schema];
+        })
+      ),
+      span: spanStruct.schema,
+      type: type.schema,
+      pattern: pattern.schema,
+      value: {
+        oneOf: [
+          { type: ["null", "boolean", "number", "string"] },
+          { type: "array", items: { $ref: "#/$defs/value" } },
+          struct({ $kind: oneOf("undefined") }).schema,
+          struct({
+            $kind: oneOf("number"),
+            value: oneOf(...SPECIAL_NUMBERS),
+          }).schema,
+          struct({ $kind: oneOf("bigint"), value: string }).schema,
+          struct({ $kind: oneOf("object"), properties: record(value) }).schema,
+        ],
+      },
+    },
+  };
+}
@@ -0,0 +1,323 @@
+// ========================================
+// Intrear Standard Library
+// ========================================
+//
+// Namespaced modules importable from any program run with a registry that
+// includes `StdlibResolver`:
+//
+//   import { clamp, round } from "math";
+//   import * as str from "string";
+//
+// Each module is an ordinary `ExportNode[]` program whose declarations
+// evaluate to host functions, so the registry caches and type-checks them
+// like user modules. Every export carries its `Type` signature.
+
+import {
+  CustomASTNode,
+  ExportNode,
+  MemoryResolver,
+  VariableDeclarationNode,
+} from "./interpreter";
+import type { ASTNode, Type } from "./interpreter";
+import { IntrearRuntimeError } from "./errors";
+
+type Member = [value: any, type: Type];
+
+function fn(paramTypes: Type[], returnType: Type, restType?: Type): Type {
+  return { kind: "function", paramTypes, returnType, restType };
+}
+
+const num: Type = "number";
+const str: Type = "string";
+const bool: Type = "boolean";
+const anyArray: Type = { kind: "array", elementType: "any" };
+const strArray: Type = { kind: "array", elementType: "string" };
+const numArray: Type = { kind: "array", elementType: "number" };
+const callback: Type = fn(["any"], "any");
+
+function invalid(message: string): IntrearRuntimeError {
+  return new IntrearRuntimeError("INVALID_ARGUMENT", message);
+}
+
+// ---------------------------------------------------
+// math
+// ---------------------------------------------------
+const math: Record<string, Member> = {
+  PI: [Math.PI, num],
+  E: [Math.E, num],
+  sin: [Math.sin, fn([num], num)],
+  cos: [Math.cos, fn([num], num)],
+  tan: [Math.tan, fn([num], num)],
+  asin: [Math.asin, fn([num], num)],
+  acos: [Math.acos, fn([num], num)],
+  atan: [Math.atan, fn([num], num)],
+  atan2: [Math.atan2, fn([num, num], num)],
+  exp: [Math.exp, fn([num], num)],
+  log: [Math.log, fn([num], num)],
+  log2: [Math.log2, fn([num], num)],
+  log10: [Math.log10, fn([num], num)],
+  pow: [Math.pow, fn([num, num], num)],
+  sqrt: [Math.sqrt, fn([num], num)],
+  abs: [Math.abs, fn([num], num)],
+  sign: [Math.sign, fn([num], num)],
+  floor: [Math.floor, fn([num], num)],
+  ceil: [Math.ceil, fn([num], num)],
+  trunc: [Math.trunc, fn([num], num)],
+  min: [(...xs: number[]) => Math.min(...xs), fn([], num, num)],
+  max: [(...xs: number[]) => Math.max(...xs), fn([], num, num)],
+  clamp: [
+    (x: number, lo: number, hi: number) => Math.min(Math.max(x, lo), hi),
+    fn([num, num, num], num),
+  ],
+  // round(2.345, 2) == 2.35; negative digits round to tens, hundreds...
+  // Halves round away from zero, and `digits` defaults to 0.
+  round: [
+    (x: number, digits: number = 0) => {
+      if (!Number.isFinite(x)) return x;
+      const shifted = Math.round(shiftDecimal(Math.abs(x), digits));
+      return Math.sign(x) * shiftDecimal(shifted, -digits);
+    },
+    fn([num], num, num),
+  ],
+};
+
+// x * 10 ** by, moved in the decimal text so 1.005 becomes exactly 100.5
+// rather than 100.49999999999999, at any magnitude.
+function shiftDecimal(x: number, by: number): number {
+  const [mantissa, exponent = "0"] = String(x).split("e");
+  return Number(`${mantissa}e${Number(exponent) + by}`);
+}
+
+// ---------------------------------------------------
+// string
+// ---------------------------------------------------
+const string: Record<string, Member> = {
+  padStart: [
+    (s: string, length: number, fill: string) => s.padStart(length, fill),
+    fn([str, num, str], str),
+  ],
+  padEnd: [
+    (s: string, length: number, fill: string) => s.padEnd(length, fill),
+    fn([str, num, str], str),
+  ],
+  split: [(s: string, sep: string) => s.split(sep), fn([str, str], strArray)],
+  join: [(xs: any[], sep: string) => xs.join(sep), fn([anyArray, str], str)],
+  // Replaces every occurrence, not just the first.
+  replace: [
+    (s: string, search: string, replacement: string) =>
+      s.split(search).join(replacement),
+    fn([str, str, str], str),
+  ],
+  trim: [(s: string) => s.trim(), fn([str], str)],
+  trimStart: [(s: string) => s.trimStart(), fn([str], str)],
+  trimEnd: [(s: string) => s.trimEnd(), fn([str], str)],
+  repeat: [(s: string, n: number) => s.repeat(n), fn([str, num], str)],
+  startsWith: [
+    (s: string, p: string) => s.startsWith(p),
+    fn([str, str], bool),
+  ],
+  endsWith: [(s: string, p: string) => s.endsWith(p), fn([str, str], bool)],
+  contains: [(s: string, p: string) => s.includes(p), fn([str, str], bool)],
+  // format("{0} has {1} items", name, count); `{{` and `}}` are literal.
+  format: [
+    (template: string, ...args: any[]) =>
+      template.replace(/\{\{|\}\}|\{(\d+)\}/g, (match, index?: string) => {
+        if (index === undefined) return match[0]!;
+        const i = Number(index);
+        if (i >= args.length) {
+          throw invalid(`format: no argument for placeholder {${i}}`);
+        }
+        return String(args[i]);
+      }),
+    fn([str], str, "any"),
+  ],
+};
+
+// ---------------------------------------------------
+// date - Dates are epoch milliseconds; formatting and calendar math use UTC
+// ---------------------------------------------------
+const UNIT_MS: Record<string, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+function unitOf(unit: string): string {
+  const singular = unit.endsWith("s") ? unit.slice(0, -1) : unit;
+  if (singular in UNIT_MS || singular === "month" || singular === "year") {
+    return singular;
+  }
+  throw invalid(`Unknown date unit '${unit}'`);
+}
+
+// Clamps to the end of shorter months: Jan 31 + 1 month is Feb 28/29.
+function addMonths(time: number, months: number): number {
+  const d = new Date(time);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.getTime();
+}
+
+function formatDate(time: number, pattern: string): string {
+  const d = new Date(time);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(d.getUTCFullYear()),
+    MM: pad(d.getUTCMonth() + 1),
+    DD: pad(d.getUTCDate()),
+    HH: pad(d.getUTCHours()),
+    mm: pad(d.getUTCMinutes()),
+    ss: pad(d.getUTCSeconds()),
+    SSS: pad(d.getUTCMilliseconds(), 3),
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|SSS|ss/g, (t) => tokens[t]!);
+}
+
+const date: Record<string, Member> = {
+  now: [() => Date.now(), fn([], num)],
+  parse: [
+    (text: string) => {
+      const time = Date.parse(text);
+      if (Number.isNaN(time)) throw invalid(`Invalid date '${text}'`);
+      return time;
+    },
+    fn([str], num),
+  ],
+  // Tokens: YYYY MM DD HH mm ss SSS, e.g. "YYYY-MM-DD HH:mm".
+  format: [formatDate, fn([num, str], str)],
+  add: [
+    (time: number, amount: number, unit: string) => {
+      const u = unitOf(unit);
+      if (u === "month") return addMonths(time, amount);
+      if (u === "year") return addMonths(time, amount * 12);
+      return time + amount * UNIT_MS[u]!;
+    },
+    fn([num, num, str], num),
+  ],
+  // Whole units from `a` to `b`, truncated toward zero.
+  diff: [
+    (a: number, b: number, unit: string) => {
+      const u = unitOf(unit);
+      if (u === "month" || u === "year") {
+        const from = new Date(a);
+        const to = new Date(b);
+        let months =
+          (to.getUTCFullYear() - from.getUTCFullYear()) * 12 +
+          (to.getUTCMonth() - from.getUTCMonth());
+        // Drop a month that has not fully elapsed.
+        const partial = addMonths(a, months);
+        if (months > 0 && partial > b) months--;
+        if (months < 0 && partial < b) months++;
+        return u === "year" ? Math.trunc(months / 12) : months;
+      }
+      return Math.trunc((b - a) / UNIT_MS[u]!);
+    },
+    fn([num, num, str], num),
+  ],
+};
+
+// ---------------------------------------------------
+// collections
+// ---------------------------------------------------
+const collections: Record<string, Member> = {
+  // range(0, 3) == [0, 1, 2]
+  range: [
+    (start: number, end: number) => {
+      const out: number[] = [];
+      for (let i = start; i < end; i++) out.push(i);
+      return out;
+    },
+    fn([num, num], numArray),
+  ],
+  zip: [
+    (a: any[], b: any[]) =>
+      Array.from({ length: Math.min(a.length, b.length) }, (_, i) => [
+        a[i],
+        b[i],
+      ]),
+    fn([anyArray, anyArray], { kind: "array", elementType: anyArray }),
+  ],
+  // Groups into an object keyed by the callback's result.
+  groupBy: [
+    (xs: any[], key: (x: any) => any) => {
+      const groups: Record<string, any[]> = {};
+      for (const x of xs) (groups[String(key(x))] ??= []).push(x);
+      return groups;
+    },
+    fn([anyArray, callback], "any"),
+  ],
+  // Stable sort on the callback's result; returns a new array.
+  sortBy: [
+    (xs: any[], key: (x: any) => any) =>
+      xs
+        .map((x) => [key(x), x] as const)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([, x]) => x),
+    fn([anyArray, callback], anyArray),
+  ],
+  unique: [(xs: any[]) => [...new Set(xs)], fn([anyArray], anyArray)],
+};
+
+// ---------------------------------------------------
+// json
+// ---------------------------------------------------
+const json: Record<string, Member> = {
+  parse: [
+    (text: string) => {
+      try {
+        return JSON.parse(text);
+      } catch (e) {
+        throw invalid(`Invalid JSON: ${(e as Error).message}`);
+      }
+    },
+    fn([str], "any"),
+  ],
+  stringify: [(value: any) => JSON.stringify(value), fn(["any"], str)],
+};
+
+export const stdlibMembers: Record<string, Record<string, Member>> = {
+  math,
+  string,
+  date,
+  collections,
+  json,
+};
+
+// Builds a module program exporting each member as a declaration. In a
+// sandbox, a member named like a built-in its capabilities leave out, such
+// as `date.now`, throws CapabilityError when called.
+function moduleOf(members: Record<string, Member>): ASTNode[] {
+  return Object.entries(members).map(([name, [value, type]]) => {
+    const tag = typeof type === "object" ? "function" : type;
+    const init: ASTNode = CustomASTNode((context) => {
+      const { sandbox } = context;
+      if (!sandbox || sandbox.allows(name)) return value;
+      return () => sandbox.checkCapability(name, init, context);
+    }, type);
+    return new ExportNode(new VariableDeclarationNode(tag, name, init));
+  });
+}
+
+// ---------------------------------------------------
+// StdlibResolver - Serves `math`, `string`, `date`, `collections`, `json`
+// ---------------------------------------------------
+export class StdlibResolver extends MemoryResolver {
+  constructor() {
+    super(
+      Object.fromEntries(
+        Object.entries(stdlibMembers).map(([name, members]) => [
+          name,
+          moduleOf(members),
+        ])
+      )
+    );
+  }
+}
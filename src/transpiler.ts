@@ -0,0 +1,2537 @@
+// ========================================
+// Intrear Transpiler
+// ========================================
+//
+// Compiles a program to an ES module that behaves like `execute()` on it:
+//
+//   const { code, map } = transpile(nodes, { sourceMap: true });
+//   await checkTranspiled(nodes); // { interpreted, transpiled, diff }
+//
+// Variables are resolved while compiling, as in ./bytecode, so Intrear
+// scopes become JavaScript blocks. What JavaScript does differently, such as
+// `><`, strict conditions, pointers or class values, goes through small
+// `$`-prefixed helpers that throw the interpreter's error codes and
+// messages; the module only contains the helpers it uses. A built-in's name
+// means the built-in in every scope that does not declare it itself, as in
+// the interpreter, where each scope starts with the built-ins.
+//
+// Not transpiled: `printSelf` and `temporaryRm`, which work on interpreter
+// scopes, `break`, `continue` and `return` that leave no loop or function,
+// and imports below the top level. Imports become JavaScript imports of the
+// same specifier, or of what `resolveImport` maps it to. File built-ins
+// throw NO_FILE_SYSTEM, as in an Interpreter without `fs`.
+
+import {
+  AddressOfNode,
+  ArrayLiteralNode,
+  ArrowFunctionNode,
+  AsNode,
+  AssignmentNode,
+  AwaitNode,
+  BlockNode,
+  BreakNode,
+  ClassDeclarationNode,
+  ContinueNode,
+  DereferenceNode,
+  DoWhileNode,
+  ErrorNode,
+  ExportNode,
+  ForEachNode,
+  ForNode,
+  FunctionCallNode,
+  FunctionLiteralNode,
+  IfNode,
+  ImportNode,
+  IndexAccessNode,
+  IndexAssignmentNode,
+  Interpreter,
+  IsNode,
+  LiteralNode,
+  MatchNode,
+  MethodCallNode,
+  NewNode,
+  ObjectLiteralNode,
+  OperatorNode,
+  PointerAssignmentNode,
+  PropertyAccessNode,
+  ReturnNode,
+  SuperCallNode,
+  SwitchNode,
+  ThisNode,
+  TryCatchNode,
+  TypeAliasNode,
+  typeToString,
+  VariableDeclarationNode,
+  VariableReferenceNode,
+  WhileNode,
+} from "./interpreter";
+import type {
+  ASTNode,
+  ClassField,
+  MatchArm,
+  Pattern,
+  Type,
+} from "./interpreter";
+import type { SourceSpan } from "./errors";
+import { forEachNode } from "./instrument";
+
+export interface TranspileOptions {
+  // Adds `map` to the result.
+  sourceMap?: boolean;
+  // The generated file, recorded in the map.
+  file?: string;
+  // The source of nodes whose span names no file.
+  sourceFile?: string;
+  // The text of `sourceFile`, embedded in the map.
+  sourceContent?: string;
+  // The specifier the module imports for an Intrear import.
+  resolveImport?: (specifier: string) => string;
+}
+
+// A version 3 source map from generated positions to node spans.
+export interface SourceMap {
+  version: 3;
+  file?: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
+}
+
+export interface TranspileResult {
+  code: string;
+  map?: SourceMap;
+}
+
+export function transpile(
+  nodes: ASTNode[],
+  options: TranspileOptions = {}
+): TranspileResult {
+  return new Transpiler(nodes, options).run();
+}
+
+// ---------------------------------------------------
+// Output - Generated text with the spans it came from
+// ---------------------------------------------------
+
+// A variable, rendered as its final JavaScript name: it may still be
+// renamed after code using it was generated.
+class Binding {
+  // Whether code after this point may use the name without a `let`.
+  public declared = false;
+  // Declared with `let` at the start of its block instead of in place.
+  public hoisted = false;
+  public isImport = false;
+  public builtIn = false;
+
+  constructor(
+    public name: string,
+    public js: string,
+    // Only ever holds the functions its declarations define.
+    public functionsOnly = false
+  ) {}
+}
+
+type Code = string | Binding | Code[] | { span: SourceSpan; code: Code };
+
+function join(items: Code[], separator: string): Code[] {
+  return items.flatMap((item, i) => (i === 0 ? [item] : [separator, item]));
+}
+
+interface Mapping {
+  line: number;
+  column: number;
+  source: number;
+  sourceLine: number;
+  sourceColumn: number;
+}
+
+class Output {
+  public text = "";
+  public mappings: Mapping[] = [];
+  public sources: string[] = [];
+  private line = 0;
+  private column = 0;
+
+  constructor(private sourceFile = "<input>") {}
+
+  write(code: Code): void {
+    if (typeof code === "string") return this.append(code);
+    if (code instanceof Binding) return this.append(code.js);
+    if (Array.isArray(code)) return code.forEach((part) => this.write(part));
+    this.mark(code.span);
+    this.write(code.code);
+  }
+
+  private append(text: string) {
+    this.text += text;
+    const lastBreak = text.lastIndexOf("\n");
+    if (lastBreak < 0) {
+      this.column += text.length;
+      return;
+    }
+    this.line += text.split("\n").length - 1;
+    this.column = text.length - lastBreak - 1;
+  }
+
+  // A node starting here; the innermost one wins.
+  private mark(span: SourceSpan) {
+    const file = span.file ?? this.sourceFile;
+    let source = this.sources.indexOf(file);
+    if (source < 0) source = this.sources.push(file) - 1;
+    const mapping = {
+      line: this.line,
+      column: this.column,
+      source,
+      sourceLine: span.start.line - 1,
+      sourceColumn: span.start.column - 1,
+    };
+    const last = this.mappings[this.mappings.length - 1];
+    if (last?.line === this.line && last.column === this.column) {
+      this.mappings[this.mappings.length - 1] = mapping;
+    } else {
+      this.mappings.push(mapping);
+    }
+  }
+
+  // Mappings are in output order; columns restart on each line, the other
+  // fields are relative to the previous mapping anywhere.
+  sourceMap(options: TranspileOptions): SourceMap {
+    const lines: string[][] = [];
+    const previous = { line: 0, column: 0, source: 0, sourceLine: 0 };
+    let sourceColumn = 0;
+    for (const m of this.mappings) {
+      while (lines.length <= m.line) lines.push([]);
+      if (m.line !== previous.line) previous.column = 0;
+      lines[m.line]!.push(
+        vlq(m.column - previous.column) +
+          vlq(m.source - previous.source) +
+          vlq(m.sourceLine - previous.sourceLine) +
+          vlq(m.sourceColumn - sourceColumn)
+      );
+      Object.assign(previous, m);
+      sourceColumn = m.sourceColumn;
+    }
+    const map: SourceMap = {
+      version: 3,
+      sources: this.sources,
+      names: [],
+      mappings: lines.map((segments) => segments.join(",")).join(";"),
+    };
+    if (options.file !== undefined) map.file = options.file;
+    if (options.sourceContent !== undefined) {
+      map.sourcesContent = this.sources.map((source) =>
+        source === this.sourceFile ? options.sourceContent! : ""
+      );
+    }
+    return map;
+  }
+}
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function vlq(n: number): string {
+  let value = n < 0 ? (-n << 1) | 1 : n << 1;
+  let out = "";
+  do {
+    let digit = value & 31;
+    value >>>= 5;
+    if (value > 0) digit |= 32;
+    out += BASE64[digit];
+  } while (value > 0);
+  return out;
+}
+
+// ---------------------------------------------------
+// Runtime - Helpers the generated code calls
+// ---------------------------------------------------
+
+// Each helper's source and the helpers it calls, in the order they are
+// emitted.
+const RUNTIME: Record<string, { needs?: string[]; code: string }> = {
+  $IntrearError: {
+    code: `class $IntrearError extends Error {
+  constructor(name, code, message) {
+    super(message);
+    this.name = name;
+    this.code = code;
+  }
+}`,
+  },
+  $fail: {
+    needs: ["$IntrearError"],
+    code: `function $fail(name, code, message) {
+  throw new $IntrearError(name, code, message);
+}`,
+  },
+  $got: {
+    code: `function $got(value) {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}`,
+  },
+  $cond: {
+    needs: ["$fail", "$got"],
+    code: `function $cond(value) {
+  if (typeof value === "boolean") return value;
+  $fail("TypeError", "CONDITION_NOT_BOOLEAN",
+    \`Condition must be boolean, got \${$got(value)}\`);
+}`,
+  },
+  $and: {
+    code: `function $and(left, right) {
+  return Boolean(left) && Boolean(right);
+}`,
+  },
+  $or: {
+    code: `function $or(left, right) {
+  return Boolean(left) || Boolean(right);
+}`,
+  },
+  $concat: {
+    needs: ["$fail"],
+    code: `function $concat(left, right) {
+  if (!Array.isArray(left) || !Array.isArray(right)) {
+    $fail("TypeError", "OPERAND_TYPE",
+      "Operator 'concat' requires two arrays.");
+  }
+  return left.concat(right);
+}`,
+  },
+  $notDefined: {
+    needs: ["$fail"],
+    code: `function $notDefined(name) {
+  $fail("ReferenceError", "UNDEFINED_VARIABLE", \`'\${name}' is not defined\`);
+}`,
+  },
+  $callable: {
+    needs: ["$fail"],
+    code: `function $callable(fn, name) {
+  if (typeof fn === "function") return fn;
+  $fail("RuntimeError", "NOT_CALLABLE", \`'\${name}' is not callable\`);
+}`,
+  },
+  $arity: {
+    needs: ["$fail"],
+    code: `function $arity(count, expected, name) {
+  if (count === expected) return;
+  $fail("RuntimeError", "ARGUMENT_COUNT",
+    \`Argument count mismatch: \${name} expects \${expected}, got \${count}\`);
+}`,
+  },
+  $pure: {
+    code: `function $pure(fn) {
+  const cache = new Map();
+  const memo = (...args) => {
+    const key = JSON.stringify(args);
+    if (cache.has(key)) return cache.get(key);
+    const result = fn(...args);
+    cache.set(key, result);
+    return result;
+  };
+  return Object.defineProperty(memo, "length", { value: fn.length });
+}`,
+  },
+  $types: {
+    code: `const $types = Object.create(null);`,
+  },
+  $defineType: {
+    needs: ["$types", "$fail"],
+    code: `function $defineType(name, type) {
+  const refersTo = (t, seen) => {
+    if (t === null || typeof t !== "object") return false;
+    if (t.kind === "union") return t.types.some((m) => refersTo(m, seen));
+    if (t.kind !== "named") return false;
+    if (t.name === name) return true;
+    if (seen.has(t.name)) return false;
+    seen.add(t.name);
+    const target = $types[t.name];
+    return target !== undefined && refersTo(target, seen);
+  };
+  if (refersTo(type, new Set())) {
+    $fail("TypeError", "CIRCULAR_TYPE",
+      \`Type alias '\${name}' refers only to itself\`);
+  }
+  $types[name] = type;
+}`,
+  },
+  $CLASS: {
+    code: `const $CLASS = Symbol("class");
+const $INSTANCE_OF = Symbol("instanceOf");`,
+  },
+  $classInfo: {
+    needs: ["$CLASS"],
+    code: `function $classInfo(value) {
+  const isClass =
+    value !== null &&
+    typeof value === "object" &&
+    Object.hasOwn(value, $CLASS);
+  return isClass ? value[$CLASS] : undefined;
+}`,
+  },
+  $isInstanceOf: {
+    needs: ["$classInfo"],
+    code: `function $isInstanceOf(value, className) {
+  if (value === null || typeof value !== "object") return false;
+  let info = value[$INSTANCE_OF];
+  for (; info; info = $classInfo(info.superClass)) {
+    if (info.name === className) return true;
+  }
+  return false;
+}`,
+  },
+  $is: {
+    needs: ["$types", "$classInfo", "$isInstanceOf"],
+    code: `function $is(value, t, expanding = new Set()) {
+  if (typeof t === "string") {
+    switch (t) {
+      case "any":
+        return true;
+      case "null":
+        return value === null;
+      case "undefined":
+      case "void":
+        return value === undefined;
+      default:
+        return typeof value === t;
+    }
+  }
+  switch (t.kind) {
+    case "function":
+      return (
+        typeof value === "function" &&
+        (t.restType !== undefined || value.length <= t.paramTypes.length)
+      );
+    case "array":
+      return (
+        Array.isArray(value) && value.every((v) => $is(v, t.elementType))
+      );
+    case "object":
+      return (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.entries(t.properties).every(
+          ([key, p]) =>
+            (t.optional?.includes(key) && value[key] === undefined) ||
+            $is(value[key], p)
+        )
+      );
+    case "union":
+      return t.types.some((member) => $is(value, member, expanding));
+    case "literal":
+      return value === t.value;
+    case "typevar":
+    case "infer":
+      return true;
+    case "pointer":
+      return value?.__isPtr === true && $is(value.get(), t.to);
+    case "promise":
+      return value instanceof Promise;
+    case "class":
+      return $classInfo(value)?.name === t.name;
+    case "instance":
+      return $isInstanceOf(value, t.className);
+    case "named": {
+      if (expanding.has(t.name)) return false;
+      const target = $types[t.name];
+      if (!target) return $isInstanceOf(value, t.name);
+      return $is(value, target, new Set(expanding).add(t.name));
+    }
+  }
+}`,
+  },
+  $describe: {
+    needs: ["$classInfo"],
+    code: `function $describe(value, depth = 0) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) {
+    if (depth > 0) return "array";
+    const elements = [...new Set(value.map((v) => $describe(v, 1)))];
+    return \`Array<\${elements.join(" | ") || "any"}>\`;
+  }
+  if (typeof value === "function") {
+    const n = value.length;
+    return \`function with \${n} parameter\${n === 1 ? "" : "s"}\`;
+  }
+  if (value?.__isPtr === true) return "pointer";
+  if (value instanceof Promise) return "promise";
+  const isObject = value !== null && typeof value === "object";
+  const instance = isObject ? value[$INSTANCE_OF]?.name : undefined;
+  if (instance) return instance;
+  const cls = $classInfo(value)?.name;
+  if (cls) return \`class \${cls}\`;
+  if (typeof value === "object") {
+    if (depth > 0) return "object";
+    const props = Object.entries(value)
+      .map(([key, v]) => \`\${key}: \${$describe(v, 1)}\`)
+      .join(", ");
+    return \`{ \${props} }\`;
+  }
+  return typeof value;
+}`,
+  },
+  $check: {
+    needs: ["$fail", "$is", "$describe"],
+    code: `function $check(value, t, expected, code) {
+  if ($is(value, t)) return value;
+  $fail("TypeError", code, \`\${expected}, got \${$describe(value)}\`);
+}`,
+  },
+  $cast: {
+    needs: ["$fail", "$is", "$describe"],
+    code: `function $cast(value, t, typeName) {
+  if ($is(value, t)) return value;
+  $fail("TypeError", "INVALID_CAST",
+    \`Cannot cast \${$describe(value)} to \${typeName}\`);
+}`,
+  },
+  $VALUE_CHECKS: {
+    code: `const $VALUE_CHECKS = {
+  number: (v) => typeof v === "number",
+  string: (v) => typeof v === "string",
+  boolean: (v) => typeof v === "boolean",
+  undefined: (v) => v === undefined,
+  null: (v) => v === null,
+  bigint: (v) => typeof v === "bigint",
+  any: (v) => true,
+  array: (v) => Array.isArray(v),
+  object: (v) => v !== null && typeof v === "object" && !Array.isArray(v),
+  promise: (v) => v instanceof Promise,
+};`,
+  },
+  $declare: {
+    needs: ["$fail", "$got", "$VALUE_CHECKS"],
+    code: `function $declare(value, varType, name) {
+  if (varType === "function" || varType === "pointer") {
+    const ok =
+      varType === "function" ? typeof value === "function" : value?.__isPtr;
+    if (!ok) {
+      const expected = varType === "function" ? "a function" : "pointer";
+      $fail("TypeError", "TYPE_MISMATCH",
+        \`Variable '\${name}' expected \${expected}, got \${typeof value}\`);
+    }
+    return value;
+  }
+  if (!Object.hasOwn($VALUE_CHECKS, varType)) {
+    $fail("TypeError", "UNSUPPORTED_TYPE",
+      \`Unsupported variable type: \${varType}\`);
+  }
+  if (!$VALUE_CHECKS[varType](value)) {
+    $fail("TypeError", "TYPE_MISMATCH",
+      \`Variable '\${name}' expected \${varType}, got \${$got(value)}\`);
+  }
+  return value;
+}`,
+  },
+  $method: {
+    needs: ["$fail"],
+    code: `function $method(receiver, name) {
+  if (receiver == null) {
+    $fail("RuntimeError", "NULL_ACCESS",
+      \`Cannot call method '\${name}' on \${receiver}\`);
+  }
+  const unknown = (kind) =>
+    $fail("RuntimeError", "UNKNOWN_METHOD",
+      \`Unknown \${kind} method: \${name}\`);
+  const each = (fn) =>
+    typeof fn !== "function" ? fn
+    : fn.length < 2 ? (value) => fn(value)
+    : (value, index) => fn(value, index);
+  return (...args) => {
+    if (typeof receiver === "string") {
+      switch (name) {
+        case "length":
+          return receiver.length;
+        case "toUpperCase":
+          return receiver.toUpperCase();
+        case "toLowerCase":
+          return receiver.toLowerCase();
+        case "slice":
+          return receiver.slice(...args);
+        case "parseInt":
+          return parseInt(receiver);
+        case "parseFloat":
+          return parseFloat(receiver);
+      }
+      unknown("string");
+    }
+    if (Array.isArray(receiver)) {
+      switch (name) {
+        case "length":
+          return receiver.length;
+        case "push":
+          return receiver.push(...args);
+        case "pop":
+          return receiver.pop();
+        case "map":
+          return receiver.map(each(args[0]));
+        case "filter":
+          return receiver.filter(each(args[0]));
+      }
+      unknown("array");
+    }
+    if (typeof receiver === "number") {
+      if (name === "toString") return receiver.toString();
+      unknown("number");
+    }
+    const fn = receiver[name];
+    if (typeof fn === "function") return fn.apply(receiver, args);
+    $fail("RuntimeError", "UNKNOWN_METHOD",
+      \`'\${name}' is not a method on \${receiver}\`);
+  };
+}`,
+  },
+  $object: {
+    needs: ["$fail"],
+    code: `function $object(value) {
+  if (value != null) return value;
+  $fail("RuntimeError", "NULL_ACCESS",
+    "Cannot access property of null/undefined");
+}`,
+  },
+  $target: {
+    needs: ["$fail"],
+    code: `function $target(value) {
+  if (value != null) return value;
+  $fail("RuntimeError", "NULL_ACCESS",
+    "Cannot get reference of property on null/undefined");
+}`,
+  },
+  $array: {
+    needs: ["$fail"],
+    code: `function $array(value) {
+  if (Array.isArray(value)) return value;
+  $fail("RuntimeError", "NOT_AN_ARRAY", "Target is not an array");
+}`,
+  },
+  $index: {
+    needs: ["$array"],
+    code: `function $index(array, index) {
+  return $array(array)[index];
+}`,
+  },
+  $setIndex: {
+    needs: ["$fail", "$array"],
+    code: `function $setIndex(array, index, value) {
+  $array(array);
+  if (typeof index !== "number") {
+    $fail("RuntimeError", "INDEX_NOT_NUMBER", "Index must be a number");
+  }
+  return (array[index] = value);
+}`,
+  },
+  $iterable: {
+    needs: ["$fail"],
+    code: `function $iterable(value) {
+  if (Array.isArray(value)) return value;
+  $fail("RuntimeError", "NOT_ITERABLE", "Target is not iterable");
+}`,
+  },
+  $ref: {
+    code: `function $ref(get, set) {
+  return { __isPtr: true, get, set };
+}`,
+  },
+  $indexRef: {
+    needs: ["$ref", "$array"],
+    code: `function $indexRef(array, index) {
+  $array(array);
+  return $ref(() => array[index], (value) => {
+    array[index] = value;
+  });
+}`,
+  },
+  $propertyRef: {
+    needs: ["$ref"],
+    code: `function $propertyRef(object, key) {
+  return $ref(() => object[key], (value) => {
+    object[key] = value;
+  });
+}`,
+  },
+  $deref: {
+    needs: ["$fail"],
+    code: `function $deref(pointer) {
+  if (pointer?.__isPtr) return pointer.get();
+  $fail("RuntimeError", "NOT_A_POINTER",
+    \`Cannot dereference non‐pointer: \${pointer}\`);
+}`,
+  },
+  $pointer: {
+    needs: ["$fail"],
+    code: `function $pointer(pointer) {
+  if (pointer?.__isPtr) return pointer;
+  $fail("RuntimeError", "NOT_A_POINTER", "Not a pointer");
+}`,
+  },
+  $put: {
+    code: `function $put(pointer, value) {
+  pointer.set(value);
+  return value;
+}`,
+  },
+  $noMatch: {
+    needs: ["$IntrearError"],
+    code: `function $noMatch(value) {
+  let shown;
+  try {
+    shown = JSON.stringify(value) ?? String(value);
+  } catch {
+    shown = String(value);
+  }
+  return new $IntrearError("RuntimeError", "NO_MATCH",
+    \`No match arm matched the value \${shown}\`);
+}`,
+  },
+  $userError: {
+    needs: ["$IntrearError"],
+    code: `function $userError(message) {
+  return new $IntrearError("RuntimeError", "USER_ERROR", String(message));
+}`,
+  },
+  $throw: {
+    code: `function $throw(error) {
+  throw error;
+}`,
+  },
+  $class: {
+    needs: ["$classInfo"],
+    code: `function $class(name, superClass, define) {
+  const value = Object.create(superClass ?? Object.prototype);
+  const prototype = Object.create(
+    $classInfo(superClass)?.prototype ?? Object.prototype
+  );
+  const info = { name, superClass, prototype, ...define(superClass) };
+  value[$CLASS] = info;
+  prototype[$INSTANCE_OF] = info;
+  const methodOf = (fn) =>
+    function (...args) {
+      return fn.apply(this, args);
+    };
+  for (const [key, fn] of Object.entries(info.methods ?? {})) {
+    prototype[key] = methodOf(fn);
+  }
+  for (const [key, fn] of Object.entries(info.statics ?? {})) {
+    value[key] = methodOf(fn);
+  }
+  return value;
+}`,
+  },
+  $extends: {
+    needs: ["$fail", "$classInfo"],
+    code: `function $extends(value, name) {
+  if ($classInfo(value)) return value;
+  $fail("RuntimeError", "NOT_A_CLASS", \`'\${name}' is not a class\`);
+}`,
+  },
+  $initStatics: {
+    needs: ["$classInfo"],
+    code: `function $initStatics(cls) {
+  $classInfo(cls).staticFields(cls);
+}`,
+  },
+  $initFields: {
+    needs: ["$classInfo"],
+    code: `function $initFields(info, self) {
+  if (info.superClass) $initFields($classInfo(info.superClass), self);
+  info.fields?.(self);
+}`,
+  },
+  $runConstructor: {
+    needs: ["$fail", "$classInfo"],
+    code: `function $runConstructor(info, self, args) {
+  if (info.init) {
+    info.init.apply(self, args);
+  } else if (info.superClass) {
+    $runConstructor($classInfo(info.superClass), self, args);
+  } else if (args.length > 0) {
+    $fail("RuntimeError", "ARGUMENT_COUNT",
+      \`Argument count mismatch: \${info.name} has no constructor, got \${
+        args.length
+      } arguments\`);
+  }
+}`,
+  },
+  $new: {
+    needs: ["$fail", "$classInfo", "$initFields", "$runConstructor"],
+    code: `function $new(cls, name) {
+  const info = $classInfo(cls);
+  if (!info) {
+    $fail("RuntimeError", "NOT_A_CLASS", \`'\${name}' is not a class\`);
+  }
+  return (...args) => {
+    const self = Object.create(info.prototype);
+    $initFields(info, self);
+    $runConstructor(info, self, args);
+    return self;
+  };
+}`,
+  },
+  $superCall: {
+    needs: ["$fail", "$classInfo", "$runConstructor"],
+    code: `function $superCall(superClass, self, method, args) {
+  if (!superClass) {
+    $fail("RuntimeError", "OUTSIDE_CLASS",
+      "'super' is only valid in a subclass");
+  }
+  const info = $classInfo(superClass);
+  if (method === null) {
+    $runConstructor(info, self, args);
+    return undefined;
+  }
+  const holder = $classInfo(self) ? superClass : info.prototype;
+  const fn = holder[method];
+  if (typeof fn !== "function") {
+    $fail("RuntimeError", "UNKNOWN_METHOD",
+      \`'\${method}' is not a method of \${info.name}\`);
+  }
+  return fn.apply(self, args);
+}`,
+  },
+  $print: {
+    code: `function $print(...args) {
+  console.log(...args);
+}`,
+  },
+  $typeOf: {
+    code: `function $typeOf(value) {
+  return Array.isArray(value) ? "array" : typeof value;
+}`,
+  },
+  $now: {
+    code: `function $now() {
+  return Date.now();
+}`,
+  },
+  $random: {
+    code: `function $random() {
+  return Math.random();
+}`,
+  },
+  $isNaN: {
+    code: `function $isNaN(x) {
+  return isNaN(x);
+}`,
+  },
+  $abs: {
+    code: `function $abs(x) {
+  return Math.abs(x);
+}`,
+  },
+  $sqrt: {
+    code: `function $sqrt(x) {
+  return Math.sqrt(x);
+}`,
+  },
+  $floor: {
+    code: `function $floor(x) {
+  return Math.floor(x);
+}`,
+  },
+  $ceil: {
+    code: `function $ceil(x) {
+  return Math.ceil(x);
+}`,
+  },
+  $fetch: {
+    code: `async function $fetch(url) {
+  const res = await fetch(url);
+  return await res.text();
+}`,
+  },
+  $noFileSystem: {
+    needs: ["$fail"],
+    code: `function $noFileSystem() {
+  $fail("RuntimeError", "NO_FILE_SYSTEM",
+    "File built-ins need an Interpreter with the \`fs\` option");
+}`,
+  },
+  $readFile: {
+    needs: ["$noFileSystem"],
+    code: `function $readFile(path) {
+  return $noFileSystem();
+}`,
+  },
+  $writeFile: {
+    needs: ["$noFileSystem"],
+    code: `function $writeFile(path, data) {
+  $noFileSystem();
+}`,
+  },
+  $listDir: {
+    needs: ["$noFileSystem"],
+    code: `function $listDir(path) {
+  return $noFileSystem();
+}`,
+  },
+  $exists: {
+    needs: ["$noFileSystem"],
+    code: `function $exists(path) {
+  return $noFileSystem();
+}`,
+  },
+  $mkdir: {
+    needs: ["$noFileSystem"],
+    code: `function $mkdir(path) {
+  $noFileSystem();
+}`,
+  },
+  $remove: {
+    needs: ["$noFileSystem"],
+    code: `function $remove(path) {
+  $noFileSystem();
+}`,
+  },
+};
+
+// The helper each built-in is; null for those with no JavaScript version.
+const BUILT_INS: Record<string, string | null> = {
+  print: "$print",
+  printSelf: null,
+  typeOf: "$typeOf",
+  now: "$now",
+  random: "$random",
+  isNaN: "$isNaN",
+  abs: "$abs",
+  sqrt: "$sqrt",
+  floor: "$floor",
+  ceil: "$ceil",
+  fetch: "$fetch",
+  temporaryRm: null,
+  readFile: "$readFile",
+  writeFile: "$writeFile",
+  listDir: "$listDir",
+  exists: "$exists",
+  mkdir: "$mkdir",
+  remove: "$remove",
+};
+
+// ---------------------------------------------------
+// Names - Intrear variables as JavaScript identifiers
+// ---------------------------------------------------
+
+// Words a variable may not be called in a module, and the globals that the
+// generated code and the helpers use.
+const RESERVED = new Set(
+  (
+    "arguments await break case catch class const continue debugger " +
+    "default delete do else enum eval export extends false finally for " +
+    "function if implements import in instanceof interface let new null " +
+    "package private protected public return static super switch this " +
+    "throw true try typeof var void while with yield undefined NaN " +
+    "Infinity Array Boolean Date Error JSON Map Math Object Promise Set " +
+    "String Symbol console fetch globalThis isNaN parseFloat parseInt"
+  ).split(" ")
+);
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Intrear names never contain `$`, which the generated names use.
+function jsName(name: string): string {
+  if (!IDENTIFIER.test(name)) return `_${name.replace(/\W/g, "_")}$`;
+  return RESERVED.has(name) ? `${name}$` : name;
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function member(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${quote(key)}]`;
+}
+
+// An Intrear scope. `nested` counts the JavaScript blocks open inside it
+// that are no scope of their own, such as `while` bodies.
+class Scope {
+  public names = new Map<string, Binding>();
+  public nested = 0;
+
+  constructor(public parent?: Scope, public isFunction = false) {}
+}
+
+// The statements that run in the scope `nodes` are in: `while` bodies and
+// `for` headers have no scope of their own.
+function sameScope(nodes: ASTNode[]): ASTNode[] {
+  return nodes.flatMap((node) => {
+    if (node instanceof WhileNode) return [node, ...sameScope(node.body)];
+    if (node instanceof ForNode) {
+      return [node, ...sameScope([node.init, node.update])];
+    }
+    if (node instanceof ExportNode) return [node, node.declaration];
+    return [node];
+  });
+}
+
+function contains(value: any, NodeClass: Function): boolean {
+  let found = false;
+  forEachNode(value, (node) => {
+    found ||= node instanceof NodeClass;
+  });
+  return found;
+}
+
+// Whether `nodes` leave the code around them through `break`, `continue`
+// or `return`, outside the functions and loops they define.
+function escapes(nodes: ASTNode[]): boolean {
+  let found = false;
+  const visit = (value: any): void => {
+    if (found || value === null || typeof value !== "object") return;
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (
+      value instanceof BreakNode ||
+      value instanceof ContinueNode ||
+      value instanceof ReturnNode
+    ) {
+      found = true;
+      return;
+    }
+    if (
+      value instanceof FunctionLiteralNode ||
+      value instanceof ArrowFunctionNode ||
+      value instanceof ClassDeclarationNode
+    ) {
+      return;
+    }
+    Object.values(value).forEach(visit);
+  };
+  visit(nodes);
+  return found;
+}
+
+// ---------------------------------------------------
+// Transpiler - Emits the module, one node at a time
+// ---------------------------------------------------
+
+// JavaScript operator precedences, loosest last.
+const PRIMARY = 18;
+const CALL = 17;
+const UNARY = 14;
+const EXPONENT = 13;
+const MULTIPLICATIVE = 12;
+const ADDITIVE = 11;
+const RELATIONAL = 9;
+const EQUALITY = 8;
+const AND = 4;
+const OR = 3;
+const ASSIGN = 2;
+
+const BINARY: Record<string, number> = {
+  "+": ADDITIVE,
+  "-": ADDITIVE,
+  "*": MULTIPLICATIVE,
+  "/": MULTIPLICATIVE,
+  "<": RELATIONAL,
+  "<=": RELATIONAL,
+  ">": RELATIONAL,
+  ">=": RELATIONAL,
+  "==": EQUALITY,
+  "!==": EQUALITY,
+};
+
+const BOOLEAN_OPERATORS = ["==", "!==", "<", "<=", ">", ">=", "&&", "||"];
+
+// Whether `node` always evaluates to a boolean, if it evaluates at all.
+function isBoolean(node: ASTNode): boolean {
+  if (node instanceof LiteralNode) return typeof node.value === "boolean";
+  if (node instanceof OperatorNode) {
+    return BOOLEAN_OPERATORS.includes(node.operator);
+  }
+  return node instanceof IsNode;
+}
+
+// Whether evaluating `node` can have no effect and cannot throw, so that
+// skipping it is unobservable.
+function isPure(node: ASTNode): boolean {
+  if (node instanceof LiteralNode) return true;
+  if (node instanceof VariableReferenceNode) return true;
+  if (node instanceof IsNode) return isPure(node.expression);
+  return (
+    node instanceof OperatorNode &&
+    (node.operator in BINARY || ["&&", "||"].includes(node.operator)) &&
+    node.operands.every(isPure)
+  );
+}
+
+// `return expression;`, spanning the expression.
+function returning(expression: ASTNode): ReturnNode {
+  const node = new ReturnNode(expression);
+  node.span = expression.span;
+  return node;
+}
+
+// Whether a declaration's value always passes the check of its `varType`.
+function satisfies(node: ASTNode, varType: string): boolean {
+  switch (varType) {
+    case "function":
+      return (
+        node instanceof FunctionLiteralNode ||
+        node instanceof ArrowFunctionNode
+      );
+    case "pointer":
+      return node instanceof AddressOfNode;
+    case "array":
+      return node instanceof ArrayLiteralNode;
+    case "object":
+      return node instanceof ObjectLiteralNode;
+    case "string":
+      return (
+        (node instanceof LiteralNode && typeof node.value === "string") ||
+        (node instanceof OperatorNode && node.operator === "><")
+      );
+    case "boolean":
+      return isBoolean(node);
+    case "number":
+    case "bigint":
+    case "null":
+    case "undefined":
+      return (
+        node instanceof LiteralNode &&
+        (node.value === null ? "null" : typeof node.value) === varType
+      );
+  }
+  return false;
+}
+
+interface Frame {
+  isAsync: boolean;
+  loops: number;
+  // The declared type of a function's result and the message start of a
+  // failed check.
+  returns?: { type: Type; expected: string };
+  isModule?: boolean;
+}
+
+// Where a lowered `match` puts its value; returns the statement.
+type Destination = (value: Code) => Code;
+
+class Transpiler {
+  private scope: Scope;
+  private moduleScope: Scope;
+  private frame: Frame = { isAsync: true, loops: 0, isModule: true };
+  private depth = 0;
+  private used = new Set<string>();
+  private builtIns = new Map<string, Binding>();
+  private renames = 0;
+  private temps = 0;
+  // Names assigned anywhere, which a direct call must not trust.
+  private assigned = new Set<string>();
+  private inClass = false;
+  private imports: Code[] = [];
+  private exports: [Binding, string][] = [];
+
+  constructor(private nodes: ASTNode[], private options: TranspileOptions) {
+    this.scope = this.moduleScope = new Scope(undefined, true);
+    forEachNode(nodes, (node) => {
+      if (node instanceof AssignmentNode) this.assigned.add(node.name);
+      if (
+        node instanceof AddressOfNode &&
+        node.target instanceof VariableReferenceNode
+      ) {
+        this.assigned.add(node.target.name);
+      }
+    });
+  }
+
+  run(): TranspileResult {
+    const program = this.inScope(this.scope, this.nodes, () =>
+      this.lines(this.nodes)
+    );
+    const sections: Code[] = [];
+    if (this.imports.length) sections.push(join(this.imports, "\n"));
+    const helpers = Object.keys(RUNTIME).filter((name) => this.used.has(name));
+    if (helpers.length) {
+      const runtime = helpers.map((name) => RUNTIME[name]!.code);
+      sections.push(runtime.join("\n\n"));
+    }
+    if (program.length) sections.push(program.slice(1));
+    if (this.exports.length) {
+      const names = this.exports.map(([binding, name]) =>
+        binding.js === name ? name : `${binding.js} as ${name}`
+      );
+      sections.push(`export { ${names.join(", ")} };`);
+    }
+    const output = new Output(this.options.sourceFile);
+    if (sections.length) output.write([join(sections, "\n\n"), "\n"]);
+    const result: TranspileResult = { code: output.text };
+    if (this.options.sourceMap) result.map = output.sourceMap(this.options);
+    return result;
+  }
+
+  // ----- Scopes and variables -----
+
+  // Runs `body` with `scope` entered and the names declared by `nodes` in
+  // it; its lines are preceded by the `let` of the hoisted variables.
+  private inScope(scope: Scope, nodes: ASTNode[], body: () => Code[]) {
+    const outer = this.scope;
+    this.scope = scope;
+    for (const node of sameScope(nodes)) {
+      if (node instanceof VariableDeclarationNode) {
+        this.predeclare(node.name, node.varType === "function");
+      } else if (node instanceof ClassDeclarationNode) {
+        this.predeclare(node.name, false);
+      } else if (node instanceof ImportNode) {
+        const names = node.bindings.map(({ name, as }) => as ?? name);
+        if (node.namespace) names.push(node.namespace);
+        for (const name of names) {
+          this.predeclare(name, false);
+          // JavaScript imports are bound before the module runs.
+          if (scope === this.moduleScope) {
+            const binding = scope.names.get(name)!;
+            binding.declared = binding.isImport = true;
+          }
+        }
+      }
+    }
+    // Assigning a name declared nowhere creates it in the current scope.
+    for (const node of sameScope(nodes)) {
+      if (node instanceof AssignmentNode && !this.isVisible(node.name)) {
+        this.predeclare(node.name, false);
+      }
+    }
+    const lines = body();
+    this.scope = outer;
+    const hoisted = [...scope.names.values()].filter((b) => b.hoisted);
+    if (hoisted.length === 0) return lines;
+    return ["\n", this.pad(), "let ", join(hoisted, ", "), ";", ...lines];
+  }
+
+  private predeclare(name: string, functionsOnly: boolean) {
+    const binding = this.scope.names.get(name);
+    if (binding) {
+      binding.functionsOnly &&= functionsOnly;
+    } else {
+      const created = new Binding(name, jsName(name), functionsOnly);
+      this.scope.names.set(name, created);
+    }
+  }
+
+  private isVisible(name: string): boolean {
+    return this.declaresAbove(this.scope, name) || name in BUILT_INS;
+  }
+
+  // Whether `scope` or a scope around it has a variable `name`.
+  private declaresAbove(scope: Scope | undefined, name: string): boolean {
+    for (; scope; scope = scope.parent) {
+      if (scope.names.has(name)) return true;
+    }
+    return false;
+  }
+
+  // The variable `name` reads, or undefined if there is none. A name the
+  // current function declares later still reads the outer variable until
+  // then, which is renamed apart if they would clash.
+  private lookup(name: string): Binding | undefined {
+    if (name in BUILT_INS) {
+      const own = this.scope.names.get(name);
+      return own?.declared ? own : this.builtIn(name);
+    }
+    let pending: Binding | undefined;
+    let outside = false;
+    let scope: Scope | undefined = this.scope;
+    for (; scope; scope = scope.parent) {
+      const binding = scope.names.get(name);
+      if (binding && (binding.declared || outside)) {
+        if (pending?.js === binding.js) pending.js = this.fresh(name);
+        return binding;
+      }
+      pending ??= binding;
+      if (scope.isFunction) outside = true;
+    }
+    if (pending) pending.declared = pending.hoisted = true;
+    return pending;
+  }
+
+  private builtIn(name: string): Binding {
+    const helper = BUILT_INS[name];
+    if (!helper) {
+      throw new Error(`Cannot transpile the built-in '${name}'`);
+    }
+    let binding = this.builtIns.get(name);
+    if (!binding) {
+      binding = new Binding(name, this.use(helper), true);
+      binding.declared = binding.builtIn = true;
+      this.builtIns.set(name, binding);
+    }
+    return binding;
+  }
+
+  // The current scope's variable `name`, created if it has none.
+  private own(name: string): Binding {
+    let binding = this.scope.names.get(name);
+    if (!binding) {
+      // Code before this point may still read the outer variable.
+      const shadows = this.declaresAbove(this.scope.parent, name);
+      binding = new Binding(name, shadows ? this.fresh(name) : jsName(name));
+      this.scope.names.set(name, binding);
+    }
+    if (binding.isImport) {
+      throw new Error(`Cannot transpile an assignment to the import '${name}'`);
+    }
+    return binding;
+  }
+
+  // The variable an assignment to `name` writes.
+  private assignTarget(name: string): Binding {
+    const found = name in BUILT_INS ? undefined : this.lookup(name);
+    if (found?.isImport) {
+      throw new Error(`Cannot transpile an assignment to the import '${name}'`);
+    }
+    if (found) return found;
+    const binding = this.own(name);
+    if (!binding.declared) binding.declared = binding.hoisted = true;
+    return binding;
+  }
+
+  private fresh(name: string): string {
+    return `${jsName(name)}$${++this.renames}`;
+  }
+
+  // `name = value`, as `let` where this is the first definition of `name` in
+  // the scope's straight-line code.
+  private bind(name: string, value: Code, asValue = false): Code {
+    const binding = this.own(name);
+    if (binding.declared || asValue || this.scope.nested > 0) {
+      if (!binding.declared) binding.declared = binding.hoisted = true;
+      return [binding, " = ", value];
+    }
+    binding.declared = true;
+    return ["let ", binding, " = ", value];
+  }
+
+  // Marks a helper as used; returns its name.
+  private use(name: string): string {
+    if (!this.used.has(name)) {
+      this.used.add(name);
+      RUNTIME[name]!.needs?.forEach((need) => this.use(need));
+    }
+    return name;
+  }
+
+  private helper(name: string, args: Code[]): Code {
+    return [this.use(name), "(", join(args, ", "), ")"];
+  }
+
+  private fail(name: string, code: string, message: string): Code {
+    return this.helper("$fail", [quote(name), quote(code), quote(message)]);
+  }
+
+  // ----- Statements -----
+
+  private pad(): string {
+    return "  ".repeat(this.depth);
+  }
+
+  // Each statement on a line of its own, each line starting with "\n".
+  private lines(nodes: ASTNode[]): Code[] {
+    const out: Code[] = [];
+    for (const node of nodes) {
+      const code = this.statement(node);
+      if (code !== "") out.push("\n", this.pad(), code);
+    }
+    return out;
+  }
+
+  // `{ ... }` around the lines `body` returns, one level deeper.
+  private braced(body: () => Code[]): Code {
+    this.depth++;
+    const lines = body();
+    this.depth--;
+    return lines.length ? ["{", lines, "\n", this.pad(), "}"] : "{}";
+  }
+
+  // A block whose statements run in a scope of their own.
+  private block(nodes: ASTNode[], scope = new Scope(this.scope)): Code {
+    return this.braced(() =>
+      this.inScope(scope, nodes, () => this.lines(nodes))
+    );
+  }
+
+  // A block of the current scope, such as a `while` body.
+  private nestedBlock(nodes: ASTNode[]): Code {
+    this.scope.nested++;
+    const code = this.braced(() => this.lines(nodes));
+    this.scope.nested--;
+    return code;
+  }
+
+  private statement(node: ASTNode): Code {
+    const code = this.statementCode(node);
+    return node.span && code !== "" ? { span: node.span, code } : code;
+  }
+
+  private statementCode(node: ASTNode): Code {
+    if (node instanceof VariableDeclarationNode) {
+      if (node.expression instanceof MatchNode) return this.matchInto(node);
+      return [this.declaration(node), ";"];
+    }
+    if (
+      node instanceof AssignmentNode &&
+      node.expression instanceof MatchNode
+    ) {
+      const binding = this.assignTarget(node.name);
+      const assign = (value: Code) => [binding, " = ", value, ";"];
+      return this.match(node.expression, assign);
+    }
+    if (node instanceof ReturnNode && node.expression instanceof MatchNode) {
+      return this.match(node.expression, (value) => this.returning(value));
+    }
+    if (node instanceof MatchNode) return this.match(node);
+    if (node instanceof ClassDeclarationNode) {
+      return this.classDeclaration(node);
+    }
+    if (node instanceof ExportNode) return this.exportDeclaration(node);
+    if (node instanceof ImportNode) return this.importDeclaration(node);
+    if (node instanceof TypeAliasNode) {
+      this.use("$defineType");
+      const type = this.typeCode(node.type);
+      return ["$defineType(", JSON.stringify(node.name), ", ", type, ");"];
+    }
+    if (node instanceof IfNode) return this.ifStatement(node);
+    if (node instanceof WhileNode) {
+      const condition = this.condition(node.condition);
+      const body = this.loop(() => this.nestedBlock(node.body));
+      return ["while (", condition, ") ", body];
+    }
+    if (node instanceof DoWhileNode) {
+      const body = this.loop(() => this.block(node.body));
+      return ["do ", body, " while (", this.expression(node.condition), ");"];
+    }
+    if (node instanceof ForNode) return this.forStatement(node);
+    if (node instanceof ForEachNode) {
+      const items = this.expression(node.iterable);
+      const iterable = this.helper("$iterable", [items]);
+      const scope = new Scope(this.scope);
+      const item = new Binding(node.itemName, jsName(node.itemName));
+      item.declared = true;
+      scope.names.set(node.itemName, item);
+      const body = this.loop(() => this.block(node.body, scope));
+      return ["for (let ", item, " of ", iterable, ") ", body];
+    }
+    if (node instanceof SwitchNode) return this.switchStatement(node);
+    if (node instanceof TryCatchNode) {
+      const tryBlock = this.block(node.tryBlock);
+      const scope = new Scope(this.scope);
+      const error = new Binding(node.catchVar, jsName(node.catchVar));
+      error.declared = true;
+      scope.names.set(node.catchVar, error);
+      const catchBlock = this.block(node.catchBlock, scope);
+      return ["try ", tryBlock, " catch (", error, ") ", catchBlock];
+    }
+    if (node instanceof BlockNode) return this.block(node.statements);
+    if (node instanceof ReturnNode) {
+      return this.returning(this.expression(node.expression));
+    }
+    if (node instanceof BreakNode || node instanceof ContinueNode) {
+      const keyword = node instanceof BreakNode ? "break" : "continue";
+      if (this.frame.loops === 0) {
+        throw new Error(`Cannot transpile '${keyword}' outside a loop`);
+      }
+      return `${keyword};`;
+    }
+    if (node instanceof ErrorNode) {
+      const message = this.expression(node.message);
+      return ["throw ", this.helper("$userError", [message]), ";"];
+    }
+    const code = this.expression(node);
+    return this.startsStatement(code) ? ["(", code, ");"] : [code, ";"];
+  }
+
+  // Whether `code` would not parse as an expression statement.
+  private startsStatement(code: Code): boolean {
+    let first = "";
+    const find = (part: Code): boolean => {
+      if (typeof part === "string") first = part;
+      else if (part instanceof Binding) first = part.js;
+      else if (Array.isArray(part)) return part.some(find);
+      else return find(part.code);
+      return first !== "";
+    };
+    find(code);
+    return /^(\{|function\b|async function\b|class\b)/.test(first);
+  }
+
+  private loop(body: () => Code): Code {
+    this.frame.loops++;
+    const code = body();
+    this.frame.loops--;
+    return code;
+  }
+
+  private returning(value: Code): Code {
+    if (this.frame.isModule) {
+      throw new Error("Cannot transpile 'return' outside a function");
+    }
+    const returns = this.frame.returns;
+    if (!returns) return ["return ", value, ";"];
+    return ["return ", this.returnCheck(value, returns), ";"];
+  }
+
+  private returnCheck(value: Code, returns: Frame["returns"] & {}): Code {
+    return this.helper("$check", [
+      value,
+      this.typeCode(returns.type),
+      quote(returns.expected),
+      quote("RETURN_TYPE"),
+    ]);
+  }
+
+  private declaration(node: VariableDeclarationNode, asValue = false): Code {
+    const value = this.checked(node, this.expression(node.expression));
+    return this.bind(node.name, value, asValue);
+  }
+
+  // The value of a declaration, checked against its `varType` and declared
+  // type.
+  private checked(node: VariableDeclarationNode, value: Code): Code {
+    const { varType, declaredType, name } = node;
+    if (varType !== "any" && !satisfies(node.expression, varType)) {
+      value = this.helper("$declare", [value, quote(varType), quote(name)]);
+    }
+    if (declaredType) {
+      value = this.helper("$check", [
+        value,
+        this.typeCode(declaredType),
+        quote(`Variable '${name}' expected ${typeToString(declaredType)}`),
+        quote("TYPE_MISMATCH"),
+      ]);
+    }
+    return value;
+  }
+
+  private ifStatement(node: IfNode): Code {
+    const code: Code[] = [
+      "if (",
+      this.condition(node.condition),
+      ") ",
+      this.block(node.thenBranch),
+    ];
+    const otherwise = node.elseBranch;
+    const inner = otherwise?.length === 1 ? otherwise[0] : undefined;
+    const defines = (n: ASTNode) =>
+      contains(n, AssignmentNode) ||
+      contains(n, VariableDeclarationNode) ||
+      contains(n, AddressOfNode);
+    if (inner instanceof IfNode && !defines(inner.condition)) {
+      // The `else` scope holds nothing but the inner `if`.
+      const scope = new Scope(this.scope);
+      const outer = this.scope;
+      this.scope = scope;
+      const elseIf = this.statement(inner);
+      this.scope = outer;
+      code.push(" else ", elseIf);
+    } else if (otherwise?.length) {
+      code.push(" else ", this.block(otherwise));
+    }
+    return code;
+  }
+
+  private forStatement(node: ForNode): Code {
+    // The header runs in the enclosing scope, so a declaration in it is a
+    // statement of its own before the loop.
+    let before: Code = "";
+    let init: Code = "";
+    if (node.init instanceof VariableDeclarationNode) {
+      const declaration = this.declaration(node.init);
+      if (Array.isArray(declaration) && declaration[0] === "let ") {
+        before = [this.wrap(node.init, [declaration, ";"]), "\n", this.pad()];
+      } else {
+        init = this.wrap(node.init, declaration);
+      }
+    } else {
+      init = this.expression(node.init);
+    }
+    const condition = this.condition(node.condition);
+    const update = this.expression(node.update);
+    const body = this.loop(() => this.block(node.body));
+    return [before, "for (", init, "; ", condition, "; ", update, ") ", body];
+  }
+
+  private wrap(node: ASTNode, code: Code): Code {
+    return node.span ? { span: node.span, code } : code;
+  }
+
+  private switchStatement(node: SwitchNode): Code {
+    const subject = node.expression;
+    let before: Code = "";
+    let value: Code;
+    if (
+      subject instanceof LiteralNode ||
+      subject instanceof VariableReferenceNode
+    ) {
+      value = this.expression(subject, EQUALITY + 1);
+    } else {
+      value = `$switch${++this.temps}`;
+      before = ["const ", value, " = ", this.expression(subject), ";"];
+    }
+    const branches: Code[] = node.cases.map(({ match, body }) => [
+      "if (",
+      value,
+      " === ",
+      this.expression(match, EQUALITY + 1),
+      ") ",
+      this.block(body),
+    ]);
+    if (node.defaultCase) branches.push(this.block(node.defaultCase));
+    if (branches.length === 0) return before;
+    const chain = join(branches, " else ");
+    return before === "" ? chain : [before, "\n", this.pad(), chain];
+  }
+
+  // ----- Functions and classes -----
+
+  private parameters(names: string[], scope: Scope): Code {
+    return join(
+      names.map((name, i) => {
+        // The last of repeated parameters is the one the body sees.
+        if (names.indexOf(name, i + 1) >= 0) return `_$${i}`;
+        const binding = new Binding(name, jsName(name));
+        binding.declared = true;
+        scope.names.set(name, binding);
+        return binding;
+      }),
+      ", "
+    );
+  }
+
+  // A line checking each parameter with a declared type.
+  private parameterChecks(
+    names: string[],
+    types: Type[] | undefined,
+    scope: Scope,
+    name: string
+  ): Code[] {
+    const lines: Code[] = [];
+    names.forEach((param, i) => {
+      const declared = types?.[i];
+      if (!declared || declared === "any") return;
+      const binding = scope.names.get(param)!;
+      const expected = `Parameter '${param}' of '${name}' expected ${
+        typeToString(declared)
+      }`;
+      const check = this.helper("$check", [
+        binding,
+        this.typeCode(declared),
+        quote(expected),
+        quote("ARGUMENT_TYPE"),
+      ]);
+      lines.push("\n", this.pad(), check, ";");
+    });
+    return lines;
+  }
+
+  private functionLiteral(node: FunctionLiteralNode, isMethod = false): Code {
+    const name = node.name ?? "function";
+    const scope = new Scope(this.scope, true);
+    const params = this.parameters(node.params, scope);
+    let returnType = node.declaredReturnType;
+    if (returnType && node.isAsync) {
+      returnType =
+        typeof returnType === "object" && returnType.kind === "promise"
+          ? returnType.of
+          : undefined;
+    }
+    const frame: Frame = { isAsync: node.isAsync, loops: 0 };
+    if (returnType) {
+      const expected = `Return value of '${name}' expected ${typeToString(
+        returnType
+      )}`;
+      frame.returns = { type: returnType, expected };
+    }
+    const outer = this.frame;
+    this.frame = frame;
+    const body = this.braced(() =>
+      this.inScope(scope, node.body, () => {
+        const lines: Code[] = [];
+        const line = (...code: Code[]) => lines.push("\n", this.pad(), code);
+        if (
+          isMethod &&
+          (contains(node.body, ThisNode) || contains(node.body, SuperCallNode))
+        ) {
+          line("const $self = this;");
+        }
+        line(
+          this.helper("$arity", [
+            "arguments.length",
+            String(node.params.length),
+            quote(name),
+          ]),
+          ";"
+        );
+        lines.push(
+          ...this.parameterChecks(
+            node.params,
+            node.declaredParamTypes,
+            scope,
+            name
+          ),
+          ...this.lines(node.body)
+        );
+        const last = node.body[node.body.length - 1];
+        if (frame.returns && !(last instanceof ReturnNode)) {
+          line(this.returnCheck("undefined", frame.returns), ";");
+        }
+        return lines;
+      })
+    );
+    this.frame = outer;
+    const fn = [node.isAsync ? "async " : "", "function (", params, ") ", body];
+    return node.pure ? this.helper("$pure", [fn]) : fn;
+  }
+
+  private arrow(node: ArrowFunctionNode): Code {
+    const scope = new Scope(this.scope, true);
+    const params = this.parameters(node.paramNames, scope);
+    const head = [node.isAsync ? "async " : "", "(", params, ") => "];
+    const outer = this.frame;
+    this.frame = { isAsync: node.isAsync, loops: 0 };
+    let body: Code;
+    // Parameter checks need a block body, so `(x: T) => e` becomes
+    // `(x) => { check x; return e; }`.
+    const block =
+      node.block ?? (node.paramTypes ? [returning(node.body)] : undefined);
+    if (block) {
+      body = this.braced(() =>
+        this.inScope(scope, block, () => [
+          ...this.parameterChecks(
+            node.paramNames,
+            node.paramTypes,
+            scope,
+            "function"
+          ),
+          ...this.lines(block),
+        ])
+      );
+    } else if (node.body instanceof MatchNode) {
+      const match = node.body;
+      this.checkLowered(match);
+      body = this.braced(() =>
+        this.inScope(scope, [], () => [
+          "\n",
+          this.pad(),
+          this.match(match, (value) => ["return ", value, ";"]),
+        ])
+      );
+    } else {
+      const outerScope = this.scope;
+      this.scope = scope;
+      let value = this.expression(node.body);
+      this.scope = outerScope;
+      const hoisted = [...scope.names.values()].filter((b) => b.hoisted);
+      if (hoisted.length) {
+        this.depth++;
+        const pad = this.pad();
+        this.depth--;
+        body = [
+          "{\n",
+          pad,
+          "let ",
+          join(hoisted, ", "),
+          ";\n",
+          pad,
+          "return ",
+          value,
+          ";\n",
+          this.pad(),
+          "}",
+        ];
+      } else {
+        if (this.startsStatement(value)) value = ["(", value, ")"];
+        body = value;
+      }
+    }
+    this.frame = outer;
+    return [head, body];
+  }
+
+  // A method's function, whose `this` the body reads as `$self`.
+  private method(fn: FunctionLiteralNode): Code {
+    return this.functionLiteral(fn, true);
+  }
+
+  private classDeclaration(node: ClassDeclarationNode): Code {
+    let superClass: Code = "null";
+    if (node.superClass !== null) {
+      const value = this.lookup(node.superClass) ?? "undefined";
+      superClass = this.helper("$extends", [value, quote(node.superClass)]);
+    }
+    const outerInClass = this.inClass;
+    this.inClass = true;
+    const fields = node.fields.filter((f) => !f.isStatic);
+    const staticFields = node.fields.filter((f) => f.isStatic);
+    const define = this.braced(() => {
+      const members: Code[] = [];
+      const add = (key: string, code: Code) =>
+        members.push("\n", this.pad(), key, ": ", code, ",");
+      if (fields.length) add("fields", this.fieldInitializer(fields));
+      if (node.constructorFn) add("init", this.method(node.constructorFn));
+      for (const isStatic of [false, true]) {
+        const methods = node.methods.filter((m) => !!m.isStatic === isStatic);
+        if (methods.length === 0) continue;
+        const table = this.braced(() =>
+          methods.flatMap((m) => [
+            "\n",
+            this.pad(),
+            propertyKey(m.name),
+            ": ",
+            this.method(m.fn),
+            ",",
+          ])
+        );
+        add(isStatic ? "statics" : "methods", table);
+      }
+      if (staticFields.length) {
+        add("staticFields", this.fieldInitializer(staticFields));
+      }
+      return members;
+    });
+    this.inClass = outerInClass;
+    const usesSuper = contains(
+      [node.fields, node.methods, node.constructorFn],
+      SuperCallNode
+    );
+    const factory = [usesSuper ? "($super)" : "()", " => (", define, ")"];
+    const args = [quote(node.name), superClass, factory];
+    const value = this.helper("$class", args);
+    const declaration = [this.bind(node.name, value), ";"];
+    if (staticFields.length === 0) return declaration;
+    const cls = this.lookup(node.name)!;
+    const init = [this.helper("$initStatics", [cls]), ";"];
+    return [declaration, "\n", this.pad(), init];
+  }
+
+  // `($self) => { $self.x = ...; }` setting `fields` on `$self`.
+  private fieldInitializer(fields: ClassField[]): Code {
+    const scope = new Scope(this.scope, true);
+    const outer = this.frame;
+    this.frame = { isAsync: false, loops: 0 };
+    const body = this.braced(() =>
+      this.inScope(scope, [], () =>
+        fields.flatMap((field) => [
+          "\n",
+          this.pad(),
+          "$self",
+          member(field.name),
+          " = ",
+          field.initializer ? this.expression(field.initializer) : "undefined",
+          ";",
+        ])
+      )
+    );
+    this.frame = outer;
+    return ["($self) => ", body];
+  }
+
+  // ----- Modules -----
+
+  private importDeclaration(node: ImportNode): Code {
+    if (this.scope !== this.moduleScope || this.scope.nested > 0) {
+      throw new Error("Cannot transpile an import below the top level");
+    }
+    const specifier = this.options.resolveImport?.(node.specifier);
+    const from = [" from ", quote(specifier ?? node.specifier), ";"];
+    const bind = (name: string) => {
+      const binding = this.scope.names.get(name)!;
+      binding.declared = binding.isImport = true;
+      return binding;
+    };
+    if (node.namespace) {
+      this.imports.push(["import * as ", bind(node.namespace), from]);
+    }
+    if (node.bindings.length) {
+      const names = node.bindings.map(({ name, as }) => {
+        const binding = bind(as ?? name);
+        return binding.js === name
+          ? binding
+          : [propertyKey(name), " as ", binding];
+      });
+      this.imports.push(["import { ", join(names, ", "), " }", from]);
+    }
+    return "";
+  }
+
+  private exportDeclaration(node: ExportNode): Code {
+    if (this.scope !== this.moduleScope) {
+      return [
+        this.fail(
+          "RuntimeError",
+          "INVALID_EXPORT",
+          "'export' is only allowed at the top level of a module"
+        ),
+        ";",
+      ];
+    }
+    const code = this.statement(node.declaration);
+    const name = node.declaration.name;
+    this.exports.push([this.scope.names.get(name)!, name]);
+    return code;
+  }
+
+  // ----- Expressions -----
+
+  private expression(node: ASTNode, min = ASSIGN): Code {
+    const [code, precedence] = this.expressionCode(node);
+    const wrapped = precedence < min ? ["(", code, ")"] : code;
+    return node.span ? { span: node.span, code: wrapped } : wrapped;
+  }
+
+  // A value that must be a boolean.
+  private condition(node: ASTNode): Code {
+    if (isBoolean(node)) return this.expression(node);
+    return this.helper("$cond", [this.expression(node)]);
+  }
+
+  private args(nodes: ASTNode[]): Code {
+    return join(
+      nodes.map((arg) => this.expression(arg)),
+      ", "
+    );
+  }
+
+  private expressionCode(node: ASTNode): [Code, number] {
+    if (node instanceof LiteralNode) return this.literal(node.value);
+    if (node instanceof VariableReferenceNode) {
+      return [this.lookup(node.name) ?? "undefined", PRIMARY];
+    }
+    if (node instanceof OperatorNode) return this.operator(node);
+    if (node instanceof FunctionCallNode) return [this.call(node), CALL];
+    if (node instanceof MethodCallNode) {
+      const target = this.expression(node.target);
+      const method = this.helper("$method", [target, quote(node.methodName)]);
+      return [[method, "(", this.args(node.args), ")"], CALL];
+    }
+    if (node instanceof ArrayLiteralNode) {
+      return [["[", this.args(node.elements), "]"], PRIMARY];
+    }
+    if (node instanceof ObjectLiteralNode) {
+      const entries = Object.entries(node.properties).map(([key, value]) => [
+        propertyKey(key),
+        ": ",
+        this.expression(value),
+      ]);
+      if (entries.length === 0) return ["{}", PRIMARY];
+      return [["{ ", join(entries, ", "), " }"], PRIMARY];
+    }
+    if (node instanceof IndexAccessNode) {
+      const array = this.expression(node.array);
+      const index = this.expression(node.index);
+      return [this.helper("$index", [array, index]), CALL];
+    }
+    if (node instanceof IndexAssignmentNode) {
+      const args = [node.target, node.index, node.value].map((n) =>
+        this.expression(n)
+      );
+      return [this.helper("$setIndex", args), CALL];
+    }
+    if (node instanceof PropertyAccessNode) {
+      const object = this.receiver(node.object, "$object");
+      return [[object, this.key(node.property)], CALL];
+    }
+    if (node instanceof AsNode) {
+      const value = this.expression(node.expression);
+      const type = this.typeCode(node.type);
+      const name = quote(typeToString(node.type));
+      return [this.helper("$cast", [value, type, name]), CALL];
+    }
+    if (node instanceof IsNode) {
+      const value = this.expression(node.expression, UNARY);
+      return this.typeTest(value, node.type);
+    }
+    if (node instanceof FunctionLiteralNode) {
+      return [this.functionLiteral(node), PRIMARY];
+    }
+    if (node instanceof ArrowFunctionNode) return [this.arrow(node), ASSIGN];
+    if (node instanceof AwaitNode) {
+      if (!this.frame.isAsync) {
+        return [
+          this.fail(
+            "RuntimeError",
+            "AWAIT_OUTSIDE_ASYNC",
+            "'await' is only valid in async functions and executeAsync()"
+          ),
+          CALL,
+        ];
+      }
+      return [["await ", this.expression(node.expression, UNARY)], UNARY];
+    }
+    if (node instanceof AddressOfNode) return [this.addressOf(node), CALL];
+    if (node instanceof DereferenceNode) {
+      return [this.helper("$deref", [this.expression(node.ptrExpr)]), CALL];
+    }
+    if (node instanceof PointerAssignmentNode) {
+      return this.pointerAssignment(node);
+    }
+    if (node instanceof AssignmentNode) {
+      const value = this.expression(node.expression);
+      return [[this.assignTarget(node.name), " = ", value], ASSIGN];
+    }
+    if (node instanceof VariableDeclarationNode) {
+      return [this.declaration(node, true), ASSIGN];
+    }
+    if (node instanceof NewNode) {
+      const cls = this.lookup(node.className) ?? "undefined";
+      const create = this.helper("$new", [cls, quote(node.className)]);
+      return [[create, "(", this.args(node.args), ")"], CALL];
+    }
+    if (node instanceof ThisNode) {
+      if (this.inClass) return ["$self", PRIMARY];
+      return [
+        this.fail(
+          "RuntimeError",
+          "OUTSIDE_CLASS",
+          "'this' is only valid inside a class"
+        ),
+        CALL,
+      ];
+    }
+    if (node instanceof SuperCallNode) {
+      const superClass = this.inClass ? "$super" : "null";
+      const self = this.inClass ? "$self" : "undefined";
+      const method = node.methodName === null ? "null" : quote(node.methodName);
+      const args = ["[", this.args(node.args), "]"];
+      const call = this.helper("$superCall", [superClass, self, method, args]);
+      return [call, CALL];
+    }
+    if (node instanceof ErrorNode) {
+      const error = this.helper("$userError", [this.expression(node.message)]);
+      return [this.helper("$throw", [error]), CALL];
+    }
+    if (node instanceof MatchNode) return [this.matchValue(node), CALL];
+    throw new Error(`Cannot transpile ${node.constructor.name} as a value`);
+  }
+
+  // The object a property is read from or written to, through `check`
+  // unless it cannot be null.
+  private receiver(node: ASTNode, check: string): Code {
+    if (node instanceof ThisNode && this.inClass) return "$self";
+    return this.helper(check, [this.expression(node)]);
+  }
+
+  private key(property: string | ASTNode): Code {
+    if (typeof property === "string") return member(property);
+    return ["[", this.expression(property), "]"];
+  }
+
+  private literal(value: any): [Code, number] {
+    switch (typeof value) {
+      case "number":
+        if (Number.isNaN(value)) return ["NaN", PRIMARY];
+        if (Object.is(value, -0)) return ["-0", UNARY];
+        if (value === Infinity) return ["Infinity", PRIMARY];
+        if (value === -Infinity) return ["-Infinity", UNARY];
+        return [String(value), value < 0 ? UNARY : PRIMARY];
+      case "bigint":
+        return [`${value}n`, value < 0n ? UNARY : PRIMARY];
+      case "string":
+        return [quote(value), PRIMARY];
+      case "boolean":
+      case "undefined":
+        return [String(value), PRIMARY];
+      case "object": {
+        if (value === null) return ["null", PRIMARY];
+        if (Array.isArray(value)) {
+          const elements = value.map((v) => this.literal(v)[0]);
+          return [["[", join(elements, ", "), "]"], PRIMARY];
+        }
+        if (Object.getPrototypeOf(value) !== Object.prototype) break;
+        const entries = Object.entries(value).map(([key, v]) => [
+          propertyKey(key),
+          ": ",
+          this.literal(v)[0],
+        ]);
+        if (entries.length === 0) return ["{}", PRIMARY];
+        return [["{ ", join(entries, ", "), " }"], PRIMARY];
+      }
+    }
+    throw new Error(`Cannot transpile the literal ${String(value)}`);
+  }
+
+  private operator(node: OperatorNode): [Code, number] {
+    const [left, right] = node.operands;
+    const op = node.operator;
+    const precedence = BINARY[op];
+    if (precedence !== undefined) {
+      const isFalse = right instanceof LiteralNode && right.value === false;
+      if (op === "==" && isFalse && isBoolean(left)) {
+        return [["!", this.expression(left, UNARY)], UNARY];
+      }
+      return [
+        [
+          this.expression(left, precedence),
+          ` ${op === "==" ? "===" : op} `,
+          this.expression(right, precedence + 1),
+        ],
+        precedence,
+      ];
+    }
+    switch (op) {
+      case "//": {
+        const quotient = [
+          this.expression(left, MULTIPLICATIVE),
+          " / ",
+          this.expression(right, MULTIPLICATIVE + 1),
+        ];
+        return [["Math.floor(", quotient, ")"], CALL];
+      }
+      case "^":
+        return [
+          [
+            this.expression(left, UNARY + 1),
+            " ** ",
+            this.expression(right, EXPONENT),
+          ],
+          EXPONENT,
+        ];
+      case "&&":
+      case "||": {
+        if (isBoolean(left) && isBoolean(right) && isPure(right)) {
+          const precedence = op === "&&" ? AND : OR;
+          return [
+            [
+              this.expression(left, precedence),
+              ` ${op} `,
+              this.expression(right, precedence + 1),
+            ],
+            precedence,
+          ];
+        }
+        const helper = op === "&&" ? "$and" : "$or";
+        const operands = [this.expression(left), this.expression(right)];
+        return [this.helper(helper, operands), CALL];
+      }
+      case "><":
+        return [
+          [this.text(left, ADDITIVE), " + ", this.text(right, ADDITIVE + 1)],
+          ADDITIVE,
+        ];
+      case "concat": {
+        const operands = [this.expression(left), this.expression(right)];
+        return [this.helper("$concat", operands), CALL];
+      }
+    }
+    const operands = [this.expression(left), this.expression(right)];
+    const error = this.fail(
+      "RuntimeError",
+      "UNKNOWN_OPERATOR",
+      `Unknown operator: ${op}`
+    );
+    return [["(", join([...operands, error], ", "), ")"], PRIMARY];
+  }
+
+  // An operand of `><`, as a string.
+  private text(node: ASTNode, min: number): Code {
+    const isString =
+      (node instanceof LiteralNode && typeof node.value === "string") ||
+      (node instanceof OperatorNode && node.operator === "><");
+    if (isString) return this.expression(node, min);
+    return ["String(", this.expression(node), ")"];
+  }
+
+  private call(node: FunctionCallNode): Code {
+    const name = node.functionName;
+    const binding = this.lookup(name);
+    const args = ["(", this.args(node.args), ")"];
+    if (!binding) return [this.helper("$notDefined", [quote(name)]), args];
+    const isFunction =
+      binding.builtIn ||
+      (binding.functionsOnly && !binding.hoisted && !this.assigned.has(name));
+    if (isFunction) return [binding, args];
+    return [this.helper("$callable", [binding, quote(name)]), args];
+  }
+
+  private addressOf(node: AddressOfNode): Code {
+    const target = node.target;
+    if (target instanceof VariableReferenceNode) {
+      const set = this.assignTarget(target.name);
+      const get = this.lookup(target.name) ?? set;
+      return this.helper("$ref", [
+        ["() => ", get],
+        ["($value) => { ", set, " = $value; }"],
+      ]);
+    }
+    if (target instanceof IndexAccessNode) {
+      const array = this.expression(target.array);
+      const index = this.expression(target.index);
+      return this.helper("$indexRef", [array, index]);
+    }
+    if (target instanceof PropertyAccessNode) {
+      const object = this.helper("$target", [this.expression(target.object)]);
+      const key =
+        typeof target.property === "string"
+          ? quote(target.property)
+          : this.expression(target.property);
+      return this.helper("$propertyRef", [object, key]);
+    }
+    return this.fail(
+      "RuntimeError",
+      "NOT_ADDRESSABLE",
+      `Cannot take address of non‐lvalue: ${target.constructor.name}`
+    );
+  }
+
+  private pointerAssignment(node: PointerAssignmentNode): [Code, number] {
+    const pointer = node.ptrExpr;
+    if (pointer instanceof AddressOfNode) {
+      const target = pointer.target;
+      if (target instanceof VariableReferenceNode) {
+        const binding = this.assignTarget(target.name);
+        return [[binding, " = ", this.expression(node.valueExpr)], ASSIGN];
+      }
+      if (target instanceof PropertyAccessNode) {
+        const object = this.receiver(target.object, "$target");
+        const value = this.expression(node.valueExpr);
+        return [[object, this.key(target.property), " = ", value], ASSIGN];
+      }
+      if (target instanceof IndexAccessNode && isPure(target.index)) {
+        const array = this.helper("$array", [this.expression(target.array)]);
+        const index = this.expression(target.index);
+        const value = this.expression(node.valueExpr);
+        return [[array, "[", index, "] = ", value], ASSIGN];
+      }
+    }
+    const ref =
+      pointer instanceof AddressOfNode
+        ? this.addressOf(pointer)
+        : this.helper("$pointer", [this.expression(pointer)]);
+    const value = this.expression(node.valueExpr);
+    return [this.helper("$put", [ref, value]), CALL];
+  }
+
+  // ----- Types -----
+
+  // A type as a JSON value for the helpers. Links from names to what they
+  // name are left out; the helpers look names up in `$types`.
+  private typeCode(t: Type): string {
+    return JSON.stringify(t, (key, value) =>
+      key === "target" ? undefined : value
+    );
+  }
+
+  // `value is t`, with `typeof` for the primitive types.
+  private typeTest(value: Code, t: Type): [Code, number] {
+    if (t === "null") return [[value, " === null"], EQUALITY];
+    if (t === "undefined" || t === "void") {
+      return [[value, " === undefined"], EQUALITY];
+    }
+    if (typeof t === "string" && t !== "any") {
+      return [["typeof ", value, ` === ${quote(t)}`], EQUALITY];
+    }
+    return [this.helper("$is", [value, this.typeCode(t)]), CALL];
+  }
+
+  // ----- Match -----
+
+  // A `match` as a labeled block that puts the value of the chosen arm
+  // where `destination` says, or discards it.
+  private match(node: MatchNode, destination?: Destination): Code {
+    const id = ++this.temps;
+    const label = `$match${id}`;
+    const subject = `$subject${id}`;
+    let labelUsed = false;
+    const block = this.braced(() => {
+      const lines: Code[] = [
+        "\n",
+        this.pad(),
+        "const ",
+        subject,
+        " = ",
+        this.expression(node.subject),
+        ";",
+      ];
+      for (const arm of node.arms) {
+        const tests: Code[] = [];
+        const bindings: [string, string][] = [];
+        this.pattern(arm.pattern, subject, tests, bindings);
+        const last = arm === node.arms[node.arms.length - 1];
+        const catchAll = tests.length === 0 && !arm.guard;
+        const exit = !(last && catchAll);
+        const finish = (): Code[] => {
+          const lines = this.armBody(arm, destination);
+          if (exit && !this.leaves(arm.body)) {
+            lines.push("\n", this.pad(), `break ${label};`);
+            labelUsed = true;
+          }
+          return lines;
+        };
+        const body = (): Code[] => {
+          const code: Code[] = bindings.map(([name, value]) => [
+            "\n",
+            this.pad(),
+            this.bind(name, value),
+            ";",
+          ]);
+          if (!arm.guard) return [...code, ...finish()];
+          const guard = this.condition(arm.guard);
+          const guarded = this.braced(finish);
+          return [...code, "\n", this.pad(), "if (", guard, ") ", guarded];
+        };
+        const scope = new Scope(this.scope);
+        if (tests.length === 0 && !exit) {
+          lines.push(...this.inScope(scope, arm.body, body));
+          return lines;
+        }
+        const branch = this.braced(() => this.inScope(scope, arm.body, body));
+        const test = ["if (", join(tests, " && "), ") "];
+        lines.push("\n", this.pad(), tests.length ? test : "", branch);
+      }
+      const error = this.helper("$noMatch", [subject]);
+      lines.push("\n", this.pad(), "throw ", error, ";");
+      return lines;
+    });
+    return labelUsed ? [label, ": ", block] : block;
+  }
+
+  // Whether `body` never finishes normally, so needs no `break`.
+  private leaves(body: ASTNode[]): boolean {
+    const last = body[body.length - 1];
+    return (
+      last instanceof ReturnNode ||
+      last instanceof BreakNode ||
+      last instanceof ContinueNode ||
+      last instanceof ErrorNode
+    );
+  }
+
+  // The lines of an arm, the last statement's value going to `destination`.
+  private armBody(arm: MatchArm, destination?: Destination): Code[] {
+    const body = arm.body;
+    const last = body[body.length - 1];
+    if (!destination || this.leaves(body)) return this.lines(body);
+    const put = (value: Code) => ["\n", this.pad(), destination(value)];
+    if (last === undefined) return put("undefined");
+    if (last instanceof VariableDeclarationNode) {
+      const lines = this.lines(body);
+      return [...lines, ...put(this.scope.names.get(last.name)!)];
+    }
+    if (!this.isValue(last)) {
+      return [...this.lines(body), ...put("undefined")];
+    }
+    const lines = this.lines(body.slice(0, -1));
+    return [...lines, ...put(this.expression(last))];
+  }
+
+  // Whether a statement in an arm's last place gives the arm its value;
+  // the arm of one that does not is undefined here.
+  private isValue(node: ASTNode): boolean {
+    return !(
+      node instanceof IfNode ||
+      node instanceof WhileNode ||
+      node instanceof DoWhileNode ||
+      node instanceof ForNode ||
+      node instanceof ForEachNode ||
+      node instanceof SwitchNode ||
+      node instanceof TryCatchNode ||
+      node instanceof BlockNode ||
+      node instanceof ClassDeclarationNode ||
+      node instanceof TypeAliasNode ||
+      node instanceof ImportNode ||
+      node instanceof ExportNode
+    );
+  }
+
+  // The tests `pattern` makes of `value` and the names it binds.
+  private pattern(
+    pattern: Pattern,
+    value: string,
+    tests: Code[],
+    bindings: [string, string][]
+  ): void {
+    switch (pattern.kind) {
+      case "literal":
+        tests.push([value, " === ", this.literal(pattern.value)[0]]);
+        return;
+      case "wildcard":
+        return;
+      case "binding":
+        bindings.push([pattern.name, value]);
+        return;
+      case "type": {
+        if (pattern.type !== "any") {
+          const [test, precedence] = this.typeTest(value, pattern.type);
+          tests.push(precedence > AND ? test : ["(", test, ")"]);
+        }
+        if (pattern.name !== undefined) bindings.push([pattern.name, value]);
+        return;
+      }
+      case "array": {
+        const n = pattern.elements.length;
+        const size = pattern.rest === undefined ? "===" : ">=";
+        tests.push(`Array.isArray(${value})`, `${value}.length ${size} ${n}`);
+        pattern.elements.forEach((element, i) =>
+          this.pattern(element, `${value}[${i}]`, tests, bindings)
+        );
+        if (pattern.rest !== undefined && pattern.rest !== "_") {
+          bindings.push([pattern.rest, `${value}.slice(${n})`]);
+        }
+        return;
+      }
+      case "object":
+        tests.push(
+          `${value} !== null`,
+          `typeof ${value} === "object"`,
+          `!Array.isArray(${value})`
+        );
+        for (const [key, sub] of Object.entries(pattern.properties)) {
+          tests.push(`${quote(key)} in ${value}`);
+          this.pattern(sub, `${value}${member(key)}`, tests, bindings);
+        }
+        return;
+    }
+  }
+
+  // `let name = match ...`, the arms setting the variable.
+  private matchInto(node: VariableDeclarationNode): Code {
+    const match = node.expression as MatchNode;
+    const result = `$result${++this.temps}`;
+    const put = this.match(match, (value) => [result, " = ", value, ";"]);
+    const value = this.checked(node, result);
+    const declaration = this.wrap(node, [this.bind(node.name, value), ";"]);
+    const pad = this.pad();
+    return [`let ${result};`, "\n", pad, put, "\n", pad, declaration];
+  }
+
+  // A `match` used as a value, in a function of its own.
+  private matchValue(node: MatchNode): Code {
+    this.checkLowered(node);
+    const isAsync = this.frame.isAsync && contains(node, AwaitNode);
+    const outer = this.frame;
+    this.frame = { isAsync, loops: 0 };
+    const scope = new Scope(this.scope, true);
+    const body = this.braced(() =>
+      this.inScope(scope, [], () => [
+        "\n",
+        this.pad(),
+        this.match(node, (value) => ["return ", value, ";"]),
+      ])
+    );
+    this.frame = outer;
+    const call = ["(", isAsync ? "async " : "", "() => ", body, ")()"];
+    return isAsync ? ["(await ", call, ")"] : call;
+  }
+
+  private checkLowered(node: MatchNode) {
+    if (escapes(node.arms.map((arm) => arm.body).flat())) {
+      throw new Error(
+        "Cannot transpile 'break', 'continue' or 'return' in a match value"
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------
+// checkTranspiled - Runs a program both ways and compares the output
+// ---------------------------------------------------
+export interface TranspileCheck {
+  // What `print` wrote, one line per call, then `ERR <code>: <message>` if
+  // the program threw.
+  interpreted: string[];
+  transpiled: string[];
+  // `  `, `- ` or `+ ` and a line, for lines in both outputs, only the
+  // interpreter's or only the module's; empty when they agree.
+  diff: string[];
+}
+
+let checkRuns = 0;
+
+// Runs `nodes` with `executeAsync()` and as a transpiled module. Programs
+// with imports need modules the module can import.
+export async function checkTranspiled(
+  nodes: ASTNode[],
+  options: TranspileOptions = {}
+): Promise<TranspileCheck> {
+  const { code } = transpile(nodes, options);
+  const interpreted = await captureOutput(() =>
+    new Interpreter(nodes).executeAsync()
+  );
+  // A comment makes each URL unique, so the module is not taken from the
+  // cache of an earlier run.
+  const source = `${code}// run ${++checkRuns}\n`;
+  const url = `data:text/javascript;base64,${Buffer.from(source).toString(
+    "base64"
+  )}`;
+  const transpiled = await captureOutput(() => import(url));
+  return { interpreted, transpiled, diff: diffLines(interpreted, transpiled) };
+}
+
+async function captureOutput(run: () => Promise<unknown>): Promise<string[]> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...args: any[]) => {
+    lines.push(args.map((arg) => show(arg)).join(" "));
+  };
+  try {
+    await run();
+  } catch (e) {
+    lines.push(`ERR ${show(e)}`);
+  } finally {
+    console.log = log;
+  }
+  return lines;
+}
+
+// A value as the output compares it; strings inside others are quoted.
+function show(value: any, nested = false, seen = new Set<object>()): string {
+  if (typeof value === "string") return nested ? quote(value) : value;
+  if (typeof value === "bigint") return `${value}n`;
+  if (Object.is(value, -0)) return "-0";
+  if (typeof value === "function") return "[function]";
+  if (value instanceof Promise) return "[promise]";
+  if (value === null || typeof value !== "object") return String(value);
+  if (value instanceof Error) {
+    return `${(value as any).code ?? value.name}: ${value.message}`;
+  }
+  if (seen.has(value)) return "[circular]";
+  seen.add(value);
+  let shown: string;
+  if (Array.isArray(value)) {
+    shown = `[${value.map((v) => show(v, true, seen)).join(", ")}]`;
+  } else {
+    const entries = Object.entries(value).map(
+      ([key, v]) => `${key}: ${show(v, true, seen)}`
+    );
+    shown = entries.length ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  seen.delete(value);
+  return shown;
+}
+
+// A line diff along a longest common subsequence.
+function diffLines(a: string[], b: string[]): string[] {
+  if (a.length === b.length && a.every((line, i) => line === b[i])) {
+    return [];
+  }
+  // lcs(i, j): the common length of a[i..] and b[j..].
+  const width = b.length + 1;
+  const table = new Array<number>((a.length + 1) * width).fill(0);
+  const lcs = (i: number, j: number) => table[i * width + j]!;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? lcs(i + 1, j + 1) + 1
+          : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+  const diff: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push(`  ${a[i++]}`);
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs(i, j + 1) >= lcs(i + 1, j))
+    ) {
+      diff.push(`+ ${b[j++]}`);
+    } else {
+      diff.push(`- ${a[i++]}`);
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,274 @@
+// ========================================
+// Intrear Virtual Filesystem
+// ========================================
+//
+// The files a program sees through the `readFile`, `writeFile`, `listDir`,
+// `exists`, `mkdir` and `remove` built-ins, set with the `fs` option of an
+// Interpreter:
+//
+//   const fs = new MemoryFileSystem({ "/config.json": "{}" });
+//   new Interpreter(nodes, { fs }).execute();
+//   fs.snapshot(); // { "/config.json": "{}", "/report.txt": "..." }
+//
+// Paths are `/`-separated and relative ones start at the root; `..` may
+// not climb above it. Files hold text.
+
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
+import { IntrearRuntimeError } from "./errors";
+import type { ErrorCode } from "./errors";
+
+export interface VirtualFileSystem {
+  readFile(path: string): string;
+  // The parent directory must exist.
+  writeFile(path: string, data: string): void;
+  // Entry names, sorted.
+  listDir(path: string): string[];
+  exists(path: string): boolean;
+  // Creates missing parents too; an existing directory is fine.
+  mkdir(path: string): void;
+  // Removes a file or a directory with everything in it.
+  remove(path: string): void;
+}
+
+function fsError(code: ErrorCode, message: string): IntrearRuntimeError {
+  return new IntrearRuntimeError(code, message);
+}
+
+// The canonical form of `path`: absolute, without `.`, `..`, empty or
+// trailing segments.
+export function normalizePath(path: string): string {
+  if (path.includes("\0")) {
+    throw fsError("INVALID_ARGUMENT", `Invalid path '${path}'`);
+  }
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part !== "..") {
+      parts.push(part);
+    } else if (parts.pop() === undefined) {
+      throw fsError("PATH_OUTSIDE_ROOT", `Path '${path}' escapes the root`);
+    }
+  }
+  return "/" + parts.join("/");
+}
+
+// ---------------------------------------------------
+// MemoryFileSystem - Files kept in memory
+// ---------------------------------------------------
+type Directory = Map<string, Directory | string>;
+
+export class MemoryFileSystem implements VirtualFileSystem {
+  private root: Directory = new Map();
+
+  // `files` maps paths to contents; their directories are created.
+  constructor(files: Record<string, string> = {}) {
+    for (const [path, data] of Object.entries(files)) {
+      const normalized = normalizePath(path);
+      this.mkdir(normalized.slice(0, normalized.lastIndexOf("/")));
+      this.writeFile(normalized, data);
+    }
+  }
+
+  readFile(path: string): string {
+    const entry = this.lookup(path);
+    if (typeof entry !== "string") throw isADirectory(path);
+    return entry;
+  }
+
+  writeFile(path: string, data: string): void {
+    const [parent, name] = this.parentOf(path);
+    if (parent.get(name) instanceof Map) throw isADirectory(path);
+    parent.set(name, String(data));
+  }
+
+  listDir(path: string): string[] {
+    return [...this.directory(path).keys()].sort();
+  }
+
+  exists(path: string): boolean {
+    return this.find(normalizePath(path)) !== undefined;
+  }
+
+  mkdir(path: string): void {
+    let dir = this.root;
+    let at = "";
+    for (const name of segments(normalizePath(path))) {
+      at += "/" + name;
+      let next = dir.get(name);
+      if (next === undefined) dir.set(name, (next = new Map()));
+      if (typeof next === "string") throw notADirectory(at);
+      dir = next;
+    }
+  }
+
+  remove(path: string): void {
+    if (normalizePath(path) === "/") {
+      throw fsError("INVALID_ARGUMENT", "Cannot remove the root directory");
+    }
+    const [parent, name] = this.parentOf(path);
+    if (!parent.delete(name)) throw notFound(path);
+  }
+
+  // Every file by path, for assertions after a run.
+  snapshot(): Record<string, string> {
+    const files: Record<string, string> = {};
+    const walk = (dir: Directory, prefix: string) => {
+      for (const name of [...dir.keys()].sort()) {
+        const entry = dir.get(name)!;
+        if (typeof entry === "string") files[prefix + name] = entry;
+        else walk(entry, prefix + name + "/");
+      }
+    };
+    walk(this.root, "/");
+    return files;
+  }
+
+  private find(normalized: string): Directory | string | undefined {
+    let entry: Directory | string | undefined = this.root;
+    for (const name of segments(normalized)) {
+      if (typeof entry !== "object") return undefined;
+      entry = entry.get(name);
+    }
+    return entry;
+  }
+
+  private lookup(path: string): Directory | string {
+    const entry = this.find(normalizePath(path));
+    if (entry === undefined) throw notFound(path);
+    return entry;
+  }
+
+  private directory(path: string): Directory {
+    const entry = this.lookup(path);
+    if (typeof entry === "string") throw notADirectory(path);
+    return entry;
+  }
+
+  private parentOf(path: string): [Directory, string] {
+    const normalized = normalizePath(path);
+    // The root has no parent and no name to store an entry under.
+    if (normalized === "/") throw isADirectory(path);
+    const cut = normalized.lastIndexOf("/");
+    const parent = this.directory(normalized.slice(0, cut) || "/");
+    return [parent, normalized.slice(cut + 1)];
+  }
+}
+
+// ---------------------------------------------------
+// HostFileSystem - A host directory, jailed to its root
+// ---------------------------------------------------
+export class HostFileSystem implements VirtualFileSystem {
+  public root: string;
+
+  constructor(root: string) {
+    this.root = realpathSync(resolve(root));
+  }
+
+  readFile(path: string): string {
+    const target = this.existing(path);
+    if (this.isDirectory(target)) throw isADirectory(path);
+    return readFileSync(target, "utf8");
+  }
+
+  writeFile(path: string, data: string): void {
+    const target = this.locate(path);
+    if (!this.isDirectory(dirname(target))) throw notFound(path);
+    if (this.isDirectory(target)) throw isADirectory(path);
+    writeFileSync(target, String(data));
+  }
+
+  listDir(path: string): string[] {
+    const target = this.existing(path);
+    if (!this.isDirectory(target)) throw notADirectory(path);
+    return readdirSync(target).sort();
+  }
+
+  exists(path: string): boolean {
+    return present(this.locate(path));
+  }
+
+  mkdir(path: string): void {
+    const target = this.locate(path);
+    try {
+      mkdirSync(target, { recursive: true });
+    } catch {
+      throw notADirectory(path);
+    }
+  }
+
+  remove(path: string): void {
+    const target = this.existing(path);
+    if (target === this.root) {
+      throw fsError("INVALID_ARGUMENT", "Cannot remove the root directory");
+    }
+    rmSync(target, { recursive: true });
+  }
+
+  // The host path of `path`. Symbolic links on the way, even dangling
+  // ones, may not lead out of the root.
+  private locate(path: string): string {
+    const normalized = normalizePath(path);
+    const target =
+      normalized === "/" ? this.root : join(this.root, normalized);
+    let existing = target;
+    while (!present(existing)) existing = dirname(existing);
+    let real: string | undefined;
+    try {
+      real = realpathSync(existing);
+    } catch {}
+    if (
+      real === undefined ||
+      (real !== this.root && !real.startsWith(this.root + sep))
+    ) {
+      throw fsError("PATH_OUTSIDE_ROOT", `Path '${path}' escapes the root`);
+    }
+    return target;
+  }
+
+  private existing(path: string): string {
+    const target = this.locate(path);
+    if (!present(target)) throw notFound(path);
+    return target;
+  }
+
+  private isDirectory(target: string): boolean {
+    return existsSync(target) && statSync(target).isDirectory();
+  }
+}
+
+// Whether anything, even a dangling link, is at `target`.
+function present(target: string): boolean {
+  try {
+    lstatSync(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function segments(normalized: string): string[] {
+  return normalized === "/" ? [] : normalized.slice(1).split("/");
+}
+
+function notFound(path: string): IntrearRuntimeError {
+  return fsError("FILE_NOT_FOUND", `No such file or directory '${path}'`);
+}
+
+function notADirectory(path: string): IntrearRuntimeError {
+  return fsError("NOT_A_DIRECTORY", `'${path}' is not a directory`);
+}
+
+function isADirectory(path: string): IntrearRuntimeError {
+  return fsError("IS_A_DIRECTORY", `'${path}' is a directory`);
+}
@@ -0,0 +1,13 @@
+import { describe, expect, test } from "bun:test";
+import { programs } from "./programs";
+import { run } from "./helpers";
+
+describe("the bytecode VM runs programs like the tree-walker", () => {
+  for (const [name, source] of Object.entries(programs)) {
+    test(name, async () => {
+      const tree = await run(source, { backend: "tree" });
+      const vm = await run(source, { backend: "vm" });
+      expect(vm).toEqual(tree);
+    });
+  }
+});
@@ -0,0 +1,30 @@
+import { expect, test } from "bun:test";
+import { run } from "./helpers";
+
+const point = `
+  class Point {
+    x: number = 1;
+    constructor(y: number) {
+      this.y = y;
+      this.x = 2;
+    }
+    sum(): number { return this.x + this.y; }
+  }
+  let p = new Point(3);
+`;
+
+test("printing an instance shows only its members", async () => {
+  const { output, error } = await run(`${point} print(p);`);
+  expect(error).toBeUndefined();
+  expect(output[0]).toContain("x: 2");
+  expect(output[0]).toContain("y: 3");
+  expect(output[0]).not.toContain("Symbol");
+});
+
+test("fields assigned in a constructor are typed by the value", async () => {
+  const source = `${point} print(p.sum(), p.y);`;
+  expect(await run(source, { typecheck: true })).toEqual({ output: ["5 3"] });
+  const mismatch = `${point} let s: string = p.y;`;
+  const { error } = await run(mismatch, { typecheck: true });
+  expect(error).toContain("expected string, got number");
+});
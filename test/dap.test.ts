@@ -0,0 +1,91 @@
+import { expect, test } from "bun:test";
+import {
+  closeSync,
+  mkdtempSync,
+  openSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DebugSession, StdioTransport } from "../src/index";
+import type { DapMessage, DapTransport } from "../src/index";
+
+function request(seq: number, command: string, args?: any): DapMessage {
+  return { seq, type: "request", command, arguments: args };
+}
+
+// Writes `content` to a file in a fresh directory and passes its path.
+async function withFile<T>(
+  content: string,
+  use: (path: string) => T | Promise<T>
+): Promise<T> {
+  const dir = mkdtempSync(join(tmpdir(), "intrear-dap-"));
+  const path = join(dir, "program.ir");
+  writeFileSync(path, content);
+  try {
+    return await use(path);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+}
+
+function framed(messages: DapMessage[]): string {
+  return messages
+    .map((message) => {
+      const body = JSON.stringify(message);
+      return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    })
+    .join("");
+}
+
+test("a pause request stops a running program", async () => {
+  const source = "let i = 0;\nwhile (i < 100000) {\n  i = i + 1;\n}\n";
+  const written = await withFile(source, serve);
+  const events = written.filter((m) => m.type === "event");
+  expect(events.map((m) => m.event)).toEqual([
+    "initialized",
+    "stopped",
+    "exited",
+    "terminated",
+  ]);
+  expect(events[1]!.body.reason).toBe("pause");
+});
+
+// Launches `program` and sends `pause` while it runs, then disconnects.
+async function serve(program: string): Promise<DapMessage[]> {
+  const requests = [
+    request(1, "initialize"),
+    request(2, "launch", { program }),
+    request(3, "configurationDone"),
+  ];
+  const written: DapMessage[] = [];
+  let polls = 0;
+  const transport: DapTransport = {
+    read: () => {
+      if (requests.length > 0) return requests.shift();
+      const paused = written.some((m) => m.event === "stopped");
+      return paused ? request(5, "disconnect") : undefined;
+    },
+    // `pause` arrives once the loop has been running for a while.
+    poll: () => (++polls === 100 ? request(4, "pause") : undefined),
+    write: (message) => written.push(message),
+  };
+  await new DebugSession(transport).serve();
+  return written;
+}
+
+test("the stdio transport reads framed messages from its input", async () => {
+  const messages = [request(1, "initialize"), request(2, "threads")];
+  await withFile(framed(messages), (path) => {
+    const fd = openSync(path, "r");
+    try {
+      const transport = new StdioTransport(fd);
+      expect(transport.read()).toEqual(messages[0]!);
+      expect(transport.read()).toEqual(messages[1]!);
+      expect(transport.read()).toBeUndefined();
+    } finally {
+      closeSync(fd);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { expect, test } from "bun:test";
+import { Debugger, Interpreter, parse } from "../src/index";
+
+// Lines the debugger pauses on while stepping with `action` from entry.
+function pauses(source: string, action: "stepIn" | "stepOver"): number[] {
+  const interpreter = new Interpreter(parse(source));
+  const debug = new Debugger(interpreter, { stopOnEntry: true });
+  const lines: number[] = [];
+  debug.onPause = (event) => {
+    lines.push(event.node.span!.start.line);
+    return action;
+  };
+  interpreter.execute();
+  return lines;
+}
+
+test("stepOver does not stop inside a callback", () => {
+  const source = [
+    "let xs = [1, 2];",
+    "let ys = xs.map((x) => { let y = x * 2; return y; });",
+    "let n = ys.length();",
+  ].join("\n");
+  expect(pauses(source, "stepOver")).toEqual([1, 2, 3]);
+  expect(pauses(source, "stepIn")).toEqual([1, 2, 2, 2, 2, 2, 3]);
+});
+
+test("stepOver does not stop inside a called function", () => {
+  const source = [
+    "function f(n) {",
+    "  return n + 1;",
+    "}",
+    "let a = f(1);",
+    "let b = [a].filter(f);",
+  ].join("\n");
+  expect(pauses(source, "stepOver")).toEqual([1, 4, 5]);
+});
+
+test("dispose restores the nodes the debugger hooked", () => {
+  const interpreter = new Interpreter(parse("let a = 1;\nlet b = a + 1;"));
+  const debug = new Debugger(interpreter);
+  debug.setBreakpoint({ line: 2 });
+  let pauses = 0;
+  debug.onPause = () => {
+    pauses++;
+    return "continue";
+  };
+  interpreter.execute();
+  debug.dispose();
+  interpreter.execute();
+  expect(pauses).toBe(1);
+  for (const node of interpreter.nodes) {
+    expect(Object.hasOwn(node, "execute")).toBe(false);
+    expect(Object.hasOwn(node, "executeAsync")).toBe(false);
+  }
+});
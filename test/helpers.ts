@@ -0,0 +1,33 @@
+import { spyOn } from "bun:test";
+import { Interpreter, parse } from "../src/index";
+import type { InterpreterOptions } from "../src/index";
+
+export interface Outcome {
+  // One line per `print` call.
+  output: string[];
+  // The error that stopped the program, if one did, as "CODE: message".
+  error?: string;
+}
+
+// Runs `source` to completion and collects what it printed.
+export async function run(
+  source: string,
+  options: InterpreterOptions = {}
+): Promise<Outcome> {
+  const output: string[] = [];
+  const log = spyOn(console, "log").mockImplementation((...args: any[]) => {
+    output.push(args.map(show).join(" "));
+  });
+  try {
+    await new Interpreter(parse(source), options).executeAsync();
+    return { output };
+  } catch (e: any) {
+    return { output, error: `${e?.code ?? e?.name}: ${e?.message}` };
+  } finally {
+    log.mockRestore();
+  }
+}
+
+function show(value: unknown): string {
+  return typeof value === "string" ? value : Bun.inspect(value);
+}
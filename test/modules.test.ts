@@ -0,0 +1,15 @@
+import { expect, test } from "bun:test";
+import { MemoryResolver, ModuleRegistry, parse } from "../src/index";
+import { run } from "./helpers";
+
+test("memory modules do not include Object.prototype members", async () => {
+  const resolver = new MemoryResolver({ lib: parse("export let x = 1;") });
+  expect(resolver.resolve("lib")).toBe("lib");
+  for (const name of ["toString", "constructor", "__proto__"]) {
+    expect(resolver.resolve(name)).toBeUndefined();
+    const modules = new ModuleRegistry([resolver]);
+    const source = `import { x } from "${name}";`;
+    const { error } = await run(source, { modules });
+    expect(error).toStartWith("MODULE_NOT_FOUND:");
+  }
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ArrowFunctionNode,
+  BlockNode,
+  VariableDeclarationNode,
+  parse,
+  unparse,
+} from "../src/index";
+import { run } from "./helpers";
+
+function valueOf(source: string) {
+  return (parse(source)[0] as VariableDeclarationNode).expression;
+}
+
+describe("arrow functions", () => {
+  test("block bodies and typed parameters parse as arrows", () => {
+    const block = valueOf("let g = (a, b) => { return a; };");
+    expect(block).toBeInstanceOf(ArrowFunctionNode);
+    expect((block as ArrowFunctionNode).body).toBeInstanceOf(BlockNode);
+    const typed = valueOf("let h = (x: number) => x + 1;");
+    expect(typed).toBeInstanceOf(ArrowFunctionNode);
+    expect((typed as ArrowFunctionNode).paramTypes).toEqual(["number"]);
+  });
+
+  test("print back as arrows", () => {
+    for (const source of [
+      "let g = (a, b) => {\n  return a;\n};\n",
+      "let h = (x: number, y) => x + 1;\n",
+      "let k = async x => {\n  await x;\n};\n",
+    ]) {
+      expect(unparse(parse(source))).toBe(source);
+    }
+  });
+
+  for (const backend of ["tree", "vm"] as const) {
+    test(`work as map and filter callbacks on ${backend}`, async () => {
+      const source = `
+        function inc(x) { return x + 1; }
+        print([1, 2].map((x) => { return x + 1; }));
+        print([1, 2].map((x: number) => x + 1));
+        print([1, 2].map(inc));
+        print([1, 2].map((x, i) => x * 10 + i));
+        print([1, 2, 3].filter((x) => { return x > 1; }));
+      `;
+      expect(await run(source, { backend, typecheck: true })).toEqual({
+        output: ["[ 2, 3 ]", "[ 2, 3 ]", "[ 2, 3 ]", "[ 10, 21 ]", "[ 2, 3 ]"],
+      });
+    });
+
+    test(`check declared parameter types on ${backend}`, async () => {
+      const source = `
+        let f = (x: number) => { return x; };
+        print(f(1));
+        f("a");
+      `;
+      expect(await run(source, { backend })).toEqual({
+        output: ["1"],
+        error:
+          "ARGUMENT_TYPE: Parameter 'x' of 'function' expected number, " +
+          "got string",
+      });
+    });
+  }
+});
@@ -0,0 +1,47 @@
+import { expect, test } from "bun:test";
+import {
+  Interpreter,
+  Jit,
+  Optimizer,
+  Profiler,
+  forEachNode,
+  parse,
+} from "../src/index";
+
+const source = `
+  function sum(n) {
+    let s = 0;
+    for (let i = 0; i < n; i = i + 1) { s = s + i; }
+    return s;
+  }
+  for (let k = 0; k < 50; k = k + 1) { sum(3); }
+`;
+
+function hits(profiler: Profiler, name: string): number | undefined {
+  return profiler.nodes().find((entry) => entry.name === name)?.hits;
+}
+
+test("the profiler sees every run of code the JIT would compile", () => {
+  const interpreter = new Interpreter(parse(source), {
+    jit: new Jit({ threshold: 5 }),
+    optimizer: new Optimizer(),
+  });
+  const profiler = new Profiler(interpreter);
+  interpreter.execute();
+  expect(hits(profiler, "ForNode")).toBe(51);
+  expect(profiler.functions()[0]!.hits).toBe(50);
+});
+
+test("dispose removes the profiler from the program", () => {
+  const interpreter = new Interpreter(parse(source));
+  const profiler = new Profiler(interpreter);
+  interpreter.execute();
+  profiler.dispose();
+  interpreter.execute();
+  expect(hits(profiler, "ForNode")).toBe(51);
+  expect(profiler.functions()[0]!.hits).toBe(50);
+  forEachNode(interpreter.nodes, (node) => {
+    expect(Object.hasOwn(node, "execute")).toBe(false);
+    expect(Object.hasOwn(node, "toFunction")).toBe(false);
+  });
+});
@@ -0,0 +1,295 @@
+// Programs every backend must run alike: the same output and the same
+// error. The keys name what each one exercises.
+export const programs: Record<string, string> = {
+  arithmetic: `
+    let x = 1;
+    let y = x + 2;
+    print(y * 3, y - 1, y / 2, 7 // 2, 2 ^ 10);
+  `,
+  "comparison and logic": `
+    print(1 == 1, 1 !== 2, 2 < 3, 3 <= 3, 4 > 5, 5 >= 5);
+    print(true && false, true || false);
+  `,
+  "string concatenation": `print("a" >< 1, "a" >< "b" >< 3 >< null);`,
+  "negative zero and infinities": `
+    print(0, -0);
+    print(0, 1 / -0, 1 / 0, 0 / 0);
+  `,
+  "array concatenation": `print([1, 2] concat [3]);`,
+  "bad concat operands": `print(1 concat 2);`,
+  recursion: `
+    function fib(n: number): number {
+      if (n < 2) { return n; }
+      return fib(n - 1) + fib(n - 2);
+    }
+    print(fib(15));
+  `,
+  "for with break and continue": `
+    let s = 0;
+    for (let i = 0; i < 100; i = i + 1) {
+      if (i == 50) { break; }
+      if (i // 2 * 2 == i) { continue; }
+      s = s + i;
+    }
+    print(s);
+  `,
+  "while with break and continue": `
+    let i = 0;
+    while (i < 5) {
+      i = i + 1;
+      if (i == 2) { continue; }
+      print(i);
+      if (i == 4) { break; }
+    }
+  `,
+  "do while": `
+    let s = 0;
+    let i = 0;
+    do {
+      i = i + 1;
+      if (i == 2) { continue; }
+      s = s + i;
+    } while (i < 4);
+    print(s);
+  `,
+  "for of": `for (x of [1, 2, 3]) { if (x == 2) { continue; } print(x); }`,
+  "for of a number": `for (x of 5) { print(x); }`,
+  "nested loops": `
+    let total = 0;
+    for (let i = 0; i < 10; i = i + 1) {
+      for (let j = 0; j < 10; j = j + 1) {
+        if (j == 3) { break; }
+        total = total + 1;
+      }
+    }
+    print(total);
+  `,
+  "closures capture each iteration": `
+    let fns = [];
+    for (x of [1, 2, 3]) { fns.push(() => x); }
+    for (let i = 0; i < 3; i = i + 1) { let j = i; fns.push(() => j); }
+    print(fns.map((f) => f()));
+  `,
+  "closure state": `
+    function counter() {
+      let c = 0;
+      return () => { c = c + 1; return c; };
+    }
+    let c1 = counter();
+    c1();
+    let c2 = counter();
+    print(c1(), c2());
+  `,
+  "late-bound captures": `
+    function make() {
+      let n = 10;
+      function inner(k) { return n + k; }
+      n = 20;
+      return inner;
+    }
+    let g = make();
+    print(g(1));
+    function outer() { function get() { return v; } let v = 3; return get(); }
+    print(outer());
+  `,
+  "assignment to an outer variable": `
+    let z = 1;
+    function setZ() { z = 2; }
+    setZ();
+    print(z);
+  `,
+  "block scopes": `
+    let x = 1;
+    { let x = 2; print(x); }
+    print(x);
+    { let q = 1; }
+    print(q);
+  `,
+  "objects and arrays": `
+    let o = { a: 1, b: { c: [1, 2, 3] } };
+    print(o.b.c[1], o["a"]);
+    o.a = 5;
+    let a = [1, 2, 3];
+    a[0] = 10;
+    print(o.a, a, a.length(), a.pop(), a);
+  `,
+  "string methods": `
+    print("Hello".toUpperCase(), "abc".length(), "12".parseInt());
+  `,
+  "switch falls through": `
+    switch (3) {
+      case 1: print("one");
+      case 3: print("three");
+      default: print("d");
+    }
+  `,
+  "break in switch": `
+    for (x of [1, 2, 3]) {
+      switch (x) {
+        case 1: print("one"); break;
+        default: print("other");
+      }
+      print("after", x);
+    }
+    let total = 0;
+    for (x of [1, 2, 3]) {
+      switch (x) {
+        case 2: continue;
+        default: total = total + x;
+      }
+    }
+    print(total);
+  `,
+  "return from switch": `
+    function f(x) {
+      switch (x) { case 1: return "one"; default: return "many"; }
+    }
+    print(f(1), f(2));
+  `,
+  "try and catch": `
+    try { throw "boom"; } catch (e) { print(e.message, e.code); }
+    function f(x) {
+      try { if (x) { throw "in f"; } return 1; } catch (e) { return 2; }
+    }
+    print(f(true), f(false));
+  `,
+  "continue inside try": `
+    let r = 0;
+    for (let i = 0; i < 3; i = i + 1) {
+      try { if (i == 1) { continue; } r = r + i; } catch (e) {}
+    }
+    print(r);
+  `,
+  "uncaught error in a call": `
+    function f(n) { if (n == 0) { throw "deep"; } return f(n - 1); }
+    f(3);
+  `,
+  "non-boolean condition": `if (1) { print("x"); }`,
+  "argument type": `function f(x: number): number { return x; } f("a");`,
+  "return type": `function f(x: number): number { return "s"; } f(1);`,
+  "argument count": `function f(a, b) { return a; } f(1);`,
+  "declared variable type": `let x: number = "a";`,
+  "undefined function": `undefinedFn(1);`,
+  "calling a number": `let v = 3; v(1);`,
+  "property of null": `let n = null; print(n.x);`,
+  "method on null": `let n = null; n.foo();`,
+  "built-ins": `print(sqrt(16), abs(-2), floor(2.5), ceil(2.5), typeOf([1]));`,
+  "arrows take any number of arguments": `
+    let f = (a, b) => a;
+    let g = (a) => { return a; };
+    print(f(1), f(1, 2, 3), g(), g(1, 2));
+  `,
+  "typed arrow parameters": `
+    let f = (x: number) => x + 1;
+    print(f(1));
+    f("a");
+  `,
+  "map and filter callbacks": `
+    function inc(x) { return x + 1; }
+    print([1, 2, 3, 4].filter((x) => x > 2).map((x) => x * 10));
+    print([1, 2].map(inc), [1, 2].map((x, i) => x + i));
+    print([1, 2].map((x) => { let y = x * 2; return y; }));
+  `,
+  "function expressions": `
+    function f(g) { return g(2); }
+    print(f(function (x) { return x * 3; }));
+  `,
+  pointers: `
+    let x = 1;
+    let p = &x;
+    *p = 5;
+    print(x, *p);
+    let arr = [1, 2];
+    let pa = &arr[1];
+    *pa = 7;
+    let o = { a: 1 };
+    let po = &o.a;
+    *po = 3;
+    print(arr, o.a);
+    function f() { let y = 1; let q = &y; *q = 9; return y; }
+    print(f());
+  `,
+  "dereferencing a non-pointer": `let x = 3; print(*x);`,
+  "pure functions are memoised": `
+    pure function sq(x) { print("calc", x); return x * x; }
+    print(sq(3), sq(3), sq(4));
+  `,
+  classes: `
+    class P {
+      x: number = 1;
+      constructor(x: number) { this.x = x; }
+      get(): number { return this.x; }
+    }
+    let p = new P(5);
+    print(p.get(), p.x, p is P);
+  `,
+  "class inheritance": `
+    class B {
+      constructor(n) { this.n = n; }
+      hello() { return "B" >< this.n; }
+    }
+    class C extends B {
+      constructor(n) { super(n * 2); }
+      hello() { return "C:" >< super.hello(); }
+    }
+    let c = new C(2);
+    print(c.hello(), c is B, c is C);
+  `,
+  "static members": `
+    class Counter {
+      static n = 1;
+      static inc() { this.n = this.n + 1; return this.n; }
+    }
+    print(Counter.inc(), Counter.inc());
+  `,
+  "match with guards": `
+    let v = 2;
+    print(match (v) {
+      1 => "one",
+      n: number if (n > 1) => "big " >< n,
+      _ => "other"
+    });
+  `,
+  "match destructuring": `
+    print(match ([1, [2, 3]]) { [a, [b, ...rest]] => a + b, _ => 0 });
+    let o = { kind: "circle", r: 2 };
+    print(match (o) { { kind: "circle", r: n } => n * n * 3, _ => 0 });
+  `,
+  "match with block arms": `
+    function f(v) {
+      match (v) { 1 => { return "one"; }, _ => { return "other"; } }
+    }
+    print(f(1), f(2));
+    let t = 0;
+    for (let i = 0; i < 5; i = i + 1) {
+      match (i) { 2 => { break; }, _ => { t = t + i; } }
+    }
+    print(t);
+  `,
+  "match without a matching arm": `print(match (3) { 1 => "a" });`,
+  "type tests and casts": `
+    type N = number;
+    let a: N = 1;
+    print(a is number, a is string, (a as number) + 1);
+    let s: any = "s";
+    let b = s as number;
+  `,
+  "circular type aliases": `
+    print("before");
+    type A = B;
+    type B = A;
+    print("after");
+  `,
+  "async functions": `
+    async function f(x) { return x + 1; }
+    async function g() { let v = await f(1); print(v); return v * 2; }
+    print(await g());
+    let h = async (x) => { let y = await f(x); return y * 10; };
+    print(await h(1));
+  `,
+  "async errors": `
+    async function f() { throw "rejected"; }
+    try { await f(); } catch (e) { print("caught", e.message); }
+    await f();
+  `,
+};
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CallDepthError,
+  CapabilityError,
+  Interpreter,
+  MemoryResolver,
+  ModuleRegistry,
+  StdlibResolver,
+  StepLimitError,
+  parse,
+} from "../src/index";
+import type { SandboxOptions } from "../src/index";
+
+function runSandboxed(source: string, sandbox: SandboxOptions) {
+  const modules = new ModuleRegistry([new StdlibResolver()]);
+  return new Interpreter(parse(source), { modules, sandbox }).execute();
+}
+
+describe("sandbox", () => {
+  test("limits recursion through direct calls", () => {
+    const source = "function f(n) { return f(n + 1); } f(0);";
+    expect(() => runSandboxed(source, { maxCallDepth: 50 })).toThrow(
+      CallDepthError
+    );
+  });
+
+  test("limits recursion through callbacks the host calls", () => {
+    const source = "let a = [1]; let f = (x) => a.map(f); f(0);";
+    expect(() => runSandboxed(source, { maxCallDepth: 50 })).toThrow(
+      CallDepthError
+    );
+  });
+
+  test("gates standard library members by capability", () => {
+    const source = `import { now } from "date"; now();`;
+    expect(() => runSandboxed(source, {})).toThrow(CapabilityError);
+    const clock: SandboxOptions = { capabilities: ["clock"] };
+    expect(() => runSandboxed(source, clock)).not.toThrow();
+  });
+});
+
+describe("a registry shared by sandboxed and unsandboxed runs", () => {
+  const source = `import { now } from "date"; now();`;
+
+  for (const first of ["sandboxed", "unsandboxed"]) {
+    test(`keeps capabilities apart when the ${first} run is first`, () => {
+      const modules = new ModuleRegistry([new StdlibResolver()]);
+      const run = (sandbox?: SandboxOptions) =>
+        new Interpreter(parse(source), { modules, sandbox }).execute();
+      if (first === "unsandboxed") expect(() => run()).not.toThrow();
+      expect(() => run({})).toThrow(CapabilityError);
+      expect(() => run()).not.toThrow();
+      expect(() => run({})).toThrow(CapabilityError);
+    });
+  }
+
+  test("runs a module's functions under the importing run's limits", () => {
+    const modules = new ModuleRegistry([
+      new MemoryResolver({
+        loop: parse("export function spin(n) { while (n > 0) n = n - 1; }"),
+      }),
+    ]);
+    const run = (sandbox?: SandboxOptions) =>
+      new Interpreter(parse(`import { spin } from "loop"; spin(1000);`), {
+        modules,
+        sandbox,
+      }).execute();
+    expect(() => run()).not.toThrow();
+    expect(() => run({ maxSteps: 100 })).toThrow(StepLimitError);
+    expect(() => run({ maxSteps: 100000 })).not.toThrow();
+  });
+});
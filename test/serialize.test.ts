@@ -0,0 +1,23 @@
+import { expect, test } from "bun:test";
+import { LiteralNode } from "../src/interpreter";
+import { ASTFormatError, deserializeAST, serializeAST } from "../src/serialize";
+
+// The value of a LiteralNode after a trip through JSON text.
+function roundTrip(value: any): any {
+  const json = JSON.stringify(serializeAST([new LiteralNode(value)]));
+  return (deserializeAST(json)[0] as LiteralNode).value;
+}
+
+test("numbers JSON cannot hold survive serialization", () => {
+  for (const value of [-0, 0, NaN, Infinity, -Infinity, 1.5]) {
+    expect(Object.is(roundTrip(value), value)).toBe(true);
+  }
+  expect(Object.is(roundTrip([-0, { z: -0 }])[1].z, -0)).toBe(true);
+});
+
+test("-0 is written as a tagged number", () => {
+  const json = serializeAST([new LiteralNode(-0)]) as any;
+  expect(JSON.stringify(json)).toContain(`{"$kind":"number","value":"-0"}`);
+  const bad = JSON.parse(JSON.stringify(json).replace(`"-0"`, `"-1"`));
+  expect(() => deserializeAST(bad)).toThrow(ASTFormatError);
+});
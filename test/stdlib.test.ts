@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { ModuleRegistry, StdlibResolver } from "../src/index";
+import { run } from "./helpers";
+
+function runWithStdlib(source: string) {
+  const modules = new ModuleRegistry([new StdlibResolver()]);
+  return run(source, { modules, typecheck: true });
+}
+
+test("math.round rounds to 0 digits by default", async () => {
+  const source = `
+    import { round } from "math";
+    print(round(2.5), round(2.4), round(-2.5), round(0));
+  `;
+  expect(await runWithStdlib(source)).toEqual({
+    output: ["3 2 -3 0"],
+  });
+});
+
+test("math.round rounds decimal halves at any magnitude", async () => {
+  const source = `
+    import { round } from "math";
+    print(round(1.005, 2), round(10.075, 2), round(1234567.125, 2));
+    print(round(1e-17, 17), round(1.5e-20, 20), round(1e21, 2));
+    print(round(1250, -2), round(-1.005, 2));
+  `;
+  expect(await runWithStdlib(source)).toEqual({
+    output: [
+      "1.01 10.08 1234567.13",
+      "1e-17 2e-20 1e+21",
+      "1300 -1.01",
+    ],
+  });
+});
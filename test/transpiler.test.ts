@@ -0,0 +1,13 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "../src/parser";
+import { checkTranspiled } from "../src/transpiler";
+import { programs } from "./programs";
+
+describe("transpiled programs run like the interpreter", () => {
+  for (const [name, source] of Object.entries(programs)) {
+    test(name, async () => {
+      const { diff } = await checkTranspiled(parse(source));
+      expect(diff).toEqual([]);
+    });
+  }
+});
@@ -0,0 +1,37 @@
+import { expect, test } from "bun:test";
+import { isOfType } from "../src/index";
+import type { NamedType } from "../src/index";
+import { run } from "./helpers";
+
+const circular = {
+  "self-recursive": "type A = A; let x: A = 1;",
+  "mutually recursive": "type A = B; type B = A; let x: A = 1;",
+  "through a union": "type T = T | number; let x: T = 1;",
+};
+
+for (const [name, source] of Object.entries(circular)) {
+  test(`${name} aliases are rejected where they are defined`, async () => {
+    for (const backend of ["tree", "vm"] as const) {
+      const { error } = await run(source, { backend });
+      expect(error).toStartWith("CIRCULAR_TYPE:");
+    }
+    const { error } = await run(source, { typecheck: true });
+    expect(error).toContain("refers only to itself");
+  });
+}
+
+test("recursive aliases through a structure still match", async () => {
+  const source = `
+    type List = { next: List | null };
+    let l: List = { next: { next: null } };
+    print(l is List, 1 is List);
+  `;
+  expect(await run(source)).toEqual({ output: ["true false"] });
+});
+
+test("isOfType stops at an alias that comes back to itself", () => {
+  const loop: NamedType = { kind: "named", name: "Loop" };
+  loop.target = { kind: "union", types: [loop, "string"] };
+  expect(isOfType("s", loop)).toBe(true);
+  expect(isOfType(1, loop)).toBe(false);
+});
@@ -0,0 +1,13 @@
+import { expect, test } from "bun:test";
+import { MemoryFileSystem } from "../src/vfs";
+
+test("writing to the root is rejected as writing to a directory", () => {
+  const fs = new MemoryFileSystem({ "/a.txt": "a" });
+  for (const path of ["/", "", "/.", "/a/.."]) {
+    expect(() => fs.writeFile(path, "x")).toThrow(
+      expect.objectContaining({ code: "IS_A_DIRECTORY" })
+    );
+  }
+  expect(fs.snapshot()).toEqual({ "/a.txt": "a" });
+  expect(fs.listDir("/")).toEqual(["a.txt"]);
+});